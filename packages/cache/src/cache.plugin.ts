@@ -15,13 +15,15 @@ import { Serializer } from './cache/domain/services/serializer.service';
 import { InMemoryL2StoreAdapter } from './cache/infrastructure/adapters/in-memory-l2-store.adapter';
 import { L1MemoryStoreAdapter } from './cache/infrastructure/adapters/l1-memory-store.adapter';
 import { L2RedisStoreAdapter } from './cache/infrastructure/adapters/l2-redis-store.adapter';
+import { RedisL1ClientTrackingAdapter } from './cache/infrastructure/adapters/redis-l1-client-tracking.adapter';
+import { RedisL1InvalidationBusAdapter } from './cache/infrastructure/adapters/redis-l1-invalidation-bus.adapter';
 import { createNullRedisDriver } from './cache/infrastructure/adapters/null-redis-driver';
 import { CacheService } from './cache.service';
 import { EventInvalidationService } from './invalidation/application/services/event-invalidation.service';
 import { InvalidationRegistryService } from './invalidation/application/services/invalidation-registry.service';
 import { InvalidationRule } from './invalidation/domain/entities/invalidation-rule.entity';
 import { AMQPEventSourceAdapter } from './invalidation/infrastructure/adapters/amqp-event-source.adapter';
-import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, CACHE_SERVICE, DEFAULT_CACHE_CONFIG, INVALIDATION_REGISTRY, EVENT_INVALIDATION_SERVICE, INVALIDATION_RULES_INIT, L1_CACHE_STORE, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, SERIALIZER, LUA_SCRIPT_LOADER } from './shared/constants';
+import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, CACHE_SERVICE, DEFAULT_CACHE_CONFIG, INVALIDATION_REGISTRY, EVENT_INVALIDATION_SERVICE, INVALIDATION_RULES_INIT, L1_CACHE_STORE, L1_CLIENT_TRACKING, L1_INVALIDATION_BUS, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, SERIALIZER, LUA_SCRIPT_LOADER } from './shared/constants';
 import { CacheConfigError } from './shared/errors';
 import { CacheMode, ICachePluginOptions } from './shared/types';
 import { StampedeProtectionService } from './stampede/infrastructure/stampede-protection.service';
@@ -76,7 +78,7 @@ export class CachePlugin implements IRedisXPlugin {
     return {
       client: options.client,
       mode: options.mode ?? DEFAULT_CACHE_CONFIG.mode,
-      l1: { ...DEFAULT_CACHE_CONFIG.l1, ...options.l1 },
+      l1: { ...DEFAULT_CACHE_CONFIG.l1, ...options.l1, invalidationBus: { ...DEFAULT_CACHE_CONFIG.l1.invalidationBus, ...options.l1?.invalidationBus }, clientTracking: { ...DEFAULT_CACHE_CONFIG.l1.clientTracking, ...options.l1?.clientTracking } },
       l2: { ...DEFAULT_CACHE_CONFIG.l2, ...options.l2 },
       stampede: { ...DEFAULT_CACHE_CONFIG.stampede, ...options.stampede },
       swr: { ...DEFAULT_CACHE_CONFIG.swr, ...options.swr },
@@ -188,7 +190,10 @@ export class CachePlugin implements IRedisXPlugin {
         useClass: SwrManagerService,
       },
 
-      // Lua script loader is Redis-only; not wired in l1-only.
+      // Lua script loader, the cross-instance L1 invalidation bus and L1
+      // client-side caching are Redis-only; not wired in l1-only. The bus and
+      // tracking stay idle unless l1.invalidationBus / l1.clientTracking are
+      // enabled.
       ...(l1Only
         ? []
         : [
@@ -196,6 +201,14 @@ export class CachePlugin implements IRedisXPlugin {
               provide: LUA_SCRIPT_LOADER,
               useClass: LuaScriptLoader,
             },
+            {
+              provide: L1_INVALIDATION_BUS,
+              useClass: RedisL1InvalidationBusAdapter,
+            },
+            {
+              provide: L1_CLIENT_TRACKING,
+              useClass: RedisL1ClientTrackingAdapter,
+            },
           ]),
 
       // Invalidation services
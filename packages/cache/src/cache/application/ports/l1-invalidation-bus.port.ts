@@ -0,0 +1,57 @@
+/**
+ * Cross-instance L1 invalidation bus interface.
+ */
+
+/**
+ * Kind of eviction carried by an invalidation message.
+ * - `'keys'` — explicit `delete` / `deleteMany`
+ * - `'tag'` — `invalidateTag` / `invalidateTags`
+ * - `'pattern'` — `invalidateByPattern`
+ * - `'clear'` — `clear` (drop the whole L1)
+ */
+export type L1InvalidationKind = 'keys' | 'tag' | 'pattern' | 'clear';
+
+/**
+ * Message broadcast over the invalidation channel.
+ *
+ * Tag and pattern evictions are resolved to concrete L1 keys on the origin
+ * instance BEFORE publishing: by the time a peer receives the message the tag
+ * index (or the L2 keys a pattern matched) is already gone, so a peer could
+ * not resolve them itself. `source` carries the tag/pattern for observability.
+ */
+export interface IL1InvalidationMessage {
+  /** Instance id of the publisher (used for origin suppression) */
+  origin: string;
+
+  /** Eviction kind */
+  kind: L1InvalidationKind;
+
+  /** L1 keys to drop (empty for `'clear'`) */
+  keys: string[];
+
+  /** Tag or pattern that produced the eviction (tag / pattern kinds only) */
+  source?: string;
+}
+
+export interface IL1InvalidationBus {
+  /**
+   * Unique id of this instance. Messages carrying it are ignored on receipt.
+   */
+  readonly instanceId: string;
+
+  /**
+   * Whether the bus is active (enabled and connected).
+   */
+  isEnabled(): boolean;
+
+  /**
+   * Broadcasts an L1 eviction to every other instance.
+   * Fail-open: publish errors are logged, never thrown — the local eviction
+   * has already happened and peers fall back to their `l1.ttl`.
+   *
+   * @param kind - Eviction kind
+   * @param keys - L1 keys (without the L2 prefix)
+   * @param source - Tag or pattern that produced the eviction
+   */
+  publish(kind: L1InvalidationKind, keys: string[], source?: string): Promise<void>;
+}
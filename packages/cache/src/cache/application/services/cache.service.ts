@@ -6,7 +6,7 @@
 import { Injectable, Inject, Logger, Optional } from '@nestjs/common';
 import { IRedisDriver, ErrorCode } from '@nestjs-redisx/core';
 
-import { CACHE_REDIS_DRIVER, L1_CACHE_STORE, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, CACHE_PLUGIN_OPTIONS } from '../../../shared/constants';
+import { CACHE_REDIS_DRIVER, L1_CACHE_STORE, L1_INVALIDATION_BUS, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, CACHE_PLUGIN_OPTIONS } from '../../../shared/constants';
 import { CacheError, CacheKeyError, StampedeError } from '../../../shared/errors';
 import { validateStaleIfError } from '../../../shared/utils/validate-stale-if-error';
 import { CacheSetOptions, CacheGetOrSetOptions, CacheStats, ICachePluginOptions } from '../../../shared/types';
@@ -20,6 +20,7 @@ import { Tags } from '../../domain/value-objects/tags.vo';
 import { TTL } from '../../domain/value-objects/ttl.vo';
 import { ICacheService } from '../ports/cache-service.port';
 import { IL1CacheStore } from '../ports/l1-cache-store.port';
+import { IL1InvalidationBus } from '../ports/l1-invalidation-bus.port';
 import { IL2CacheStore } from '../ports/l2-cache-store.port';
 
 // Optional metrics integration
@@ -70,6 +71,7 @@ export class CacheService implements ICacheService {
     @Inject(CACHE_PLUGIN_OPTIONS) private readonly options: ICachePluginOptions,
     @Optional() @Inject(METRICS_SERVICE) private readonly metrics?: IMetricsService,
     @Optional() @Inject(TRACING_SERVICE) private readonly tracing?: ITracingService,
+    @Optional() @Inject(L1_INVALIDATION_BUS) private readonly l1Bus?: IL1InvalidationBus,
   ) {
     this.l1Enabled = options.l1?.enabled ?? true;
     this.l2Enabled = options.l2?.enabled ?? true;
@@ -455,6 +457,11 @@ export class CacheService implements ICacheService {
         deleted = deleted || l2Deleted;
       }
 
+      // Only once L2 is gone, or other instances could re-populate L1 from it
+      if (this.l1Enabled) {
+        await this.l1Bus?.publish('keys', [enrichedKey]);
+      }
+
       return deleted;
     } catch (error) {
       // CacheKeyError will be thrown as-is
@@ -534,6 +541,10 @@ export class CacheService implements ICacheService {
         }
       }
 
+      if (this.l1Enabled) {
+        await this.l1Bus?.publish('keys', normalizedKeys);
+      }
+
       return deleted.filter(Boolean).length;
     } catch (error) {
       throw new CacheError(`Failed to delete multiple keys: ${(error as Error).message}`, ErrorCode.CACHE_DELETE_FAILED, error as Error);
@@ -553,6 +564,10 @@ export class CacheService implements ICacheService {
       if (this.tagsEnabled) {
         await this.tagIndex.clearAllTags();
       }
+
+      if (this.l1Enabled) {
+        await this.l1Bus?.publish('clear', []);
+      }
     } catch (error) {
       throw new CacheError(`Failed to clear cache: ${(error as Error).message}`, ErrorCode.CACHE_CLEAR_FAILED, error as Error);
     }
@@ -593,13 +608,19 @@ export class CacheService implements ICacheService {
       const keysWithPrefix = await this.tagIndex.getKeysByTag(tag);
 
       // Delete from L1 (needs keys without prefix)
+      const keysWithoutPrefix = keysWithPrefix.map((key) => (key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key));
       if (this.l1Enabled) {
-        const keysWithoutPrefix = keysWithPrefix.map((key) => (key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key));
         await Promise.all(keysWithoutPrefix.map((key) => this.l1Store.delete(key)));
       }
 
       // Delete from L2 and tag index (handled by tagIndex.invalidateTag)
-      return await this.tagIndex.invalidateTag(tag);
+      const invalidated = await this.tagIndex.invalidateTag(tag);
+
+      if (this.l1Enabled) {
+        await this.l1Bus?.publish('tag', keysWithoutPrefix, tag);
+      }
+
+      return invalidated;
     } catch (error) {
       // Preserve the specific error type (e.g. TagInvalidationError) so callers
       // can catch it by type; only wrap genuinely unexpected errors.
@@ -795,8 +816,8 @@ export class CacheService implements ICacheService {
       }
 
       // Delete from L1
+      const keysWithoutPrefix = keys.map((key) => (key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key));
       if (this.l1Enabled) {
-        const keysWithoutPrefix = keys.map((key) => (key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key));
         await Promise.all(keysWithoutPrefix.map((key) => this.l1Store.delete(key)));
       }
 
@@ -809,6 +830,10 @@ export class CacheService implements ICacheService {
         }
       }
 
+      if (this.l1Enabled) {
+        await this.l1Bus?.publish('pattern', keysWithoutPrefix, pattern);
+      }
+
       return deleted;
     } catch (error) {
       throw new CacheError(`Failed to invalidate by pattern "${pattern}": ${(error as Error).message}`, ErrorCode.CACHE_DELETE_FAILED, error as Error);
@@ -0,0 +1,183 @@
+/**
+ * Redis server-assisted client-side caching (CLIENT TRACKING) for L1.
+ *
+ * With `l1.clientTracking.enabled`, the server tells us when a cached key
+ * changes, so L1 entries are evicted on write instead of living until
+ * `l1.ttl` runs out. Tracking is registered on the cache client (the
+ * connection `L2RedisStoreAdapter` reads through) with REDIRECT to a
+ * DEDICATED connection (`<client>:cache-l1-tracking`) subscribed to
+ * `__redis__:invalidate` — this works over RESP2 on both drivers.
+ *
+ * - `'broadcast'` (BCAST): every write to a key under the tracked prefixes
+ *   is reported, whoever cached it. Default.
+ * - `'default'`: only keys this connection has READ are reported; entries
+ *   that reached L1 through `set()` without an L2 read are not tracked.
+ *
+ * Own writes are not reported (NOLOOP) — the local L1 is already updated.
+ * When tracking cannot be enabled (Redis < 6, cluster topologies, custom
+ * drivers without tracking support) the adapter logs a warning and L1 keeps
+ * plain `l1.ttl` expiry. After either connection reconnects, L1 is cleared
+ * (invalidations may have been missed) and tracking is registered again.
+ */
+
+import { Injectable, Inject, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { IRedisDriver, DriverEvent, DriverType, CLIENT_MANAGER, RedisClientManager, TRACKING_INVALIDATION_CHANNEL } from '@nestjs-redisx/core';
+
+import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, DEFAULT_CACHE_CONFIG, L1_CACHE_STORE } from '../../../shared/constants';
+import { ICachePluginOptions } from '../../../shared/types';
+import { IL1CacheStore } from '../../application/ports/l1-cache-store.port';
+
+@Injectable()
+export class RedisL1ClientTrackingAdapter implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisL1ClientTrackingAdapter.name);
+  private readonly enabled: boolean;
+  private readonly bcast: boolean;
+  private listener: IRedisDriver | null = null;
+  private active = false;
+
+  /** Raw Redis key prefix of cache entries (connection keyPrefix + l2.keyPrefix). */
+  private keyPrefix = '';
+
+  private readonly onInvalidate = (...args: unknown[]): void => {
+    void this.handleInvalidation(args[0] as string[] | null);
+  };
+
+  private readonly onReconnect = (): void => {
+    void this.resync();
+  };
+
+  constructor(
+    @Inject(CACHE_REDIS_DRIVER) private readonly tracked: IRedisDriver,
+    @Inject(CLIENT_MANAGER) private readonly manager: RedisClientManager,
+    @Inject(L1_CACHE_STORE) private readonly l1Store: IL1CacheStore,
+    @Inject(CACHE_PLUGIN_OPTIONS) private readonly options: ICachePluginOptions,
+  ) {
+    this.enabled = (options.l1?.enabled ?? true) && (options.l1?.clientTracking?.enabled ?? false);
+    this.bcast = (options.l1?.clientTracking?.mode ?? DEFAULT_CACHE_CONFIG.l1.clientTracking.mode) === 'broadcast';
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    if (typeof this.tracked.enableTracking !== 'function' || typeof this.tracked.clientId !== 'function') {
+      this.logger.warn('Redis driver does not support client-side caching; L1 falls back to l1.ttl expiry');
+      return;
+    }
+
+    const clientName = this.options.client ?? 'default';
+    const listenerName = `${clientName}:cache-l1-tracking`;
+
+    try {
+      // Clone connection config AND driver type from the cache client.
+      const { config, driverType } = this.manager.getMetadata(clientName);
+      this.keyPrefix = `${config.keyPrefix ?? ''}${this.options.l2?.keyPrefix ?? DEFAULT_CACHE_CONFIG.l2.keyPrefix}`;
+      if (!this.manager.hasClient(listenerName)) {
+        await this.manager.createClient(listenerName, config, { driverType: driverType as DriverType | undefined });
+      }
+
+      this.listener = await this.manager.getClient(listenerName);
+      this.listener.on(DriverEvent.INVALIDATE, this.onInvalidate);
+      await this.listener.subscribe(TRACKING_INVALIDATION_CHANNEL);
+
+      await this.register();
+    } catch (error) {
+      this.logger.warn(`Client-side caching unavailable, L1 falls back to l1.ttl expiry: ${(error as Error).message}`);
+      await this.teardown();
+      return;
+    }
+
+    this.tracked.on(DriverEvent.READY, this.onReconnect);
+    this.listener?.on(DriverEvent.READY, this.onReconnect);
+
+    this.logger.log(`L1 client-side caching enabled (${this.bcast ? 'broadcast' : 'default'} mode, redirect to "${listenerName}")`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.listener) {
+      return;
+    }
+
+    this.tracked.off(DriverEvent.READY, this.onReconnect);
+    this.listener.off(DriverEvent.READY, this.onReconnect);
+    if (this.active) {
+      this.active = false;
+      await this.tracked.disableTracking?.().catch((err: Error) => {
+        this.logger.warn(`Failed to disable client tracking on shutdown: ${err.message}`);
+      });
+    }
+    await this.teardown();
+  }
+
+  /**
+   * Whether server-assisted invalidation is currently registered.
+   * False means L1 relies on `l1.ttl` alone.
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Registers tracking on the cache client, redirected to the listener.
+   * The listener's id changes on every reconnect, so this runs again then.
+   */
+  private async register(): Promise<void> {
+    const { listener, tracked } = this;
+    if (!listener?.clientId || !tracked.enableTracking) {
+      throw new Error('Redis driver does not support client-side caching');
+    }
+
+    const redirect = await listener.clientId();
+    const prefixes = this.options.l1?.clientTracking?.prefixes ?? [this.keyPrefix];
+    await tracked.enableTracking({ redirect, bcast: this.bcast, prefixes: this.bcast ? prefixes : undefined, noLoop: true });
+    this.active = true;
+  }
+
+  /**
+   * Either connection came back: invalidations sent while it was down are
+   * lost, so drop L1 and register tracking again.
+   */
+  private async resync(): Promise<void> {
+    this.active = false;
+    try {
+      await this.l1Store.clear();
+      await this.register();
+      this.logger.debug('Re-registered L1 client tracking after reconnect');
+    } catch (error) {
+      this.logger.warn(`Failed to re-register client tracking, L1 falls back to l1.ttl expiry: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Applies a server invalidation to the local L1.
+   * `null` means the server flushed its keyspace; keys outside the cache
+   * prefix are ignored.
+   */
+  private async handleInvalidation(keys: string[] | null): Promise<void> {
+    try {
+      if (keys === null) {
+        await this.l1Store.clear();
+        return;
+      }
+
+      const l1Keys = keys.filter((key) => key.startsWith(this.keyPrefix)).map((key) => key.slice(this.keyPrefix.length));
+      await Promise.all(l1Keys.map((key) => this.l1Store.delete(key)));
+    } catch (error) {
+      this.logger.warn(`Failed to apply client-side caching invalidation: ${(error as Error).message}`);
+    }
+  }
+
+  private async teardown(): Promise<void> {
+    const listener = this.listener;
+    this.listener = null;
+    if (!listener) {
+      return;
+    }
+
+    listener.off(DriverEvent.INVALIDATE, this.onInvalidate);
+    await listener.unsubscribe(TRACKING_INVALIDATION_CHANNEL).catch((err: Error) => {
+      this.logger.warn(`Failed to unsubscribe client tracking channel: ${err.message}`);
+    });
+  }
+}
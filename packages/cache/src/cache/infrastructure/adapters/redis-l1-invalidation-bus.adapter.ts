@@ -0,0 +1,139 @@
+/**
+ * Cross-instance L1 invalidation bus over Redis Pub/Sub.
+ *
+ * Every instance keeps its own L1, so an eviction on one replica (delete, tag
+ * or pattern invalidation, clear) would leave every other replica serving the
+ * stale value until its `l1.ttl` runs out. When `l1.invalidationBus.enabled`
+ * is set, evictions are broadcast on a channel and each peer drops the same
+ * entries from its L1. Messages from this instance are ignored on receipt.
+ *
+ * Subscriptions live on a DEDICATED connection (`<client>:cache-l1-invalidation`)
+ * cloned from the cache client — a Redis connection in subscriber mode cannot
+ * execute regular commands. Publishing goes through the cache client itself.
+ */
+
+import { Injectable, Inject, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { IRedisDriver, DriverEvent, DriverType, CLIENT_MANAGER, RedisClientManager } from '@nestjs-redisx/core';
+
+import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, DEFAULT_CACHE_CONFIG, L1_CACHE_STORE } from '../../../shared/constants';
+import { ICachePluginOptions } from '../../../shared/types';
+import { IL1CacheStore } from '../../application/ports/l1-cache-store.port';
+import { IL1InvalidationBus, IL1InvalidationMessage, L1InvalidationKind } from '../../application/ports/l1-invalidation-bus.port';
+
+const VALID_KINDS: readonly L1InvalidationKind[] = ['keys', 'tag', 'pattern', 'clear'];
+
+@Injectable()
+export class RedisL1InvalidationBusAdapter implements IL1InvalidationBus, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisL1InvalidationBusAdapter.name);
+  private readonly enabled: boolean;
+  private readonly channel: string;
+  private subscriber: IRedisDriver | null = null;
+
+  readonly instanceId = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+  constructor(
+    @Inject(CACHE_REDIS_DRIVER) private readonly publisher: IRedisDriver,
+    @Inject(CLIENT_MANAGER) private readonly manager: RedisClientManager,
+    @Inject(L1_CACHE_STORE) private readonly l1Store: IL1CacheStore,
+    @Inject(CACHE_PLUGIN_OPTIONS) private readonly options: ICachePluginOptions,
+  ) {
+    this.enabled = (options.l1?.enabled ?? true) && (options.l1?.invalidationBus?.enabled ?? false);
+    this.channel = options.l1?.invalidationBus?.channel ?? DEFAULT_CACHE_CONFIG.l1.invalidationBus.channel;
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const clientName = this.options.client ?? 'default';
+    const subscriberName = `${clientName}:cache-l1-invalidation`;
+    if (!this.manager.hasClient(subscriberName)) {
+      // Clone connection config AND driver type from the cache client.
+      const { config, driverType } = this.manager.getMetadata(clientName);
+      await this.manager.createClient(subscriberName, config, { driverType: driverType as DriverType | undefined });
+    }
+
+    const subscriber = await this.manager.getClient(subscriberName);
+    subscriber.on(DriverEvent.MESSAGE, (...args: unknown[]) => {
+      const [channel, message] = args as [string, string];
+      if (channel === this.channel) {
+        void this.handleMessage(message);
+      }
+    });
+    await subscriber.subscribe(this.channel);
+    this.subscriber = subscriber;
+
+    this.logger.log(`L1 invalidation bus subscribed to "${this.channel}" (instance ${this.instanceId})`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    await subscriber.unsubscribe(this.channel).catch((err: Error) => {
+      this.logger.warn(`Failed to unsubscribe L1 invalidation channel on shutdown: ${err.message}`);
+    });
+  }
+
+  isEnabled(): boolean {
+    return this.subscriber !== null;
+  }
+
+  async publish(kind: L1InvalidationKind, keys: string[], source?: string): Promise<void> {
+    if (!this.isEnabled() || (kind !== 'clear' && keys.length === 0)) {
+      return;
+    }
+
+    const message: IL1InvalidationMessage = { origin: this.instanceId, kind, keys };
+    if (source !== undefined) {
+      message.source = source;
+    }
+
+    try {
+      await this.publisher.publish(this.channel, JSON.stringify(message));
+    } catch (error) {
+      // Fail-open: the local eviction already happened; peers fall back to l1.ttl.
+      this.logger.warn(`Failed to publish L1 invalidation (${kind}): ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Applies a peer's eviction to the local L1.
+   * Malformed payloads and our own messages are ignored.
+   */
+  private async handleMessage(raw: string): Promise<void> {
+    const message = this.parse(raw);
+    if (!message || message.origin === this.instanceId) {
+      return;
+    }
+
+    try {
+      if (message.kind === 'clear') {
+        await this.l1Store.clear();
+      } else {
+        await Promise.all(message.keys.map((key) => this.l1Store.delete(key)));
+      }
+      this.logger.debug(`Applied L1 invalidation (${message.kind}${message.source ? ` "${message.source}"` : ''}, ${message.keys.length} keys) from ${message.origin}`);
+    } catch (error) {
+      this.logger.warn(`Failed to apply L1 invalidation from ${message.origin}: ${(error as Error).message}`);
+    }
+  }
+
+  private parse(raw: string): IL1InvalidationMessage | null {
+    try {
+      const parsed = JSON.parse(raw) as Partial<IL1InvalidationMessage>;
+      if (typeof parsed.origin !== 'string' || !VALID_KINDS.includes(parsed.kind as L1InvalidationKind) || !Array.isArray(parsed.keys)) {
+        this.logger.warn('Ignoring malformed L1 invalidation message');
+        return null;
+      }
+      return parsed as IL1InvalidationMessage;
+    } catch {
+      this.logger.warn('Ignoring non-JSON L1 invalidation message');
+      return null;
+    }
+  }
+}
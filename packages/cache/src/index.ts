@@ -10,6 +10,7 @@ export { EventInvalidationService } from './invalidation/application/services/ev
 export type { ICacheService } from './cache/application/ports/cache-service.port';
 export type { IL1CacheStore } from './cache/application/ports/l1-cache-store.port';
 export type { IL2CacheStore } from './cache/application/ports/l2-cache-store.port';
+export type { IL1InvalidationBus, IL1InvalidationMessage, L1InvalidationKind } from './cache/application/ports/l1-invalidation-bus.port';
 export type { IStampedeProtection } from './stampede/application/ports/stampede-protection.port';
 export type { ITagIndex } from './tags/application/ports/tag-index.port';
 export type { ISwrManager } from './swr/application/ports/swr-manager.port';
@@ -51,7 +52,7 @@ export type { CacheMode, ICachePluginOptions, IContextProvider, IWarmupKey, Cach
 export { CacheError, CacheKeyError, CacheConfigError, SerializationError, LoaderError, StampedeError, TagInvalidationError } from './shared/errors';
 
 // Constants
-export { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, CACHE_SERVICE, L1_CACHE_STORE, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, SERIALIZER, LUA_SCRIPT_LOADER, INVALIDATION_REGISTRY, EVENT_INVALIDATION_SERVICE, AMQP_CONNECTION, CACHE_OPTIONS_KEY, INVALIDATE_TAGS_KEY, DEFAULT_CACHE_CONFIG } from './shared/constants';
+export { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, CACHE_SERVICE, L1_CACHE_STORE, L1_INVALIDATION_BUS, L1_CLIENT_TRACKING, L2_CACHE_STORE, STAMPEDE_PROTECTION, TAG_INDEX, SWR_MANAGER, SERIALIZER, LUA_SCRIPT_LOADER, INVALIDATION_REGISTRY, EVENT_INVALIDATION_SERVICE, AMQP_CONNECTION, CACHE_OPTIONS_KEY, INVALIDATE_TAGS_KEY, DEFAULT_CACHE_CONFIG } from './shared/constants';
 
 // Strategies
 export type { IEvictionStrategy } from './strategies';
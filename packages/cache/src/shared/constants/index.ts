@@ -17,6 +17,8 @@ export const SERIALIZER = Symbol.for('SERIALIZER');
 export const INVALIDATION_REGISTRY = Symbol.for('INVALIDATION_REGISTRY');
 export const EVENT_INVALIDATION_SERVICE = Symbol.for('EVENT_INVALIDATION_SERVICE');
 export const LUA_SCRIPT_LOADER = Symbol.for('LUA_SCRIPT_LOADER');
+export const L1_INVALIDATION_BUS = Symbol.for('L1_INVALIDATION_BUS');
+export const L1_CLIENT_TRACKING = Symbol.for('L1_CLIENT_TRACKING');
 export const INVALIDATION_RULES_INIT = Symbol.for('INVALIDATION_RULES_INIT');
 export const AMQP_CONNECTION = Symbol.for('AMQP_CONNECTION');
 
@@ -42,6 +44,14 @@ export const DEFAULT_CACHE_CONFIG = {
     maxSize: 1000,
     ttl: 60,
     evictionPolicy: 'lru' as const,
+    invalidationBus: {
+      enabled: false,
+      channel: 'redisx:cache:l1-invalidation',
+    },
+    clientTracking: {
+      enabled: false,
+      mode: 'broadcast' as const,
+    },
   },
   l2: {
     enabled: true,
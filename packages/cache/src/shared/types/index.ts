@@ -46,6 +46,34 @@ export interface ICachePluginOptions {
     maxSize?: number; // default: 1000
     ttl?: number; // default: 60 (seconds)
     evictionPolicy?: 'lru' | 'lfu'; // default: 'lru'
+    /**
+     * Cross-instance L1 invalidation over Redis Pub/Sub. When enabled, every
+     * `delete`, `deleteMany`, `invalidateTag(s)`, `invalidateByPattern` and
+     * `clear` is broadcast so the other instances drop the same L1 entries
+     * instead of serving them until `l1.ttl` runs out. Uses a dedicated
+     * subscriber connection; not available in `mode: 'l1-only'`.
+     */
+    invalidationBus?: {
+      enabled?: boolean; // default: false
+      channel?: string; // default: 'redisx:cache:l1-invalidation'
+    };
+    /**
+     * Redis server-assisted client-side caching (CLIENT TRACKING, Redis 6+).
+     * When enabled, the server reports writes to cached keys and L1 evicts
+     * them immediately; `l1.ttl` remains the upper bound and the only expiry
+     * when the server or topology does not support tracking (logged at
+     * startup). Uses a dedicated connection for invalidations; single-node
+     * and sentinel setups only, not available in `mode: 'l1-only'`.
+     */
+    clientTracking?: {
+      enabled?: boolean; // default: false
+      /**
+       * `'broadcast'` reports every write under `prefixes`; `'default'` only
+       * keys this instance has read from L2.
+       */
+      mode?: 'broadcast' | 'default'; // default: 'broadcast'
+      prefixes?: string[]; // default: [<connection keyPrefix><l2.keyPrefix>] (raw Redis keys, broadcast only)
+    };
   };
 
   /** L2 Redis cache config */
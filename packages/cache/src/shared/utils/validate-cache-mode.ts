@@ -40,6 +40,14 @@ export function validateCacheMode(options: ICachePluginOptions): void {
     throw new CacheConfigError('mode "l1-only" already serves the L2 tier from memory — l2.enabled:false is redundant and contradictory; remove it.');
   }
 
+  if (options.l1?.invalidationBus?.enabled === true) {
+    throw new CacheConfigError('mode "l1-only" is single-instance and has no Redis to broadcast on — remove l1.invalidationBus, or switch to mode "l1-l2".');
+  }
+
+  if (options.l1?.clientTracking?.enabled === true) {
+    throw new CacheConfigError('mode "l1-only" has no Redis server to track keys — remove l1.clientTracking, or switch to mode "l1-l2".');
+  }
+
   if (options.invalidation?.source === 'amqp') {
     throw new CacheConfigError('mode "l1-only" is single-instance and cannot reach an AMQP broker — use the default "internal" invalidation source, or switch to mode "l1-l2".');
   }
@@ -5,7 +5,7 @@ import { REDIS_DRIVER } from '@nestjs-redisx/core';
 import { CachePlugin } from '../../src/cache.plugin';
 import { InMemoryL2StoreAdapter } from '../../src/cache/infrastructure/adapters/in-memory-l2-store.adapter';
 import { L2RedisStoreAdapter } from '../../src/cache/infrastructure/adapters/l2-redis-store.adapter';
-import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, L2_CACHE_STORE, LUA_SCRIPT_LOADER, TAG_INDEX } from '../../src/shared/constants';
+import { CACHE_PLUGIN_OPTIONS, CACHE_REDIS_DRIVER, L1_INVALIDATION_BUS, L2_CACHE_STORE, LUA_SCRIPT_LOADER, TAG_INDEX } from '../../src/shared/constants';
 import { CacheConfigError } from '../../src/shared/errors';
 import type { CacheMode, ICachePluginOptions } from '../../src/shared/types';
 import { InMemoryTagIndexRepository } from '../../src/tags/infrastructure/repositories/in-memory-tag-index.repository';
@@ -28,6 +28,7 @@ describe('CachePlugin — l1-only wiring', () => {
     // Overrides the core REDIS_DRIVER alias so RedisModule does not eagerly connect.
     expect(byToken(providers, REDIS_DRIVER)).toHaveProperty('useValue');
     expect(byToken(providers, LUA_SCRIPT_LOADER)).toBeUndefined();
+    expect(byToken(providers, L1_INVALIDATION_BUS)).toBeUndefined();
   });
 
   it('keeps the Redis-backed providers in the default l1-l2 mode', () => {
@@ -41,6 +42,7 @@ describe('CachePlugin — l1-only wiring', () => {
     // Does NOT touch the core alias.
     expect(byToken(providers, REDIS_DRIVER)).toBeUndefined();
     expect(byToken(providers, LUA_SCRIPT_LOADER)).toBeDefined();
+    expect(byToken(providers, L1_INVALIDATION_BUS)).toBeDefined();
   });
 
   it('fails fast on an invalid mode at bootstrap', () => {
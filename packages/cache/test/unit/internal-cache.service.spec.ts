@@ -6,6 +6,7 @@ import type { IL2CacheStore } from '../../src/cache/application/ports/l2-cache-s
 import type { IStampedeProtection } from '../../src/stampede/application/ports/stampede-protection.port';
 import type { ITagIndex } from '../../src/tags/application/ports/tag-index.port';
 import type { ISwrManager } from '../../src/swr/application/ports/swr-manager.port';
+import type { IL1InvalidationBus } from '../../src/cache/application/ports/l1-invalidation-bus.port';
 import type { ICachePluginOptions } from '../../src/shared/types';
 import { CacheEntry } from '../../src/cache/domain/value-objects/cache-entry.vo';
 import { StampedeError, CacheError, TagInvalidationError } from '../../src/shared/errors';
@@ -1361,4 +1362,107 @@ describe('CacheService (Internal)', () => {
       expect(mockDriver.pipeline).not.toHaveBeenCalled();
     });
   });
+
+  describe('cross-instance L1 invalidation bus', () => {
+    let mockBus: MockedObject<IL1InvalidationBus>;
+    let busService: CacheService;
+
+    beforeEach(() => {
+      mockBus = {
+        instanceId: 'self',
+        isEnabled: vi.fn().mockReturnValue(true),
+        publish: vi.fn().mockResolvedValue(undefined),
+      } as unknown as MockedObject<IL1InvalidationBus>;
+      busService = new CacheService(mockDriver, mockL1Store, mockL2Store, mockStampede, mockTagIndex, mockSwrManager, options, undefined, undefined, mockBus);
+    });
+
+    it('broadcasts key evictions from delete and deleteMany', async () => {
+      // When
+      await busService.delete('user:1');
+      await busService.deleteMany(['user:2', 'user:3']);
+
+      // Then
+      expect(mockBus.publish).toHaveBeenCalledWith('keys', ['user:1']);
+      expect(mockBus.publish).toHaveBeenCalledWith('keys', ['user:2', 'user:3']);
+    });
+
+    it('broadcasts tag invalidation resolved to L1 keys (without the L2 prefix)', async () => {
+      // Given
+      mockTagIndex.getKeysByTag.mockResolvedValue(['cache:user:1', 'cache:user:2']);
+      mockTagIndex.invalidateTag.mockResolvedValue(2);
+
+      // When
+      await busService.invalidateTag('users');
+
+      // Then
+      expect(mockBus.publish).toHaveBeenCalledWith('tag', ['user:1', 'user:2'], 'users');
+    });
+
+    it('broadcasts pattern invalidation resolved to L1 keys', async () => {
+      // Given
+      const scan = vi.fn().mockResolvedValue({ keys: ['user:1'], cursor: '0' });
+      (mockL2Store as unknown as { scan: typeof scan }).scan = scan;
+
+      // When
+      await busService.invalidateByPattern('user:*');
+
+      // Then
+      expect(mockBus.publish).toHaveBeenCalledWith('pattern', ['user:1'], 'user:*');
+    });
+
+    it('broadcasts clear', async () => {
+      // When
+      await busService.clear();
+
+      // Then
+      expect(mockBus.publish).toHaveBeenCalledWith('clear', []);
+    });
+
+    it('broadcasts only after the L2 deletion completes', async () => {
+      // Given
+      const pipeline = { del: vi.fn(), exec: vi.fn().mockResolvedValue([]) };
+      mockDriver.pipeline.mockReturnValue(pipeline as never);
+      mockTagIndex.getKeysByTag.mockResolvedValue(['cache:user:1']);
+      const scan = vi.fn().mockResolvedValue({ keys: ['cache:user:1'], cursor: '0' });
+      (mockL2Store as unknown as { scan: typeof scan }).scan = scan;
+      const expectPublishedAfter = (deletion: { mock: { invocationCallOrder: number[] } }): void => {
+        expect(mockBus.publish.mock.invocationCallOrder.at(-1)).toBeGreaterThan(deletion.mock.invocationCallOrder.at(-1)!);
+      };
+
+      // When / Then — otherwise another instance could refill its L1 from the stale L2 entry
+      await busService.delete('user:1');
+      expectPublishedAfter(mockL2Store.delete);
+      await busService.deleteMany(['user:2']);
+      expectPublishedAfter(pipeline.exec);
+      await busService.invalidateTag('users');
+      expectPublishedAfter(mockTagIndex.invalidateTag);
+      await busService.invalidateByPattern('user:*');
+      expectPublishedAfter(mockL2Store.delete);
+      await busService.clear();
+      expectPublishedAfter(mockTagIndex.clearAllTags);
+      expect(mockBus.publish).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not broadcast when the L2 deletion fails', async () => {
+      // Given
+      mockL2Store.delete.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      await expect(busService.delete('user:1')).rejects.toThrow(CacheError);
+
+      // Then
+      expect(mockBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('does not broadcast when L1 is disabled', async () => {
+      // Given
+      const noL1 = new CacheService(mockDriver, mockL1Store, mockL2Store, mockStampede, mockTagIndex, mockSwrManager, { ...options, l1: { enabled: false } }, undefined, undefined, mockBus);
+
+      // When
+      await noL1.delete('user:1');
+
+      // Then
+      expect(mockBus.publish).not.toHaveBeenCalled();
+    });
+  });
 });
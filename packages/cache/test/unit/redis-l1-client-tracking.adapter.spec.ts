@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { DriverEvent, TRACKING_INVALIDATION_CHANNEL, type IRedisDriver, type RedisClientManager } from '@nestjs-redisx/core';
+
+import { RedisL1ClientTrackingAdapter } from '../../src/cache/infrastructure/adapters/redis-l1-client-tracking.adapter';
+import type { IL1CacheStore } from '../../src/cache/application/ports/l1-cache-store.port';
+import type { ICachePluginOptions } from '../../src/shared/types';
+
+describe('RedisL1ClientTrackingAdapter', () => {
+  let tracked: MockedObject<IRedisDriver>;
+  let listener: MockedObject<IRedisDriver>;
+  let manager: MockedObject<RedisClientManager>;
+  let l1Store: MockedObject<IL1CacheStore>;
+  let onInvalidate: (keys: string[] | null) => void;
+  let onListenerReady: () => void;
+
+  const enabledOptions: ICachePluginOptions = { l1: { clientTracking: { enabled: true } }, l2: { keyPrefix: 'cache:' } };
+
+  beforeEach(() => {
+    tracked = {
+      clientId: vi.fn().mockResolvedValue(7),
+      enableTracking: vi.fn().mockResolvedValue(undefined),
+      disableTracking: vi.fn().mockResolvedValue(undefined),
+      on: vi.fn(),
+      off: vi.fn(),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    listener = {
+      clientId: vi.fn().mockResolvedValue(42),
+      on: vi.fn().mockImplementation((event: DriverEvent, handler: (...args: unknown[]) => void) => {
+        if (event === DriverEvent.INVALIDATE) {
+          onInvalidate = handler as (keys: string[] | null) => void;
+        } else if (event === DriverEvent.READY) {
+          onListenerReady = handler as () => void;
+        }
+      }),
+      off: vi.fn(),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    manager = {
+      hasClient: vi.fn().mockReturnValue(false),
+      getMetadata: vi.fn().mockReturnValue({ config: { host: 'localhost', keyPrefix: 'app:' }, driverType: 'ioredis' }),
+      createClient: vi.fn().mockResolvedValue(listener),
+      getClient: vi.fn().mockResolvedValue(listener),
+    } as unknown as MockedObject<RedisClientManager>;
+
+    l1Store = {
+      delete: vi.fn().mockResolvedValue(true),
+      clear: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IL1CacheStore>;
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  describe('lifecycle', () => {
+    it('stays idle when disabled (no listener connection)', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, {});
+
+      // When
+      await tracking.onModuleInit();
+
+      // Then
+      expect(tracking.isActive()).toBe(false);
+      expect(manager.createClient).not.toHaveBeenCalled();
+      expect(tracked.enableTracking).not.toHaveBeenCalled();
+    });
+
+    it('subscribes a dedicated listener and redirects broadcast tracking to it', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, { ...enabledOptions, client: 'cache' });
+
+      // When
+      await tracking.onModuleInit();
+
+      // Then
+      expect(manager.createClient).toHaveBeenCalledWith('cache:cache-l1-tracking', { host: 'localhost', keyPrefix: 'app:' }, { driverType: 'ioredis' });
+      expect(listener.subscribe).toHaveBeenCalledWith(TRACKING_INVALIDATION_CHANNEL);
+      expect(tracked.enableTracking).toHaveBeenCalledWith({ redirect: 42, bcast: true, prefixes: ['app:cache:'], noLoop: true });
+      expect(tracking.isActive()).toBe(true);
+    });
+
+    it('omits prefixes in default mode', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, { l1: { clientTracking: { enabled: true, mode: 'default', prefixes: ['x:'] } } });
+
+      // When
+      await tracking.onModuleInit();
+
+      // Then
+      expect(tracked.enableTracking).toHaveBeenCalledWith({ redirect: 42, bcast: false, prefixes: undefined, noLoop: true });
+    });
+
+    it('falls back to TTL mode when the driver has no tracking support', async () => {
+      // Given
+      const plainDriver = { on: vi.fn() } as unknown as IRedisDriver;
+      const tracking = new RedisL1ClientTrackingAdapter(plainDriver, manager, l1Store, enabledOptions);
+
+      // When
+      await tracking.onModuleInit();
+
+      // Then
+      expect(tracking.isActive()).toBe(false);
+      expect(manager.createClient).not.toHaveBeenCalled();
+    });
+
+    it('falls back to TTL mode and releases the listener when the server rejects tracking', async () => {
+      // Given
+      tracked.enableTracking!.mockRejectedValue(new Error("ERR unknown subcommand 'TRACKING'"));
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, enabledOptions);
+
+      // When
+      await tracking.onModuleInit();
+
+      // Then
+      expect(tracking.isActive()).toBe(false);
+      expect(listener.unsubscribe).toHaveBeenCalledWith(TRACKING_INVALIDATION_CHANNEL);
+      expect(tracked.on).not.toHaveBeenCalled();
+    });
+
+    it('disables tracking and unsubscribes on module destroy', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, enabledOptions);
+      await tracking.onModuleInit();
+
+      // When
+      await tracking.onModuleDestroy();
+
+      // Then
+      expect(tracked.disableTracking).toHaveBeenCalled();
+      expect(listener.unsubscribe).toHaveBeenCalledWith(TRACKING_INVALIDATION_CHANNEL);
+      expect(tracking.isActive()).toBe(false);
+    });
+
+    it('clears L1 and re-registers with the new redirect id after a reconnect', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, enabledOptions);
+      await tracking.onModuleInit();
+      listener.clientId!.mockResolvedValue(43);
+
+      // When
+      onListenerReady();
+      await flush();
+
+      // Then
+      expect(l1Store.clear).toHaveBeenCalled();
+      expect(tracked.enableTracking).toHaveBeenLastCalledWith(expect.objectContaining({ redirect: 43 }));
+      expect(tracking.isActive()).toBe(true);
+    });
+  });
+
+  describe('invalidation', () => {
+    it('drops the matching L1 keys, stripping the raw key prefix', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, enabledOptions);
+      await tracking.onModuleInit();
+
+      // When
+      onInvalidate(['app:cache:user:1', 'app:cache:user:2', 'app:locks:job']);
+      await flush();
+
+      // Then
+      expect(l1Store.delete).toHaveBeenCalledTimes(2);
+      expect(l1Store.delete).toHaveBeenCalledWith('user:1');
+      expect(l1Store.delete).toHaveBeenCalledWith('user:2');
+    });
+
+    it('clears L1 when the server flushed its keyspace', async () => {
+      // Given
+      const tracking = new RedisL1ClientTrackingAdapter(tracked, manager, l1Store, enabledOptions);
+      await tracking.onModuleInit();
+
+      // When
+      onInvalidate(null);
+      await flush();
+
+      // Then
+      expect(l1Store.clear).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { DriverEvent, type IRedisDriver, type RedisClientManager } from '@nestjs-redisx/core';
+
+import { RedisL1InvalidationBusAdapter } from '../../src/cache/infrastructure/adapters/redis-l1-invalidation-bus.adapter';
+import type { IL1CacheStore } from '../../src/cache/application/ports/l1-cache-store.port';
+import type { ICachePluginOptions } from '../../src/shared/types';
+
+describe('RedisL1InvalidationBusAdapter', () => {
+  let publisher: MockedObject<IRedisDriver>;
+  let subscriber: MockedObject<IRedisDriver>;
+  let manager: MockedObject<RedisClientManager>;
+  let l1Store: MockedObject<IL1CacheStore>;
+  let onMessage: (channel: string, message: string) => void;
+
+  const enabledOptions: ICachePluginOptions = { l1: { invalidationBus: { enabled: true, channel: 'test:l1' } } };
+
+  beforeEach(() => {
+    publisher = {
+      publish: vi.fn().mockResolvedValue(1),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    subscriber = {
+      on: vi.fn().mockImplementation((event: DriverEvent, handler: (...args: unknown[]) => void) => {
+        if (event === DriverEvent.MESSAGE) {
+          onMessage = handler as (channel: string, message: string) => void;
+        }
+      }),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    manager = {
+      hasClient: vi.fn().mockReturnValue(false),
+      getMetadata: vi.fn().mockReturnValue({ config: { host: 'localhost' }, driverType: 'ioredis' }),
+      createClient: vi.fn().mockResolvedValue(subscriber),
+      getClient: vi.fn().mockResolvedValue(subscriber),
+    } as unknown as MockedObject<RedisClientManager>;
+
+    l1Store = {
+      delete: vi.fn().mockResolvedValue(true),
+      clear: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IL1CacheStore>;
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  describe('lifecycle', () => {
+    it('stays idle when disabled (no subscriber connection)', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, {});
+
+      // When
+      await bus.onModuleInit();
+      await bus.publish('keys', ['a']);
+
+      // Then
+      expect(bus.isEnabled()).toBe(false);
+      expect(manager.createClient).not.toHaveBeenCalled();
+      expect(publisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('creates a dedicated subscriber cloned from the cache client and subscribes', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, { ...enabledOptions, client: 'cache' });
+
+      // When
+      await bus.onModuleInit();
+
+      // Then
+      expect(manager.getMetadata).toHaveBeenCalledWith('cache');
+      expect(manager.createClient).toHaveBeenCalledWith('cache:cache-l1-invalidation', { host: 'localhost' }, { driverType: 'ioredis' });
+      expect(subscriber.subscribe).toHaveBeenCalledWith('test:l1');
+      expect(bus.isEnabled()).toBe(true);
+    });
+
+    it('unsubscribes on module destroy', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      await bus.onModuleDestroy();
+
+      // Then
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('test:l1');
+      expect(bus.isEnabled()).toBe(false);
+    });
+  });
+
+  describe('publish', () => {
+    it('publishes the eviction tagged with the instance id', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      await bus.publish('tag', ['user:1'], 'users');
+
+      // Then
+      const [channel, payload] = publisher.publish.mock.calls[0]!;
+      expect(channel).toBe('test:l1');
+      expect(JSON.parse(payload)).toEqual({ origin: bus.instanceId, kind: 'tag', keys: ['user:1'], source: 'users' });
+    });
+
+    it('skips empty key evictions but always publishes clear', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      await bus.publish('keys', []);
+      await bus.publish('clear', []);
+
+      // Then
+      expect(publisher.publish).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(publisher.publish.mock.calls[0]![1]).kind).toBe('clear');
+    });
+
+    it('is fail-open on publish errors', async () => {
+      // Given
+      publisher.publish.mockRejectedValue(new Error('connection lost'));
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When / Then
+      await expect(bus.publish('keys', ['a'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('receive', () => {
+    it('drops the keys from L1 for messages from other instances', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      onMessage('test:l1', JSON.stringify({ origin: 'peer', kind: 'pattern', keys: ['a', 'b'], source: '*' }));
+      await flush();
+
+      // Then
+      expect(l1Store.delete).toHaveBeenCalledWith('a');
+      expect(l1Store.delete).toHaveBeenCalledWith('b');
+    });
+
+    it('clears L1 on a clear message', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      onMessage('test:l1', JSON.stringify({ origin: 'peer', kind: 'clear', keys: [] }));
+      await flush();
+
+      // Then
+      expect(l1Store.clear).toHaveBeenCalled();
+    });
+
+    it('ignores its own messages (origin suppression)', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      onMessage('test:l1', JSON.stringify({ origin: bus.instanceId, kind: 'keys', keys: ['a'] }));
+      await flush();
+
+      // Then
+      expect(l1Store.delete).not.toHaveBeenCalled();
+    });
+
+    it('ignores other channels and malformed payloads', async () => {
+      // Given
+      const bus = new RedisL1InvalidationBusAdapter(publisher, manager, l1Store, enabledOptions);
+      await bus.onModuleInit();
+
+      // When
+      onMessage('other', JSON.stringify({ origin: 'peer', kind: 'keys', keys: ['a'] }));
+      onMessage('test:l1', 'not json');
+      onMessage('test:l1', JSON.stringify({ origin: 'peer', kind: 'bogus', keys: ['a'] }));
+      await flush();
+
+      // Then
+      expect(l1Store.delete).not.toHaveBeenCalled();
+      expect(l1Store.clear).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -52,5 +52,13 @@ describe('validateCacheMode', () => {
     it('throws when the invalidation source is AMQP (needs a broker)', () => {
       expect(() => validateCacheMode({ mode: 'l1-only', invalidation: { source: 'amqp' } })).toThrow(/AMQP/);
     });
+
+    it('throws when the L1 invalidation bus is enabled (needs Redis Pub/Sub)', () => {
+      expect(() => validateCacheMode({ mode: 'l1-only', l1: { invalidationBus: { enabled: true } } })).toThrow(/invalidationBus/);
+    });
+
+    it('throws when L1 client-side caching is enabled (needs a Redis server)', () => {
+      expect(() => validateCacheMode({ mode: 'l1-only', l1: { clientTracking: { enabled: true } } })).toThrow(/clientTracking/);
+    });
   });
 });
@@ -9,11 +9,14 @@ import { Reflector } from '@nestjs/core';
 import { IRedisXPlugin, IPluginAsyncOptions, CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION, RedisClientManager } from '@nestjs-redisx/core';
 
 import { version } from '../package.json';
+import { BulkheadService } from './circuit-breaker/application/services/bulkhead.service';
 import { CircuitBreakerDecoratorInitializerService } from './circuit-breaker/application/services/circuit-breaker-decorator-initializer.service';
 import { CircuitBreakerService } from './circuit-breaker/application/services/circuit-breaker.service';
 import { validateCircuitBreakerConfig } from './circuit-breaker/domain/validate-circuit-breaker-config';
+import { RedisBulkheadStoreAdapter } from './circuit-breaker/infrastructure/adapters/redis-bulkhead-store.adapter';
+import { RedisCircuitBreakerEventBusAdapter } from './circuit-breaker/infrastructure/adapters/redis-circuit-breaker-event-bus.adapter';
 import { RedisCircuitBreakerStoreAdapter } from './circuit-breaker/infrastructure/adapters/redis-circuit-breaker-store.adapter';
-import { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_REDIS_DRIVER, CIRCUIT_BREAKER_SERVICE, CIRCUIT_BREAKER_STORE, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './shared/constants';
+import { BULKHEAD_SERVICE, BULKHEAD_STORE, CIRCUIT_BREAKER_EVENT_BUS, CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_REDIS_DRIVER, CIRCUIT_BREAKER_SERVICE, CIRCUIT_BREAKER_STORE, DEFAULT_CIRCUIT_BREAKER_CONFIG } from './shared/constants';
 import { ICircuitBreakerPluginOptions } from './shared/types';
 
 /**
@@ -67,8 +70,14 @@ export class CircuitBreakerPlugin implements IRedisXPlugin {
       successThreshold: options.successThreshold ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.successThreshold,
       // Dynamic default: a probe hanging longer than the cooldown is presumed dead.
       probeTimeoutMs: options.probeTimeoutMs ?? openDurationMs,
+      failureRateThreshold: options.failureRateThreshold ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.failureRateThreshold,
+      minimumCalls: options.minimumCalls ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.minimumCalls,
+      slowCallDurationMs: options.slowCallDurationMs ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.slowCallDurationMs,
       errorPolicy: options.errorPolicy ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.errorPolicy,
       errorFactory: options.errorFactory,
+      recordOn: options.recordOn,
+      ignoreOn: options.ignoreOn,
+      events: { ...DEFAULT_CIRCUIT_BREAKER_CONFIG.events, ...options.events },
     };
 
     // Fail fast at bootstrap: an invalid config must never reach the Lua scripts.
@@ -79,6 +88,9 @@ export class CircuitBreakerPlugin implements IRedisXPlugin {
       halfOpenMaxCalls: merged.halfOpenMaxCalls!,
       successThreshold: merged.successThreshold!,
       probeTimeoutMs: merged.probeTimeoutMs!,
+      failureRateThreshold: merged.failureRateThreshold,
+      minimumCalls: merged.minimumCalls,
+      slowCallDurationMs: merged.slowCallDurationMs,
     });
 
     return merged;
@@ -120,12 +132,28 @@ export class CircuitBreakerPlugin implements IRedisXPlugin {
         inject: [CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION, CIRCUIT_BREAKER_PLUGIN_OPTIONS],
       },
 
+      // State change event bus (local listeners + optional Pub/Sub)
+      {
+        provide: CIRCUIT_BREAKER_EVENT_BUS,
+        useClass: RedisCircuitBreakerEventBusAdapter,
+      },
+
       // Store adapter
       {
         provide: CIRCUIT_BREAKER_STORE,
         useClass: RedisCircuitBreakerStoreAdapter,
       },
 
+      // Bulkhead (local semaphore + distributed slot store)
+      {
+        provide: BULKHEAD_STORE,
+        useClass: RedisBulkheadStoreAdapter,
+      },
+      {
+        provide: BULKHEAD_SERVICE,
+        useClass: BulkheadService,
+      },
+
       // Application service
       {
         provide: CIRCUIT_BREAKER_SERVICE,
@@ -141,6 +169,6 @@ export class CircuitBreakerPlugin implements IRedisXPlugin {
   }
 
   getExports(): Array<string | symbol | Provider> {
-    return [CIRCUIT_BREAKER_SERVICE];
+    return [CIRCUIT_BREAKER_SERVICE, BULKHEAD_SERVICE];
   }
 }
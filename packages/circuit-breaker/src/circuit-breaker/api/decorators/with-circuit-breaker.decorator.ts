@@ -9,6 +9,8 @@
 import { Logger } from '@nestjs/common';
 import 'reflect-metadata';
 
+import { CircuitBreakerErrorMatcher, IBulkheadOptions } from '../../../shared/types';
+
 const logger = new Logger('WithCircuitBreaker');
 
 /**
@@ -30,6 +32,12 @@ interface IDecoratorCircuitBreakerService {
       halfOpenMaxCalls?: number;
       successThreshold?: number;
       probeTimeoutMs?: number;
+      failureRateThreshold?: number;
+      minimumCalls?: number;
+      slowCallDurationMs?: number;
+      recordOn?: CircuitBreakerErrorMatcher;
+      ignoreOn?: CircuitBreakerErrorMatcher;
+      bulkhead?: IBulkheadOptions;
       fallback?: () => T | Promise<T>;
     },
   ): Promise<T>;
@@ -74,11 +82,51 @@ export interface IWithCircuitBreakerOptions {
   successThreshold?: number;
   /** Override probeTimeoutMs for this method (defaults to the resolved openDurationMs). */
   probeTimeoutMs?: number;
+  /** Override failureRateThreshold for this method. */
+  failureRateThreshold?: number;
+  /** Override minimumCalls for this method. */
+  minimumCalls?: number;
+  /** Override slowCallDurationMs for this method. */
+  slowCallDurationMs?: number;
+
+  /**
+   * Errors recorded as failures; other errors count as successes. Overrides
+   * the plugin-level `recordOn`.
+   *
+   * @example
+   * ```typescript
+   * @WithCircuitBreaker({ key: 'api', recordOn: [TimeoutError, ServiceUnavailableException] })
+   * ```
+   */
+  recordOn?: CircuitBreakerErrorMatcher;
+
+  /**
+   * Errors that are not recorded at all (e.g. 404s, validation errors).
+   * Takes precedence over `recordOn`. Overrides the plugin-level `ignoreOn`.
+   *
+   * @example
+   * ```typescript
+   * @WithCircuitBreaker({ key: 'api', ignoreOn: (e) => e instanceof HttpException && e.getStatus() < 500 })
+   * ```
+   */
+  ignoreOn?: CircuitBreakerErrorMatcher;
+
+  /**
+   * Cap concurrent executions of this circuit key. A full bulkhead rejects the
+   * call without recording a failure, using `fallback` / `onOpen` like an
+   * OPEN breaker, otherwise throwing BulkheadFullError.
+   *
+   * @example
+   * ```typescript
+   * @WithCircuitBreaker({ key: 'reports-db', bulkhead: { maxConcurrent: 4, maxQueue: 10 } })
+   * ```
+   */
+  bulkhead?: IBulkheadOptions;
 
   /**
    * Called with the original arguments when the breaker rejects the call
-   * (OPEN / probe budget exhausted). Its return value becomes the method result.
-   * Takes precedence over `onOpen`.
+   * (OPEN / probe budget exhausted / bulkhead full). Its return value becomes
+   * the method result. Takes precedence over `onOpen`.
    */
   fallback?: (...args: unknown[]) => unknown;
 
@@ -155,6 +203,12 @@ export function WithCircuitBreaker(options: IWithCircuitBreakerOptions): MethodD
         halfOpenMaxCalls: options.halfOpenMaxCalls,
         successThreshold: options.successThreshold,
         probeTimeoutMs: options.probeTimeoutMs,
+        failureRateThreshold: options.failureRateThreshold,
+        minimumCalls: options.minimumCalls,
+        slowCallDurationMs: options.slowCallDurationMs,
+        recordOn: options.recordOn,
+        ignoreOn: options.ignoreOn,
+        bulkhead: options.bulkhead,
         fallback,
       });
     };
@@ -0,0 +1,35 @@
+import { IBulkheadOptions } from '../../../shared/types';
+
+/**
+ * Bulkhead service port.
+ * Caps concurrent executions per key, locally or across instances.
+ */
+export interface IBulkheadService {
+  /**
+   * Run `fn` once a bulkhead slot for `key` is free.
+   *
+   * - A free slot: runs `fn` and frees the slot when it settles.
+   * - No free slot: waits up to `queueTimeoutMs` when fewer than `maxQueue`
+   *   calls are already waiting, otherwise rejects at once.
+   *
+   * A distributed bulkhead follows the plugin `errorPolicy` when Redis is
+   * unavailable (fail-open runs `fn` without a slot; fail-closed throws
+   * `CircuitBreakerStoreError`).
+   *
+   * @param key - Logical key (prefixed internally, like circuit keys)
+   * @param fn - The guarded operation
+   * @param options - Bulkhead limits
+   *
+   * @throws {BulkheadFullError} When no slot became free
+   * @throws {InvalidCircuitBreakerConfigError} When the options are invalid
+   *
+   * @example
+   * ```typescript
+   * const report = await bulkhead.execute('reports-db', () => db.runReport(), {
+   *   maxConcurrent: 4,
+   *   maxQueue: 10,
+   * });
+   * ```
+   */
+  execute<T>(key: string, fn: () => Promise<T>, options: IBulkheadOptions): Promise<T>;
+}
@@ -0,0 +1,37 @@
+/**
+ * Distributed bulkhead slot store port.
+ * Implementation is in the infrastructure layer (RedisBulkheadStoreAdapter).
+ *
+ * Slots are leased: a slot that is never released (e.g. a crashed instance)
+ * is freed once its lease runs out.
+ */
+export interface IBulkheadStore {
+  /**
+   * Take a slot if fewer than `maxConcurrent` are in use.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param maxConcurrent - Max slots in use at once
+   * @param leaseMs - Slot lease (ms)
+   * @param slot - Unique slot id, used to release it
+   * @returns Whether the slot was taken
+   */
+  acquire(key: string, maxConcurrent: number, leaseMs: number, slot: string): Promise<boolean>;
+
+  /**
+   * Give a slot back.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param slot - Slot id passed to acquire
+   */
+  release(key: string, slot: string): Promise<void>;
+
+  /**
+   * Extend a slot's lease while its call still runs.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param slot - Slot id passed to acquire
+   * @param leaseMs - Lease (ms) granted again from now
+   * @returns False if the slot was already released or its lease ran out
+   */
+  renew(key: string, slot: string, leaseMs: number): Promise<boolean>;
+}
@@ -0,0 +1,34 @@
+import { CircuitState, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { ICircuitStateChange } from '../../../shared/types';
+
+/**
+ * Circuit breaker state change event bus.
+ * Delivers transitions to local listeners and, when `events.pubsub` is
+ * enabled, to every other instance over Redis Pub/Sub.
+ * Implementation is in the infrastructure layer (RedisCircuitBreakerEventBusAdapter).
+ */
+export interface ICircuitBreakerEventBus {
+  /**
+   * Unique id of this instance. Broadcasts carrying it are ignored on receipt.
+   */
+  readonly instanceId: string;
+
+  /**
+   * Report a transition detected by this instance.
+   * Fail-open: listener and publish errors are logged, never thrown — the
+   * transition itself has already been committed.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param previousState - State before the transition
+   * @param snapshot - Snapshot right after the transition
+   */
+  emit(key: string, previousState: CircuitState, snapshot: ICircuitSnapshot): void;
+
+  /**
+   * Listen to state changes of all circuits.
+   *
+   * @param listener - Called for each transition
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: (change: ICircuitStateChange) => void): () => void;
+}
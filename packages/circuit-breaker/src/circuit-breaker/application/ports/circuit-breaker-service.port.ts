@@ -1,5 +1,5 @@
 import { ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
-import { ICircuitBreakerExecuteOptions, ICircuitBreakerOptions } from '../../../shared/types';
+import { ICircuitBreakerExecuteOptions, ICircuitBreakerOptions, ICircuitStateChange } from '../../../shared/types';
 
 /**
  * Circuit breaker service port.
@@ -19,12 +19,17 @@ export interface ICircuitBreakerService {
    * Store failures are handled per the configured `errorPolicy`
    * (fail-open runs `fn` anyway; fail-closed throws `CircuitBreakerStoreError`).
    *
+   * With `options.bulkhead`, `fn` runs inside a bulkhead for the same key once
+   * the breaker admitted the call. A full bulkhead is not recorded as a
+   * failure; it returns `options.fallback()` or throws `BulkheadFullError`.
+   *
    * @param key - Logical circuit key (prefixed internally)
    * @param fn - The guarded operation
    * @param options - Per-call overrides, fallback, and error factory
    *
    * @throws {CircuitBreakerOpenError} When rejected and no fallback/errorFactory
    * @throws {CircuitBreakerStoreError} When the store fails under fail-closed
+   * @throws {BulkheadFullError} When the bulkhead is full and no fallback is set
    *
    * @example
    * ```typescript
@@ -40,9 +45,10 @@ export interface ICircuitBreakerService {
    *
    * @param key - Logical circuit key
    * @param options - Per-call config overrides
+   * @param durationMs - How long the call took; at or above `slowCallDurationMs` it is recorded as a failure
    * @returns Resulting state snapshot
    */
-  recordSuccess(key: string, options?: ICircuitBreakerOptions): Promise<ICircuitSnapshot>;
+  recordSuccess(key: string, options?: ICircuitBreakerOptions, durationMs?: number): Promise<ICircuitSnapshot>;
 
   /**
    * Manually record a failed call for `key`.
@@ -63,9 +69,68 @@ export interface ICircuitBreakerService {
   getState(key: string, options?: ICircuitBreakerOptions): Promise<ICircuitSnapshot>;
 
   /**
-   * Reset the circuit for `key` to CLOSED and clear all state.
+   * Reset the circuit for `key` to CLOSED and clear all state, including a
+   * manual override.
    *
    * @param key - Logical circuit key
    */
   reset(key: string): Promise<void>;
+
+  /**
+   * Pin the circuit for `key` OPEN on every instance: all calls are rejected
+   * (fallback / errorFactory / `CircuitBreakerOpenError`) until `ttl` expires
+   * or {@link release} is called. Snapshots report `override: 'forced-open'`.
+   *
+   * @param key - Logical circuit key
+   * @param ttl - Override lifetime (ms); omitted = until released
+   *
+   * @throws {InvalidCircuitBreakerConfigError} When `ttl` is not an integer >= 1
+   *
+   * @example
+   * ```typescript
+   * // Shed a failing dependency for 10 minutes
+   * await cb.forceOpen('payments-api', 600_000);
+   * ```
+   */
+  forceOpen(key: string, ttl?: number): Promise<void>;
+
+  /**
+   * Pin the circuit for `key` CLOSED on every instance: all calls pass and
+   * their outcomes are not recorded, until `ttl` expires or {@link release}
+   * is called. Snapshots report `override: 'forced-closed'`.
+   *
+   * @param key - Logical circuit key
+   * @param ttl - Override lifetime (ms); omitted = until released
+   *
+   * @throws {InvalidCircuitBreakerConfigError} When `ttl` is not an integer >= 1
+   */
+  forceClose(key: string, ttl?: number): Promise<void>;
+
+  /**
+   * Remove a manual override from `key`. The breaker resumes from the state
+   * it had before the override.
+   *
+   * @param key - Logical circuit key
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Listen to state transitions of all circuits (closed -> open,
+   * open -> half-open, half-open -> closed / open).
+   *
+   * Transitions caused by this instance are always delivered. Those caused by
+   * other instances are delivered only with `events.pubsub` enabled. Errors
+   * thrown by the listener are logged.
+   *
+   * @param listener - Called for each transition
+   * @returns Unsubscribe function
+   *
+   * @example
+   * ```typescript
+   * cb.onStateChange(({ key, previousState, state }) => {
+   *   logger.warn(`Circuit "${key}": ${previousState} -> ${state}`);
+   * });
+   * ```
+   */
+  onStateChange(listener: (change: ICircuitStateChange) => void): () => void;
 }
@@ -1,4 +1,4 @@
-import { ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { CircuitOverride, ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
 import { ICircuitBreakerDecision } from '../../../shared/types';
 
 /**
@@ -22,12 +22,14 @@ export interface ICircuitBreakerStore {
   canRequest(key: string, config: ICircuitBreakerConfig): Promise<ICircuitBreakerDecision>;
 
   /**
-   * Record a successful call and return the resulting snapshot.
+   * Record a successful call and return the resulting snapshot. A call whose
+   * duration reaches `config.slowCallDurationMs` is recorded as a failure.
    *
    * @param key - Fully-prefixed circuit key
    * @param config - Resolved circuit breaker config
+   * @param durationMs - Call duration (ms), if known
    */
-  recordSuccess(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot>;
+  recordSuccess(key: string, config: ICircuitBreakerConfig, durationMs?: number): Promise<ICircuitSnapshot>;
 
   /**
    * Record a failed call and return the resulting snapshot.
@@ -37,6 +39,15 @@ export interface ICircuitBreakerStore {
    */
   recordFailure(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot>;
 
+  /**
+   * Give back the slot of a permitted call without recording an outcome (a
+   * HALF_OPEN probe slot; no-op in other states) and return the snapshot.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param config - Resolved circuit breaker config
+   */
+  release(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot>;
+
   /**
    * Read the committed state without mutating it (does not flip OPEN -> HALF_OPEN).
    *
@@ -46,9 +57,27 @@ export interface ICircuitBreakerStore {
   getState(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot>;
 
   /**
-   * Reset the circuit to CLOSED and clear all state.
+   * Reset the circuit to CLOSED and clear all state, including a manual override.
    *
    * @param key - Fully-prefixed circuit key
    */
   reset(key: string): Promise<void>;
+
+  /**
+   * Pin the circuit's effective state for every instance. While set, requests
+   * follow the override, outcomes are not recorded and snapshots carry
+   * `override`. Replaces any previous override.
+   *
+   * @param key - Fully-prefixed circuit key
+   * @param override - Forced state
+   * @param ttlMs - Lifetime of the override (ms); omitted = until cleared
+   */
+  setOverride(key: string, override: CircuitOverride, ttlMs?: number): Promise<void>;
+
+  /**
+   * Remove a manual override; the state machine resumes where it was.
+   *
+   * @param key - Fully-prefixed circuit key
+   */
+  clearOverride(key: string): Promise<void>;
 }
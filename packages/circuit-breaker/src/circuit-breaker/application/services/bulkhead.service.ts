@@ -0,0 +1,214 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+
+import { BULKHEAD_STORE, CIRCUIT_BREAKER_PLUGIN_OPTIONS, DEFAULT_BULKHEAD_CONFIG, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../../shared/constants';
+import { BulkheadFullError } from '../../../shared/errors';
+import { IBulkheadOptions, ICircuitBreakerPluginOptions } from '../../../shared/types';
+import { validateBulkheadConfig } from '../../domain/validate-circuit-breaker-config';
+import { IBulkheadService } from '../ports/bulkhead-service.port';
+import { IBulkheadStore } from '../ports/bulkhead-store.port';
+
+/** How often a queued call of a distributed bulkhead retries for a slot. */
+const QUEUE_POLL_INTERVAL_MS = 50;
+
+/** In-memory state of a local bulkhead key. */
+interface ILocalBulkhead {
+  active: number;
+  /** Queued calls, oldest first; calling one hands it the released slot. */
+  waiters: Array<() => void>;
+}
+
+/**
+ * Bulkhead service implementation.
+ *
+ * - local scope: an in-memory semaphore per key. A released slot is handed to
+ *   the oldest queued call directly, so queued calls run in FIFO order.
+ * - distributed scope: leased slots in Redis shared by all instances. Queued
+ *   calls retry every 50ms until a slot is free or `queueTimeoutMs` elapsed.
+ *   The queue bound applies per instance. A running call renews its lease
+ *   every `leaseMs / 2`, so only slots of crashed instances run out.
+ *
+ * Store failures while taking a distributed slot follow `errorPolicy`;
+ * failures while releasing one are logged (the lease frees it eventually).
+ */
+@Injectable()
+export class BulkheadService implements IBulkheadService {
+  private readonly logger = new Logger(BulkheadService.name);
+  private readonly local = new Map<string, ILocalBulkhead>();
+  private readonly queued = new Map<string, number>();
+
+  constructor(
+    @Inject(CIRCUIT_BREAKER_PLUGIN_OPTIONS)
+    private readonly config: ICircuitBreakerPluginOptions,
+    @Inject(BULKHEAD_STORE)
+    private readonly store: IBulkheadStore,
+  ) {}
+
+  async execute<T>(key: string, fn: () => Promise<T>, options: IBulkheadOptions): Promise<T> {
+    const cfg = this.resolveConfig(options);
+    const fullKey = this.buildKey(key);
+    return cfg.scope === 'distributed' ? this.executeDistributed(fullKey, fn, cfg) : this.executeLocal(fullKey, fn, cfg);
+  }
+
+  private async executeLocal<T>(key: string, fn: () => Promise<T>, cfg: Required<IBulkheadOptions>): Promise<T> {
+    await this.acquireLocal(key, cfg);
+    try {
+      return await fn();
+    } finally {
+      this.releaseLocal(key);
+    }
+  }
+
+  private acquireLocal(key: string, cfg: Required<IBulkheadOptions>): Promise<void> {
+    let bulkhead = this.local.get(key);
+    if (!bulkhead) {
+      bulkhead = { active: 0, waiters: [] };
+      this.local.set(key, bulkhead);
+    }
+
+    if (bulkhead.active < cfg.maxConcurrent) {
+      bulkhead.active++;
+      return Promise.resolve();
+    }
+    if (bulkhead.waiters.length >= cfg.maxQueue) {
+      return Promise.reject(new BulkheadFullError(key, cfg.maxConcurrent));
+    }
+
+    const waiters = bulkhead.waiters;
+    return new Promise<void>((resolve, reject) => {
+      const waiter = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(new BulkheadFullError(key, cfg.maxConcurrent));
+      }, cfg.queueTimeoutMs);
+      waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Hand the slot to the oldest queued call, or free it.
+   */
+  private releaseLocal(key: string): void {
+    const bulkhead = this.local.get(key);
+    if (!bulkhead) {
+      return;
+    }
+
+    const next = bulkhead.waiters.shift();
+    if (next) {
+      next();
+      return;
+    }
+    bulkhead.active--;
+    if (bulkhead.active === 0) {
+      this.local.delete(key);
+    }
+  }
+
+  private async executeDistributed<T>(key: string, fn: () => Promise<T>, cfg: Required<IBulkheadOptions>): Promise<T> {
+    const slot = `${Date.now()}-${Math.random().toString(36).substring(7)}`; // ⚠ random
+    try {
+      await this.acquireDistributed(key, slot, cfg);
+    } catch (error) {
+      // Store failure -> apply errorPolicy (mirrors the breaker gate).
+      if (!(error instanceof BulkheadFullError) && (this.config.errorPolicy ?? 'fail-closed') === 'fail-open') {
+        this.logger.warn(`Bulkhead store unavailable for "${key}", failing open: ${(error as Error).message}`);
+        return fn();
+      }
+      throw error;
+    }
+
+    const renewal = setInterval(() => void this.renew(key, slot, cfg.leaseMs, renewal), cfg.leaseMs / 2);
+
+    // Don't prevent Node.js process from exiting
+    if (renewal.unref) {
+      renewal.unref();
+    }
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(renewal);
+      await this.safeRelease(key, slot);
+    }
+  }
+
+  private async acquireDistributed(key: string, slot: string, cfg: Required<IBulkheadOptions>): Promise<void> {
+    if (await this.store.acquire(key, cfg.maxConcurrent, cfg.leaseMs, slot)) {
+      return;
+    }
+
+    const queued = this.queued.get(key) ?? 0;
+    if (queued >= cfg.maxQueue) {
+      throw new BulkheadFullError(key, cfg.maxConcurrent);
+    }
+
+    this.queued.set(key, queued + 1);
+    try {
+      const deadline = Date.now() + cfg.queueTimeoutMs;
+      while (Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, Math.min(QUEUE_POLL_INTERVAL_MS, deadline - Date.now())));
+        if (await this.store.acquire(key, cfg.maxConcurrent, cfg.leaseMs, slot)) {
+          return;
+        }
+      }
+      throw new BulkheadFullError(key, cfg.maxConcurrent);
+    } finally {
+      const remaining = (this.queued.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.queued.set(key, remaining);
+      } else {
+        this.queued.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Renew a distributed slot's lease; stops renewing once the slot is lost.
+   */
+  private async renew(key: string, slot: string, leaseMs: number, renewal: NodeJS.Timeout): Promise<void> {
+    try {
+      if (!(await this.store.renew(key, slot, leaseMs))) {
+        clearInterval(renewal);
+        this.logger.error(`Bulkhead slot for "${key}" expired while its call still runs; the bulkhead may admit one call too many until it completes`);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to renew bulkhead slot for "${key}": ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Release a distributed slot without masking the guarded call's outcome.
+   */
+  private async safeRelease(key: string, slot: string): Promise<void> {
+    try {
+      await this.store.release(key, slot);
+    } catch (error) {
+      this.logger.error(`Failed to release bulkhead slot for "${key}": ${(error as Error).message}. The slot is freed when its lease runs out.`);
+    }
+  }
+
+  /**
+   * Merge options over package defaults, then validate.
+   *
+   * @throws {InvalidCircuitBreakerConfigError} on invalid values
+   */
+  private resolveConfig(options: IBulkheadOptions): Required<IBulkheadOptions> {
+    const resolved: Required<IBulkheadOptions> = {
+      maxConcurrent: options.maxConcurrent,
+      maxQueue: options.maxQueue ?? DEFAULT_BULKHEAD_CONFIG.maxQueue,
+      queueTimeoutMs: options.queueTimeoutMs ?? DEFAULT_BULKHEAD_CONFIG.queueTimeoutMs,
+      scope: options.scope ?? DEFAULT_BULKHEAD_CONFIG.scope,
+      leaseMs: options.leaseMs ?? DEFAULT_BULKHEAD_CONFIG.leaseMs,
+    };
+    validateBulkheadConfig(resolved);
+    return resolved;
+  }
+
+  private buildKey(key: string): string {
+    const prefix = this.config.keyPrefix ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.keyPrefix;
+    return `${prefix}${key}`;
+  }
+}
@@ -1,10 +1,12 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
 
-import { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_STORE, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../../shared/constants';
-import { CircuitBreakerOpenError } from '../../../shared/errors';
-import { ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { BULKHEAD_SERVICE, CIRCUIT_BREAKER_EVENT_BUS, CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_STORE, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../../shared/constants';
+import { BulkheadFullError, CircuitBreakerOpenError, InvalidCircuitBreakerConfigError } from '../../../shared/errors';
+import { CircuitOverride, ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
 import { validateCircuitBreakerConfig } from '../../domain/validate-circuit-breaker-config';
-import { ICircuitBreakerExecuteOptions, ICircuitBreakerOptions, ICircuitBreakerPluginOptions } from '../../../shared/types';
+import { CircuitBreakerErrorMatcher, ICircuitBreakerExecuteOptions, ICircuitBreakerOptions, ICircuitBreakerPluginOptions, ICircuitStateChange } from '../../../shared/types';
+import { IBulkheadService } from '../ports/bulkhead-service.port';
+import { ICircuitBreakerEventBus } from '../ports/circuit-breaker-event-bus.port';
 import { ICircuitBreakerService } from '../ports/circuit-breaker-service.port';
 import { ICircuitBreakerStore } from '../ports/circuit-breaker-store.port';
 
@@ -16,9 +18,17 @@ import { ICircuitBreakerStore } from '../ports/circuit-breaker-store.port';
  * - execute(): a store failure on the canRequest gate is governed by
  *   `errorPolicy` (fail-open runs `fn`, fail-closed throws); store failures
  *   while recording the outcome are logged and never mask `fn`'s own result.
- * - manual API (recordSuccess/recordFailure/getState/reset): ALWAYS strict —
+ * - manual API (recordSuccess/recordFailure/getState/reset and the
+ *   forceOpen/forceClose/release overrides): ALWAYS strict —
  *   store failures throw CircuitBreakerStoreError regardless of `errorPolicy`
  *   (there is no meaningful "open" fallback for an explicit state operation).
+ * - with `bulkhead`, `fn` runs inside the bulkhead once the breaker admitted
+ *   the call; a bulkhead rejection records nothing (a HALF_OPEN probe slot is
+ *   given back) and uses `fallback` like an OPEN rejection.
+ * - errors thrown by `fn` are classified by `ignoreOn` / `recordOn` (per-call
+ *   over plugin options): ignored errors record nothing, errors outside
+ *   `recordOn` count as successes, all others as failures. The error is
+ *   always rethrown.
  * - invalid configuration (plugin options or per-call overrides) always throws
  *   InvalidCircuitBreakerConfigError — a programmer error is never subject to
  *   errorPolicy.
@@ -32,6 +42,10 @@ export class CircuitBreakerService implements ICircuitBreakerService {
     private readonly config: ICircuitBreakerPluginOptions,
     @Inject(CIRCUIT_BREAKER_STORE)
     private readonly store: ICircuitBreakerStore,
+    @Inject(CIRCUIT_BREAKER_EVENT_BUS)
+    private readonly events: ICircuitBreakerEventBus,
+    @Inject(BULKHEAD_SERVICE)
+    private readonly bulkhead: IBulkheadService,
   ) {}
 
   async execute<T>(key: string, fn: () => Promise<T>, options: ICircuitBreakerExecuteOptions<T> = {}): Promise<T> {
@@ -48,7 +62,7 @@ export class CircuitBreakerService implements ICircuitBreakerService {
       // Store failure -> apply errorPolicy (mirrors rate-limit).
       if ((this.config.errorPolicy ?? 'fail-closed') === 'fail-open') {
         this.logger.warn(`Circuit breaker store unavailable for "${fullKey}", failing open: ${(error as Error).message}`);
-        return fn();
+        return options.bulkhead ? this.bulkhead.execute(key, fn, options.bulkhead) : fn();
       }
       throw error;
     }
@@ -57,18 +71,34 @@ export class CircuitBreakerService implements ICircuitBreakerService {
       return this.reject(fullKey, snapshot, options);
     }
 
+    // Set once fn actually runs: durations exclude the bulkhead queue wait,
+    // and a call the bulkhead rejected is not an outcome of the dependency.
+    let startedAt: number | undefined;
+    const run = (): Promise<T> => {
+      startedAt = Date.now();
+      return fn();
+    };
+
     try {
-      const result = await fn();
-      await this.safeRecordSuccess(fullKey, cfg);
+      const result = await (options.bulkhead ? this.bulkhead.execute(key, run, options.bulkhead) : run());
+      // The duration lets the store record a slow success as a failure.
+      await this.safeRecordSuccess(fullKey, cfg, Date.now() - startedAt!);
       return result;
     } catch (error) {
-      await this.safeRecordFailure(fullKey, cfg);
+      if (startedAt === undefined) {
+        await this.safeRelease(fullKey, cfg);
+        if (error instanceof BulkheadFullError && options.fallback) {
+          return options.fallback();
+        }
+        throw error;
+      }
+      await this.recordError(fullKey, cfg, error, options, Date.now() - startedAt);
       throw error;
     }
   }
 
-  async recordSuccess(key: string, options: ICircuitBreakerOptions = {}): Promise<ICircuitSnapshot> {
-    return this.store.recordSuccess(this.buildKey(key), this.resolveConfig(options));
+  async recordSuccess(key: string, options: ICircuitBreakerOptions = {}, durationMs?: number): Promise<ICircuitSnapshot> {
+    return this.store.recordSuccess(this.buildKey(key), this.resolveConfig(options), durationMs);
   }
 
   async recordFailure(key: string, options: ICircuitBreakerOptions = {}): Promise<ICircuitSnapshot> {
@@ -83,6 +113,32 @@ export class CircuitBreakerService implements ICircuitBreakerService {
     return this.store.reset(this.buildKey(key));
   }
 
+  async forceOpen(key: string, ttl?: number): Promise<void> {
+    return this.setOverride(key, 'forced-open', ttl);
+  }
+
+  async forceClose(key: string, ttl?: number): Promise<void> {
+    return this.setOverride(key, 'forced-closed', ttl);
+  }
+
+  async release(key: string): Promise<void> {
+    return this.store.clearOverride(this.buildKey(key));
+  }
+
+  onStateChange(listener: (change: ICircuitStateChange) => void): () => void {
+    return this.events.onStateChange(listener);
+  }
+
+  /**
+   * @throws {InvalidCircuitBreakerConfigError} when `ttl` is not an integer >= 1
+   */
+  private async setOverride(key: string, override: CircuitOverride, ttl?: number): Promise<void> {
+    if (ttl !== undefined && (!Number.isInteger(ttl) || ttl < 1)) {
+      throw new InvalidCircuitBreakerConfigError(`ttl must be an integer >= 1 (got ${String(ttl)})`);
+    }
+    return this.store.setOverride(this.buildKey(key), override, ttl);
+  }
+
   /**
    * Reject a call because the breaker is OPEN (or probes exhausted).
    */
@@ -101,9 +157,9 @@ export class CircuitBreakerService implements ICircuitBreakerService {
    * is not released immediately — it is auto-reclaimed after probeTimeoutMs.
    * The log message points operators at reset() as the instant remedy.
    */
-  private async safeRecordSuccess(key: string, cfg: ICircuitBreakerConfig): Promise<void> {
+  private async safeRecordSuccess(key: string, cfg: ICircuitBreakerConfig, durationMs: number): Promise<void> {
     try {
-      await this.store.recordSuccess(key, cfg);
+      await this.store.recordSuccess(key, cfg, durationMs);
     } catch (error) {
       this.logger.error(`Failed to record success for "${key}": ${(error as Error).message}. ` + `If the circuit was HALF_OPEN its probe slot will be auto-reclaimed after probeTimeoutMs (${cfg.probeTimeoutMs}ms); reset("${key}") clears it immediately.`);
     }
@@ -121,6 +177,53 @@ export class CircuitBreakerService implements ICircuitBreakerService {
     }
   }
 
+  /**
+   * Record an error thrown by the guarded call as its classified outcome.
+   */
+  private async recordError(key: string, cfg: ICircuitBreakerConfig, error: unknown, options: ICircuitBreakerOptions, durationMs: number): Promise<void> {
+    switch (this.classifyError(key, error, options)) {
+      case 'ignored':
+        return this.safeRelease(key, cfg);
+      case 'success':
+        return this.safeRecordSuccess(key, cfg, durationMs);
+      case 'failure':
+        return this.safeRecordFailure(key, cfg);
+    }
+  }
+
+  /**
+   * Apply `ignoreOn` first, then `recordOn`. A throwing predicate must not
+   * mask the guarded call's error, so it is logged and the error counts as a
+   * failure.
+   */
+  private classifyError(key: string, error: unknown, options: ICircuitBreakerOptions): 'failure' | 'success' | 'ignored' {
+    const ignoreOn = options.ignoreOn ?? this.config.ignoreOn;
+    const recordOn = options.recordOn ?? this.config.recordOn;
+    try {
+      if (ignoreOn && matchesError(ignoreOn, error)) {
+        return 'ignored';
+      }
+      if (recordOn && !matchesError(recordOn, error)) {
+        return 'success';
+      }
+    } catch (matcherError) {
+      this.logger.error(`Error classification failed for "${key}", recording a failure: ${(matcherError as Error).message}`);
+    }
+    return 'failure';
+  }
+
+  /**
+   * Give back the call's HALF_OPEN probe slot without recording an outcome.
+   * Same probe-slot caveat as safeRecordSuccess.
+   */
+  private async safeRelease(key: string, cfg: ICircuitBreakerConfig): Promise<void> {
+    try {
+      await this.store.release(key, cfg);
+    } catch (error) {
+      this.logger.error(`Failed to release the call slot for "${key}": ${(error as Error).message}. ` + `If the circuit was HALF_OPEN its probe slot will be auto-reclaimed after probeTimeoutMs (${cfg.probeTimeoutMs}ms); reset("${key}") clears it immediately.`);
+    }
+  }
+
   /**
    * Merge per-call overrides over plugin options over package defaults, then
    * validate — an invalid config must never reach the Lua scripts.
@@ -137,6 +240,9 @@ export class CircuitBreakerService implements ICircuitBreakerService {
       successThreshold: options.successThreshold ?? this.config.successThreshold ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.successThreshold,
       // Dynamic default: a probe hanging longer than the cooldown is presumed dead.
       probeTimeoutMs: options.probeTimeoutMs ?? this.config.probeTimeoutMs ?? openDurationMs,
+      failureRateThreshold: options.failureRateThreshold ?? this.config.failureRateThreshold ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.failureRateThreshold,
+      minimumCalls: options.minimumCalls ?? this.config.minimumCalls ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.minimumCalls,
+      slowCallDurationMs: options.slowCallDurationMs ?? this.config.slowCallDurationMs ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.slowCallDurationMs,
     };
     validateCircuitBreakerConfig(resolved);
     return resolved;
@@ -147,3 +253,7 @@ export class CircuitBreakerService implements ICircuitBreakerService {
     return `${prefix}${key}`;
   }
 }
+
+function matchesError(matcher: CircuitBreakerErrorMatcher, error: unknown): boolean {
+  return Array.isArray(matcher) ? matcher.some((type) => error instanceof type) : matcher(error);
+}
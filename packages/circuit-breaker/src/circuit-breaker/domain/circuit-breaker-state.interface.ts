@@ -1,5 +1,11 @@
 export type CircuitState = 'closed' | 'open' | 'half-open';
 
+/**
+ * Manual override pinning a circuit's effective state, set by an operator
+ * (see ICircuitBreakerService.forceOpen / forceClose).
+ */
+export type CircuitOverride = 'forced-open' | 'forced-closed';
+
 export interface ICircuitBreakerConfig {
   /** Failures counted within windowMs that trip CLOSED -> OPEN. Integer >= 1. */
   failureThreshold: number;
@@ -17,6 +23,19 @@ export interface ICircuitBreakerConfig {
    * e.g. a crashed process). Integer > 0.
    */
   probeTimeoutMs: number;
+  /**
+   * Failure percentage (of all calls within windowMs) that trips CLOSED -> OPEN,
+   * evaluated once at least minimumCalls were recorded. Integer 0-100; 0 (the
+   * default) disables rate-based tripping.
+   */
+  failureRateThreshold?: number;
+  /** Calls within windowMs required before failureRateThreshold applies. Integer >= 1, default 10. */
+  minimumCalls?: number;
+  /**
+   * Successful calls taking at least this long (ms) are recorded as failures.
+   * Integer >= 0; 0 (the default) disables slow-call detection.
+   */
+  slowCallDurationMs?: number;
 }
 
 export interface ICircuitSnapshot {
@@ -30,6 +49,11 @@ export interface ICircuitSnapshot {
    * still within probeTimeoutMs at the queried time.
    */
   halfOpenInFlight: number;
+  /**
+   * Present while a manual override is active. `state` then reports the forced
+   * state and the counters are 0; the state machine resumes on release.
+   */
+  override?: CircuitOverride;
 }
 
 /**
@@ -41,8 +65,11 @@ export interface ICircuitSnapshot {
  *    - canRequest(now)      -> true.
  *    - recordFailure(now)   -> append `now`; drop failures with timestamp <= now - windowMs
  *                              (strictly older-or-equal are OUT; timestamp > now - windowMs are IN);
- *                              if remaining count >= failureThreshold -> OPEN (openedAt = now, clear counters).
- *    - recordSuccess(now)   -> no-op (window aging alone clears failures; success does NOT reset the window).
+ *                              if remaining count >= failureThreshold -> OPEN (openedAt = now, clear counters);
+ *                              else if failureRateThreshold > 0, calls (failures + successes in window)
+ *                              >= minimumCalls and failures * 100 >= failureRateThreshold * calls -> OPEN.
+ *    - recordSuccess(now)   -> if failureRateThreshold > 0: append `now` to the successes window (same
+ *                              pruning rule); otherwise no-op. Success never resets the failure window.
  *  OPEN
  *    - canRequest(now)      -> if now - openedAt >= openDurationMs: COMMIT transition to HALF_OPEN
  *                              (halfOpenSuccesses = 0, probe list cleared) and then apply the HALF_OPEN
@@ -61,6 +88,12 @@ export interface ICircuitSnapshot {
  *                              still counts); halfOpenSuccesses++;
  *                              if halfOpenSuccesses >= successThreshold -> CLOSED (clear all counters).
  *    - recordFailure(now)   -> OPEN (openedAt = now, clear half-open counters). A single probe failure reopens.
+ *  Releasing a permitted call without an outcome (e.g. an ignored error)
+ *    - release(now)         -> HALF_OPEN: drop expired probes and release the most recently started
+ *                              in-flight probe slot, if any; counters unchanged. Otherwise no-op.
+ *  Slow calls (any state)
+ *    - recordSuccess(now, durationMs) with slowCallDurationMs > 0 and durationMs >= slowCallDurationMs
+ *                              is handled exactly as recordFailure(now).
  *
  * snapshot(now) is non-mutating and reports the COMMITTED state (it does not lazily flip
  * OPEN->HALF_OPEN); failuresInWindow and halfOpenInFlight are time-filtered at `now`.
@@ -68,8 +101,9 @@ export interface ICircuitSnapshot {
  */
 export interface ICircuitBreakerState {
   canRequest(now: number): boolean;
-  recordSuccess(now: number): void;
+  recordSuccess(now: number, durationMs?: number): void;
   recordFailure(now: number): void;
+  release(now: number): void;
   snapshot(now: number): ICircuitSnapshot;
   reset(): void;
 }
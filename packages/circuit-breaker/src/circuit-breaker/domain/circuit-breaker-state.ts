@@ -1,5 +1,6 @@
 import { CircuitState, ICircuitBreakerConfig, ICircuitBreakerState, ICircuitSnapshot } from './circuit-breaker-state.interface';
 import { validateCircuitBreakerConfig } from './validate-circuit-breaker-config';
+import { DEFAULT_CIRCUIT_BREAKER_CONFIG, FAILURE_RATE_SLICES } from '../../shared/constants';
 
 /**
  * Pure, time-injected circuit-breaker finite state machine.
@@ -14,6 +15,12 @@ export class CircuitBreakerState implements ICircuitBreakerState {
   /** CLOSED: timestamps (epoch ms) of recorded failures, pruned by the window. */
   private failures: number[] = [];
 
+  /**
+   * CLOSED: success count per window slice (slice id -> count), kept only for
+   * rate-based tripping. Mirrors the Lua successes hash.
+   */
+  private successSlices = new Map<number, number>();
+
   /** OPEN: the time the breaker entered OPEN. */
   private openedAt = 0;
 
@@ -51,10 +58,21 @@ export class CircuitBreakerState implements ICircuitBreakerState {
     }
   }
 
-  recordSuccess(now: number): void {
+  recordSuccess(now: number, durationMs = 0): void {
+    if (this.isSlowCall(durationMs)) {
+      this.recordFailure(now);
+      return;
+    }
+
     switch (this.state) {
       case 'closed':
-        // No-op: window aging alone clears failures; success does not reset it.
+        // Successes only matter as the denominator of the failure rate; they
+        // never reset the failure window.
+        if (this.rateThreshold() > 0) {
+          this.countSuccesses(now);
+          const slice = Math.floor(now / this.sliceMs());
+          this.successSlices.set(slice, (this.successSlices.get(slice) ?? 0) + 1);
+        }
         return;
 
       case 'open':
@@ -81,8 +99,8 @@ export class CircuitBreakerState implements ICircuitBreakerState {
     switch (this.state) {
       case 'closed': {
         this.failures.push(now);
-        this.pruneFailures(now);
-        if (this.failures.length >= this.config.failureThreshold) {
+        this.failures = this.pruneWindow(this.failures, now);
+        if (this.failures.length >= this.config.failureThreshold || this.failureRateExceeded(now)) {
           this.toOpen(now);
         }
         return;
@@ -99,6 +117,15 @@ export class CircuitBreakerState implements ICircuitBreakerState {
     }
   }
 
+  release(now: number): void {
+    // Only HALF_OPEN holds per-call state (the probe slot); the outcome is
+    // neither a success nor a failure, so counters stay untouched.
+    if (this.state === 'half-open') {
+      this.pruneProbes(now);
+      this.releaseNewestProbe();
+    }
+  }
+
   snapshot(now: number): ICircuitSnapshot {
     return {
       state: this.state,
@@ -111,6 +138,7 @@ export class CircuitBreakerState implements ICircuitBreakerState {
   reset(): void {
     this.state = 'closed';
     this.failures = [];
+    this.successSlices.clear();
     this.openedAt = 0;
     this.halfOpenSuccesses = 0;
     this.halfOpenProbes = [];
@@ -133,6 +161,7 @@ export class CircuitBreakerState implements ICircuitBreakerState {
     this.state = 'open';
     this.openedAt = now;
     this.failures = [];
+    this.successSlices.clear();
     this.halfOpenSuccesses = 0;
     this.halfOpenProbes = [];
   }
@@ -140,15 +169,61 @@ export class CircuitBreakerState implements ICircuitBreakerState {
   private toClosed(): void {
     this.state = 'closed';
     this.failures = [];
+    this.successSlices.clear();
     this.openedAt = 0;
     this.halfOpenSuccesses = 0;
     this.halfOpenProbes = [];
   }
 
-  /** Drop failures with timestamp <= now - windowMs (older-or-equal are OUT). */
-  private pruneFailures(now: number): void {
+  /** Drop timestamps <= now - windowMs (older-or-equal are OUT). */
+  private pruneWindow(timestamps: number[], now: number): number[] {
     const cutoff = now - this.config.windowMs;
-    this.failures = this.failures.filter((timestamp) => timestamp > cutoff);
+    return timestamps.filter((timestamp) => timestamp > cutoff);
+  }
+
+  /**
+   * Whether the failure percentage over the window reached failureRateThreshold.
+   * Expects `failures` to be pruned at `now`; prunes the success slices (mirrors
+   * the Lua store, which only touches the successes hash when the rate is enabled).
+   */
+  private failureRateExceeded(now: number): boolean {
+    const threshold = this.rateThreshold();
+    if (threshold === 0) {
+      return false;
+    }
+    const calls = this.failures.length + this.countSuccesses(now);
+    const minimumCalls = this.config.minimumCalls ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.minimumCalls;
+    return calls >= minimumCalls && this.failures.length * 100 >= threshold * calls;
+  }
+
+  /**
+   * Drop success slices that left the window and return the successes in the
+   * rest. A slice counts while any part of it overlaps the window.
+   */
+  private countSuccesses(now: number): number {
+    const oldestSlice = Math.floor((now - this.config.windowMs) / this.sliceMs());
+    let count = 0;
+    for (const [slice, successes] of this.successSlices) {
+      if (slice < oldestSlice) {
+        this.successSlices.delete(slice);
+      } else {
+        count += successes;
+      }
+    }
+    return count;
+  }
+
+  private sliceMs(): number {
+    return Math.max(1, Math.floor(this.config.windowMs / FAILURE_RATE_SLICES));
+  }
+
+  private rateThreshold(): number {
+    return this.config.failureRateThreshold ?? 0;
+  }
+
+  private isSlowCall(durationMs: number): boolean {
+    const slowCallDurationMs = this.config.slowCallDurationMs ?? 0;
+    return slowCallDurationMs > 0 && durationMs >= slowCallDurationMs;
   }
 
   /** Drop expired probes: start time <= now - probeTimeoutMs (slot reclaimed). */
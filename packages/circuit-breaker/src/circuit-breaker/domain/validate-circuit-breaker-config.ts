@@ -7,14 +7,17 @@
  */
 
 import { InvalidCircuitBreakerConfigError } from '../../shared/errors';
+import { IBulkheadOptions } from '../../shared/types';
 import { ICircuitBreakerConfig } from './circuit-breaker-state.interface';
 
 /**
  * Validates a fully-resolved circuit breaker config.
  *
  * Rules (same as the ICircuitBreakerConfig JSDoc):
- * - all six knobs are integers >= 1;
- * - successThreshold <= halfOpenMaxCalls.
+ * - all six required knobs are integers >= 1;
+ * - successThreshold <= halfOpenMaxCalls;
+ * - when set: failureRateThreshold is an integer 0-100, minimumCalls an
+ *   integer >= 1 and slowCallDurationMs an integer >= 0.
  *
  * @throws {InvalidCircuitBreakerConfigError} on the first violated rule
  */
@@ -29,6 +32,32 @@ export function validateCircuitBreakerConfig(config: ICircuitBreakerConfig): voi
   if (config.successThreshold > config.halfOpenMaxCalls) {
     throw new InvalidCircuitBreakerConfigError(`successThreshold (${config.successThreshold}) must be <= halfOpenMaxCalls (${config.halfOpenMaxCalls})`);
   }
+
+  if (config.failureRateThreshold !== undefined) {
+    assertPercentage('failureRateThreshold', config.failureRateThreshold);
+  }
+  if (config.minimumCalls !== undefined) {
+    assertPositiveInteger('minimumCalls', config.minimumCalls);
+  }
+  if (config.slowCallDurationMs !== undefined) {
+    assertNonNegativeInteger('slowCallDurationMs', config.slowCallDurationMs);
+  }
+}
+
+/**
+ * Validates fully-resolved bulkhead options: maxConcurrent, queueTimeoutMs and
+ * leaseMs are integers >= 1, maxQueue an integer >= 0 and scope is known.
+ *
+ * @throws {InvalidCircuitBreakerConfigError} on the first violated rule
+ */
+export function validateBulkheadConfig(config: Required<IBulkheadOptions>): void {
+  assertPositiveInteger('bulkhead.maxConcurrent', config.maxConcurrent);
+  assertNonNegativeInteger('bulkhead.maxQueue', config.maxQueue);
+  assertPositiveInteger('bulkhead.queueTimeoutMs', config.queueTimeoutMs);
+  assertPositiveInteger('bulkhead.leaseMs', config.leaseMs);
+  if (config.scope !== 'local' && config.scope !== 'distributed') {
+    throw new InvalidCircuitBreakerConfigError(`bulkhead.scope must be 'local' or 'distributed' (got ${String(config.scope)})`);
+  }
 }
 
 function assertPositiveInteger(name: string, value: number): void {
@@ -36,3 +65,15 @@ function assertPositiveInteger(name: string, value: number): void {
     throw new InvalidCircuitBreakerConfigError(`${name} must be an integer >= 1 (got ${String(value)})`);
   }
 }
+
+function assertNonNegativeInteger(name: string, value: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new InvalidCircuitBreakerConfigError(`${name} must be an integer >= 0 (got ${String(value)})`);
+  }
+}
+
+function assertPercentage(name: string, value: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 100) {
+    throw new InvalidCircuitBreakerConfigError(`${name} must be an integer between 0 and 100 (got ${String(value)})`);
+  }
+}
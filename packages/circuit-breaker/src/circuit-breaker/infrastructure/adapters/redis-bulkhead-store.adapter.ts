@@ -0,0 +1,90 @@
+import { Injectable, Inject, OnModuleInit } from '@nestjs/common';
+import { IRedisDriver } from '@nestjs-redisx/core';
+
+import { CIRCUIT_BREAKER_REDIS_DRIVER } from '../../../shared/constants';
+import { CircuitBreakerStoreError } from '../../../shared/errors';
+import { IBulkheadStore } from '../../application/ports/bulkhead-store.port';
+import { BULKHEAD_ACQUIRE_SCRIPT, BULKHEAD_RENEW_SCRIPT } from '../scripts/lua-scripts';
+
+/**
+ * Redis-based distributed bulkhead slots.
+ *
+ * Slots live in a ZSET `{prefixedKey}:b` scored by lease expiry; the key
+ * shares the circuit's hash tag (same cluster slot). Time is obtained here via
+ * Date.now() and passed into the script as ARGV.
+ */
+@Injectable()
+export class RedisBulkheadStoreAdapter implements IBulkheadStore, OnModuleInit {
+  private acquireSha: string | null = null;
+  private renewSha: string | null = null;
+
+  constructor(@Inject(CIRCUIT_BREAKER_REDIS_DRIVER) private readonly driver: IRedisDriver) {}
+
+  /**
+   * Pre-load the Lua scripts on module initialization.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      this.acquireSha = await this.driver.scriptLoad(BULKHEAD_ACQUIRE_SCRIPT);
+      this.renewSha = await this.driver.scriptLoad(BULKHEAD_RENEW_SCRIPT);
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`Failed to load bulkhead Lua scripts: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  async acquire(key: string, maxConcurrent: number, leaseMs: number, slot: string): Promise<boolean> {
+    const now = Date.now(); // ⚠ real time — supplied to Lua as ARGV, never read inside Lua
+    const keys = [this.buildKey(key)];
+    const args = [maxConcurrent, leaseMs, now, slot];
+
+    try {
+      const result = await this.runScript(this.acquireSha, BULKHEAD_ACQUIRE_SCRIPT, keys, args);
+      return (result[0] ?? 0) === 1;
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`bulkhead acquire failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  async release(key: string, slot: string): Promise<void> {
+    try {
+      await this.driver.zrem(this.buildKey(key), slot);
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`bulkhead release failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  async renew(key: string, slot: string, leaseMs: number): Promise<boolean> {
+    const now = Date.now(); // ⚠ real time — supplied to Lua as ARGV, never read inside Lua
+    const keys = [this.buildKey(key)];
+    const args = [leaseMs, now, slot];
+
+    try {
+      const result = await this.runScript(this.renewSha, BULKHEAD_RENEW_SCRIPT, keys, args);
+      return (result[0] ?? 0) === 1;
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`bulkhead renew failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  private buildKey(key: string): string {
+    return `{${key}}:b`;
+  }
+
+  /**
+   * Run the script via EVALSHA, falling back to EVAL on NOSCRIPT.
+   */
+  private async runScript(sha: string | null, script: string, keys: string[], args: Array<string | number>): Promise<number[]> {
+    try {
+      if (sha) {
+        return (await this.driver.evalsha(sha, keys, args)) as number[];
+      }
+      return (await this.driver.eval(script, keys, args)) as number[];
+    } catch (error) {
+      const message = (error as Error).message ?? '';
+      if (message.includes('NOSCRIPT') || message.includes('No matching script')) {
+        return (await this.driver.eval(script, keys, args)) as number[];
+      }
+      throw error;
+    }
+  }
+}
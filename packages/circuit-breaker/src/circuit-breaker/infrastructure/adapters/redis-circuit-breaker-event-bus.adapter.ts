@@ -0,0 +1,155 @@
+/**
+ * Circuit breaker state change events, local and over Redis Pub/Sub.
+ *
+ * Transitions are detected by the store adapter from the state codes its Lua
+ * scripts return, so only the instance whose call caused a transition learns
+ * about it. Local listeners are always notified. When `events.pubsub` is set,
+ * the change is also broadcast on a channel and every peer delivers it to its
+ * own listeners. Messages from this instance are ignored on receipt.
+ *
+ * Subscriptions live on a DEDICATED connection (`<client>:circuit-breaker-events`)
+ * cloned from the plugin client — a Redis connection in subscriber mode cannot
+ * execute regular commands. Publishing goes through the plugin client itself.
+ */
+
+import { EventEmitter } from 'events';
+
+import { Injectable, Inject, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { IRedisDriver, DriverEvent, DriverType, CLIENT_MANAGER, RedisClientManager } from '@nestjs-redisx/core';
+
+import { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_REDIS_DRIVER, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../../shared/constants';
+import { ICircuitBreakerPluginOptions, ICircuitStateChange } from '../../../shared/types';
+import { CircuitState, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { ICircuitBreakerEventBus } from '../../application/ports/circuit-breaker-event-bus.port';
+
+const STATE_CHANGE_EVENT = 'state-change';
+const VALID_STATES: readonly CircuitState[] = ['closed', 'open', 'half-open'];
+
+@Injectable()
+export class RedisCircuitBreakerEventBusAdapter implements ICircuitBreakerEventBus, OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RedisCircuitBreakerEventBusAdapter.name);
+  private readonly emitter = new EventEmitter();
+  private readonly pubsub: boolean;
+  private readonly channel: string;
+  private readonly keyPrefix: string;
+  private subscriber: IRedisDriver | null = null;
+
+  readonly instanceId = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+  constructor(
+    @Inject(CIRCUIT_BREAKER_REDIS_DRIVER) private readonly publisher: IRedisDriver,
+    @Inject(CLIENT_MANAGER) private readonly manager: RedisClientManager,
+    @Inject(CIRCUIT_BREAKER_PLUGIN_OPTIONS) private readonly options: ICircuitBreakerPluginOptions,
+  ) {
+    this.pubsub = options.events?.pubsub ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.events.pubsub!;
+    this.channel = options.events?.channel ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.events.channel!;
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.keyPrefix;
+    // Any number of services may listen; this is not a leak.
+    this.emitter.setMaxListeners(0);
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.pubsub) {
+      return;
+    }
+
+    const clientName = this.options.client ?? 'default';
+    const subscriberName = `${clientName}:circuit-breaker-events`;
+    if (!this.manager.hasClient(subscriberName)) {
+      // Clone connection config AND driver type from the plugin client.
+      const { config, driverType } = this.manager.getMetadata(clientName);
+      await this.manager.createClient(subscriberName, config, { driverType: driverType as DriverType | undefined });
+    }
+
+    const subscriber = await this.manager.getClient(subscriberName);
+    subscriber.on(DriverEvent.MESSAGE, (...args: unknown[]) => {
+      const [channel, message] = args as [string, string];
+      if (channel === this.channel) {
+        this.handleMessage(message);
+      }
+    });
+    await subscriber.subscribe(this.channel);
+    this.subscriber = subscriber;
+
+    this.logger.log(`Circuit breaker events subscribed to "${this.channel}" (instance ${this.instanceId})`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.emitter.removeAllListeners();
+    if (!this.subscriber) {
+      return;
+    }
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    await subscriber.unsubscribe(this.channel).catch((err: Error) => {
+      this.logger.warn(`Failed to unsubscribe circuit breaker events channel on shutdown: ${err.message}`);
+    });
+  }
+
+  emit(key: string, previousState: CircuitState, snapshot: ICircuitSnapshot): void {
+    const change: ICircuitStateChange = {
+      key: key.startsWith(this.keyPrefix) ? key.slice(this.keyPrefix.length) : key,
+      previousState,
+      state: snapshot.state,
+      snapshot,
+      timestamp: Date.now(),
+      origin: this.instanceId,
+    };
+
+    this.deliver(change);
+    if (this.subscriber) {
+      this.publisher.publish(this.channel, JSON.stringify(change)).catch((error: Error) => {
+        // Fail-open: the transition is committed; peers just miss the event.
+        this.logger.warn(`Failed to publish circuit state change for "${change.key}": ${error.message}`);
+      });
+    }
+  }
+
+  onStateChange(listener: (change: ICircuitStateChange) => void): () => void {
+    this.emitter.on(STATE_CHANGE_EVENT, listener);
+    return () => {
+      this.emitter.off(STATE_CHANGE_EVENT, listener);
+    };
+  }
+
+  /**
+   * Notify every listener; a throwing listener must not affect the others or
+   * the call that caused the transition.
+   */
+  private deliver(change: ICircuitStateChange): void {
+    for (const listener of this.emitter.listeners(STATE_CHANGE_EVENT) as Array<(change: ICircuitStateChange) => void>) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error(`Circuit state change listener failed for "${change.key}"`, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Delivers a peer's transition to local listeners.
+   * Malformed payloads and our own messages are ignored.
+   */
+  private handleMessage(raw: string): void {
+    const change = this.parse(raw);
+    if (!change || change.origin === this.instanceId) {
+      return;
+    }
+    this.deliver(change);
+  }
+
+  private parse(raw: string): ICircuitStateChange | null {
+    try {
+      const parsed = JSON.parse(raw) as Partial<ICircuitStateChange>;
+      if (typeof parsed.origin !== 'string' || typeof parsed.key !== 'string' || !VALID_STATES.includes(parsed.previousState as CircuitState) || !VALID_STATES.includes(parsed.state as CircuitState) || typeof parsed.snapshot !== 'object' || parsed.snapshot === null) {
+        this.logger.warn('Ignoring malformed circuit state change message');
+        return null;
+      }
+      return parsed as ICircuitStateChange;
+    } catch {
+      this.logger.warn('Ignoring non-JSON circuit state change message');
+      return null;
+    }
+  }
+}
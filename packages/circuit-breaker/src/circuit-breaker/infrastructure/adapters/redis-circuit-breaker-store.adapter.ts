@@ -1,12 +1,13 @@
-import { Injectable, Inject, OnModuleInit } from '@nestjs/common';
+import { Injectable, Inject, OnModuleInit, Optional } from '@nestjs/common';
 import { IRedisDriver } from '@nestjs-redisx/core';
 
-import { CIRCUIT_BREAKER_REDIS_DRIVER } from '../../../shared/constants';
+import { CIRCUIT_BREAKER_EVENT_BUS, CIRCUIT_BREAKER_REDIS_DRIVER, DEFAULT_CIRCUIT_BREAKER_CONFIG } from '../../../shared/constants';
 import { CircuitBreakerStoreError } from '../../../shared/errors';
-import { CircuitState, ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { CircuitOverride, CircuitState, ICircuitBreakerConfig, ICircuitSnapshot } from '../../domain/circuit-breaker-state.interface';
+import { ICircuitBreakerEventBus } from '../../application/ports/circuit-breaker-event-bus.port';
 import { ICircuitBreakerStore } from '../../application/ports/circuit-breaker-store.port';
 import { ICircuitBreakerDecision } from '../../../shared/types';
-import { CAN_REQUEST_SCRIPT, GET_STATE_SCRIPT, RECORD_FAILURE_SCRIPT, RECORD_SUCCESS_SCRIPT } from '../scripts/lua-scripts';
+import { CAN_REQUEST_SCRIPT, GET_STATE_SCRIPT, RECORD_FAILURE_SCRIPT, RECORD_SUCCESS_SCRIPT, RELEASE_SCRIPT } from '../scripts/lua-scripts';
 
 /**
  * Redis-based circuit breaker state store.
@@ -14,15 +15,23 @@ import { CAN_REQUEST_SCRIPT, GET_STATE_SCRIPT, RECORD_FAILURE_SCRIPT, RECORD_SUC
  *
  * Time is obtained here via Date.now() and passed into the scripts as ARGV —
  * the Lua never reads time itself (mirrors the rate-limit sliding-window store).
+ *
+ * Mutating scripts also return the state they started from; a difference from
+ * the resulting state is a transition committed by THIS call and is reported
+ * to the event bus (exactly one instance observes each transition).
  */
 @Injectable()
 export class RedisCircuitBreakerStoreAdapter implements ICircuitBreakerStore, OnModuleInit {
   private canRequestSha: string | null = null;
   private recordSuccessSha: string | null = null;
   private recordFailureSha: string | null = null;
+  private releaseSha: string | null = null;
   private getStateSha: string | null = null;
 
-  constructor(@Inject(CIRCUIT_BREAKER_REDIS_DRIVER) private readonly driver: IRedisDriver) {}
+  constructor(
+    @Inject(CIRCUIT_BREAKER_REDIS_DRIVER) private readonly driver: IRedisDriver,
+    @Optional() @Inject(CIRCUIT_BREAKER_EVENT_BUS) private readonly events?: ICircuitBreakerEventBus,
+  ) {}
 
   /**
    * Pre-load Lua scripts on module initialization.
@@ -32,6 +41,7 @@ export class RedisCircuitBreakerStoreAdapter implements ICircuitBreakerStore, On
       this.canRequestSha = await this.driver.scriptLoad(CAN_REQUEST_SCRIPT);
       this.recordSuccessSha = await this.driver.scriptLoad(RECORD_SUCCESS_SCRIPT);
       this.recordFailureSha = await this.driver.scriptLoad(RECORD_FAILURE_SCRIPT);
+      this.releaseSha = await this.driver.scriptLoad(RELEASE_SCRIPT);
       this.getStateSha = await this.driver.scriptLoad(GET_STATE_SCRIPT);
     } catch (error) {
       throw new CircuitBreakerStoreError(`Failed to load Lua scripts: ${(error as Error).message}`, error as Error);
@@ -42,24 +52,29 @@ export class RedisCircuitBreakerStoreAdapter implements ICircuitBreakerStore, On
     const now = Date.now(); // ⚠ real time — supplied to Lua as ARGV, never read inside Lua
     const member = this.uniqueMember(now); // probe ZSET member when a half-open slot is granted
     const keys = this.buildKeys(key);
-    const args = [...this.buildConfigArgs(config), now, member];
+    const args = this.buildArgs(config, now, member);
 
     try {
       const result = await this.runScript(this.canRequestSha, CAN_REQUEST_SCRIPT, keys, args);
-      return this.parseDecision(result);
+      const decision = this.parseDecision(result);
+      this.detectTransition(key, result[5], decision.snapshot);
+      return decision;
     } catch (error) {
       throw new CircuitBreakerStoreError(`canRequest failed: ${(error as Error).message}`, error as Error);
     }
   }
 
-  async recordSuccess(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot> {
+  async recordSuccess(key: string, config: ICircuitBreakerConfig, durationMs = 0): Promise<ICircuitSnapshot> {
     const now = Date.now(); // ⚠ real time
+    const member = this.uniqueMember(now); // failure member, used for a slow call
     const keys = this.buildKeys(key);
-    const args = [...this.buildConfigArgs(config), now];
+    const args = this.buildArgs(config, now, member, durationMs);
 
     try {
       const result = await this.runScript(this.recordSuccessSha, RECORD_SUCCESS_SCRIPT, keys, args);
-      return this.parseSnapshot(result);
+      const snapshot = this.parseSnapshot(result, 5);
+      this.detectTransition(key, result[4], snapshot);
+      return snapshot;
     } catch (error) {
       throw new CircuitBreakerStoreError(`recordSuccess failed: ${(error as Error).message}`, error as Error);
     }
@@ -69,56 +84,94 @@ export class RedisCircuitBreakerStoreAdapter implements ICircuitBreakerStore, On
     const now = Date.now(); // ⚠ real time
     const member = this.uniqueMember(now); // failure ZSET member (CLOSED window entry)
     const keys = this.buildKeys(key);
-    const args = [...this.buildConfigArgs(config), now, member];
+    const args = this.buildArgs(config, now, member);
 
     try {
       const result = await this.runScript(this.recordFailureSha, RECORD_FAILURE_SCRIPT, keys, args);
-      return this.parseSnapshot(result);
+      const snapshot = this.parseSnapshot(result, 5);
+      this.detectTransition(key, result[4], snapshot);
+      return snapshot;
     } catch (error) {
       throw new CircuitBreakerStoreError(`recordFailure failed: ${(error as Error).message}`, error as Error);
     }
   }
 
+  async release(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot> {
+    const now = Date.now(); // ⚠ real time
+    const keys = this.buildKeys(key);
+    const args = this.buildArgs(config, now);
+
+    try {
+      const result = await this.runScript(this.releaseSha, RELEASE_SCRIPT, keys, args);
+      return this.parseSnapshot(result, 4);
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`release failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
   async getState(key: string, config: ICircuitBreakerConfig): Promise<ICircuitSnapshot> {
     const now = Date.now(); // ⚠ real time
     const keys = this.buildKeys(key);
-    const args = [...this.buildConfigArgs(config), now];
+    const args = this.buildArgs(config, now);
 
     try {
       const result = await this.runScript(this.getStateSha, GET_STATE_SCRIPT, keys, args);
-      return this.parseSnapshot(result);
+      return this.parseSnapshot(result, 4);
     } catch (error) {
       throw new CircuitBreakerStoreError(`getState failed: ${(error as Error).message}`, error as Error);
     }
   }
 
   async reset(key: string): Promise<void> {
-    const [stateKey, failKey, probeKey] = this.buildKeys(key);
+    const [stateKey, failKey, probeKey, successKey, overrideKey] = this.buildKeys(key);
 
     try {
       // Single variadic DEL: all keys share a hash tag (same cluster slot),
-      // so the circuit state, failure window, and probe list are cleared atomically.
-      await this.driver.del(stateKey, failKey, probeKey);
+      // so the circuit state, windows, probe list and override are cleared atomically.
+      await this.driver.del(stateKey, failKey, probeKey, successKey, overrideKey);
     } catch (error) {
       throw new CircuitBreakerStoreError(`reset failed: ${(error as Error).message}`, error as Error);
     }
   }
 
+  async setOverride(key: string, override: CircuitOverride, ttlMs?: number): Promise<void> {
+    const overrideKey = this.buildKeys(key)[4];
+
+    try {
+      await this.driver.set(overrideKey, override === 'forced-open' ? 'open' : 'closed', ttlMs !== undefined ? { px: ttlMs } : undefined);
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`setOverride failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  async clearOverride(key: string): Promise<void> {
+    const overrideKey = this.buildKeys(key)[4];
+
+    try {
+      await this.driver.del(overrideKey);
+    } catch (error) {
+      throw new CircuitBreakerStoreError(`clearOverride failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
   /**
-   * Build the three Redis keys sharing a hash tag so they land on the same
+   * Build the five Redis keys sharing a hash tag so they land on the same
    * cluster slot: `{prefixedKey}` (state hash), `{prefixedKey}:f` (failures
-   * window) and `{prefixedKey}:p` (half-open probes).
+   * window), `{prefixedKey}:p` (half-open probes), `{prefixedKey}:s`
+   * (per-slice success counts, used by rate-based tripping) and `{prefixedKey}:o`
+   * (manual override).
    */
-  private buildKeys(key: string): [string, string, string] {
+  private buildKeys(key: string): [string, string, string, string, string] {
     const tag = `{${key}}`;
-    return [tag, `${tag}:f`, `${tag}:p`];
+    return [tag, `${tag}:f`, `${tag}:p`, `${tag}:s`, `${tag}:o`];
   }
 
-  private buildConfigArgs(config: ICircuitBreakerConfig): number[] {
-    return [config.failureThreshold, config.windowMs, config.openDurationMs, config.halfOpenMaxCalls, config.successThreshold, config.probeTimeoutMs];
+  /** Script ARGV in the order documented in lua-scripts.ts. */
+  private buildArgs(config: ICircuitBreakerConfig, now: number, member = '', durationMs = 0): Array<string | number> {
+    return [config.failureThreshold, config.windowMs, config.openDurationMs, config.halfOpenMaxCalls, config.successThreshold, config.probeTimeoutMs, now, member, config.failureRateThreshold ?? 0, config.minimumCalls ?? DEFAULT_CIRCUIT_BREAKER_CONFIG.minimumCalls, config.slowCallDurationMs ?? 0, durationMs];
   }
 
-  /** Unique ZSET member (timestamp + random suffix) for probe/failure entries. */
+  /** Unique ZSET member (timestamp + random suffix) for probe/window entries. */
   private uniqueMember(now: number): string {
     return `${now}-${Math.random().toString(36).substring(7)}`; // ⚠ random
   }
@@ -144,22 +197,59 @@ export class RedisCircuitBreakerStoreAdapter implements ICircuitBreakerStore, On
     const allowed = (result[0] ?? 0) === 1;
     return {
       allowed,
-      snapshot: {
-        state: this.toState(result[1] ?? 0),
-        failuresInWindow: result[2] ?? 0,
-        halfOpenSuccesses: result[3] ?? 0,
-        halfOpenInFlight: result[4] ?? 0,
-      },
+      snapshot: this.withOverride(
+        {
+          state: this.toState(result[1] ?? 0),
+          failuresInWindow: result[2] ?? 0,
+          halfOpenSuccesses: result[3] ?? 0,
+          halfOpenInFlight: result[4] ?? 0,
+        },
+        result[6],
+      ),
     };
   }
 
-  private parseSnapshot(result: number[]): ICircuitSnapshot {
-    return {
-      state: this.toState(result[0] ?? 0),
-      failuresInWindow: result[1] ?? 0,
-      halfOpenSuccesses: result[2] ?? 0,
-      halfOpenInFlight: result[3] ?? 0,
-    };
+  /**
+   * @param overrideIndex - Position of the trailing override code, which only
+   *   overridden results carry (it differs per script).
+   */
+  private parseSnapshot(result: number[], overrideIndex: number): ICircuitSnapshot {
+    return this.withOverride(
+      {
+        state: this.toState(result[0] ?? 0),
+        failuresInWindow: result[1] ?? 0,
+        halfOpenSuccesses: result[2] ?? 0,
+        halfOpenInFlight: result[3] ?? 0,
+      },
+      result[overrideIndex],
+    );
+  }
+
+  /** Attach the override (1 = forced-open, 2 = forced-closed), if any. */
+  private withOverride(snapshot: ICircuitSnapshot, code: number | undefined): ICircuitSnapshot {
+    if (code === 1) {
+      return { ...snapshot, override: 'forced-open' };
+    }
+    if (code === 2) {
+      return { ...snapshot, override: 'forced-closed' };
+    }
+    return snapshot;
+  }
+
+  /**
+   * Report a transition when the script's previous state code differs from the
+   * resulting state. The bus never throws, so a committed outcome is never
+   * turned into a store error.
+   */
+  private detectTransition(key: string, previousCode: number | undefined, snapshot: ICircuitSnapshot): void {
+    // A forced state is not a transition of the state machine.
+    if (!this.events || previousCode === undefined || snapshot.override) {
+      return;
+    }
+    const previousState = this.toState(previousCode);
+    if (previousState !== snapshot.state) {
+      this.events.emit(key, previousState, snapshot);
+    }
   }
 
   private toState(code: number): CircuitState {
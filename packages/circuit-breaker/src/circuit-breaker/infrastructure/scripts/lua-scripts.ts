@@ -15,6 +15,11 @@
  *  KEYS[3] = probes ZSET   -> score = probe start timestamp ms (HALF_OPEN);
  *                             a probe with score <= now - probeTimeoutMs is
  *                             expired and its slot is reclaimed
+ *  KEYS[4] = successes HASH -> field = window slice id, value = successes in
+ *                             that slice (CLOSED window, FAILURE_RATE_SLICES
+ *                             slices); only written while failureRateThreshold > 0
+ *  KEYS[5] = override string -> 'open' | 'closed' (manual override, optional
+ *                             PX ttl); written by the adapter, read here
  *
  * Shared ARGV:
  *  ARGV[1] = failureThreshold
@@ -24,16 +29,30 @@
  *  ARGV[5] = successThreshold
  *  ARGV[6] = probeTimeoutMs
  *  ARGV[7] = now (epoch ms)
- *  ARGV[8] = unique member id (CAN_REQUEST: probe member; RECORD_FAILURE: failure member)
+ *  ARGV[8] = unique member id (CAN_REQUEST: probe member; RECORD_*: failure window entry)
+ *  ARGV[9] = failureRateThreshold (percent, 0 = disabled)
+ *  ARGV[10] = minimumCalls
+ *  ARGV[11] = slowCallDurationMs (0 = disabled)
+ *  ARGV[12] = call duration ms (RECORD_SUCCESS only)
  *
  * State codes returned to the adapter: 0 = closed, 1 = open, 2 = half-open.
+ * Mutating scripts that can transition (CAN_REQUEST, RECORD_*) append the
+ * state code read BEFORE the script ran, so the adapter detects transitions.
+ *
+ * While a manual override is set every script returns early with the forced
+ * state, zero counters and one extra trailing element, the override code
+ * (1 = forced-open, 2 = forced-closed); the state machine is left untouched.
  */
 
+import { FAILURE_RATE_SLICES } from '../../../shared/constants';
+
 /** Shared preamble: parse keys + config + now, compute idle TTL for state keys. */
 const PREAMBLE = `
 local sk = KEYS[1]
 local fk = KEYS[2]
 local pk = KEYS[3]
+local ok = KEYS[4]
+local vk = KEYS[5]
 local failure_threshold = tonumber(ARGV[1])
 local window_ms = tonumber(ARGV[2])
 local open_ms = tonumber(ARGV[3])
@@ -41,20 +60,66 @@ local half_max = tonumber(ARGV[4])
 local success_threshold = tonumber(ARGV[5])
 local probe_timeout_ms = tonumber(ARGV[6])
 local now = tonumber(ARGV[7])
+local rate_threshold = tonumber(ARGV[9]) or 0
+local minimum_calls = tonumber(ARGV[10]) or 1
+local slow_ms = tonumber(ARGV[11]) or 0
 -- Idle TTL must outlive every timed aspect of the circuit (window, cooldown,
 -- AND probe timeout) so keys never expire before their semantics played out.
 local ttl_ms = math.max(window_ms, open_ms, probe_timeout_ms) * 2 + 60000
 `;
 
+/** State code before the script ran (appended to transition-capable results). */
+const PREVIOUS_STATE = `
+local prev_state = redis.call('HGET', sk, 'state')
+local prev_code = 0
+if prev_state == 'open' then
+  prev_code = 1
+elseif prev_state == 'half-open' then
+  prev_code = 2
+end
+`;
+
+/**
+ * Manual override for the record scripts (after PREVIOUS_STATE): nothing is
+ * recorded while the breaker is forced.
+ */
+const RECORD_OVERRIDE = `
+local override = redis.call('GET', vk)
+if override == 'open' then
+  return {1, 0, 0, 0, prev_code, 1}
+elseif override == 'closed' then
+  return {0, 0, 0, 0, prev_code, 2}
+end
+`;
+
+/** Manual override for RELEASE and GET_STATE. */
+const SNAPSHOT_OVERRIDE = `
+local override = redis.call('GET', vk)
+if override == 'open' then
+  return {1, 0, 0, 0, 1}
+elseif override == 'closed' then
+  return {0, 0, 0, 0, 2}
+end
+`;
+
 /**
  * CAN_REQUEST — apply the request rule (mutating) and return the decision.
  * ARGV[8] = unique probe member id (used when a half-open slot is granted).
  *
- * Returns: {allowed(0/1), stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight}
+ * Returns: {allowed(0/1), stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight, previousStateCode}
  */
 export const CAN_REQUEST_SCRIPT = (
   PREAMBLE +
+  PREVIOUS_STATE +
   `
+local override = redis.call('GET', vk)
+if override == 'open' then
+  return {0, 1, 0, 0, 0, prev_code, 1}
+elseif override == 'closed' then
+  -- every call passes; no probe slot is taken
+  return {1, 0, 0, 0, 0, prev_code, 2}
+end
+
 local member = ARGV[8]
 local state = redis.call('HGET', sk, 'state')
 
@@ -67,7 +132,7 @@ if state == 'open' then
     redis.call('PEXPIRE', sk, ttl_ms)
     state = 'half-open'
   else
-    return {0, 1, 0, 0, 0}
+    return {0, 1, 0, 0, 0, prev_code}
   end
 end
 
@@ -80,39 +145,129 @@ if state == 'half-open' then
     redis.call('ZADD', pk, now, member)
     redis.call('PEXPIRE', pk, ttl_ms)
     redis.call('PEXPIRE', sk, ttl_ms)
-    return {1, 2, 0, succ, inflight + 1}
+    return {1, 2, 0, succ, inflight + 1, prev_code}
   else
-    return {0, 2, 0, succ, inflight}
+    return {0, 2, 0, succ, inflight, prev_code}
   end
 end
 
 -- CLOSED (state nil or 'closed'): prune window and report the count
 redis.call('ZREMRANGEBYSCORE', fk, '-inf', now - window_ms)
 local cnt = redis.call('ZCARD', fk)
-return {1, 0, cnt, 0, 0}
+return {1, 0, cnt, 0, 0, prev_code}
 `
 ).trim();
 
+/**
+ * Prune success slices that left the window and sum the rest into
+ * `successes`. Defines `slice_ms` for the current slice id.
+ */
+const COUNT_SUCCESSES = `
+local slice_ms = math.max(1, math.floor(window_ms / ${FAILURE_RATE_SLICES}))
+local oldest_slice = math.floor((now - window_ms) / slice_ms)
+local successes = 0
+local slices = redis.call('HGETALL', ok)
+for i = 1, #slices, 2 do
+  if tonumber(slices[i]) < oldest_slice then
+    redis.call('HDEL', ok, slices[i])
+  else
+    successes = successes + tonumber(slices[i + 1])
+  end
+end
+`;
+
+/**
+ * Failure rule shared by RECORD_FAILURE and RECORD_SUCCESS (slow calls).
+ * Expects `member` (ARGV[8]) to be defined; always returns.
+ *
+ * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight, previousStateCode}
+ */
+const FAILURE_RULE =
+  `
+local state = redis.call('HGET', sk, 'state')
+if not state then state = 'closed' end
+
+if state == 'open' then
+  -- ignored: no permitted calls exist in OPEN
+  return {1, 0, 0, 0, prev_code}
+end
+
+if state == 'half-open' then
+  -- a single probe failure reopens the breaker
+  redis.call('HSET', sk, 'state', 'open', 'opened_at', now, 'ho_succ', 0)
+  redis.call('DEL', fk)
+  redis.call('DEL', ok)
+  redis.call('DEL', pk)
+  redis.call('PEXPIRE', sk, ttl_ms)
+  return {1, 0, 0, 0, prev_code}
+end
+
+-- CLOSED
+redis.call('ZADD', fk, now, member)
+redis.call('ZREMRANGEBYSCORE', fk, '-inf', now - window_ms)
+local cnt = redis.call('ZCARD', fk)
+local trip = cnt >= failure_threshold
+if not trip and rate_threshold > 0 then
+  -- failures as a share of all calls (failures + successes) in the window
+` +
+  COUNT_SUCCESSES +
+  `
+  local calls = cnt + successes
+  trip = calls >= minimum_calls and cnt * 100 >= rate_threshold * calls
+end
+if trip then
+  redis.call('HSET', sk, 'state', 'open', 'opened_at', now, 'ho_succ', 0)
+  redis.call('DEL', fk)
+  redis.call('DEL', ok)
+  redis.call('DEL', pk)
+  redis.call('PEXPIRE', sk, ttl_ms)
+  return {1, 0, 0, 0, prev_code}
+end
+redis.call('PEXPIRE', fk, ttl_ms)
+return {0, cnt, 0, 0, prev_code}
+`;
+
 /**
  * RECORD_SUCCESS — record a success (mutating) and return the snapshot.
+ * ARGV[8] = unique member id (failure window entry for a slow call).
+ * ARGV[12] = call duration; a call at or above slowCallDurationMs is
+ * recorded as a failure instead.
  *
- * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight}
+ * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight, previousStateCode}
  */
 export const RECORD_SUCCESS_SCRIPT = (
   PREAMBLE +
+  PREVIOUS_STATE +
+  RECORD_OVERRIDE +
+  `
+local member = ARGV[8]
+local duration = tonumber(ARGV[12]) or 0
+if slow_ms > 0 and duration >= slow_ms then
+` +
+  FAILURE_RULE +
   `
+end
+
 local state = redis.call('HGET', sk, 'state')
 if not state then state = 'closed' end
 
 if state == 'closed' then
+  if rate_threshold > 0 then
+    -- successes only feed the failure-rate denominator
+` +
+  COUNT_SUCCESSES +
+  `
+    redis.call('HINCRBY', ok, math.floor(now / slice_ms), 1)
+    redis.call('PEXPIRE', ok, ttl_ms)
+  end
   redis.call('ZREMRANGEBYSCORE', fk, '-inf', now - window_ms)
   local cnt = redis.call('ZCARD', fk)
-  return {0, cnt, 0, 0}
+  return {0, cnt, 0, 0, prev_code}
 end
 
 if state == 'open' then
   -- ignored: no permitted calls exist in OPEN
-  return {1, 0, 0, 0}
+  return {1, 0, 0, 0, prev_code}
 end
 
 -- HALF_OPEN: reclaim expired probes, then release the most recently started
@@ -127,12 +282,13 @@ local succ = (tonumber(redis.call('HGET', sk, 'ho_succ')) or 0) + 1
 if succ >= success_threshold then
   redis.call('DEL', sk)
   redis.call('DEL', fk)
+  redis.call('DEL', ok)
   redis.call('DEL', pk)
-  return {0, 0, 0, 0}
+  return {0, 0, 0, 0, prev_code}
 else
   redis.call('HSET', sk, 'ho_succ', succ)
   redis.call('PEXPIRE', sk, ttl_ms)
-  return {2, 0, succ, redis.call('ZCARD', pk)}
+  return {2, 0, succ, redis.call('ZCARD', pk), prev_code}
 end
 `
 ).trim();
@@ -141,41 +297,48 @@ end
  * RECORD_FAILURE — record a failure (mutating) and return the snapshot.
  * ARGV[8] = unique failure member id (CLOSED window entry).
  *
- * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight}
+ * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight, previousStateCode}
  */
 export const RECORD_FAILURE_SCRIPT = (
   PREAMBLE +
+  PREVIOUS_STATE +
+  RECORD_OVERRIDE +
   `
 local member = ARGV[8]
+` +
+  FAILURE_RULE
+).trim();
+
+/**
+ * RELEASE — give back a permitted call's slot without recording an outcome
+ * (e.g. an ignored error). Only HALF_OPEN holds a slot: the most recently
+ * started in-flight probe is released; counters are unchanged.
+ *
+ * Returns: {stateCode, failuresInWindow, halfOpenSuccesses, halfOpenInFlight}
+ */
+export const RELEASE_SCRIPT = (
+  PREAMBLE +
+  SNAPSHOT_OVERRIDE +
+  `
 local state = redis.call('HGET', sk, 'state')
 if not state then state = 'closed' end
 
 if state == 'open' then
-  -- ignored: no permitted calls exist in OPEN
   return {1, 0, 0, 0}
 end
 
 if state == 'half-open' then
-  -- a single probe failure reopens the breaker
-  redis.call('HSET', sk, 'state', 'open', 'opened_at', now, 'ho_succ', 0)
-  redis.call('DEL', fk)
-  redis.call('DEL', pk)
-  redis.call('PEXPIRE', sk, ttl_ms)
-  return {1, 0, 0, 0}
+  redis.call('ZREMRANGEBYSCORE', pk, '-inf', now - probe_timeout_ms)
+  local newest = redis.call('ZRANGE', pk, -1, -1)
+  if #newest > 0 then
+    redis.call('ZREM', pk, newest[1])
+  end
+  local succ = tonumber(redis.call('HGET', sk, 'ho_succ')) or 0
+  return {2, 0, succ, redis.call('ZCARD', pk)}
 end
 
--- CLOSED
-redis.call('ZADD', fk, now, member)
-redis.call('ZREMRANGEBYSCORE', fk, '-inf', now - window_ms)
-local cnt = redis.call('ZCARD', fk)
-if cnt >= failure_threshold then
-  redis.call('HSET', sk, 'state', 'open', 'opened_at', now, 'ho_succ', 0)
-  redis.call('DEL', fk)
-  redis.call('DEL', pk)
-  redis.call('PEXPIRE', sk, ttl_ms)
-  return {1, 0, 0, 0}
-end
-redis.call('PEXPIRE', fk, ttl_ms)
+-- CLOSED: nothing to release (non-mutating count)
+local cnt = redis.call('ZCOUNT', fk, '(' .. (now - window_ms), '+inf')
 return {0, cnt, 0, 0}
 `
 ).trim();
@@ -189,6 +352,7 @@ return {0, cnt, 0, 0}
  */
 export const GET_STATE_SCRIPT = (
   PREAMBLE +
+  SNAPSHOT_OVERRIDE +
   `
 local state = redis.call('HGET', sk, 'state')
 if not state then state = 'closed' end
@@ -208,3 +372,64 @@ local cnt = redis.call('ZCOUNT', fk, '(' .. (now - window_ms), '+inf')
 return {0, cnt, 0, 0}
 `
 ).trim();
+
+/**
+ * BULKHEAD_ACQUIRE — take a leased bulkhead slot if one is free.
+ * Slots whose lease ran out (e.g. their instance crashed) are dropped before
+ * counting. Independent of the breaker state; uses its own key and ARGV.
+ *
+ * KEYS[1] = slots ZSET -> score = lease expiry timestamp ms
+ * ARGV[1] = maxConcurrent
+ * ARGV[2] = lease (ms)
+ * ARGV[3] = now (epoch ms)
+ * ARGV[4] = unique slot id
+ *
+ * Returns: {acquired(0/1), slotsInUse}
+ */
+export const BULKHEAD_ACQUIRE_SCRIPT = `
+local key = KEYS[1]
+local max = tonumber(ARGV[1])
+local lease = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+local current = redis.call('ZCARD', key)
+if current >= max then
+  return {0, current}
+end
+
+redis.call('ZADD', key, now + lease, ARGV[4])
+-- Keep the key as long as its longest lease
+if redis.call('PTTL', key) < lease then
+  redis.call('PEXPIRE', key, lease)
+end
+return {1, current + 1}
+`.trim();
+
+/**
+ * BULKHEAD_RENEW — extend the lease of a bulkhead slot whose call still runs.
+ * A slot that was released, or whose lease already ran out, is not taken again.
+ *
+ * KEYS[1] = slots ZSET -> score = lease expiry timestamp ms
+ * ARGV[1] = lease (ms)
+ * ARGV[2] = now (epoch ms)
+ * ARGV[3] = slot id
+ *
+ * Returns: {renewed(0/1)}
+ */
+export const BULKHEAD_RENEW_SCRIPT = `
+local key = KEYS[1]
+local lease = tonumber(ARGV[1])
+local now = tonumber(ARGV[2])
+
+local expiry = tonumber(redis.call('ZSCORE', key, ARGV[3]))
+if not expiry or expiry <= now then
+  return {0}
+end
+
+redis.call('ZADD', key, now + lease, ARGV[3])
+if redis.call('PTTL', key) < lease then
+  redis.call('PEXPIRE', key, lease)
+end
+return {1}
+`.trim();
@@ -3,25 +3,29 @@ export { CircuitBreakerPlugin } from './circuit-breaker.plugin';
 
 // Services
 export { CircuitBreakerService } from './circuit-breaker/application/services/circuit-breaker.service';
+export { BulkheadService } from './circuit-breaker/application/services/bulkhead.service';
 
 // Ports (Interfaces)
 export type { ICircuitBreakerService } from './circuit-breaker/application/ports/circuit-breaker-service.port';
 export type { ICircuitBreakerStore } from './circuit-breaker/application/ports/circuit-breaker-store.port';
+export type { ICircuitBreakerEventBus } from './circuit-breaker/application/ports/circuit-breaker-event-bus.port';
+export type { IBulkheadService } from './circuit-breaker/application/ports/bulkhead-service.port';
+export type { IBulkheadStore } from './circuit-breaker/application/ports/bulkhead-store.port';
 
 // Decorators
 export { WithCircuitBreaker, type IWithCircuitBreakerOptions } from './circuit-breaker/api/decorators/with-circuit-breaker.decorator';
 
 // Domain — types & contract
-export type { CircuitState, ICircuitBreakerConfig, ICircuitSnapshot, ICircuitBreakerState } from './circuit-breaker/domain/circuit-breaker-state.interface';
+export type { CircuitState, CircuitOverride, ICircuitBreakerConfig, ICircuitSnapshot, ICircuitBreakerState } from './circuit-breaker/domain/circuit-breaker-state.interface';
 
 // Domain — state machine
 export { CircuitBreakerState } from './circuit-breaker/domain/circuit-breaker-state';
 
 // Types
-export type { ICircuitBreakerPluginOptions, ICircuitBreakerOptions, ICircuitBreakerExecuteOptions, ICircuitBreakerDecision, CircuitBreakerPluginOptions, CircuitBreakerOptions } from './shared/types';
+export type { ICircuitBreakerPluginOptions, ICircuitBreakerOptions, ICircuitBreakerExecuteOptions, ICircuitBreakerDecision, ICircuitBreakerErrorClassification, CircuitBreakerErrorMatcher, ICircuitStateChange, IBulkheadOptions, CircuitBreakerPluginOptions, CircuitBreakerOptions, BulkheadOptions } from './shared/types';
 
 // Errors
-export { CircuitBreakerError, CircuitBreakerOpenError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from './shared/errors';
+export { CircuitBreakerError, CircuitBreakerOpenError, BulkheadFullError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from './shared/errors';
 
 // Constants (DI tokens)
-export { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_SERVICE, CIRCUIT_BREAKER_STORE, CIRCUIT_BREAKER_REDIS_DRIVER } from './shared/constants';
+export { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_SERVICE, CIRCUIT_BREAKER_STORE, CIRCUIT_BREAKER_EVENT_BUS, CIRCUIT_BREAKER_REDIS_DRIVER, BULKHEAD_SERVICE, BULKHEAD_STORE } from './shared/constants';
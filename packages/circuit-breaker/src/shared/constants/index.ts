@@ -2,7 +2,7 @@
  * Injection tokens and default configuration for the circuit breaker plugin.
  */
 
-import { ICircuitBreakerPluginOptions } from '../types';
+import { IBulkheadOptions, ICircuitBreakerPluginOptions } from '../types';
 
 /**
  * Injection token for circuit breaker plugin options.
@@ -19,6 +19,21 @@ export const CIRCUIT_BREAKER_SERVICE = Symbol.for('CIRCUIT_BREAKER_SERVICE');
  */
 export const CIRCUIT_BREAKER_STORE = Symbol.for('CIRCUIT_BREAKER_STORE');
 
+/**
+ * Injection token for bulkhead service.
+ */
+export const BULKHEAD_SERVICE = Symbol.for('BULKHEAD_SERVICE');
+
+/**
+ * Injection token for the distributed bulkhead slot store.
+ */
+export const BULKHEAD_STORE = Symbol.for('BULKHEAD_STORE');
+
+/**
+ * Injection token for the state change event bus.
+ */
+export const CIRCUIT_BREAKER_EVENT_BUS = Symbol.for('CIRCUIT_BREAKER_EVENT_BUS');
+
 /**
  * Plugin-specific Redis driver token.
  * Resolves to the named client specified in plugin options.
@@ -34,12 +49,36 @@ export const CIRCUIT_BREAKER_REDIS_DRIVER = Symbol.for('CIRCUIT_BREAKER_REDIS_DR
  * follows the RESOLVED `openDurationMs` (a probe hanging longer than the
  * cooldown itself is presumed dead).
  */
-export const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<Omit<ICircuitBreakerPluginOptions, 'isGlobal' | 'client' | 'errorFactory' | 'probeTimeoutMs'>> = {
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<Omit<ICircuitBreakerPluginOptions, 'isGlobal' | 'client' | 'errorFactory' | 'probeTimeoutMs' | 'recordOn' | 'ignoreOn'>> = {
   keyPrefix: 'cb:',
   failureThreshold: 5,
   windowMs: 10000,
   openDurationMs: 30000,
   halfOpenMaxCalls: 1,
   successThreshold: 1,
+  failureRateThreshold: 0,
+  minimumCalls: 10,
+  slowCallDurationMs: 0,
   errorPolicy: 'fail-closed',
+  events: {
+    pubsub: false,
+    channel: 'redisx:circuit-breaker:events',
+  },
+};
+
+/**
+ * Default bulkhead options (`maxConcurrent` has no default).
+ */
+export const DEFAULT_BULKHEAD_CONFIG: Required<Omit<IBulkheadOptions, 'maxConcurrent'>> = {
+  maxQueue: 0,
+  queueTimeoutMs: 1000,
+  scope: 'local',
+  leaseMs: 60000,
 };
+
+/**
+ * Number of slices the failure-rate window is split into. Successes are kept
+ * as one counter per slice, so their memory does not grow with traffic; a
+ * slice stays counted while any part of it overlaps windowMs.
+ */
+export const FAILURE_RATE_SLICES = 10;
@@ -12,15 +12,29 @@ export class CircuitBreakerError extends RedisXError {
 }
 
 /**
- * Error thrown when the circuit breaker is OPEN (or its half-open probe budget
- * is exhausted) and the guarded call is rejected without being executed.
+ * Error thrown when the circuit breaker is OPEN (or forced open, or its
+ * half-open probe budget is exhausted) and the guarded call is rejected
+ * without being executed.
  */
 export class CircuitBreakerOpenError extends CircuitBreakerError {
   constructor(
     public readonly key: string,
     public readonly circuitSnapshot: ICircuitSnapshot,
   ) {
-    super(`Circuit breaker "${key}" is ${circuitSnapshot.state}; call rejected`, ErrorCode.CIRCUIT_BREAKER_OPEN, undefined, { key, state: circuitSnapshot.state });
+    super(`Circuit breaker "${key}" is ${circuitSnapshot.override ?? circuitSnapshot.state}; call rejected`, ErrorCode.CIRCUIT_BREAKER_OPEN, undefined, { key, state: circuitSnapshot.state, ...(circuitSnapshot.override && { override: circuitSnapshot.override }) });
+  }
+}
+
+/**
+ * Error thrown when a bulkhead has no free slot (and no queue room, or the
+ * queue wait timed out); the call is rejected without being executed.
+ */
+export class BulkheadFullError extends CircuitBreakerError {
+  constructor(
+    public readonly key: string,
+    public readonly maxConcurrent: number,
+  ) {
+    super(`Bulkhead "${key}" is full (${maxConcurrent} concurrent calls); call rejected`, ErrorCode.CIRCUIT_BREAKER_BULKHEAD_FULL, undefined, { key, maxConcurrent });
   }
 }
 
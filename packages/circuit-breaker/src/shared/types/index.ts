@@ -1,9 +1,28 @@
-import { ICircuitBreakerConfig, ICircuitSnapshot } from '../../circuit-breaker/domain/circuit-breaker-state.interface';
+import { CircuitState, ICircuitBreakerConfig, ICircuitSnapshot } from '../../circuit-breaker/domain/circuit-breaker-state.interface';
+
+/**
+ * Matches errors thrown by a guarded call: a list of error classes (matched
+ * with `instanceof`) or a predicate.
+ */
+export type CircuitBreakerErrorMatcher = Array<abstract new (...args: never[]) => Error> | ((error: unknown) => boolean);
+
+/**
+ * Errors a breaker reacts to. An error matching `ignoreOn` is neither a
+ * success nor a failure. Otherwise, when `recordOn` is set, only matching
+ * errors are failures and all others count as successes. With neither set,
+ * every error is a failure.
+ */
+export interface ICircuitBreakerErrorClassification {
+  /** Errors recorded as failures; non-matching errors count as successes. */
+  recordOn?: CircuitBreakerErrorMatcher;
+  /** Errors that are not recorded at all (takes precedence over `recordOn`). */
+  ignoreOn?: CircuitBreakerErrorMatcher;
+}
 
 /**
  * Circuit breaker plugin options.
  */
-export interface ICircuitBreakerPluginOptions {
+export interface ICircuitBreakerPluginOptions extends ICircuitBreakerErrorClassification {
   /**
    * Make the module global.
    * @default false
@@ -60,6 +79,27 @@ export interface ICircuitBreakerPluginOptions {
    */
   probeTimeoutMs?: number;
 
+  /**
+   * Default failure percentage (0-100) within windowMs that trips CLOSED -> OPEN
+   * once at least minimumCalls were recorded. Works alongside failureThreshold:
+   * whichever is reached first trips the breaker. 0 disables it.
+   * @default 0
+   */
+  failureRateThreshold?: number;
+
+  /**
+   * Default calls within windowMs required before failureRateThreshold applies.
+   * @default 10
+   */
+  minimumCalls?: number;
+
+  /**
+   * Default duration (ms) from which a successful call is recorded as a
+   * failure. 0 disables slow-call detection.
+   * @default 0
+   */
+  slowCallDurationMs?: number;
+
   /**
    * Error handling strategy for STATE STORE failures (e.g. Redis/Lua errors).
    * - fail-open: run the guarded call anyway (high availability)
@@ -72,12 +112,24 @@ export interface ICircuitBreakerPluginOptions {
    * Custom error factory used when the breaker rejects a call (OPEN).
    */
   errorFactory?: (key: string, snapshot: ICircuitSnapshot) => Error;
+
+  /**
+   * State change events. Transitions detected by this instance are always
+   * delivered to local `onStateChange` listeners. With `pubsub` enabled they
+   * are also broadcast over Redis Pub/Sub, so every instance sees every
+   * transition. Uses a dedicated subscriber connection.
+   */
+  events?: {
+    pubsub?: boolean; // default: false
+    channel?: string; // default: 'redisx:circuit-breaker:events'
+  };
 }
 
 /**
- * Per-call configuration overrides (subset of the state-machine knobs).
+ * Per-call configuration overrides (subset of the state-machine knobs) and
+ * error classification (overrides the plugin-level `recordOn` / `ignoreOn`).
  */
-export interface ICircuitBreakerOptions {
+export interface ICircuitBreakerOptions extends ICircuitBreakerErrorClassification {
   /** Override failureThreshold. */
   failureThreshold?: number;
   /** Override windowMs. */
@@ -90,6 +142,49 @@ export interface ICircuitBreakerOptions {
   successThreshold?: number;
   /** Override probeTimeoutMs (defaults to the resolved openDurationMs). */
   probeTimeoutMs?: number;
+  /** Override failureRateThreshold. */
+  failureRateThreshold?: number;
+  /** Override minimumCalls. */
+  minimumCalls?: number;
+  /** Override slowCallDurationMs. */
+  slowCallDurationMs?: number;
+}
+
+/**
+ * Bulkhead: caps concurrent executions per key so a saturated dependency
+ * fails fast instead of piling up calls.
+ */
+export interface IBulkheadOptions {
+  /** Max calls running at once per key. Integer >= 1. */
+  maxConcurrent: number;
+
+  /**
+   * Calls allowed to wait for a free slot, per key and instance. Further calls
+   * are rejected at once.
+   * @default 0
+   */
+  maxQueue?: number;
+
+  /**
+   * Max time (ms) a queued call waits for a slot before it is rejected.
+   * @default 1000
+   */
+  queueTimeoutMs?: number;
+
+  /**
+   * - local: slots are counted per instance, in memory
+   * - distributed: slots are shared by all instances through Redis
+   * @default 'local'
+   */
+  scope?: 'local' | 'distributed';
+
+  /**
+   * Distributed scope: time (ms) after which the slot of a call that never
+   * finished (e.g. a crashed instance) is freed. A running call renews it
+   * every `leaseMs / 2`.
+   * @default 60000
+   */
+  leaseMs?: number;
 }
 
 /**
@@ -97,8 +192,8 @@ export interface ICircuitBreakerOptions {
  */
 export interface ICircuitBreakerExecuteOptions<T = unknown> extends ICircuitBreakerOptions {
   /**
-   * Called instead of throwing when the breaker rejects the call (OPEN).
-   * Its result is returned from execute().
+   * Called instead of throwing when the breaker rejects the call (OPEN) or
+   * the bulkhead is full. Its result is returned from execute().
    */
   fallback?: () => T | Promise<T>;
 
@@ -107,6 +202,13 @@ export interface ICircuitBreakerExecuteOptions<T = unknown> extends ICircuitBrea
    * Overrides the plugin-level errorFactory.
    */
   errorFactory?: (key: string, snapshot: ICircuitSnapshot) => Error;
+
+  /**
+   * Run `fn` inside a bulkhead for the same key. Checked after the breaker
+   * admitted the call; a rejection is not recorded as a failure and returns
+   * `fallback()` if provided, otherwise throws BulkheadFullError.
+   */
+  bulkhead?: IBulkheadOptions;
 }
 
 /**
@@ -119,9 +221,29 @@ export interface ICircuitBreakerDecision {
   snapshot: ICircuitSnapshot;
 }
 
+/**
+ * A circuit state transition (closed -> open, open -> half-open,
+ * half-open -> closed / open).
+ */
+export interface ICircuitStateChange {
+  /** Logical circuit key (without keyPrefix) */
+  key: string;
+  /** State before the transition */
+  previousState: CircuitState;
+  /** State after the transition */
+  state: CircuitState;
+  /** Snapshot right after the transition */
+  snapshot: ICircuitSnapshot;
+  /** When the transition was detected (ms since epoch) */
+  timestamp: number;
+  /** Instance id of the instance that detected the transition */
+  origin: string;
+}
+
 // Type aliases for backward compatibility (non-I-prefixed)
 export type CircuitBreakerPluginOptions = ICircuitBreakerPluginOptions;
 export type CircuitBreakerOptions = ICircuitBreakerOptions;
+export type BulkheadOptions = IBulkheadOptions;
 
 // Re-export the resolved config for convenience (all knobs required).
 export type { ICircuitBreakerConfig };
@@ -1,9 +1,9 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { Test, type TestingModule } from '@nestjs/testing';
-import { RedisModule } from '@nestjs-redisx/core';
+import { RedisModule, type IRedisDriver } from '@nestjs-redisx/core';
 import { MEMORY_DRIVER_TYPE } from '@nestjs-redisx/testing';
 
-import { CircuitBreakerPlugin, CIRCUIT_BREAKER_SERVICE, CircuitBreakerOpenError, type ICircuitBreakerService } from '../../src';
+import { BulkheadFullError, CircuitBreakerPlugin, CIRCUIT_BREAKER_REDIS_DRIVER, CIRCUIT_BREAKER_SERVICE, CircuitBreakerOpenError, type ICircuitBreakerService, type ICircuitStateChange } from '../../src';
 
 /**
  * End-to-end validation on the in-memory driver — NO Redis. Exercises the full
@@ -218,6 +218,95 @@ describe('CircuitBreaker on the in-memory driver (no Redis)', () => {
     expect((await cb.getState(key)).state).toBe('closed');
   });
 
+  it('trips on the failure rate once minimumCalls is reached (over Lua)', async () => {
+    // Given — count threshold out of reach, 50% over at least 4 calls
+    const cb = await boot();
+    const key = 'rate';
+    const options = { failureThreshold: 100, failureRateThreshold: 50, minimumCalls: 4 };
+    const fail = (): Promise<string> => Promise.reject(new Error('down'));
+
+    await cb.execute(key, () => Promise.resolve('ok'), options);
+    await cb.execute(key, () => Promise.resolve('ok'), options);
+    await expect(cb.execute(key, fail, options)).rejects.toThrow('down');
+    expect(await cb.getState(key, options)).toMatchObject({ state: 'closed', failuresInWindow: 1 });
+
+    // When — 2 failures out of 4 calls
+    await expect(cb.execute(key, fail, options)).rejects.toThrow('down');
+
+    // Then
+    expect((await cb.getState(key, options)).state).toBe('open');
+    await expect(cb.execute(key, () => Promise.resolve('ok'), options)).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+  });
+
+  it('keeps one success counter per window slice, not one entry per call (over Lua)', async () => {
+    // Given
+    const cb = await boot();
+    const options = { failureRateThreshold: 50 };
+
+    // When — a burst of successes spanning at most two 1s slices of the 10s window
+    for (let i = 0; i < 50; i++) {
+      await cb.execute('busy', () => Promise.resolve('ok'), options);
+    }
+
+    // Then
+    const successes = await app!.get<IRedisDriver>(CIRCUIT_BREAKER_REDIS_DRIVER).hgetall('{cb:busy}:s');
+    expect(Object.keys(successes).length).toBeLessThanOrEqual(2);
+    expect(Object.values(successes).reduce((sum, count) => sum + Number(count), 0)).toBe(50);
+  });
+
+  it('records slow successes as failures (over Lua)', async () => {
+    // Given — calls taking 30ms or more count as failures
+    const cb = await boot();
+    const key = 'slow';
+    const options = { slowCallDurationMs: 30 };
+    const slow = async (): Promise<string> => {
+      await wait(50);
+      return 'late';
+    };
+
+    // When — the slow call still returns its result
+    await expect(cb.execute(key, slow, options)).resolves.toBe('late');
+    await expect(cb.execute(key, () => Promise.resolve('fast'), options)).resolves.toBe('fast');
+
+    // Then — only the slow call counted
+    expect(await cb.getState(key, options)).toMatchObject({ state: 'closed', failuresInWindow: 1 });
+
+    // When — a manually recorded slow success
+    await cb.recordSuccess(key, options, 45);
+
+    // Then — failureThreshold (2) reached
+    expect((await cb.getState(key, options)).state).toBe('open');
+  });
+
+  it('classifies errors with ignoreOn / recordOn (over Lua)', async () => {
+    // Given — failureThreshold 2; 404s are ignored, validation errors are not failures
+    class NotFoundError extends Error {}
+    class ValidationError extends Error {}
+    const cb = await boot();
+    const key = 'classified';
+    const options = { ignoreOn: [NotFoundError], recordOn: (error: unknown) => !(error instanceof ValidationError) };
+
+    // When — plenty of client errors
+    for (let i = 0; i < 3; i++) {
+      await expect(cb.execute(key, () => Promise.reject(new NotFoundError('missing')), options)).rejects.toThrow('missing');
+      await expect(cb.execute(key, () => Promise.reject(new ValidationError('invalid')), options)).rejects.toThrow('invalid');
+    }
+
+    // Then — none of them counted
+    expect(await cb.getState(key)).toMatchObject({ state: 'closed', failuresInWindow: 0 });
+
+    // When — two real failures trip it, and an ignored probe gives its slot back
+    await expect(cb.execute(key, () => Promise.reject(new Error('down')), options)).rejects.toThrow('down');
+    await expect(cb.execute(key, () => Promise.reject(new Error('down')), options)).rejects.toThrow('down');
+    await wait(OPEN_MS + 40);
+    await expect(cb.execute(key, () => Promise.reject(new NotFoundError('missing')), options)).rejects.toThrow('missing');
+
+    // Then — still HALF_OPEN with the single probe slot free
+    expect(await cb.getState(key)).toMatchObject({ state: 'half-open', halfOpenInFlight: 0 });
+    await expect(cb.execute(key, () => Promise.resolve('ok'), options)).resolves.toBe('ok');
+    expect((await cb.getState(key)).state).toBe('closed');
+  });
+
   it('reclaims a zombie probe slot after probeTimeoutMs (over Lua)', async () => {
     // Given — single probe slot; probes expire after 100ms
     const PROBE_TIMEOUT = 100;
@@ -261,6 +350,144 @@ describe('CircuitBreaker on the in-memory driver (no Redis)', () => {
     expect((await cb.getState(key)).state).toBe('closed');
   });
 
+  it('emits state change events for every transition (over Lua)', async () => {
+    // Given
+    const cb = await boot();
+    const changes: ICircuitStateChange[] = [];
+    cb.onStateChange((change) => changes.push(change));
+    const fail = (): Promise<string> => Promise.reject(new Error('down'));
+
+    // When — trip, reopen from a failed probe, then close from a good one
+    await expect(cb.execute('events', fail)).rejects.toThrow();
+    await expect(cb.execute('events', fail)).rejects.toThrow();
+    await wait(OPEN_MS + 40);
+    await expect(cb.execute('events', fail)).rejects.toThrow();
+    await wait(OPEN_MS + 40);
+    await expect(cb.execute('events', () => Promise.resolve('ok'))).resolves.toBe('ok');
+
+    // Then
+    expect(changes.map(({ previousState, state }) => `${previousState}->${state}`)).toEqual(['closed->open', 'open->half-open', 'half-open->open', 'open->half-open', 'half-open->closed']);
+    expect(changes[0]).toMatchObject({ key: 'events', snapshot: { state: 'open' } });
+  });
+
+  it('broadcasts state changes to other instances with events.pubsub', async () => {
+    // Given — two instances sharing the in-memory Pub/Sub bus
+    const bootInstance = async (): Promise<TestingModule> => {
+      const instance = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new CircuitBreakerPlugin({ failureThreshold: 1, openDurationMs: OPEN_MS, events: { pubsub: true } })],
+          }),
+        ],
+      }).compile();
+      await instance.init();
+      return instance;
+    };
+    const origin = await bootInstance();
+    const peer = await bootInstance();
+    const received: ICircuitStateChange[] = [];
+    const sent: ICircuitStateChange[] = [];
+    origin.get<ICircuitBreakerService>(CIRCUIT_BREAKER_SERVICE).onStateChange((change) => sent.push(change));
+    peer.get<ICircuitBreakerService>(CIRCUIT_BREAKER_SERVICE).onStateChange((change) => received.push(change));
+
+    try {
+      // When — the origin trips its breaker
+      await expect(origin.get<ICircuitBreakerService>(CIRCUIT_BREAKER_SERVICE).execute('shared', () => Promise.reject(new Error('down')))).rejects.toThrow();
+      await wait(20);
+
+      // Then — the peer sees the transition once, the origin only locally
+      expect(received).toEqual(sent);
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ key: 'shared', previousState: 'closed', state: 'open' });
+    } finally {
+      await origin.close();
+      await peer.close();
+    }
+  });
+
+  it('applies manual overrides and resumes on release (over Lua)', async () => {
+    // Given a tripped breaker
+    const cb = await boot();
+    const key = 'overridden';
+    const fail = (): Promise<string> => Promise.reject(new Error('down'));
+    await expect(cb.execute(key, fail)).rejects.toThrow();
+    await expect(cb.execute(key, fail)).rejects.toThrow();
+
+    // When — forced closed: calls pass and failures are not recorded
+    await cb.forceClose(key);
+    await expect(cb.execute(key, fail)).rejects.toThrow('down');
+    await expect(cb.execute(key, () => Promise.resolve('ok'))).resolves.toBe('ok');
+
+    // Then
+    expect(await cb.getState(key)).toEqual({ state: 'closed', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 0, override: 'forced-closed' });
+
+    // When — released: the breaker is still OPEN from before
+    await cb.release(key);
+
+    // Then
+    expect(await cb.getState(key)).toMatchObject({ state: 'open' });
+    expect(await cb.getState(key)).not.toHaveProperty('override');
+
+    // When — forced open on a healthy circuit, with a ttl
+    await cb.forceOpen('healthy', OPEN_MS);
+
+    // Then — rejected until the override expires
+    await expect(cb.execute('healthy', () => Promise.resolve('ok'))).rejects.toThrow('is forced-open');
+    await wait(OPEN_MS + 40);
+    await expect(cb.execute('healthy', () => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  it('caps concurrent calls with a distributed bulkhead (over Lua)', async () => {
+    // Given a call holding the only slot
+    const cb = await boot();
+    const key = 'reports-db';
+    const bulkhead = { maxConcurrent: 1, scope: 'distributed' as const };
+    const slow = cb.execute(key, () => wait(60).then(() => 'slow'), { bulkhead });
+    await wait(10);
+
+    // When — a second call arrives while the slot is taken
+    const rejected = cb.execute(key, () => Promise.resolve('fast'), { bulkhead });
+    const fallback = cb.execute(key, () => Promise.resolve('fast'), { bulkhead, fallback: () => 'cached' });
+
+    // Then — rejected without counting as failures, and the slot is free afterwards
+    await expect(rejected).rejects.toBeInstanceOf(BulkheadFullError);
+    await expect(fallback).resolves.toBe('cached');
+    await expect(slow).resolves.toBe('slow');
+    expect(await cb.getState(key)).toMatchObject({ state: 'closed', failuresInWindow: 0 });
+    await expect(cb.execute(key, () => Promise.resolve('fast'), { bulkhead })).resolves.toBe('fast');
+  });
+
+  it('keeps a distributed bulkhead slot past its lease while the call runs (over Lua)', async () => {
+    // Given a call running for three leases
+    const cb = await boot();
+    const bulkhead = { maxConcurrent: 1, scope: 'distributed' as const, leaseMs: 40 };
+    const slow = cb.execute('renewed', () => wait(120).then(() => 'slow'), { bulkhead });
+
+    // When
+    await wait(90);
+
+    // Then — the renewed slot still blocks the next call
+    await expect(cb.execute('renewed', () => Promise.resolve('fast'), { bulkhead })).rejects.toBeInstanceOf(BulkheadFullError);
+    await expect(slow).resolves.toBe('slow');
+  });
+
+  it('queues calls behind a distributed bulkhead until a slot frees up', async () => {
+    // Given
+    const cb = await boot();
+    const bulkhead = { maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 1000, scope: 'distributed' as const };
+    const order: string[] = [];
+
+    // When — the second call arrives while the first holds the slot
+    const first = cb.execute('queued', () => wait(60).then(() => order.push('first')), { bulkhead });
+    await wait(10);
+    await Promise.all([first, cb.execute('queued', async () => order.push('second'), { bulkhead })]);
+
+    // Then
+    expect(order).toEqual(['first', 'second']);
+  });
+
   it('reset() returns a tripped breaker to CLOSED', async () => {
     // Given a tripped breaker
     const cb = await boot();
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
+import { Logger } from '@nestjs/common';
+import { BulkheadService } from '../../src/circuit-breaker/application/services/bulkhead.service';
+import { BulkheadFullError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
+import type { IBulkheadStore } from '../../src/circuit-breaker/application/ports/bulkhead-store.port';
+
+/** A call that runs until `finish()` is called. */
+function pending(): { fn: () => Promise<string>; finish: () => void } {
+  let finish!: () => void;
+  const done = new Promise<string>((resolve) => {
+    finish = () => resolve('done');
+  });
+  return { fn: () => done, finish };
+}
+
+describe('BulkheadService', () => {
+  let service: BulkheadService;
+  let store: MockedObject<IBulkheadStore>;
+
+  beforeEach(() => {
+    store = {
+      acquire: vi.fn().mockResolvedValue(true),
+      release: vi.fn().mockResolvedValue(undefined),
+      renew: vi.fn().mockResolvedValue(true),
+    } as unknown as MockedObject<IBulkheadStore>;
+
+    service = new BulkheadService({ keyPrefix: 'cb:', errorPolicy: 'fail-closed' }, store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('local scope', () => {
+    it('should reject calls beyond maxConcurrent without a queue', async () => {
+      // Given
+      const first = pending();
+      const running = service.execute('db', first.fn, { maxConcurrent: 1 });
+
+      // When / Then
+      const error = await service.execute('db', vi.fn(), { maxConcurrent: 1 }).catch((e) => e);
+      expect(error).toBeInstanceOf(BulkheadFullError);
+      expect(error.message).toBe('Bulkhead "cb:db" is full (1 concurrent calls); call rejected');
+
+      // When — the running call finishes, its slot is free again
+      first.finish();
+      await running;
+
+      // Then
+      await expect(service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 1 })).resolves.toBe('ok');
+      expect(store.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should limit each key separately', async () => {
+      // Given
+      const first = pending();
+      const running = service.execute('db', first.fn, { maxConcurrent: 1 });
+
+      // When / Then
+      await expect(service.execute('search', () => Promise.resolve('ok'), { maxConcurrent: 1 })).resolves.toBe('ok');
+      first.finish();
+      await running;
+    });
+
+    it('should run queued calls in order as slots free up', async () => {
+      // Given
+      const order: string[] = [];
+      const first = pending();
+      const running = service.execute('db', first.fn, { maxConcurrent: 1, maxQueue: 2 });
+      const second = service.execute('db', async () => order.push('second'), { maxConcurrent: 1, maxQueue: 2 });
+      const third = service.execute('db', async () => order.push('third'), { maxConcurrent: 1, maxQueue: 2 });
+
+      // When
+      first.finish();
+      await Promise.all([running, second, third]);
+
+      // Then
+      expect(order).toEqual(['second', 'third']);
+    });
+
+    it('should reject when the queue is full', async () => {
+      // Given
+      const first = pending();
+      const running = service.execute('db', first.fn, { maxConcurrent: 1, maxQueue: 1 });
+      const queued = service.execute('db', () => Promise.resolve('queued'), { maxConcurrent: 1, maxQueue: 1 });
+
+      // When / Then
+      await expect(service.execute('db', vi.fn(), { maxConcurrent: 1, maxQueue: 1 })).rejects.toBeInstanceOf(BulkheadFullError);
+      first.finish();
+      await expect(queued).resolves.toBe('queued');
+      await running;
+    });
+
+    it('should reject a queued call after queueTimeoutMs', async () => {
+      // Given
+      vi.useFakeTimers();
+      const first = pending();
+      const running = service.execute('db', first.fn, { maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 500 });
+      const fn = vi.fn();
+      const queued = service.execute('db', fn, { maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 500 }).catch((e) => e);
+
+      // When
+      await vi.advanceTimersByTimeAsync(500);
+
+      // Then
+      expect(await queued).toBeInstanceOf(BulkheadFullError);
+      expect(fn).not.toHaveBeenCalled();
+      first.finish();
+      await running;
+    });
+
+    it('should free the slot when the call fails', async () => {
+      // When
+      await expect(service.execute('db', () => Promise.reject(new Error('boom')), { maxConcurrent: 1 })).rejects.toThrow('boom');
+
+      // Then
+      await expect(service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 1 })).resolves.toBe('ok');
+    });
+
+    it('should reject invalid options', async () => {
+      // When / Then
+      await expect(service.execute('db', vi.fn(), { maxConcurrent: 0 })).rejects.toBeInstanceOf(InvalidCircuitBreakerConfigError);
+      await expect(service.execute('db', vi.fn(), { maxConcurrent: 1, maxQueue: -1 })).rejects.toBeInstanceOf(InvalidCircuitBreakerConfigError);
+      await expect(service.execute('db', vi.fn(), { maxConcurrent: 1, scope: 'global' as never })).rejects.toBeInstanceOf(InvalidCircuitBreakerConfigError);
+    });
+  });
+
+  describe('distributed scope', () => {
+    it('should take and release a leased slot in the store', async () => {
+      // When
+      const result = await service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 3, scope: 'distributed', leaseMs: 5000 });
+
+      // Then
+      expect(result).toBe('ok');
+      expect(store.acquire).toHaveBeenCalledWith('cb:db', 3, 5000, expect.any(String));
+      const slot = store.acquire.mock.calls[0]![3];
+      expect(store.release).toHaveBeenCalledWith('cb:db', slot);
+    });
+
+    it('should reject at once when no slot is free and no queue is configured', async () => {
+      // Given
+      store.acquire.mockResolvedValue(false);
+      const fn = vi.fn();
+
+      // When / Then
+      await expect(service.execute('db', fn, { maxConcurrent: 1, scope: 'distributed' })).rejects.toBeInstanceOf(BulkheadFullError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(store.release).not.toHaveBeenCalled();
+    });
+
+    it('should retry queued calls until a slot is free', async () => {
+      // Given
+      vi.useFakeTimers();
+      store.acquire.mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+      // When
+      const result = service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 1, maxQueue: 1, scope: 'distributed' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Then
+      await expect(result).resolves.toBe('ok');
+      expect(store.acquire).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after queueTimeoutMs', async () => {
+      // Given
+      vi.useFakeTimers();
+      store.acquire.mockResolvedValue(false);
+
+      // When
+      const result = service.execute('db', vi.fn(), { maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 200, scope: 'distributed' }).catch((e) => e);
+      await vi.advanceTimersByTimeAsync(200);
+
+      // Then
+      expect(await result).toBeInstanceOf(BulkheadFullError);
+    });
+
+    it('should throw store errors under fail-closed', async () => {
+      // Given
+      store.acquire.mockRejectedValue(new CircuitBreakerStoreError('bulkhead acquire failed: down'));
+
+      // When / Then
+      await expect(service.execute('db', vi.fn(), { maxConcurrent: 1, scope: 'distributed' })).rejects.toBeInstanceOf(CircuitBreakerStoreError);
+    });
+
+    it('should run without a slot under fail-open', async () => {
+      // Given
+      const warnSpy = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      service = new BulkheadService({ keyPrefix: 'cb:', errorPolicy: 'fail-open' }, store);
+      store.acquire.mockRejectedValue(new CircuitBreakerStoreError('bulkhead acquire failed: down'));
+
+      // When
+      const result = await service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 1, scope: 'distributed' });
+
+      // Then
+      expect(result).toBe('ok');
+      expect(store.release).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('failing open'));
+      warnSpy.mockRestore();
+    });
+
+    it('should renew the lease every half lease while the call runs', async () => {
+      // Given
+      vi.useFakeTimers();
+      const call = pending();
+      const running = service.execute('db', call.fn, { maxConcurrent: 1, scope: 'distributed', leaseMs: 1000 });
+
+      // When
+      await vi.advanceTimersByTimeAsync(1200);
+
+      // Then
+      const slot = store.acquire.mock.calls[0]![3];
+      expect(store.renew).toHaveBeenCalledTimes(2);
+      expect(store.renew).toHaveBeenCalledWith('cb:db', slot, 1000);
+
+      // When — the call finishes, renewal stops
+      call.finish();
+      await running;
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Then
+      expect(store.renew).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log and stop renewing once the slot is lost', async () => {
+      // Given
+      vi.useFakeTimers();
+      const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      store.renew.mockResolvedValue(false);
+      const call = pending();
+      const running = service.execute('db', call.fn, { maxConcurrent: 1, scope: 'distributed', leaseMs: 1000 });
+
+      // When
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(store.renew).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('expired while its call still runs'));
+      call.finish();
+      await running;
+      errorSpy.mockRestore();
+    });
+
+    it('should not mask the result when releasing fails', async () => {
+      // Given
+      const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      store.release.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      const result = await service.execute('db', () => Promise.resolve('ok'), { maxConcurrent: 1, scope: 'distributed' });
+
+      // Then
+      expect(result).toBe('ok');
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('lease'));
+      errorSpy.mockRestore();
+    });
+  });
+});
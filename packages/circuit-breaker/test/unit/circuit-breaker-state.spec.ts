@@ -402,6 +402,197 @@ describe('CircuitBreakerState', () => {
     });
   });
 
+  describe('failure rate', () => {
+    // Count threshold out of reach so only the rate can trip.
+    const rateConfig = (overrides: Partial<ICircuitBreakerConfig> = {}) => baseConfig({ failureThreshold: 100, failureRateThreshold: 50, minimumCalls: 4, ...overrides });
+
+    it('should trip once the failure percentage reaches the threshold over minimumCalls', () => {
+      // Given
+      const cb = new CircuitBreakerState(rateConfig());
+      cb.recordSuccess(100);
+      cb.recordSuccess(200);
+      cb.recordFailure(300);
+      expect(cb.snapshot(300)).toMatchObject({ state: 'closed', failuresInWindow: 1 });
+
+      // When — 2 failures out of 4 calls = 50%
+      cb.recordFailure(400);
+
+      // Then
+      expect(cb.snapshot(400)).toMatchObject({ state: 'open' });
+    });
+
+    it('should not trip below minimumCalls even at a 100% failure rate', () => {
+      // Given
+      const cb = new CircuitBreakerState(rateConfig());
+
+      // When
+      cb.recordFailure(100);
+      cb.recordFailure(200);
+      cb.recordFailure(300);
+
+      // Then
+      expect(cb.snapshot(300)).toMatchObject({ state: 'closed', failuresInWindow: 3 });
+    });
+
+    it('should stay closed while the rate is below the threshold', () => {
+      // Given
+      const cb = new CircuitBreakerState(rateConfig());
+      cb.recordSuccess(100);
+      cb.recordSuccess(200);
+      cb.recordSuccess(300);
+
+      // When — 1 failure out of 4 calls = 25%
+      cb.recordFailure(400);
+
+      // Then
+      expect(cb.snapshot(400)).toMatchObject({ state: 'closed', failuresInWindow: 1 });
+    });
+
+    it('should only count successes whose slice overlaps the window', () => {
+      // Given — successes at t=0/50 share slice [0, 100), which leaves the window by t=1100
+      const cb = new CircuitBreakerState(rateConfig());
+      cb.recordSuccess(0);
+      cb.recordSuccess(50);
+      cb.recordSuccess(900);
+      cb.recordFailure(1000);
+
+      // When — 2 failures out of 3 in-window calls, below minimumCalls (4)
+      cb.recordFailure(1100);
+      expect(cb.snapshot(1100)).toMatchObject({ state: 'closed' });
+
+      // When — 3 failures out of 4 in-window calls = 75%
+      cb.recordFailure(1150);
+
+      // Then
+      expect(cb.snapshot(1150)).toMatchObject({ state: 'open' });
+    });
+
+    it('should still trip on failureThreshold when the rate is low', () => {
+      // Given
+      const cb = new CircuitBreakerState(rateConfig({ failureThreshold: 2, failureRateThreshold: 90 }));
+      for (let t = 1; t <= 8; t++) {
+        cb.recordSuccess(t);
+      }
+
+      // When
+      cb.recordFailure(10);
+      cb.recordFailure(20);
+
+      // Then
+      expect(cb.snapshot(20)).toMatchObject({ state: 'open' });
+    });
+
+    it('should start a fresh rate window after closing from HALF_OPEN', () => {
+      // Given — tripped by rate, then closed by probes
+      const cb = new CircuitBreakerState(rateConfig({ successThreshold: 1 }));
+      cb.recordSuccess(1);
+      cb.recordFailure(2);
+      cb.recordFailure(3);
+      cb.recordFailure(4);
+      expect(cb.canRequest(5004)).toBe(true);
+      cb.recordSuccess(5005);
+      expect(cb.snapshot(5005)).toMatchObject({ state: 'closed' });
+
+      // When — 2 failures, but only 3 calls since closing
+      cb.recordSuccess(5010);
+      cb.recordFailure(5020);
+      cb.recordFailure(5030);
+
+      // Then
+      expect(cb.snapshot(5030)).toMatchObject({ state: 'closed', failuresInWindow: 2 });
+    });
+
+    it('should keep counting a success until its whole slice left the window', () => {
+      // Given — slice [100, 200) still overlaps the window at t=1150 (cutoff = 150)
+      const cb = new CircuitBreakerState(rateConfig());
+      cb.recordSuccess(120);
+      cb.recordSuccess(130);
+      cb.recordFailure(1100);
+
+      // When — 2 failures out of 4 calls = 50%
+      cb.recordFailure(1150);
+      expect(cb.snapshot(1150)).toMatchObject({ state: 'open' });
+    });
+  });
+
+  describe('slow calls', () => {
+    it('should record a success at or above slowCallDurationMs as a failure', () => {
+      // Given
+      const cb = new CircuitBreakerState(baseConfig({ slowCallDurationMs: 200 }));
+
+      // When
+      cb.recordSuccess(100, 199);
+      cb.recordSuccess(200, 200);
+      cb.recordSuccess(300, 5000);
+
+      // Then — only the two slow calls count
+      expect(cb.snapshot(300)).toMatchObject({ state: 'closed', failuresInWindow: 2 });
+
+      // When
+      cb.recordSuccess(400, 250);
+
+      // Then
+      expect(cb.snapshot(400)).toMatchObject({ state: 'open' });
+    });
+
+    it('should reopen from HALF_OPEN on a slow probe', () => {
+      // Given
+      const cb = new CircuitBreakerState(baseConfig({ failureThreshold: 1, slowCallDurationMs: 200 }));
+      cb.recordFailure(0);
+      expect(cb.canRequest(5000)).toBe(true);
+
+      // When
+      cb.recordSuccess(5300, 300);
+
+      // Then
+      expect(cb.snapshot(5300)).toMatchObject({ state: 'open' });
+      expect(cb.canRequest(5301)).toBe(false);
+    });
+
+    it('should ignore durations when slow-call detection is disabled', () => {
+      // Given
+      const cb = new CircuitBreakerState(baseConfig());
+
+      // When
+      cb.recordSuccess(100, 60000);
+
+      // Then
+      expect(cb.snapshot(100)).toMatchObject({ state: 'closed', failuresInWindow: 0 });
+    });
+  });
+
+  describe('release', () => {
+    it('should free a HALF_OPEN probe slot without counting an outcome', () => {
+      // Given — HALF_OPEN with both probe slots taken
+      const cb = new CircuitBreakerState(baseConfig());
+      cb.recordFailure(1);
+      cb.recordFailure(2);
+      cb.recordFailure(3);
+      expect(cb.canRequest(5003)).toBe(true);
+      expect(cb.canRequest(5004)).toBe(true);
+      expect(cb.canRequest(5005)).toBe(false);
+
+      // When
+      cb.release(5006);
+
+      // Then — a slot is free again, no success was counted
+      expect(cb.snapshot(5006)).toEqual({ state: 'half-open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 1 });
+      expect(cb.canRequest(5007)).toBe(true);
+    });
+
+    it('should be a no-op in CLOSED', () => {
+      // Given
+      const cb = new CircuitBreakerState(baseConfig());
+      cb.recordFailure(100);
+
+      // When
+      cb.release(200);
+
+      // Then
+      expect(cb.snapshot(200)).toEqual({ state: 'closed', failuresInWindow: 1, halfOpenSuccesses: 0, halfOpenInFlight: 0 });
+    });
+  });
+
   describe('reset', () => {
     it('should return to CLOSED and clear all counters from any state', () => {
       // Given — an OPEN breaker
@@ -437,6 +628,16 @@ describe('CircuitBreakerState', () => {
       expect(() => new CircuitBreakerState(baseConfig({ windowMs: 100.1 }))).toThrow(InvalidCircuitBreakerConfigError);
     });
 
+    it.each([
+      ['failureRateThreshold', { failureRateThreshold: 101 }],
+      ['failureRateThreshold', { failureRateThreshold: -1 }],
+      ['minimumCalls', { minimumCalls: 0 }],
+      ['slowCallDurationMs', { slowCallDurationMs: -1 }],
+      ['slowCallDurationMs', { slowCallDurationMs: 1.5 }],
+    ])('should reject an out-of-range %s', (_name, overrides) => {
+      expect(() => new CircuitBreakerState(baseConfig(overrides))).toThrow(InvalidCircuitBreakerConfigError);
+    });
+
     it('should reject successThreshold greater than halfOpenMaxCalls', () => {
       expect(() => new CircuitBreakerState(baseConfig({ halfOpenMaxCalls: 2, successThreshold: 3 }))).toThrow(InvalidCircuitBreakerConfigError);
     });
@@ -444,6 +645,8 @@ describe('CircuitBreakerState', () => {
     it('should accept a valid config', () => {
       expect(() => new CircuitBreakerState(baseConfig())).not.toThrow();
       expect(() => new CircuitBreakerState(baseConfig({ halfOpenMaxCalls: 5, successThreshold: 5 }))).not.toThrow();
+      expect(() => new CircuitBreakerState(baseConfig({ failureRateThreshold: 0, minimumCalls: 1, slowCallDurationMs: 0 }))).not.toThrow();
+      expect(() => new CircuitBreakerState(baseConfig({ failureRateThreshold: 100 }))).not.toThrow();
     });
   });
 });
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { CircuitBreakerPlugin } from '../../src/circuit-breaker.plugin';
 import { version } from '../../package.json';
-import { CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_REDIS_DRIVER, CIRCUIT_BREAKER_SERVICE } from '../../src/shared/constants';
+import { BULKHEAD_SERVICE, CIRCUIT_BREAKER_EVENT_BUS, CIRCUIT_BREAKER_PLUGIN_OPTIONS, CIRCUIT_BREAKER_REDIS_DRIVER, CIRCUIT_BREAKER_SERVICE } from '../../src/shared/constants';
 import { InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
 import type { ICircuitBreakerPluginOptions } from '../../src/shared/types';
 
@@ -39,9 +39,18 @@ describe('CircuitBreakerPlugin', () => {
         successThreshold: 1,
         probeTimeoutMs: 30000, // dynamic default = openDurationMs
         errorPolicy: 'fail-closed',
+        events: { pubsub: false, channel: 'redisx:circuit-breaker:events' },
       });
     });
 
+    it('should merge partial events options over the defaults', () => {
+      // Given
+      const value = optionsProviderValue(new CircuitBreakerPlugin({ events: { pubsub: true } }));
+
+      // Then
+      expect(value.events).toEqual({ pubsub: true, channel: 'redisx:circuit-breaker:events' });
+    });
+
     it('should default probeTimeoutMs to the RESOLVED openDurationMs', () => {
       // Given — custom cooldown, no explicit probe timeout
       const value = optionsProviderValue(new CircuitBreakerPlugin({ openDurationMs: 5000 }));
@@ -83,16 +92,19 @@ describe('CircuitBreakerPlugin', () => {
       const tokens = providers.map((p) => (typeof p === 'object' && 'provide' in p ? p.provide : p));
       expect(tokens).toContain(CIRCUIT_BREAKER_PLUGIN_OPTIONS);
       expect(tokens).toContain(CIRCUIT_BREAKER_SERVICE);
-      // 6 providers: options, redis-driver, store, service, decorator-initializer, Reflector
-      expect(providers).toHaveLength(6);
+      expect(tokens).toContain(CIRCUIT_BREAKER_EVENT_BUS);
+      expect(tokens).toContain(BULKHEAD_SERVICE);
+      // 9 providers: options, redis-driver, event-bus, store, bulkhead-store, bulkhead-service, service, decorator-initializer, Reflector
+      expect(providers).toHaveLength(9);
     });
 
-    it('should export the service token', () => {
+    it('should export the service tokens', () => {
       // Given / When
       const exports = new CircuitBreakerPlugin().getExports();
 
       // Then
       expect(exports).toContain(CIRCUIT_BREAKER_SERVICE);
+      expect(exports).toContain(BULKHEAD_SERVICE);
     });
   });
 
@@ -149,6 +161,9 @@ describe('CircuitBreakerPlugin', () => {
       ['halfOpenMaxCalls: 0', { halfOpenMaxCalls: 0 }],
       ['successThreshold: 1.5', { successThreshold: 1.5 }],
       ['probeTimeoutMs: 0', { probeTimeoutMs: 0 }],
+      ['failureRateThreshold: 120', { failureRateThreshold: 120 }],
+      ['minimumCalls: 0', { minimumCalls: 0 }],
+      ['slowCallDurationMs: -5', { slowCallDurationMs: -5 }],
     ])('should throw InvalidCircuitBreakerConfigError for %s', (_label, options) => {
       // Given
       const plugin = new CircuitBreakerPlugin(options as ICircuitBreakerPluginOptions);
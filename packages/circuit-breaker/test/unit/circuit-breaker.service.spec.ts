@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { Logger } from '@nestjs/common';
 import { CircuitBreakerService } from '../../src/circuit-breaker/application/services/circuit-breaker.service';
-import { CircuitBreakerOpenError, InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
+import { BulkheadFullError, CircuitBreakerOpenError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
 import type { ICircuitBreakerStore } from '../../src/circuit-breaker/application/ports/circuit-breaker-store.port';
+import type { ICircuitBreakerEventBus } from '../../src/circuit-breaker/application/ports/circuit-breaker-event-bus.port';
+import type { IBulkheadService } from '../../src/circuit-breaker/application/ports/bulkhead-service.port';
 import type { ICircuitBreakerPluginOptions } from '../../src/shared/types';
 import type { ICircuitSnapshot } from '../../src/circuit-breaker/domain/circuit-breaker-state.interface';
 
@@ -16,6 +19,8 @@ function openSnapshot(): ICircuitSnapshot {
 describe('CircuitBreakerService', () => {
   let service: CircuitBreakerService;
   let store: MockedObject<ICircuitBreakerStore>;
+  let events: MockedObject<ICircuitBreakerEventBus>;
+  let bulkhead: MockedObject<IBulkheadService>;
   let options: ICircuitBreakerPluginOptions;
 
   beforeEach(() => {
@@ -23,10 +28,23 @@ describe('CircuitBreakerService', () => {
       canRequest: vi.fn().mockResolvedValue({ allowed: true, snapshot: closedSnapshot() }),
       recordSuccess: vi.fn().mockResolvedValue(closedSnapshot()),
       recordFailure: vi.fn().mockResolvedValue(closedSnapshot()),
+      release: vi.fn().mockResolvedValue(closedSnapshot()),
       getState: vi.fn().mockResolvedValue(closedSnapshot()),
       reset: vi.fn().mockResolvedValue(undefined),
+      setOverride: vi.fn().mockResolvedValue(undefined),
+      clearOverride: vi.fn().mockResolvedValue(undefined),
     } as unknown as MockedObject<ICircuitBreakerStore>;
 
+    events = {
+      instanceId: 'instance-a',
+      emit: vi.fn(),
+      onStateChange: vi.fn().mockReturnValue(() => undefined),
+    } as unknown as MockedObject<ICircuitBreakerEventBus>;
+
+    bulkhead = {
+      execute: vi.fn().mockImplementation((_key: string, fn: () => Promise<unknown>) => fn()),
+    } as unknown as MockedObject<IBulkheadService>;
+
     options = {
       keyPrefix: 'cb:',
       failureThreshold: 3,
@@ -37,7 +55,7 @@ describe('CircuitBreakerService', () => {
       errorPolicy: 'fail-closed',
     };
 
-    service = new CircuitBreakerService(options, store);
+    service = new CircuitBreakerService(options, store, events, bulkhead);
   });
 
   describe('execute — happy path', () => {
@@ -52,10 +70,22 @@ describe('CircuitBreakerService', () => {
       expect(result).toBe('ok');
       expect(fn).toHaveBeenCalledTimes(1);
       expect(store.canRequest).toHaveBeenCalledWith('cb:api', expect.objectContaining({ failureThreshold: 3, windowMs: 1000 }));
-      expect(store.recordSuccess).toHaveBeenCalledWith('cb:api', expect.any(Object));
+      expect(store.recordSuccess).toHaveBeenCalledWith('cb:api', expect.any(Object), expect.any(Number));
       expect(store.recordFailure).not.toHaveBeenCalled();
     });
 
+    it('should pass the call duration to recordSuccess for slow-call detection', async () => {
+      // Given — the call spans 250ms
+      const now = vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(1250);
+
+      // When
+      await service.execute('api', vi.fn().mockResolvedValue('ok'), { slowCallDurationMs: 200 });
+
+      // Then
+      expect(store.recordSuccess).toHaveBeenCalledWith('cb:api', expect.objectContaining({ slowCallDurationMs: 200 }), 250);
+      now.mockRestore();
+    });
+
     it('should record failure and rethrow when the function throws', async () => {
       // Given
       const boom = new Error('boom');
@@ -68,6 +98,75 @@ describe('CircuitBreakerService', () => {
     });
   });
 
+  describe('execute — error classification', () => {
+    class NotFoundError extends Error {}
+    class TimeoutError extends Error {}
+
+    it('should release the call without recording an ignored error', async () => {
+      // When / Then — the error is still rethrown
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new NotFoundError('missing')), { ignoreOn: [NotFoundError] })).rejects.toBeInstanceOf(NotFoundError);
+      expect(store.release).toHaveBeenCalledWith('cb:api', expect.any(Object));
+      expect(store.recordFailure).not.toHaveBeenCalled();
+      expect(store.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should count errors outside recordOn as successes', async () => {
+      // When
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new NotFoundError('missing')), { recordOn: [TimeoutError] })).rejects.toThrow('missing');
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new TimeoutError('slow')), { recordOn: [TimeoutError] })).rejects.toThrow('slow');
+
+      // Then
+      expect(store.recordSuccess).toHaveBeenCalledTimes(1);
+      expect(store.recordSuccess).toHaveBeenCalledWith('cb:api', expect.any(Object), expect.any(Number));
+      expect(store.recordFailure).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let ignoreOn take precedence over recordOn', async () => {
+      // When
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new TimeoutError('slow')), { recordOn: [TimeoutError], ignoreOn: (error) => error instanceof TimeoutError })).rejects.toThrow('slow');
+
+      // Then
+      expect(store.release).toHaveBeenCalledTimes(1);
+      expect(store.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should apply plugin-level matchers unless overridden per call', async () => {
+      // Given
+      service = new CircuitBreakerService({ ...options, ignoreOn: [NotFoundError] }, store, events, bulkhead);
+      const fn = vi.fn().mockRejectedValue(new NotFoundError('missing'));
+
+      // When
+      await expect(service.execute('api', fn)).rejects.toThrow('missing');
+      await expect(service.execute('api', fn, { ignoreOn: [TimeoutError] })).rejects.toThrow('missing');
+
+      // Then
+      expect(store.release).toHaveBeenCalledTimes(1);
+      expect(store.recordFailure).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record a failure when a matcher throws', async () => {
+      // Given
+      const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      const ignoreOn = () => {
+        throw new Error('bad predicate');
+      };
+
+      // When / Then — the original error is not masked
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new Error('boom')), { ignoreOn })).rejects.toThrow('boom');
+      expect(store.recordFailure).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('bad predicate'));
+      errorSpy.mockRestore();
+    });
+
+    it('should not mask the error when releasing fails', async () => {
+      // Given
+      store.release.mockRejectedValue(new Error('redis down'));
+
+      // When / Then
+      await expect(service.execute('api', vi.fn().mockRejectedValue(new NotFoundError('missing')), { ignoreOn: [NotFoundError] })).rejects.toThrow('missing');
+    });
+  });
+
   describe('execute — breaker rejects (open)', () => {
     beforeEach(() => {
       store.canRequest.mockResolvedValue({ allowed: false, snapshot: openSnapshot() });
@@ -99,7 +198,7 @@ describe('CircuitBreakerService', () => {
     it('should throw the plugin errorFactory error when configured', async () => {
       // Given
       class CustomError extends Error {}
-      service = new CircuitBreakerService({ ...options, errorFactory: () => new CustomError('custom') }, store);
+      service = new CircuitBreakerService({ ...options, errorFactory: () => new CustomError('custom') }, store, events, bulkhead);
 
       // When / Then
       await expect(service.execute('api', vi.fn())).rejects.toBeInstanceOf(CustomError);
@@ -109,7 +208,7 @@ describe('CircuitBreakerService', () => {
   describe('execute — store failure & errorPolicy', () => {
     it('fail-open: should run the function when the store fails', async () => {
       // Given
-      service = new CircuitBreakerService({ ...options, errorPolicy: 'fail-open' }, store);
+      service = new CircuitBreakerService({ ...options, errorPolicy: 'fail-open' }, store, events, bulkhead);
       store.canRequest.mockRejectedValue(new Error('redis down'));
       const fn = vi.fn().mockResolvedValue('served');
 
@@ -158,7 +257,7 @@ describe('CircuitBreakerService', () => {
   describe('package defaults (empty plugin options)', () => {
     it('should fall back to DEFAULT_CIRCUIT_BREAKER_CONFIG for every knob and the default key prefix', async () => {
       // Given — a service built with completely empty plugin options
-      service = new CircuitBreakerService({}, store);
+      service = new CircuitBreakerService({}, store, events, bulkhead);
 
       // When
       await service.execute('svc', vi.fn().mockResolvedValue('ok'));
@@ -171,6 +270,9 @@ describe('CircuitBreakerService', () => {
         halfOpenMaxCalls: 1,
         successThreshold: 1,
         probeTimeoutMs: 30000,
+        failureRateThreshold: 0,
+        minimumCalls: 10,
+        slowCallDurationMs: 0,
       });
     });
   });
@@ -180,7 +282,7 @@ describe('CircuitBreakerService', () => {
       // Given
       class PluginError extends Error {}
       class CallError extends Error {}
-      service = new CircuitBreakerService({ ...options, errorFactory: () => new PluginError('plugin') }, store);
+      service = new CircuitBreakerService({ ...options, errorFactory: () => new PluginError('plugin') }, store, events, bulkhead);
       store.canRequest.mockResolvedValue({ allowed: false, snapshot: openSnapshot() });
 
       // When / Then
@@ -214,7 +316,7 @@ describe('CircuitBreakerService', () => {
 
     it('should NOT apply errorPolicy to config errors (fail-open still throws)', async () => {
       // Given — programmer error is never subject to errorPolicy
-      service = new CircuitBreakerService({ ...options, errorPolicy: 'fail-open' }, store);
+      service = new CircuitBreakerService({ ...options, errorPolicy: 'fail-open' }, store, events, bulkhead);
       const fn = vi.fn();
 
       // When / Then
@@ -248,6 +350,17 @@ describe('CircuitBreakerService', () => {
       expect(store.canRequest).toHaveBeenCalledWith('cb:svc', expect.objectContaining({ probeTimeoutMs: 750 }));
     });
 
+    it('should resolve rate/slow-call knobs and forward a manual duration', async () => {
+      // Given
+      service = new CircuitBreakerService({ ...options, failureRateThreshold: 50, slowCallDurationMs: 300 }, store, events, bulkhead);
+
+      // When
+      await service.recordSuccess('svc', { minimumCalls: 20 }, 400);
+
+      // Then
+      expect(store.recordSuccess).toHaveBeenCalledWith('cb:svc', expect.objectContaining({ failureRateThreshold: 50, minimumCalls: 20, slowCallDurationMs: 300 }), 400);
+    });
+
     it('should delegate getState and reset with the prefixed key', async () => {
       // When
       await service.getState('svc');
@@ -258,4 +371,124 @@ describe('CircuitBreakerService', () => {
       expect(store.reset).toHaveBeenCalledWith('cb:svc');
     });
   });
+
+  describe('execute — bulkhead', () => {
+    it('should run fn inside the bulkhead for the logical key once admitted', async () => {
+      // Given
+      const fn = vi.fn().mockResolvedValue('ok');
+
+      // When
+      const result = await service.execute('api', fn, { bulkhead: { maxConcurrent: 2 } });
+
+      // Then
+      expect(result).toBe('ok');
+      expect(bulkhead.execute).toHaveBeenCalledWith('api', expect.any(Function), { maxConcurrent: 2 });
+      expect(store.canRequest.mock.invocationCallOrder[0]).toBeLessThan(bulkhead.execute.mock.invocationCallOrder[0]!);
+      expect(store.recordSuccess).toHaveBeenCalledWith('cb:api', expect.any(Object), expect.any(Number));
+    });
+
+    it('should not enter the bulkhead when the breaker rejects the call', async () => {
+      // Given
+      store.canRequest.mockResolvedValue({ allowed: false, snapshot: openSnapshot() });
+
+      // When / Then
+      await expect(service.execute('api', vi.fn(), { bulkhead: { maxConcurrent: 2 } })).rejects.toBeInstanceOf(CircuitBreakerOpenError);
+      expect(bulkhead.execute).not.toHaveBeenCalled();
+    });
+
+    it('should release the call slot without recording when the bulkhead is full', async () => {
+      // Given
+      bulkhead.execute.mockRejectedValue(new BulkheadFullError('cb:api', 2));
+      const fn = vi.fn();
+
+      // When / Then
+      await expect(service.execute('api', fn, { bulkhead: { maxConcurrent: 2 } })).rejects.toBeInstanceOf(BulkheadFullError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(store.release).toHaveBeenCalledWith('cb:api', expect.any(Object));
+      expect(store.recordFailure).not.toHaveBeenCalled();
+      expect(store.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should use the fallback when the bulkhead is full', async () => {
+      // Given
+      bulkhead.execute.mockRejectedValue(new BulkheadFullError('cb:api', 2));
+
+      // When
+      const result = await service.execute('api', vi.fn(), { bulkhead: { maxConcurrent: 2 }, fallback: () => 'cached' });
+
+      // Then
+      expect(result).toBe('cached');
+    });
+
+    it('should rethrow bulkhead store errors without recording them', async () => {
+      // Given
+      bulkhead.execute.mockRejectedValue(new CircuitBreakerStoreError('bulkhead acquire failed: down'));
+
+      // When / Then
+      await expect(service.execute('api', vi.fn(), { bulkhead: { maxConcurrent: 2 }, fallback: () => 'cached' })).rejects.toBeInstanceOf(CircuitBreakerStoreError);
+      expect(store.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should record errors thrown by fn inside the bulkhead', async () => {
+      // When
+      await expect(service.execute('api', () => Promise.reject(new Error('boom')), { bulkhead: { maxConcurrent: 2 } })).rejects.toThrow('boom');
+
+      // Then
+      expect(store.recordFailure).toHaveBeenCalledWith('cb:api', expect.any(Object));
+      expect(store.release).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('manual overrides', () => {
+    it('should force open and closed with the prefixed key and ttl', async () => {
+      // When
+      await service.forceOpen('svc', 60000);
+      await service.forceClose('other');
+
+      // Then
+      expect(store.setOverride).toHaveBeenCalledWith('cb:svc', 'forced-open', 60000);
+      expect(store.setOverride).toHaveBeenCalledWith('cb:other', 'forced-closed', undefined);
+    });
+
+    it('should release the override with the prefixed key', async () => {
+      // When
+      await service.release('svc');
+
+      // Then
+      expect(store.clearOverride).toHaveBeenCalledWith('cb:svc');
+    });
+
+    it('should reject an invalid ttl before reaching the store', async () => {
+      // When / Then
+      await expect(service.forceOpen('svc', 0)).rejects.toBeInstanceOf(InvalidCircuitBreakerConfigError);
+      await expect(service.forceClose('svc', 1.5)).rejects.toBeInstanceOf(InvalidCircuitBreakerConfigError);
+      expect(store.setOverride).not.toHaveBeenCalled();
+    });
+
+    it('should reject calls with CircuitBreakerOpenError while forced open', async () => {
+      // Given
+      store.canRequest.mockResolvedValue({ allowed: false, snapshot: { ...openSnapshot(), override: 'forced-open' } });
+      const fn = vi.fn();
+
+      // When / Then
+      await expect(service.execute('svc', fn)).rejects.toThrow('Circuit breaker "cb:svc" is forced-open; call rejected');
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onStateChange', () => {
+    it('should subscribe through the event bus', () => {
+      // Given
+      const listener = vi.fn();
+      const unsubscribe = vi.fn();
+      events.onStateChange.mockReturnValue(unsubscribe);
+
+      // When
+      const result = service.onStateChange(listener);
+
+      // Then
+      expect(events.onStateChange).toHaveBeenCalledWith(listener);
+      expect(result).toBe(unsubscribe);
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { RedisXError, ErrorCode } from '@nestjs-redisx/core';
-import { CircuitBreakerError, CircuitBreakerOpenError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
+import { BulkheadFullError, CircuitBreakerError, CircuitBreakerOpenError, CircuitBreakerStoreError, InvalidCircuitBreakerConfigError } from '../../src/shared/errors';
 import type { ICircuitSnapshot } from '../../src/circuit-breaker/domain/circuit-breaker-state.interface';
 
 const openSnapshot: ICircuitSnapshot = { state: 'open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 0 };
@@ -52,6 +52,15 @@ describe('CircuitBreakerOpenError', () => {
     expect(error.context).toEqual({ key: 'cb:x', state: 'open' });
   });
 
+  it('should report a manual override in the message and context', () => {
+    // Given / When
+    const error = new CircuitBreakerOpenError('cb:x', { ...openSnapshot, override: 'forced-open' });
+
+    // Then
+    expect(error.message).toBe('Circuit breaker "cb:x" is forced-open; call rejected');
+    expect(error.context).toEqual({ key: 'cb:x', state: 'open', override: 'forced-open' });
+  });
+
   it('should serialize to JSON with name, code, and context', () => {
     // Given
     const error = new CircuitBreakerOpenError('cb:x', openSnapshot);
@@ -89,6 +98,20 @@ describe('CircuitBreakerStoreError', () => {
   });
 });
 
+describe('BulkheadFullError', () => {
+  it('should describe the full bulkhead with the correct code and context', () => {
+    // Given / When
+    const error = new BulkheadFullError('cb:reports-db', 4);
+
+    // Then
+    expect(error).toBeInstanceOf(CircuitBreakerError);
+    expect(error.name).toBe('BulkheadFullError');
+    expect(error.code).toBe(ErrorCode.CIRCUIT_BREAKER_BULKHEAD_FULL);
+    expect(error.message).toBe('Bulkhead "cb:reports-db" is full (4 concurrent calls); call rejected');
+    expect(error.context).toEqual({ key: 'cb:reports-db', maxConcurrent: 4 });
+  });
+});
+
 describe('InvalidCircuitBreakerConfigError', () => {
   it('should be constructable with a message', () => {
     // Given
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { CAN_REQUEST_SCRIPT, RECORD_SUCCESS_SCRIPT, RECORD_FAILURE_SCRIPT, GET_STATE_SCRIPT } from '../../src/circuit-breaker/infrastructure/scripts/lua-scripts';
+import { FAILURE_RATE_SLICES } from '../../src/shared/constants';
 
 /**
  * Structural invariants of the Lua scripts. Behaviour is covered end-to-end by
@@ -46,6 +47,24 @@ describe('circuit breaker Lua scripts', () => {
     expect(RECORD_SUCCESS_SCRIPT).toContain("ZREM', pk");
   });
 
+  it('recordSuccess applies the same failure rule to slow calls', () => {
+    for (const script of [RECORD_SUCCESS_SCRIPT, RECORD_FAILURE_SCRIPT]) {
+      expect(script).toContain('cnt * 100 >= rate_threshold * calls');
+    }
+    expect(RECORD_SUCCESS_SCRIPT).toContain('if slow_ms > 0 and duration >= slow_ms then');
+    // successes are only tracked while rate-based tripping is enabled
+    expect(RECORD_SUCCESS_SCRIPT).toContain('if rate_threshold > 0 then\n    -- successes only feed the failure-rate denominator');
+  });
+
+  it('count successes per window slice instead of one entry per call', () => {
+    expect(RECORD_SUCCESS_SCRIPT).toContain("redis.call('HINCRBY', ok, math.floor(now / slice_ms), 1)");
+    expect(RECORD_SUCCESS_SCRIPT).not.toContain("ZADD', ok");
+    for (const script of [RECORD_SUCCESS_SCRIPT, RECORD_FAILURE_SCRIPT]) {
+      expect(script).toContain(`math.floor(window_ms / ${FAILURE_RATE_SLICES})`);
+      expect(script).toContain("redis.call('HDEL', ok, slices[i])");
+    }
+  });
+
   it('OPEN -> HALF_OPEN is committed only in canRequest', () => {
     expect(CAN_REQUEST_SCRIPT).toContain("'half-open'");
     expect(GET_STATE_SCRIPT).not.toContain("HSET', sk, 'state', 'half-open'");
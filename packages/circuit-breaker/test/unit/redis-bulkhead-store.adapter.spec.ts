@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { RedisBulkheadStoreAdapter } from '../../src/circuit-breaker/infrastructure/adapters/redis-bulkhead-store.adapter';
+import { BULKHEAD_ACQUIRE_SCRIPT } from '../../src/circuit-breaker/infrastructure/scripts/lua-scripts';
+import { CircuitBreakerStoreError } from '../../src/shared/errors';
+import type { IRedisDriver } from '@nestjs-redisx/core';
+
+describe('RedisBulkheadStoreAdapter', () => {
+  let driver: MockedObject<IRedisDriver>;
+  let adapter: RedisBulkheadStoreAdapter;
+
+  beforeEach(() => {
+    driver = {
+      scriptLoad: vi.fn().mockResolvedValue('sha'),
+      evalsha: vi.fn().mockResolvedValue([1, 1]),
+      eval: vi.fn().mockResolvedValue([1, 1]),
+      zrem: vi.fn().mockResolvedValue(1),
+    } as unknown as MockedObject<IRedisDriver>;
+    adapter = new RedisBulkheadStoreAdapter(driver);
+  });
+
+  it('should acquire a slot on the hash-tagged slots key', async () => {
+    // Given
+    await adapter.onModuleInit();
+
+    // When
+    const acquired = await adapter.acquire('cb:db', 3, 5000, 'slot-1');
+
+    // Then
+    expect(acquired).toBe(true);
+    expect(driver.evalsha).toHaveBeenCalledWith('sha', ['{cb:db}:b'], [3, 5000, expect.any(Number), 'slot-1']);
+  });
+
+  it('should report a full bulkhead', async () => {
+    // Given
+    await adapter.onModuleInit();
+    driver.evalsha.mockResolvedValue([0, 3]);
+
+    // When / Then
+    await expect(adapter.acquire('cb:db', 3, 5000, 'slot-1')).resolves.toBe(false);
+  });
+
+  it('should fall back to EVAL on a NOSCRIPT error', async () => {
+    // Given
+    await adapter.onModuleInit();
+    driver.evalsha.mockRejectedValue(new Error('NOSCRIPT No matching script'));
+
+    // When
+    await adapter.acquire('cb:db', 3, 5000, 'slot-1');
+
+    // Then
+    expect(driver.eval).toHaveBeenCalledWith(BULKHEAD_ACQUIRE_SCRIPT, ['{cb:db}:b'], expect.any(Array));
+  });
+
+  it('should release a slot with ZREM', async () => {
+    // When
+    await adapter.release('cb:db', 'slot-1');
+
+    // Then
+    expect(driver.zrem).toHaveBeenCalledWith('{cb:db}:b', 'slot-1');
+  });
+
+  it('should renew a held slot and report a lost one', async () => {
+    // Given
+    await adapter.onModuleInit();
+    driver.evalsha.mockResolvedValueOnce([1]).mockResolvedValueOnce([0]);
+
+    // When / Then
+    await expect(adapter.renew('cb:db', 'slot-1', 5000)).resolves.toBe(true);
+    expect(driver.evalsha).toHaveBeenCalledWith('sha', ['{cb:db}:b'], [5000, expect.any(Number), 'slot-1']);
+    await expect(adapter.renew('cb:db', 'slot-1', 5000)).resolves.toBe(false);
+  });
+
+  it('should wrap script load, acquire and release errors', async () => {
+    // Given
+    driver.scriptLoad.mockRejectedValue(new Error('load failed'));
+    driver.eval.mockRejectedValue(new Error('eval failed'));
+    driver.zrem.mockRejectedValue(new Error('zrem failed'));
+
+    // When / Then
+    await expect(adapter.onModuleInit()).rejects.toBeInstanceOf(CircuitBreakerStoreError);
+    await expect(adapter.acquire('cb:db', 3, 5000, 'slot-1')).rejects.toThrow('bulkhead acquire failed: eval failed');
+    await expect(adapter.release('cb:db', 'slot-1')).rejects.toThrow('bulkhead release failed: zrem failed');
+    await expect(adapter.renew('cb:db', 'slot-1', 5000)).rejects.toThrow('bulkhead renew failed: eval failed');
+  });
+});
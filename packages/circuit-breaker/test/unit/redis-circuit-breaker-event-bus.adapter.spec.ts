@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { Logger } from '@nestjs/common';
+import { DriverEvent, type IRedisDriver, type RedisClientManager } from '@nestjs-redisx/core';
+
+import { RedisCircuitBreakerEventBusAdapter } from '../../src/circuit-breaker/infrastructure/adapters/redis-circuit-breaker-event-bus.adapter';
+import type { ICircuitSnapshot } from '../../src/circuit-breaker/domain/circuit-breaker-state.interface';
+import type { ICircuitBreakerPluginOptions, ICircuitStateChange } from '../../src/shared/types';
+
+const OPEN: ICircuitSnapshot = { state: 'open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 0 };
+
+describe('RedisCircuitBreakerEventBusAdapter', () => {
+  let publisher: MockedObject<IRedisDriver>;
+  let subscriber: MockedObject<IRedisDriver>;
+  let manager: MockedObject<RedisClientManager>;
+  let onMessage: (channel: string, message: string) => void;
+
+  const pubsubOptions: ICircuitBreakerPluginOptions = { keyPrefix: 'cb:', events: { pubsub: true, channel: 'test:cb' } };
+
+  beforeEach(() => {
+    publisher = {
+      publish: vi.fn().mockResolvedValue(1),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    subscriber = {
+      on: vi.fn().mockImplementation((event: DriverEvent, handler: (...args: unknown[]) => void) => {
+        if (event === DriverEvent.MESSAGE) {
+          onMessage = handler as (channel: string, message: string) => void;
+        }
+      }),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    manager = {
+      hasClient: vi.fn().mockReturnValue(false),
+      getMetadata: vi.fn().mockReturnValue({ config: { host: 'localhost' }, driverType: 'ioredis' }),
+      createClient: vi.fn().mockResolvedValue(subscriber),
+      getClient: vi.fn().mockResolvedValue(subscriber),
+    } as unknown as MockedObject<RedisClientManager>;
+  });
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  function peerMessage(overrides: Partial<ICircuitStateChange> = {}): string {
+    return JSON.stringify({ key: 'payments', previousState: 'closed', state: 'open', snapshot: OPEN, timestamp: 1, origin: 'peer', ...overrides });
+  }
+
+  describe('local delivery', () => {
+    it('delivers a transition with the logical key to listeners', async () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, { keyPrefix: 'cb:' });
+      await bus.onModuleInit();
+      const listener = vi.fn();
+      bus.onStateChange(listener);
+
+      // When
+      bus.emit('cb:payments', 'closed', OPEN);
+
+      // Then
+      expect(listener).toHaveBeenCalledWith({ key: 'payments', previousState: 'closed', state: 'open', snapshot: OPEN, timestamp: expect.any(Number), origin: bus.instanceId });
+      expect(manager.createClient).not.toHaveBeenCalled();
+      expect(publisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('stops notifying after unsubscribe', () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, {});
+      const listener = vi.fn();
+      const unsubscribe = bus.onStateChange(listener);
+
+      // When
+      unsubscribe();
+      bus.emit('cb:payments', 'closed', OPEN);
+
+      // Then
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('isolates throwing listeners', () => {
+      // Given
+      const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, {});
+      bus.onStateChange(() => {
+        throw new Error('boom');
+      });
+      const after = vi.fn();
+      bus.onStateChange(after);
+
+      // When
+      bus.emit('cb:payments', 'closed', OPEN);
+
+      // Then
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('payments'), expect.any(Error));
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('pub/sub', () => {
+    it('creates a dedicated subscriber cloned from the plugin client and subscribes', async () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, { ...pubsubOptions, client: 'breakers' });
+
+      // When
+      await bus.onModuleInit();
+
+      // Then
+      expect(manager.getMetadata).toHaveBeenCalledWith('breakers');
+      expect(manager.createClient).toHaveBeenCalledWith('breakers:circuit-breaker-events', { host: 'localhost' }, { driverType: 'ioredis' });
+      expect(subscriber.subscribe).toHaveBeenCalledWith('test:cb');
+    });
+
+    it('publishes local transitions', async () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, pubsubOptions);
+      await bus.onModuleInit();
+
+      // When
+      bus.emit('cb:payments', 'half-open', OPEN);
+
+      // Then
+      expect(publisher.publish).toHaveBeenCalledWith('test:cb', expect.any(String));
+      expect(JSON.parse(publisher.publish.mock.calls[0]![1] as string)).toMatchObject({ key: 'payments', previousState: 'half-open', state: 'open', origin: bus.instanceId });
+    });
+
+    it('logs publish failures without throwing', async () => {
+      // Given
+      const warnSpy = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      publisher.publish.mockRejectedValue(new Error('Connection lost'));
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, pubsubOptions);
+      await bus.onModuleInit();
+
+      // When
+      bus.emit('cb:payments', 'closed', OPEN);
+      await flush();
+
+      // Then
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Connection lost'));
+      warnSpy.mockRestore();
+    });
+
+    it("delivers peers' transitions and ignores its own", async () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, pubsubOptions);
+      await bus.onModuleInit();
+      const listener = vi.fn();
+      bus.onStateChange(listener);
+
+      // When
+      onMessage('test:cb', peerMessage());
+      onMessage('test:cb', peerMessage({ origin: bus.instanceId }));
+      onMessage('other', peerMessage());
+
+      // Then
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ key: 'payments', state: 'open', origin: 'peer' }));
+    });
+
+    it('ignores malformed messages', async () => {
+      // Given
+      const warnSpy = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, pubsubOptions);
+      await bus.onModuleInit();
+      const listener = vi.fn();
+      bus.onStateChange(listener);
+
+      // When
+      onMessage('test:cb', 'not json');
+      onMessage('test:cb', peerMessage({ state: 'broken' as never }));
+
+      // Then
+      expect(listener).not.toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+      warnSpy.mockRestore();
+    });
+
+    it('unsubscribes on module destroy', async () => {
+      // Given
+      const bus = new RedisCircuitBreakerEventBusAdapter(publisher, manager, pubsubOptions);
+      await bus.onModuleInit();
+
+      // When
+      await bus.onModuleDestroy();
+
+      // Then
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('test:cb');
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { RedisCircuitBreakerStoreAdapter } from '../../src/circuit-breaker/infra
 import { CircuitBreakerStoreError } from '../../src/shared/errors';
 import type { IRedisDriver } from '@nestjs-redisx/core';
 import type { ICircuitBreakerConfig } from '../../src/circuit-breaker/domain/circuit-breaker-state.interface';
+import type { ICircuitBreakerEventBus } from '../../src/circuit-breaker/application/ports/circuit-breaker-event-bus.port';
 
 const CONFIG: ICircuitBreakerConfig = {
   failureThreshold: 3,
@@ -19,6 +20,7 @@ function createDriver(): MockedObject<IRedisDriver> {
     evalsha: vi.fn(),
     eval: vi.fn(),
     del: vi.fn().mockResolvedValue(1),
+    set: vi.fn().mockResolvedValue('OK'),
   } as unknown as MockedObject<IRedisDriver>;
 }
 
@@ -32,12 +34,12 @@ describe('RedisCircuitBreakerStoreAdapter', () => {
   });
 
   describe('onModuleInit', () => {
-    it('should preload all four Lua scripts', async () => {
+    it('should preload all five Lua scripts', async () => {
       // When
       await adapter.onModuleInit();
 
       // Then
-      expect(driver.scriptLoad).toHaveBeenCalledTimes(4);
+      expect(driver.scriptLoad).toHaveBeenCalledTimes(5);
     });
 
     it('should wrap script-load failures in CircuitBreakerStoreError', async () => {
@@ -61,11 +63,11 @@ describe('RedisCircuitBreakerStoreAdapter', () => {
       // Then
       expect(decision.allowed).toBe(true);
       expect(decision.snapshot).toEqual({ state: 'half-open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 1 });
-      // keys are hash-tagged and share a slot: {cb:x}, {cb:x}:f, {cb:x}:p
-      expect(driver.evalsha).toHaveBeenCalledWith('sha', ['{cb:x}', '{cb:x}:f', '{cb:x}:p'], expect.arrayContaining([3, 1000, 5000, 2, 2, 4000]));
-      // args: 6 config values + now + unique probe member
+      // keys are hash-tagged and share a slot: {cb:x}, {cb:x}:f, {cb:x}:p, {cb:x}:s, {cb:x}:o
+      expect(driver.evalsha).toHaveBeenCalledWith('sha', ['{cb:x}', '{cb:x}:f', '{cb:x}:p', '{cb:x}:s', '{cb:x}:o'], expect.arrayContaining([3, 1000, 5000, 2, 2, 4000]));
+      // args: 6 config values + now + unique probe member + rate/slow-call knobs + duration
       const canRequestArgs = driver.evalsha.mock.calls[0][2] as unknown[];
-      expect(canRequestArgs).toHaveLength(8);
+      expect(canRequestArgs).toHaveLength(12);
       expect(typeof canRequestArgs[7]).toBe('string');
     });
 
@@ -122,10 +124,35 @@ describe('RedisCircuitBreakerStoreAdapter', () => {
       // Then
       expect(snapshot.state).toBe('open');
       const args = driver.evalsha.mock.calls[0][2] as unknown[];
-      expect(args).toHaveLength(8); // 6 config + now + member
+      expect(args).toHaveLength(12); // 6 config + now + member + 3 rate/slow-call knobs + duration
       expect(typeof args[7]).toBe('string');
     });
 
+    it('recordSuccess should pass the rate/slow-call knobs and the call duration', async () => {
+      // Given
+      driver.evalsha.mockResolvedValue([0, 0, 0, 0]);
+
+      // When
+      await adapter.recordSuccess('cb:x', { ...CONFIG, failureRateThreshold: 50, minimumCalls: 4, slowCallDurationMs: 200 }, 250);
+
+      // Then — ARGV[8] member, ARGV[9..11] knobs, ARGV[12] duration
+      const args = driver.evalsha.mock.calls[0][2] as unknown[];
+      expect(typeof args[7]).toBe('string');
+      expect(args.slice(8)).toEqual([50, 4, 200, 250]);
+    });
+
+    it('should default the rate/slow-call knobs when absent from the config', async () => {
+      // Given
+      driver.evalsha.mockResolvedValue([0, 0, 0, 0]);
+
+      // When
+      await adapter.getState('cb:x', CONFIG);
+
+      // Then — disabled rate and slow-call detection, default minimumCalls
+      const args = driver.evalsha.mock.calls[0][2] as unknown[];
+      expect(args.slice(8)).toEqual([0, 10, 0, 0]);
+    });
+
     it('recordSuccess should parse the snapshot', async () => {
       // Given
       driver.evalsha.mockResolvedValue([2, 0, 1, 0]);
@@ -148,6 +175,18 @@ describe('RedisCircuitBreakerStoreAdapter', () => {
       expect(snapshot).toEqual({ state: 'closed', failuresInWindow: 2, halfOpenSuccesses: 0, halfOpenInFlight: 0 });
     });
 
+    it('release should parse the snapshot and wrap store errors', async () => {
+      // Given
+      driver.evalsha.mockResolvedValueOnce([2, 0, 1, 0]).mockRejectedValueOnce(new Error('boom'));
+
+      // When
+      const snapshot = await adapter.release('cb:x', CONFIG);
+
+      // Then
+      expect(snapshot).toEqual({ state: 'half-open', failuresInWindow: 0, halfOpenSuccesses: 1, halfOpenInFlight: 0 });
+      await expect(adapter.release('cb:x', CONFIG)).rejects.toThrow('release failed: boom');
+    });
+
     it('recordSuccess should wrap store errors', async () => {
       // Given
       driver.evalsha.mockRejectedValue(new Error('boom'));
@@ -270,14 +309,147 @@ describe('RedisCircuitBreakerStoreAdapter', () => {
     });
   });
 
+  describe('state change events', () => {
+    let events: MockedObject<ICircuitBreakerEventBus>;
+
+    beforeEach(async () => {
+      events = { instanceId: 'instance-a', emit: vi.fn(), onStateChange: vi.fn() } as unknown as MockedObject<ICircuitBreakerEventBus>;
+      adapter = new RedisCircuitBreakerStoreAdapter(driver, events);
+      await adapter.onModuleInit();
+    });
+
+    it('should emit when recordFailure trips the breaker', async () => {
+      // Given — closed (previous code 0) -> open
+      driver.evalsha.mockResolvedValue([1, 0, 0, 0, 0]);
+
+      // When
+      await adapter.recordFailure('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).toHaveBeenCalledWith('cb:x', 'closed', { state: 'open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 0 });
+    });
+
+    it('should emit when canRequest moves the breaker to half-open', async () => {
+      // Given — open (previous code 1) -> half-open, probe granted
+      driver.evalsha.mockResolvedValue([1, 2, 0, 0, 1, 1]);
+
+      // When
+      await adapter.canRequest('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).toHaveBeenCalledWith('cb:x', 'open', expect.objectContaining({ state: 'half-open', halfOpenInFlight: 1 }));
+    });
+
+    it('should emit when recordSuccess closes a half-open breaker', async () => {
+      // Given — half-open (previous code 2) -> closed
+      driver.evalsha.mockResolvedValue([0, 0, 0, 0, 2]);
+
+      // When
+      await adapter.recordSuccess('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).toHaveBeenCalledWith('cb:x', 'half-open', expect.objectContaining({ state: 'closed' }));
+    });
+
+    it('should not emit when the state is unchanged', async () => {
+      // Given
+      driver.evalsha.mockResolvedValueOnce([0, 1, 0, 0, 0, 1]).mockResolvedValueOnce([0, 2, 0, 0, 0]);
+
+      // When
+      await adapter.canRequest('cb:x', CONFIG);
+      await adapter.recordFailure('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).not.toHaveBeenCalled();
+    });
+
+    it('should not emit while a manual override is active', async () => {
+      // Given — underlying closed (previous code 0), forced open
+      driver.evalsha.mockResolvedValue([0, 1, 0, 0, 0, 0, 1]);
+
+      // When
+      await adapter.canRequest('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).not.toHaveBeenCalled();
+    });
+
+    it('should not emit for scripts that cannot transition', async () => {
+      // Given
+      driver.evalsha.mockResolvedValue([2, 0, 0, 0]);
+
+      // When
+      await adapter.release('cb:x', CONFIG);
+      await adapter.getState('cb:x', CONFIG);
+
+      // Then
+      expect(events.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('manual overrides', () => {
+    beforeEach(async () => {
+      await adapter.onModuleInit();
+    });
+
+    it('setOverride should write the override key with an optional PX ttl', async () => {
+      // When
+      await adapter.setOverride('cb:x', 'forced-open', 60000);
+      await adapter.setOverride('cb:y', 'forced-closed');
+
+      // Then
+      expect(driver.set).toHaveBeenCalledWith('{cb:x}:o', 'open', { px: 60000 });
+      expect(driver.set).toHaveBeenCalledWith('{cb:y}:o', 'closed', undefined);
+    });
+
+    it('clearOverride should delete the override key only', async () => {
+      // When
+      await adapter.clearOverride('cb:x');
+
+      // Then
+      expect(driver.del).toHaveBeenCalledWith('{cb:x}:o');
+    });
+
+    it('should surface the override code in decisions and snapshots', async () => {
+      // Given
+      driver.evalsha
+        .mockResolvedValueOnce([0, 1, 0, 0, 0, 0, 1]) // canRequest, forced open
+        .mockResolvedValueOnce([0, 0, 0, 0, 0, 2]) // recordFailure, forced closed
+        .mockResolvedValueOnce([1, 0, 0, 0, 1]) // getState, forced open
+        .mockResolvedValueOnce([0, 0, 0, 0]); // getState, no override
+
+      // When
+      const decision = await adapter.canRequest('cb:x', CONFIG);
+      const recorded = await adapter.recordFailure('cb:x', CONFIG);
+      const forced = await adapter.getState('cb:x', CONFIG);
+      const plain = await adapter.getState('cb:x', CONFIG);
+
+      // Then
+      expect(decision).toEqual({ allowed: false, snapshot: { state: 'open', failuresInWindow: 0, halfOpenSuccesses: 0, halfOpenInFlight: 0, override: 'forced-open' } });
+      expect(recorded).toMatchObject({ state: 'closed', override: 'forced-closed' });
+      expect(forced).toMatchObject({ state: 'open', override: 'forced-open' });
+      expect(plain).not.toHaveProperty('override');
+    });
+
+    it('should wrap override errors', async () => {
+      // Given
+      driver.set.mockRejectedValue(new Error('set failed'));
+      driver.del.mockRejectedValue(new Error('del failed'));
+
+      // When / Then
+      await expect(adapter.setOverride('cb:x', 'forced-open')).rejects.toBeInstanceOf(CircuitBreakerStoreError);
+      await expect(adapter.clearOverride('cb:x')).rejects.toBeInstanceOf(CircuitBreakerStoreError);
+    });
+  });
+
   describe('reset', () => {
-    it('should delete the state, failures, and probes keys in a single atomic DEL', async () => {
+    it('should delete the state, window, and probes keys in a single atomic DEL', async () => {
       // When
       await adapter.reset('cb:x');
 
       // Then — one variadic DEL, all keys share a hash tag (same cluster slot)
       expect(driver.del).toHaveBeenCalledTimes(1);
-      expect(driver.del).toHaveBeenCalledWith('{cb:x}', '{cb:x}:f', '{cb:x}:p');
+      expect(driver.del).toHaveBeenCalledWith('{cb:x}', '{cb:x}:f', '{cb:x}:p', '{cb:x}:s', '{cb:x}:o');
     });
 
     it('should wrap deletion errors', async () => {
@@ -53,6 +53,48 @@ describe('WithCircuitBreaker decorator', () => {
     expect(opts).toMatchObject({ failureThreshold: 7 });
   });
 
+  it('should pass recordOn / ignoreOn through to execute', async () => {
+    // Given
+    const fake = passthroughService();
+    registerCircuitBreakerServiceGetter(() => fake);
+    class NotFoundError extends Error {}
+    const recordOn = (error: unknown) => error instanceof TypeError;
+
+    class Api {
+      @WithCircuitBreaker({ key: 'users', recordOn, ignoreOn: [NotFoundError] })
+      async getUser(): Promise<string> {
+        return 'user';
+      }
+    }
+
+    // When
+    await new Api().getUser();
+
+    // Then
+    const [, , opts] = fake.execute.mock.calls[0];
+    expect(opts).toMatchObject({ recordOn, ignoreOn: [NotFoundError] });
+  });
+
+  it('should pass bulkhead options through to execute', async () => {
+    // Given
+    const fake = passthroughService();
+    registerCircuitBreakerServiceGetter(() => fake);
+
+    class Reports {
+      @WithCircuitBreaker({ key: 'reports-db', bulkhead: { maxConcurrent: 4, maxQueue: 10 } })
+      async build(): Promise<string> {
+        return 'report';
+      }
+    }
+
+    // When
+    await new Reports().build();
+
+    // Then
+    const [, , opts] = fake.execute.mock.calls[0];
+    expect(opts).toMatchObject({ bulkhead: { maxConcurrent: 4, maxQueue: 10 } });
+  });
+
   it('should support a function key builder receiving the arguments', async () => {
     // Given
     const fake = passthroughService();
@@ -1,7 +1,7 @@
 import EventEmitter from 'events';
 
 import { Logger } from '@nestjs/common';
-import { IRedisDriver, IPipeline, IMulti, ISetOptions, IScanOptions, IStreamAddOptions, IStreamReadOptions, IStreamReadGroupOptions, IStreamEntry, StreamReadResult, IStreamInfo, IStreamPendingInfo, IStreamPendingEntry, DriverEvent, DriverEventHandler, DriverCommandHook, ICopyOptions, IRestoreOptions, ILposOptions, IZStoreOptions, IZRangeByScoreOptions, GeoUnit, IGeoSearchOptions, IGeoSearchResult } from '../../interfaces';
+import { IRedisDriver, IPipeline, IMulti, ISetOptions, IScanOptions, IStreamAddOptions, IStreamReadOptions, IStreamReadGroupOptions, IStreamEntry, StreamReadResult, IStreamInfo, IStreamPendingInfo, IStreamPendingEntry, DriverEvent, DriverEventHandler, DriverCommandHook, IClientTrackingOptions, ICopyOptions, IRestoreOptions, ILposOptions, IZStoreOptions, IZRangeByScoreOptions, GeoUnit, IGeoSearchOptions, IGeoSearchResult } from '../../interfaces';
 import { DriverError, TimeoutError } from '../../shared/errors';
 import { ConnectionConfig } from '../../types';
 
@@ -1021,6 +1021,32 @@ export abstract class BaseRedisDriver implements IRedisDriver {
     await this.executeCommand('PUNSUBSCRIBE', ...patterns);
   }
 
+  async clientId(): Promise<number> {
+    this.assertConnected();
+    const result = await this.executeCommand('CLIENT', 'ID');
+    return Number(result);
+  }
+
+  async enableTracking(options: IClientTrackingOptions): Promise<void> {
+    this.assertConnected();
+    const args: Array<string | number> = ['TRACKING', 'ON', 'REDIRECT', options.redirect];
+    if (options.bcast) {
+      args.push('BCAST');
+      for (const prefix of options.prefixes ?? []) {
+        args.push('PREFIX', prefix);
+      }
+    }
+    if (options.noLoop) {
+      args.push('NOLOOP');
+    }
+    await this.executeCommand('CLIENT', ...args);
+  }
+
+  async disableTracking(): Promise<void> {
+    this.assertConnected();
+    await this.executeCommand('CLIENT', 'TRACKING', 'OFF');
+  }
+
   async xadd(key: string, id: string, fields: Record<string, string>, options?: IStreamAddOptions): Promise<string> {
     this.assertConnected();
     const args: unknown[] = [key];
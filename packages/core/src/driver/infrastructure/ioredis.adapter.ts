@@ -1,7 +1,7 @@
 import Redis, { Cluster, RedisOptions, ClusterOptions, ClusterNode } from 'ioredis';
 
 import { BaseRedisDriver } from './base.driver';
-import { IPipeline, IMulti, DriverEvent } from '../../interfaces';
+import { IPipeline, IMulti, IClientTrackingOptions, DriverEvent, TRACKING_INVALIDATION_CHANNEL } from '../../interfaces';
 import { ConnectionError, CommandError } from '../../shared/errors';
 import { ConnectionConfig, isSingleConnection, isClusterConnection, isSentinelConnection } from '../../types';
 
@@ -142,6 +142,26 @@ export class IoRedisAdapter extends BaseRedisDriver {
     return new IoRedisMultiAdapter(ioMulti);
   }
 
+  /**
+   * Client-side caching needs tracking pinned to ONE server connection; a
+   * Cluster routes CLIENT commands to an arbitrary node, so it is rejected.
+   */
+  override async enableTracking(options: IClientTrackingOptions): Promise<void> {
+    this.assertTrackingSupported();
+    await super.enableTracking(options);
+  }
+
+  override async disableTracking(): Promise<void> {
+    this.assertTrackingSupported();
+    await super.disableTracking();
+  }
+
+  private assertTrackingSupported(): void {
+    if (this.client instanceof Cluster) {
+      throw new CommandError('CLIENT', ['TRACKING'], new Error('Client-side caching is not supported by the ioredis adapter on cluster topologies.'));
+    }
+  }
+
   private createSingleClient(config: ConnectionConfig): Redis {
     // Use type guard to ensure we have ISingleConnectionConfig
     if (!isSingleConnection(config)) {
@@ -271,7 +291,17 @@ export class IoRedisAdapter extends BaseRedisDriver {
 
     // Pub/Sub delivery (only fires once the connection subscribes)
     this.client.on('message', (channel: string, message: string) => {
-      this.emit(DriverEvent.MESSAGE, channel, message);
+      if (channel !== TRACKING_INVALIDATION_CHANNEL) {
+        this.emit(DriverEvent.MESSAGE, channel, message);
+      }
+    });
+
+    // Client-side caching invalidations carry an array of keys (or null on
+    // flush), which the string 'message' event mangles — read the raw reply.
+    this.client.on('messageBuffer', (channel: Buffer, message: Buffer[] | null) => {
+      if (channel.toString() === TRACKING_INVALIDATION_CHANNEL) {
+        this.emit(DriverEvent.INVALIDATE, Array.isArray(message) ? message.map((key) => key.toString()) : null);
+      }
     });
 
     this.client.on('pmessage', (pattern: string, channel: string, message: string) => {
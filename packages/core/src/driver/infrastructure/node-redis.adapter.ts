@@ -1,7 +1,7 @@
 import { createClient, createCluster, createSentinel, RedisClientOptions, RedisClientType, RedisClusterType, RedisSentinelType } from 'redis';
 
 import { BaseRedisDriver } from './base.driver';
-import { IPipeline, IMulti, DriverEvent } from '../../interfaces';
+import { IPipeline, IMulti, IClientTrackingOptions, DriverEvent, TRACKING_INVALIDATION_CHANNEL } from '../../interfaces';
 import { ConnectionError, CommandError } from '../../shared/errors';
 import { ConnectionConfig, isSingleConnection, isClusterConnection, isSentinelConnection } from '../../types';
 
@@ -190,7 +190,9 @@ export class NodeRedisAdapter extends BaseRedisDriver {
    * Pub/Sub overrides: node-redis v4 delivers messages ONLY through listeners
    * passed to subscribe()/pSubscribe() (a raw SUBSCRIBE via sendCommand would
    * put the connection in subscriber mode without any delivery path). Incoming
-   * messages are re-emitted as DriverEvent.MESSAGE / PMESSAGE.
+   * messages are re-emitted as DriverEvent.MESSAGE / PMESSAGE; client-side
+   * caching invalidations (already decoded to `string[] | null` by node-redis)
+   * as DriverEvent.INVALIDATE.
    *
    * Supported on single-node clients (use a dedicated connection); cluster and
    * sentinel pub/sub are not supported by this adapter — use ioredis for those
@@ -199,6 +201,10 @@ export class NodeRedisAdapter extends BaseRedisDriver {
   override async subscribe(...channels: string[]): Promise<void> {
     const client = this.subscriptionClient('SUBSCRIBE');
     await client.subscribe(channels, (message: string, channel: string) => {
+      if (channel === TRACKING_INVALIDATION_CHANNEL) {
+        this.emit(DriverEvent.INVALIDATE, message as unknown as string[] | null);
+        return;
+      }
       this.emit(DriverEvent.MESSAGE, channel, message);
     });
   }
@@ -223,6 +229,26 @@ export class NodeRedisAdapter extends BaseRedisDriver {
     await client.pUnsubscribe(patterns);
   }
 
+  /**
+   * Client-side caching needs tracking pinned to ONE server connection:
+   * supported on single-node clients only, like Pub/Sub above.
+   */
+  override async enableTracking(options: IClientTrackingOptions): Promise<void> {
+    this.assertTrackingSupported();
+    await super.enableTracking(options);
+  }
+
+  override async disableTracking(): Promise<void> {
+    this.assertTrackingSupported();
+    await super.disableTracking();
+  }
+
+  private assertTrackingSupported(): void {
+    if (this.isCluster || this.isSentinel) {
+      throw new CommandError('CLIENT', ['TRACKING'], new Error('Client-side caching is not supported by the node-redis adapter on cluster/sentinel topologies.'));
+    }
+  }
+
   private subscriptionClient(command: string): RedisClientType {
     if (!this.client) {
       throw new ConnectionError('Client not initialized');
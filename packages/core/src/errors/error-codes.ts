@@ -226,6 +226,9 @@ export enum ErrorCode {
   /** Rate limit script error */
   RATE_LIMIT_SCRIPT_ERROR = 'RATE_LIMIT_SCRIPT_ERROR',
 
+  /** Rate limit configuration is invalid */
+  RATE_LIMIT_CONFIG_INVALID = 'RATE_LIMIT_CONFIG_INVALID',
+
   /** Idempotency key is invalid */
   IDEMPOTENCY_KEY_INVALID = 'IDEMPOTENCY_KEY_INVALID',
 
@@ -253,6 +256,9 @@ export enum ErrorCode {
   /** Circuit breaker configuration is invalid */
   CIRCUIT_BREAKER_CONFIG_INVALID = 'CIRCUIT_BREAKER_CONFIG_INVALID',
 
+  /** Bulkhead is full; the call was rejected without executing */
+  CIRCUIT_BREAKER_BULKHEAD_FULL = 'CIRCUIT_BREAKER_BULKHEAD_FULL',
+
   /** Pub/Sub publish failed */
   PUBSUB_PUBLISH_FAILED = 'PUBSUB_PUBLISH_FAILED',
 
@@ -744,6 +744,31 @@ export interface IRedisDriver {
    */
   punsubscribe(...patterns: string[]): Promise<void>;
 
+  /**
+   * Gets the server-side id of this connection (CLIENT ID).
+   * Used as the REDIRECT target for client-side caching.
+   * Optional: custom driver implementations may not support it.
+   */
+  clientId?(): Promise<number>;
+
+  /**
+   * Enables server-assisted client-side caching (CLIENT TRACKING ON) on this
+   * connection. Invalidations for tracked keys are redirected to the
+   * connection with id `options.redirect`, which receives them via
+   * `DriverEvent.INVALIDATE` once it subscribes to
+   * {@link TRACKING_INVALIDATION_CHANNEL}. Rejects on servers without
+   * tracking support (Redis < 6) and on topologies where the adapter cannot
+   * pin a single connection.
+   * Optional: custom driver implementations may not support it.
+   */
+  enableTracking?(options: IClientTrackingOptions): Promise<void>;
+
+  /**
+   * Disables client-side caching (CLIENT TRACKING OFF) on this connection.
+   * Optional: custom driver implementations may not support it.
+   */
+  disableTracking?(): Promise<void>;
+
   /**
    * Adds entry to stream.
    * @param key - Stream key
@@ -1426,11 +1451,51 @@ export enum DriverEvent {
   MESSAGE = 'message',
   /** Pub/Sub message via pattern subscription: handler(pattern, channel, message). */
   PMESSAGE = 'pmessage',
+  /**
+   * Client-side caching invalidation: handler(keys). `keys` is the list of
+   * invalidated Redis keys, or null when the server flushed everything.
+   */
+  INVALIDATE = 'invalidate',
+}
+
+/**
+ * Pub/Sub channel carrying client-side caching invalidations for connections
+ * that are the REDIRECT target of CLIENT TRACKING. Messages on it are
+ * delivered as `DriverEvent.INVALIDATE`, never as `DriverEvent.MESSAGE`.
+ */
+export const TRACKING_INVALIDATION_CHANNEL = '__redis__:invalidate';
+
+/**
+ * Options for CLIENT TRACKING ON.
+ */
+export interface IClientTrackingOptions {
+  /**
+   * Id of the connection (CLIENT ID) that receives invalidations.
+   */
+  redirect: number;
+
+  /**
+   * Broadcast mode (BCAST): invalidate every key matching `prefixes`,
+   * not only the keys this connection has read.
+   */
+  bcast?: boolean;
+
+  /**
+   * Key prefixes to track in broadcast mode (PREFIX). Raw Redis keys,
+   * i.e. including any connection-level `keyPrefix`.
+   */
+  prefixes?: string[];
+
+  /**
+   * Skip invalidations for keys modified by this connection itself (NOLOOP).
+   */
+  noLoop?: boolean;
 }
 
 /**
  * Driver event handler. MESSAGE delivers (channel, message); PMESSAGE
- * delivers (pattern, channel, message); other events pass a single payload.
+ * delivers (pattern, channel, message); INVALIDATE delivers (keys | null);
+ * other events pass a single payload.
  */
 export type DriverEventHandler = (...args: unknown[]) => void;
 
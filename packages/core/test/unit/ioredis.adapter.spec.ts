@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { IoRedisAdapter } from '../../src/driver/infrastructure/ioredis.adapter';
 import { ConnectionConfig } from '../../src/types';
 import { ConnectionError, CommandError, DriverError } from '../../src/shared/errors';
-import { DriverEvent } from '../../src/interfaces';
+import { DriverEvent, TRACKING_INVALIDATION_CHANNEL } from '../../src/interfaces';
 import Redis, { Cluster } from 'ioredis';
 
 /**
@@ -1082,4 +1082,66 @@ describe('IoRedisAdapter', () => {
       expect(adapter.getClient()).toBeNull();
     });
   });
+
+  describe('Client-side Caching', () => {
+    async function connectWithHandlers(): Promise<{ adapter: IoRedisAdapter; handlers: Record<string, Function> }> {
+      const adapter = new IoRedisAdapter({ type: 'single', host: 'localhost', port: 6379 });
+      const handlers: Record<string, Function> = {};
+      const mockClient = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        on: vi.fn((event: string, handler: Function) => {
+          handlers[event] = handler;
+        }),
+        once: vi.fn((event: string, handler: Function) => {
+          if (event === 'ready') setTimeout(() => handler(), 0);
+        }),
+        off: vi.fn(),
+      };
+      vi.spyOn(adapter as any, 'createSingleClient').mockReturnValue(mockClient);
+      await adapter.connect();
+      return { adapter, handlers };
+    }
+
+    it('should emit INVALIDATE with decoded keys from the raw invalidation reply', async () => {
+      const { adapter, handlers } = await connectWithHandlers();
+      const invalidateSpy = vi.fn();
+      const messageSpy = vi.fn();
+      adapter.on(DriverEvent.INVALIDATE, invalidateSpy);
+      adapter.on(DriverEvent.MESSAGE, messageSpy);
+
+      handlers['message']!(TRACKING_INVALIDATION_CHANNEL, 'a,b');
+      handlers['messageBuffer']!(Buffer.from(TRACKING_INVALIDATION_CHANNEL), [Buffer.from('a'), Buffer.from('b')]);
+      handlers['messageBuffer']!(Buffer.from(TRACKING_INVALIDATION_CHANNEL), null);
+
+      expect(messageSpy).not.toHaveBeenCalled();
+      expect(invalidateSpy).toHaveBeenNthCalledWith(1, ['a', 'b']);
+      expect(invalidateSpy).toHaveBeenNthCalledWith(2, null);
+    });
+
+    it('should not emit INVALIDATE for regular channels', async () => {
+      const { adapter, handlers } = await connectWithHandlers();
+      const invalidateSpy = vi.fn();
+      adapter.on(DriverEvent.INVALIDATE, invalidateSpy);
+
+      handlers['messageBuffer']!(Buffer.from('news'), Buffer.from('hello'));
+
+      expect(invalidateSpy).not.toHaveBeenCalled();
+    });
+
+    it('should send CLIENT TRACKING ON with redirect, prefixes and NOLOOP', async () => {
+      const client = vi.fn().mockResolvedValue('OK');
+      const { adapter } = createConnectedAdapter(undefined, { client });
+
+      await adapter.enableTracking({ redirect: 42, bcast: true, prefixes: ['cache:', 'users:'], noLoop: true });
+
+      expect(client).toHaveBeenCalledWith('TRACKING', 'ON', 'REDIRECT', 42, 'BCAST', 'PREFIX', 'cache:', 'PREFIX', 'users:', 'NOLOOP');
+    });
+
+    it('should reject tracking on cluster topologies', async () => {
+      const { adapter } = createConnectedAdapter();
+      (adapter as any).client = Object.create(Cluster.prototype);
+
+      await expect(adapter.enableTracking({ redirect: 1 })).rejects.toThrow(CommandError);
+    });
+  });
 });
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { NodeRedisAdapter } from '../../src/driver/infrastructure/node-redis.adapter';
 import { ConnectionConfig } from '../../src/types';
-import { DriverEvent } from '../../src/interfaces';
+import { DriverEvent, TRACKING_INVALIDATION_CHANNEL } from '../../src/interfaces';
 import { ConnectionError, CommandError } from '../../src/shared/errors';
 
 // Mock redis
@@ -1445,4 +1445,58 @@ describe('NodeRedisAdapter', () => {
       expect(result).toEqual({});
     });
   });
+
+  describe('Client-side Caching', () => {
+    afterEach(async () => {
+      if (adapter?.isConnected()) {
+        await adapter.disconnect();
+      }
+    });
+
+    it('should route invalidation channel messages to INVALIDATE', async () => {
+      // Given
+      adapter = new NodeRedisAdapter({ type: 'single', host: 'localhost', port: 6379 });
+      await adapter.connect();
+      let listener: ((message: unknown, channel: string) => void) | undefined;
+      (adapter.getClient() as any).subscribe = vi.fn(async (_channels: string[], fn: typeof listener) => {
+        listener = fn;
+      });
+      const invalidateSpy = vi.fn();
+      const messageSpy = vi.fn();
+      adapter.on(DriverEvent.INVALIDATE, invalidateSpy);
+      adapter.on(DriverEvent.MESSAGE, messageSpy);
+
+      // When
+      await adapter.subscribe(TRACKING_INVALIDATION_CHANNEL);
+      listener!(['cache:a'], TRACKING_INVALIDATION_CHANNEL);
+      listener!(null, TRACKING_INVALIDATION_CHANNEL);
+
+      // Then
+      expect(messageSpy).not.toHaveBeenCalled();
+      expect(invalidateSpy).toHaveBeenNthCalledWith(1, ['cache:a']);
+      expect(invalidateSpy).toHaveBeenNthCalledWith(2, null);
+    });
+
+    it('should send CLIENT TRACKING ON on single-node clients', async () => {
+      // Given
+      adapter = new NodeRedisAdapter({ type: 'single', host: 'localhost', port: 6379 });
+      await adapter.connect();
+      const sendCommandSpy = vi.spyOn(adapter.getClient() as any, 'sendCommand');
+
+      // When
+      await adapter.enableTracking({ redirect: 42, noLoop: true });
+
+      // Then
+      expect(sendCommandSpy).toHaveBeenCalledWith(['CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'NOLOOP']);
+    });
+
+    it('should reject tracking on cluster topologies', async () => {
+      // Given
+      adapter = new NodeRedisAdapter({ type: 'cluster', nodes: [{ host: 'localhost', port: 7000 }] });
+      await adapter.connect();
+
+      // When / Then
+      await expect(adapter.enableTracking({ redirect: 1 })).rejects.toThrow(CommandError);
+    });
+  });
 });
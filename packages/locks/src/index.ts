@@ -3,19 +3,25 @@ export { LocksPlugin } from './locks.plugin';
 
 // Services
 export { LockService } from './lock/application/services/lock.service';
+export { SemaphoreService } from './lock/application/services/semaphore.service';
+export { LeaderElectionService } from './lock/application/services/leader-election.service';
 
 // Ports (Interfaces)
 export type { ILockService } from './lock/application/ports/lock-service.port';
-export type { ILock } from './lock/domain/entities/lock.entity';
+export type { ISemaphoreService } from './lock/application/ports/semaphore-service.port';
+export type { ILeaderElectionService } from './lock/application/ports/leader-election-service.port';
+export type { ILock, LockMode } from './lock/domain/entities/lock.entity';
+export type { IMultiLock } from './lock/domain/entities/multi-lock.entity';
 
 // Decorators
-export { WithLock, type IWithLockOptions } from './lock/api/decorators/with-lock.decorator';
+export { WithLock, WithReadLock, WithWriteLock, WithLocks, getFencingToken, type IWithLockOptions, type IWithLocksOptions } from './lock/api/decorators/with-lock.decorator';
+export { OnLeader, OnFollower } from './lock/api/decorators/leader.decorator';
 
 // Types
-export type { ILocksPluginOptions, LocksPluginOptions, ILockOptions } from './shared/types';
+export type { ILocksPluginOptions, LocksPluginOptions, ILockOptions, ISemaphoreHolder, ILeadershipChange } from './shared/types';
 
 // Errors
 export { LockError, LockAcquisitionError, LockNotOwnedError, LockExtensionError, LockExpiredError } from './shared/errors';
 
 // Constants
-export { LOCK_SERVICE, LOCK_REDIS_DRIVER, LOCKS_PLUGIN_OPTIONS } from './shared/constants';
+export { LOCK_SERVICE, SEMAPHORE_SERVICE, LEADER_ELECTION_SERVICE, LOCK_REDIS_DRIVER, LOCKS_PLUGIN_OPTIONS } from './shared/constants';
@@ -0,0 +1,55 @@
+import { SetMetadata } from '@nestjs/common';
+
+/**
+ * Metadata key for @OnLeader election names.
+ */
+export const ON_LEADER_METADATA = Symbol.for('LOCKS_ON_LEADER_METADATA');
+
+/**
+ * Metadata key for @OnFollower election names.
+ */
+export const ON_FOLLOWER_METADATA = Symbol.for('LOCKS_ON_FOLLOWER_METADATA');
+
+/**
+ * Calls a provider method when this instance becomes the leader of an election.
+ *
+ * The instance joins the election on application bootstrap. The method
+ * receives an `ILeadershipChange` argument; errors it throws or rejects with
+ * are logged.
+ *
+ * Requires `DiscoveryModule` from `@nestjs/core` (imported by the locks plugin).
+ *
+ * @param election - Election name
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class BillingScheduler {
+ *   @OnLeader('billing-cron')
+ *   start(): void {
+ *     this.timer = setInterval(() => void this.runDueInvoices(), 60_000);
+ *   }
+ *
+ *   @OnFollower('billing-cron')
+ *   stop(): void {
+ *     clearInterval(this.timer);
+ *   }
+ * }
+ * ```
+ */
+export function OnLeader(election: string): MethodDecorator {
+  return SetMetadata(ON_LEADER_METADATA, election);
+}
+
+/**
+ * Calls a provider method when this instance stops being the leader of an
+ * election: leadership was lost, resigned, or given up on shutdown.
+ *
+ * Not called at startup, when the instance starts as a follower. The instance
+ * joins the election on application bootstrap.
+ *
+ * @param election - Election name
+ */
+export function OnFollower(election: string): MethodDecorator {
+  return SetMetadata(ON_FOLLOWER_METADATA, election);
+}
@@ -1,13 +1,16 @@
 /**
- * @WithLock decorator for distributed locking.
+ * @WithLock, @WithReadLock, @WithWriteLock and @WithLocks decorators for distributed locking.
  *
  * Uses immediate proxy-based wrapping (not deferred to interceptor).
  * Works on ANY Injectable class methods (services, repositories, etc).
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+
 import { Logger } from '@nestjs/common';
 import 'reflect-metadata';
 import { LockAcquisitionError } from '../../../shared/errors';
+import { runAsLockOwner } from '../../../shared/utils/lock-owner.context';
 
 const logger = new Logger('WithLock');
 
@@ -16,25 +19,91 @@ const logger = new Logger('WithLock');
  */
 export const WITH_LOCK_OPTIONS = Symbol.for('WITH_LOCK_OPTIONS');
 
+/**
+ * Metadata key for @WithReadLock decorator options.
+ */
+export const WITH_READ_LOCK_OPTIONS = Symbol.for('WITH_READ_LOCK_OPTIONS');
+
+/**
+ * Metadata key for @WithWriteLock decorator options.
+ */
+export const WITH_WRITE_LOCK_OPTIONS = Symbol.for('WITH_WRITE_LOCK_OPTIONS');
+
+/**
+ * Metadata key for @WithLocks decorator options.
+ */
+export const WITH_LOCKS_OPTIONS = Symbol.for('WITH_LOCKS_OPTIONS');
+
 /**
  * Lock interface for decorator use.
  */
 interface IDecoratorLock {
+  readonly token: string;
+  readonly mode: string;
+  readonly fencingToken: number;
+  /** Per-key fencing tokens of a multi-key lock */
+  readonly fencingTokens?: readonly number[];
   release(): Promise<void>;
 }
 
+/**
+ * Lock acquisition options passed by the decorators.
+ */
+interface IDecoratorAcquireOptions {
+  ttl?: number;
+  waitTimeout?: number;
+  autoRenew?: boolean;
+  fair?: boolean;
+  reentrant?: boolean;
+}
+
 /**
  * Lock service interface for decorator use.
  */
 interface IDecoratorLockService {
-  acquire(
-    key: string,
-    options?: {
-      ttl?: number;
-      waitTimeout?: number;
-      autoRenew?: boolean;
-    },
-  ): Promise<IDecoratorLock>;
+  acquire(key: string, options?: IDecoratorAcquireOptions): Promise<IDecoratorLock>;
+  acquireRead(key: string, options?: IDecoratorAcquireOptions): Promise<IDecoratorLock>;
+  acquireWrite(key: string, options?: IDecoratorAcquireOptions): Promise<IDecoratorLock>;
+  acquireMany(keys: string[], options?: IDecoratorAcquireOptions): Promise<IDecoratorLock>;
+}
+
+/**
+ * Lock held by an enclosing @WithLock call (innermost first).
+ */
+interface IHeldLockContext {
+  key: string;
+  fencingToken: number;
+  parent?: IHeldLockContext;
+}
+
+const heldLocks = new AsyncLocalStorage<IHeldLockContext>();
+
+/**
+ * Gets the fencing token of a lock held by an enclosing `@WithLock`,
+ * `@WithReadLock`, `@WithWriteLock` or `@WithLocks` method.
+ *
+ * Lets the decorated method (and anything it calls) forward the token to
+ * storage that rejects writes carrying an older token.
+ *
+ * @param key - Lock key as built by the decorator; defaults to the innermost lock
+ *   (the first key of a `@WithLocks` call)
+ * @returns Fencing token, or undefined outside a locked call
+ *
+ * @example
+ * ```typescript
+ * @WithLock({ key: 'account:{0}' })
+ * async debit(accountId: string, amount: number) {
+ *   await this.accounts.update(accountId, amount, { fencingToken: getFencingToken() });
+ * }
+ * ```
+ */
+export function getFencingToken(key?: string): number | undefined {
+  for (let held = heldLocks.getStore(); held; held = held.parent) {
+    if (key === undefined || held.key === key) {
+      return held.fencingToken;
+    }
+  }
+  return undefined;
 }
 
 // Global service getter for lazy injection
@@ -49,7 +118,7 @@ export function registerLockServiceGetter(getter: () => IDecoratorLockService):
 }
 
 /**
- * Options for @WithLock decorator.
+ * Options for @WithLock, @WithReadLock and @WithWriteLock decorators.
  */
 export interface IWithLockOptions {
   /**
@@ -78,6 +147,19 @@ export interface IWithLockOptions {
    */
   autoRenew?: boolean;
 
+  /**
+   * Acquire in arrival order (see `ILockOptions.fair`). Ignored by
+   * `@WithReadLock` and `@WithWriteLock`.
+   */
+  fair?: boolean;
+
+  /**
+   * Let nested `@WithLock` / `withLock` calls of the same owner (async call
+   * chain) enter the lock again instead of waiting for it (see
+   * `ILockOptions.reentrant`). Ignored by `@WithReadLock` and `@WithWriteLock`.
+   */
+  reentrant?: boolean;
+
   /**
    * Action to take if lock acquisition fails.
    * - 'throw': Throw LockAcquisitionError (default)
@@ -87,11 +169,33 @@ export interface IWithLockOptions {
   onLockFailed?: 'throw' | 'skip' | ((key: string) => Error);
 }
 
+/**
+ * Options for @WithLocks decorator.
+ */
+export interface IWithLocksOptions extends Omit<IWithLockOptions, 'key' | 'fair' | 'reentrant' | 'onLockFailed'> {
+  /**
+   * Lock key templates or builder functions, one per resource.
+   *
+   * @example
+   * ```typescript
+   * @WithLocks({ keys: ['account:{0}', 'account:{1}'] })
+   * ```
+   */
+  keys: Array<string | ((...args: unknown[]) => string)>;
+
+  /**
+   * Action to take if lock acquisition fails (see {@link IWithLockOptions.onLockFailed}).
+   * A custom error factory receives the comma-joined keys.
+   */
+  onLockFailed?: IWithLockOptions['onLockFailed'];
+}
+
 /**
  * Decorator for distributed locking.
  *
  * Acquires a distributed lock before executing the method
- * and automatically releases it afterwards.
+ * and automatically releases it afterwards. The lock's fencing token is
+ * available inside the method via {@link getFencingToken}.
  *
  * Works on any Injectable class method, not just controllers.
  *
@@ -124,6 +228,99 @@ export interface IWithLockOptions {
  * ```
  */
 export function WithLock(options: IWithLockOptions): MethodDecorator {
+  return createLockDecorator(
+    '@WithLock',
+    WITH_LOCK_OPTIONS,
+    options,
+    (args) => [buildLockKey(args, options.key)],
+    (service, keys, acquireOptions) => service.acquire(keys[0]!, acquireOptions),
+  );
+}
+
+/**
+ * Decorator for shared (read) distributed locking.
+ *
+ * Same options and behavior as {@link WithLock}, but any number of
+ * `@WithReadLock` calls may run concurrently for the same key. They wait
+ * while a `@WithWriteLock` call holds the key or is waiting for it.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class PricingService {
+ *   @WithReadLock({ key: 'pricing:{0}' })
+ *   async getPrice(sku: string) {
+ *     // Runs alongside other readers of this SKU
+ *   }
+ *
+ *   @WithWriteLock({ key: 'pricing:{0}' })
+ *   async updatePrice(sku: string, price: number) {
+ *     // Runs alone: no readers, no other writer
+ *   }
+ * }
+ * ```
+ */
+export function WithReadLock(options: IWithLockOptions): MethodDecorator {
+  return createLockDecorator(
+    '@WithReadLock',
+    WITH_READ_LOCK_OPTIONS,
+    options,
+    (args) => [buildLockKey(args, options.key)],
+    (service, keys, acquireOptions) => service.acquireRead(keys[0]!, acquireOptions),
+  );
+}
+
+/**
+ * Decorator for exclusive (write) distributed locking.
+ *
+ * Same options and behavior as {@link WithLock}, but also waits for
+ * `@WithReadLock` calls on the key to finish. New readers are held back
+ * while it waits. See {@link WithReadLock} for an example.
+ */
+export function WithWriteLock(options: IWithLockOptions): MethodDecorator {
+  return createLockDecorator(
+    '@WithWriteLock',
+    WITH_WRITE_LOCK_OPTIONS,
+    options,
+    (args) => [buildLockKey(args, options.key)],
+    (service, keys, acquireOptions) => service.acquireWrite(keys[0]!, acquireOptions),
+  );
+}
+
+/**
+ * Decorator for locking several resources at once.
+ *
+ * Same behavior as {@link WithLock}, but builds one key per template and
+ * acquires them all atomically (all or nothing), so methods locking
+ * overlapping resources in any order cannot deadlock. Each key's fencing
+ * token is available via `getFencingToken(key)`. On Redis Cluster the keys
+ * must share a hash tag.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * class TransferService {
+ *   @WithLocks({ keys: ['account:{0}', 'account:{1}'] })
+ *   async transfer(fromId: string, toId: string, amount: number) {
+ *     // Holds both accounts; transfer(b, a) elsewhere cannot deadlock with it
+ *   }
+ * }
+ * ```
+ */
+export function WithLocks(options: IWithLocksOptions): MethodDecorator {
+  return createLockDecorator(
+    '@WithLocks',
+    WITH_LOCKS_OPTIONS,
+    options,
+    (args) => Array.from(new Set(options.keys.map((key) => buildLockKey(args, key)))),
+    (service, keys, acquireOptions) => service.acquireMany(keys, acquireOptions),
+  );
+}
+
+/**
+ * Builds a decorator that wraps the method in acquire/release.
+ */
+function createLockDecorator(name: string, metadataKey: symbol, options: IWithLockOptions | IWithLocksOptions, buildKeys: (args: unknown[]) => string[], acquire: (service: IDecoratorLockService, keys: string[], options: IDecoratorAcquireOptions) => Promise<IDecoratorLock>): MethodDecorator {
   return (target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor) => {
     const originalMethod = descriptor.value as (...args: unknown[]) => Promise<unknown>;
 
@@ -131,30 +328,37 @@ export function WithLock(options: IWithLockOptions): MethodDecorator {
     descriptor.value = async function (...args: unknown[]): Promise<unknown> {
       // Lazy inject lock service on first call
       if (!globalLockServiceGetter) {
-        logger.warn(`@WithLock: LockService not yet available, executing method without lock`);
+        logger.warn(`${name}: LockService not yet available, executing method without lock`);
         return originalMethod.apply(this, args);
       }
 
       const lockService = globalLockServiceGetter();
       if (!lockService) {
-        logger.warn(`@WithLock: LockService getter returned null, executing method without lock`);
+        logger.warn(`${name}: LockService getter returned null, executing method without lock`);
         return originalMethod.apply(this, args);
       }
 
-      // Build lock key
-      const key = buildLockKey(args, options);
+      // Build lock key(s)
+      const keys = buildKeys(args);
+      const key = keys.join(',');
       let lock: IDecoratorLock | null = null;
 
       try {
         // Acquire lock
-        lock = await lockService.acquire(key, {
+        lock = await acquire(lockService, keys, {
           ttl: options.ttl,
           waitTimeout: options.waitTimeout,
           autoRenew: options.autoRenew,
+          fair: 'fair' in options ? options.fair : undefined,
+          reentrant: 'reentrant' in options ? options.reentrant : undefined,
         });
 
-        // Execute original method
-        const result = await originalMethod.apply(this, args);
+        // Execute original method with the lock's fencing token(s) in context,
+        // as the lock's owner when it is reentrant
+        const held = pushHeldLocks(keys, lock);
+        const run = () => originalMethod.apply(this, args);
+        const owner = lock.mode === 'reentrant' ? lock.token : null;
+        const result = await heldLocks.run(held, () => (owner ? runAsLockOwner(owner, run) : run()));
 
         return result;
       } catch (error) {
@@ -167,7 +371,7 @@ export function WithLock(options: IWithLockOptions): MethodDecorator {
         // Always release lock
         if (lock) {
           await lock.release().catch((err: Error) => {
-            logger.error(`@WithLock: Failed to release lock ${key}:`, err);
+            logger.error(`${name}: Failed to release lock ${key}:`, err);
           });
         }
       }
@@ -180,20 +384,31 @@ export function WithLock(options: IWithLockOptions): MethodDecorator {
     });
 
     // Store metadata on WRAPPER function for reflection (after replacement)
-    Reflect.defineMetadata(WITH_LOCK_OPTIONS, options, descriptor.value);
+    Reflect.defineMetadata(metadataKey, options, descriptor.value);
 
     return descriptor;
   };
 }
 
+/**
+ * Stacks the held keys on the current context, first key innermost.
+ */
+function pushHeldLocks(keys: string[], lock: IDecoratorLock): IHeldLockContext {
+  let held = heldLocks.getStore();
+  for (let i = keys.length - 1; i >= 0; i--) {
+    held = { key: keys[i]!, fencingToken: lock.fencingTokens?.[i] ?? lock.fencingToken, parent: held };
+  }
+  return held!;
+}
+
 /**
  * Builds lock key from template or function.
  */
-function buildLockKey(args: unknown[], options: IWithLockOptions): string {
-  if (typeof options.key === 'function') {
-    return options.key(...args);
+function buildLockKey(args: unknown[], key: string | ((...args: unknown[]) => string)): string {
+  if (typeof key === 'function') {
+    return key(...args);
   }
-  return interpolateKey(options.key, args);
+  return interpolateKey(key, args);
 }
 
 /**
@@ -216,7 +431,7 @@ function interpolateKey(template: string, args: unknown[]): string {
 /**
  * Handles lock acquisition failure.
  */
-function handleLockFailed(key: string, options: IWithLockOptions, error: LockAcquisitionError): undefined {
+function handleLockFailed(key: string, options: IWithLockOptions | IWithLocksOptions, error: LockAcquisitionError): undefined {
   const handler = options.onLockFailed ?? 'throw';
 
   if (handler === 'throw') {
@@ -0,0 +1,80 @@
+import { Injectable, Logger, OnApplicationBootstrap, Inject, Optional } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+
+import { LEADER_ELECTION_SERVICE } from '../../../shared/constants';
+import { ILeadershipChange } from '../../../shared/types';
+import { ILeaderElectionService } from '../../application/ports/leader-election-service.port';
+import { ON_FOLLOWER_METADATA, ON_LEADER_METADATA } from '../decorators/leader.decorator';
+
+/**
+ * Discovers `@OnLeader` / `@OnFollower` provider methods and joins their
+ * elections. Runs on application bootstrap so hooks only fire once all
+ * modules are initialized.
+ */
+@Injectable()
+export class LeaderElectionDiscovery implements OnApplicationBootstrap {
+  private readonly logger = new Logger(LeaderElectionDiscovery.name);
+
+  constructor(
+    @Optional() @Inject(DiscoveryService) private readonly discoveryService: DiscoveryService | null,
+    @Inject(LEADER_ELECTION_SERVICE) private readonly leaderElection: ILeaderElectionService,
+    @Inject(Reflector) private readonly reflector: Reflector,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.discoveryService) {
+      this.logger.warn('DiscoveryService not available. Import DiscoveryModule from @nestjs/core to enable the @OnLeader/@OnFollower decorators.');
+      return;
+    }
+
+    const elections = new Set<string>();
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const { instance } = wrapper;
+      if (!instance) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance);
+      for (const methodName of Object.getOwnPropertyNames(prototype)) {
+        const descriptor = Object.getOwnPropertyDescriptor(prototype, methodName);
+        if (!descriptor || typeof descriptor.value !== 'function') {
+          continue;
+        }
+
+        for (const [metadataKey, isLeader] of [
+          [ON_LEADER_METADATA, true],
+          [ON_FOLLOWER_METADATA, false],
+        ] as const) {
+          const election = this.reflector.get<string>(metadataKey, descriptor.value);
+          if (election) {
+            this.register(instance, methodName, election, isLeader);
+            elections.add(election);
+          }
+        }
+      }
+    }
+
+    // Join after all hooks are registered, so none misses an election
+    for (const election of elections) {
+      await this.leaderElection.campaign(election);
+    }
+  }
+
+  private register(instance: object, methodName: string, election: string, isLeader: boolean): void {
+    const handler = (instance as Record<string, (change: ILeadershipChange) => unknown>)[methodName]!.bind(instance);
+    const hook = `${instance.constructor.name}.${methodName}`;
+
+    this.leaderElection.onLeadershipChange((change) => {
+      if (change.election !== election || change.isLeader !== isLeader) {
+        return;
+      }
+
+      Promise.resolve()
+        .then(() => handler(change))
+        .catch((error) => {
+          this.logger.error(`Leadership hook ${hook} failed for "${election}":`, error);
+        });
+    });
+    this.logger.log(`Registered ${hook} as ${isLeader ? '@OnLeader' : '@OnFollower'} hook of "${election}"`);
+  }
+}
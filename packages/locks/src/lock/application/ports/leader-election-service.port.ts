@@ -0,0 +1,71 @@
+import { ILeadershipChange } from '../../../shared/types';
+
+/**
+ * Leader election service interface.
+ *
+ * Elects one instance per election name across all replicas. Leadership is a
+ * lock on the election key held with auto-renewal; followers keep trying to
+ * take it over, so a crashed leader is replaced once its lease expires.
+ */
+export interface ILeaderElectionService {
+  /**
+   * Identifier of this instance, stored as the value of held leadership keys.
+   */
+  readonly instanceId: string;
+
+  /**
+   * Joins an election and keeps campaigning until resigned.
+   *
+   * Makes one attempt right away; while a follower, retries every
+   * `leaderElection.retryInterval`. Joining an election twice has no effect.
+   *
+   * @param election - Election name (key is `<keyPrefix>leader:<election>`)
+   * @returns Whether this instance is the leader after the first attempt
+   *
+   * @example
+   * ```typescript
+   * await leaderElection.campaign('billing-cron');
+   *
+   * setInterval(() => {
+   *   if (leaderElection.isLeader('billing-cron')) {
+   *     void this.billing.runDueInvoices();
+   *   }
+   * }, 60_000);
+   * ```
+   */
+  campaign(election: string): Promise<boolean>;
+
+  /**
+   * Leaves an election, releasing the leadership key if held so another
+   * instance can take over without waiting for the lease to expire.
+   *
+   * @param election - Election name
+   */
+  resign(election: string): Promise<void>;
+
+  /**
+   * Checks whether this instance currently leads the election.
+   *
+   * @param election - Election name
+   */
+  isLeader(election: string): boolean;
+
+  /**
+   * Gets the instance id of the current leader from Redis.
+   *
+   * Works for elections this instance has not joined, e.g. in health
+   * endpoints.
+   *
+   * @param election - Election name
+   * @returns Leader's instance id, or null if there is no leader
+   */
+  getLeader(election: string): Promise<string | null>;
+
+  /**
+   * Registers a listener for leadership changes of this instance.
+   *
+   * @param listener - Called on every change, for all elections
+   * @returns Function that removes the listener
+   */
+  onLeadershipChange(listener: (change: ILeadershipChange) => void): () => void;
+}
@@ -0,0 +1,18 @@
+/**
+ * Lock release listener interface.
+ *
+ * Delivers release notifications to fair waiters of this instance, so they
+ * retry as soon as the lock frees up instead of polling.
+ */
+export interface ILockReleaseListener {
+  /**
+   * Registers a callback for releases of a lock key.
+   *
+   * Subscribes to the release channel on first use.
+   *
+   * @param key - Full lock key in Redis
+   * @param callback - Called on every release notification for the key
+   * @returns Function that unregisters the callback
+   */
+  onRelease(key: string, callback: () => void): Promise<() => void>;
+}
@@ -1,5 +1,6 @@
 import { ILockOptions } from '../../../shared/types';
 import { ILock } from '../../domain/entities/lock.entity';
+import { IMultiLock } from '../../domain/entities/multi-lock.entity';
 
 /**
  * Lock service interface for distributed lock operations.
@@ -15,9 +16,15 @@ export interface ILockService {
    * if the lock is held by another process. Throws if all retries
    * are exhausted.
    *
+   * With `fair: true` (or `fair.enabled` in plugin options) the caller
+   * instead waits in a FIFO queue and is woken when the lock is released,
+   * until `waitTimeout` (default `fair.waitTimeout`) runs out. Callers that
+   * do not use fair mode can still take a free lock ahead of the queue.
+   *
    * @param key - Lock key (will be prefixed with module's keyPrefix)
    * @param options - Lock options (TTL, retry config, auto-renewal)
-   * @returns Lock instance that must be released
+   * @returns Lock instance that must be released; `lock.fencingToken` is
+   *   strictly greater than that of any earlier holder of the same key
    * @throws {LockAcquisitionError} If lock cannot be acquired after all retries
    *
    * @example
@@ -28,8 +35,8 @@ export interface ILockService {
    * });
    *
    * try {
-   *   // Critical section
-   *   await updateUser(123);
+   *   // Critical section — storage rejects writes with an older token
+   *   await updateUser(123, { fencingToken: lock.fencingToken });
    * } finally {
    *   await lock.release();
    * }
@@ -41,7 +48,8 @@ export interface ILockService {
    * Attempts to acquire lock without retry.
    *
    * Makes a single attempt to acquire the lock.
-   * Returns null if lock is held by another process.
+   * Returns null if lock is held by another process. In fair mode it also
+   * returns null while other callers are waiting in the queue.
    *
    * @param key - Lock key (will be prefixed with module's keyPrefix)
    * @param options - Lock options (TTL, auto-renewal)
@@ -64,6 +72,33 @@ export interface ILockService {
    */
   tryAcquire(key: string, options?: ILockOptions): Promise<ILock | null>;
 
+  /**
+   * Acquires several locks at once, all or nothing, with retry.
+   *
+   * Every key is taken in a single atomic step, so workflows that lock
+   * overlapping sets of keys (in any order) cannot deadlock. Retries with
+   * exponential backoff while any key is held. On Redis Cluster all keys
+   * must hash to the same slot — give them a common hash tag.
+   *
+   * @param keys - Lock keys (each prefixed with module's keyPrefix; duplicates ignored)
+   * @param options - Lock options (TTL, retry config, auto-renewal); `fair` is not supported
+   * @returns Composite lock: release, extend and auto-renewal cover every key;
+   *   `fencingTokens` holds each key's fencing token
+   * @throws {LockAcquisitionError} If the keys could not all be acquired after all retries
+   * @throws {LockError} If no key is given
+   *
+   * @example
+   * ```typescript
+   * const lock = await lockService.acquireMany([`account:${from}`, `account:${to}`]);
+   * try {
+   *   await ledger.transfer(from, to, amount);
+   * } finally {
+   *   await lock.release();
+   * }
+   * ```
+   */
+  acquireMany(keys: string[], options?: ILockOptions): Promise<IMultiLock>;
+
   /**
    * Executes function with automatic lock management.
    *
@@ -90,11 +125,83 @@ export interface ILockService {
    */
   withLock<T>(key: string, fn: () => Promise<T>, options?: ILockOptions): Promise<T>;
 
+  /**
+   * Acquires a shared read lock with retry.
+   *
+   * Any number of readers may hold the same key at once. Readers wait while
+   * a writer holds the key or is waiting for it, so a steady stream of
+   * readers cannot starve writers.
+   *
+   * @param key - Lock key (will be prefixed with module's keyPrefix)
+   * @param options - Lock options (TTL, retry config, auto-renewal)
+   * @returns Read lock instance that must be released
+   * @throws {LockAcquisitionError} If lock cannot be acquired after all retries
+   *
+   * @example
+   * ```typescript
+   * const lock = await lockService.acquireRead('config:pricing');
+   * try {
+   *   return await loadPricing();
+   * } finally {
+   *   await lock.release();
+   * }
+   * ```
+   */
+  acquireRead(key: string, options?: ILockOptions): Promise<ILock>;
+
+  /**
+   * Acquires an exclusive write lock with retry.
+   *
+   * Waits until the current writer and all active readers are gone. While it
+   * waits, new readers are refused. Excludes `acquire()` on the same key, but
+   * `acquire()` itself does not wait for readers.
+   *
+   * @param key - Lock key (will be prefixed with module's keyPrefix)
+   * @param options - Lock options (TTL, retry config, auto-renewal)
+   * @returns Write lock instance that must be released
+   * @throws {LockAcquisitionError} If lock cannot be acquired after all retries
+   *
+   * @example
+   * ```typescript
+   * const lock = await lockService.acquireWrite('config:pricing');
+   * try {
+   *   await savePricing(pricing);
+   * } finally {
+   *   await lock.release();
+   * }
+   * ```
+   */
+  acquireWrite(key: string, options?: ILockOptions): Promise<ILock>;
+
+  /**
+   * Executes function while holding a shared read lock.
+   *
+   * @param key - Lock key
+   * @param fn - Function to execute while holding lock
+   * @param options - Lock options
+   * @returns Result of function execution
+   * @throws {LockAcquisitionError} If lock cannot be acquired
+   * @throws Any error thrown by fn
+   */
+  withReadLock<T>(key: string, fn: () => Promise<T>, options?: ILockOptions): Promise<T>;
+
+  /**
+   * Executes function while holding an exclusive write lock.
+   *
+   * @param key - Lock key
+   * @param fn - Function to execute while holding lock
+   * @param options - Lock options
+   * @returns Result of function execution
+   * @throws {LockAcquisitionError} If lock cannot be acquired
+   * @throws Any error thrown by fn
+   */
+  withWriteLock<T>(key: string, fn: () => Promise<T>, options?: ILockOptions): Promise<T>;
+
   /**
    * Checks if key is currently locked.
    *
    * @param key - Lock key to check
-   * @returns True if lock exists in Redis
+   * @returns True if an exclusive or write lock exists in Redis (readers are not counted)
    *
    * @example
    * ```typescript
@@ -1,3 +1,5 @@
+import { ISemaphoreHolder } from '../../../shared/types';
+
 /**
  * Lock store interface for low-level Redis operations.
  *
@@ -8,19 +10,21 @@ export interface ILockStore {
   /**
    * Attempts to acquire lock atomically.
    *
-   * Uses Redis SET NX PX command to acquire lock only if it doesn't exist.
+   * Uses a Lua script (SET NX PX + INCR) to acquire the lock only if it
+   * doesn't exist and issue the next fencing token for the key.
    *
    * @param key - Full lock key in Redis
    * @param token - Unique ownership token
    * @param ttlMs - Lock TTL in milliseconds
-   * @returns True if lock was acquired, false if already held
+   * @returns Fencing token if lock was acquired, null if already held
    */
-  acquire(key: string, token: string, ttlMs: number): Promise<boolean>;
+  acquire(key: string, token: string, ttlMs: number): Promise<number | null>;
 
   /**
    * Releases lock if owned by token.
    *
-   * Uses Lua script to atomically check ownership and delete.
+   * Uses Lua script to atomically check ownership and delete. Publishes a
+   * release notification when fair waiters are queued for the key.
    *
    * @param key - Full lock key in Redis
    * @param token - Ownership token to verify
@@ -57,6 +61,14 @@ export interface ILockStore {
    */
   isHeldBy(key: string, token: string): Promise<boolean>;
 
+  /**
+   * Gets the token of the current holder of a lock.
+   *
+   * @param key - Full lock key in Redis
+   * @returns Holder token, or null if the lock is free
+   */
+  getHolder(key: string): Promise<string | null>;
+
   /**
    * Force removes lock without ownership check.
    *
@@ -64,4 +76,223 @@ export interface ILockStore {
    * @returns True if lock was removed
    */
   forceRelease(key: string): Promise<boolean>;
+
+  /**
+   * Attempts to acquire several locks atomically, all or nothing.
+   *
+   * Either every key is set with the token or none is, so callers that
+   * lock overlapping sets cannot deadlock each other. On Redis Cluster the
+   * keys must hash to the same slot.
+   *
+   * @param keys - Full lock keys in Redis (no duplicates)
+   * @param token - Unique ownership token, shared by all keys
+   * @param ttlMs - Lock TTL in milliseconds
+   * @returns Fencing token per key (same order), or null if any key is held
+   */
+  acquireMany(keys: string[], token: string, ttlMs: number): Promise<number[] | null>;
+
+  /**
+   * Releases the keys of a multi-key lock that are still owned by token.
+   *
+   * Publishes a release notification for keys with fair waiters queued.
+   *
+   * @param keys - Full lock keys in Redis
+   * @param token - Ownership token to verify
+   * @returns True if every key was released, false if any was not owned or expired
+   */
+  releaseMany(keys: string[], token: string): Promise<boolean>;
+
+  /**
+   * Extends the TTL of every key of a multi-key lock, all or nothing.
+   *
+   * @param keys - Full lock keys in Redis
+   * @param token - Ownership token to verify
+   * @param ttlMs - New TTL in milliseconds
+   * @returns True if all keys were extended, false if any is not owned (none extended)
+   */
+  extendMany(keys: string[], token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Checks if every key is held by specific token.
+   *
+   * @param keys - Full lock keys in Redis
+   * @param token - Token to check
+   * @returns True if all keys exist and match token
+   */
+  isManyHeldBy(keys: string[], token: string): Promise<boolean>;
+
+  /**
+   * Attempts to acquire a reentrant lock, or enters it again as its owner.
+   *
+   * An owner that already holds the key increments its hold count instead of
+   * being refused; the TTL is extended if the new one is longer.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Owner token, the same for every nested acquisition
+   * @param ttlMs - Lock TTL in milliseconds
+   * @returns Fencing token of the outermost acquisition, or null if held by another owner
+   */
+  acquireReentrant(key: string, token: string, ttlMs: number): Promise<number | null>;
+
+  /**
+   * Extends a reentrant lock if owned by token.
+   *
+   * Only raises the TTL: a nested holder renewing with a shorter TTL leaves
+   * the longer remaining TTL of an outer holder in place.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Owner token to verify
+   * @param ttlMs - Minimum TTL in milliseconds
+   * @returns True if owned, false if not owned or expired
+   */
+  extendReentrant(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Decrements the owner's hold count; releases the lock when it reaches zero.
+   *
+   * Publishes a release notification when fair waiters are queued.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Owner token to verify
+   * @returns True if owned (whether or not the lock was released), false if not owned or expired
+   */
+  releaseReentrant(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Attempts to acquire lock atomically in arrival order.
+   *
+   * Joins the key's wait queue on the first call and keeps the same place on
+   * later calls with the same token. Only the head of the queue may acquire.
+   * A waiter that makes no attempt within `heartbeatMs` loses its place.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Unique ownership token (also identifies the waiter)
+   * @param ttlMs - Lock TTL in milliseconds
+   * @param heartbeatMs - How long the waiter keeps its place without another attempt
+   * @returns Fencing token if lock was acquired, null if held or not first in line
+   */
+  acquireFair(key: string, token: string, ttlMs: number, heartbeatMs: number): Promise<number | null>;
+
+  /**
+   * Removes a waiter from the key's wait queue.
+   *
+   * Wakes the remaining waiters so the next in line can try.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Token of the waiter
+   */
+  leaveQueue(key: string, token: string): Promise<void>;
+
+  /**
+   * Attempts to acquire a shared (read) lock atomically.
+   *
+   * Any number of readers may hold the key at once. Refused while the
+   * key is held by a writer, or while a writer is waiting for it.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Unique ownership token
+   * @param ttlMs - Lock TTL in milliseconds
+   * @returns Fencing token if lock was acquired, null if blocked by a writer
+   */
+  acquireRead(key: string, token: string, ttlMs: number): Promise<number | null>;
+
+  /**
+   * Attempts to acquire an exclusive (write) lock atomically.
+   *
+   * Like `acquire`, but also waits for active readers to drain. A blocked
+   * writer is registered as waiting for `ttlMs`, which stops new readers
+   * from acquiring the key until it succeeds or gives up.
+   *
+   * The write lock is stored under `key` itself, so it is released, extended
+   * and checked with `release`, `extend` and `isHeldBy`.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Unique ownership token
+   * @param ttlMs - Lock TTL in milliseconds
+   * @returns Fencing token if lock was acquired, null if held
+   */
+  acquireWrite(key: string, token: string, ttlMs: number): Promise<number | null>;
+
+  /**
+   * Withdraws a waiting writer that gave up acquiring the key.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Token the writer was waiting with
+   */
+  cancelWrite(key: string, token: string): Promise<void>;
+
+  /**
+   * Releases read lock if held by token.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Ownership token to verify
+   * @returns True if lock was released, false if not owned or expired
+   */
+  releaseRead(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Extends read lock TTL if held by token.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Ownership token to verify
+   * @param ttlMs - New TTL in milliseconds
+   * @returns True if lock was extended, false if not owned or expired
+   */
+  extendRead(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Checks if read lock is held by specific token.
+   *
+   * @param key - Full lock key in Redis
+   * @param token - Token to check
+   * @returns True if token holds an unexpired read lock
+   */
+  isReadHeldBy(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Attempts to take one semaphore permit atomically.
+   *
+   * @param key - Full semaphore key in Redis
+   * @param token - Unique ownership token
+   * @param ttlMs - Permit TTL in milliseconds
+   * @param permits - Total permits of the semaphore
+   * @returns Fencing token if a permit was taken, null if all are held
+   */
+  acquirePermit(key: string, token: string, ttlMs: number, permits: number): Promise<number | null>;
+
+  /**
+   * Returns a semaphore permit if held by token.
+   *
+   * @param key - Full semaphore key in Redis
+   * @param token - Ownership token to verify
+   * @returns True if permit was returned, false if not owned or expired
+   */
+  releasePermit(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Extends semaphore permit TTL if held by token.
+   *
+   * @param key - Full semaphore key in Redis
+   * @param token - Ownership token to verify
+   * @param ttlMs - New TTL in milliseconds
+   * @returns True if permit was extended, false if not owned or expired
+   */
+  extendPermit(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Checks if semaphore permit is held by specific token.
+   *
+   * @param key - Full semaphore key in Redis
+   * @param token - Token to check
+   * @returns True if token holds an unexpired permit
+   */
+  isPermitHeldBy(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Lists unexpired permit holders, soonest expiry first.
+   *
+   * @param key - Full semaphore key in Redis
+   * @returns Current holders
+   */
+  getPermitHolders(key: string): Promise<ISemaphoreHolder[]>;
 }
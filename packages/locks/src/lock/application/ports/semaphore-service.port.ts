@@ -0,0 +1,82 @@
+import { ILockOptions, ISemaphoreHolder } from '../../../shared/types';
+import { ILock } from '../../domain/entities/lock.entity';
+
+/**
+ * Semaphore service interface for distributed counting semaphores.
+ *
+ * Limits how many holders may work on a key at once across all instances.
+ * Each holder takes one permit, which behaves like a lock: it has a TTL,
+ * auto-renews, and returns to the pool on release or when it expires.
+ */
+export interface ISemaphoreService {
+  /**
+   * Takes one permit with retry.
+   *
+   * Retries with exponential backoff while all permits are held. Throws if
+   * all retries are exhausted.
+   *
+   * @param key - Semaphore key (will be prefixed with module's keyPrefix)
+   * @param permits - Total permits of the semaphore (max concurrent holders)
+   * @param options - Permit options (TTL, retry config, auto-renewal)
+   * @returns Permit (`mode: 'permit'`) that must be released
+   * @throws {LockAcquisitionError} If no permit became free after all retries
+   * @throws {LockError} If permits is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * // At most 5 concurrent calls to the partner API, cluster-wide
+   * const permit = await semaphoreService.acquire('partner-api', 5);
+   * try {
+   *   await partnerApi.call();
+   * } finally {
+   *   await permit.release();
+   * }
+   * ```
+   */
+  acquire(key: string, permits: number, options?: ILockOptions): Promise<ILock>;
+
+  /**
+   * Attempts to take one permit without retry.
+   *
+   * @param key - Semaphore key (will be prefixed with module's keyPrefix)
+   * @param permits - Total permits of the semaphore
+   * @param options - Permit options (TTL, auto-renewal)
+   * @returns Permit or null if all permits are held
+   * @throws {LockError} If permits is not a positive integer
+   */
+  tryAcquire(key: string, permits: number, options?: ILockOptions): Promise<ILock | null>;
+
+  /**
+   * Executes function while holding one permit.
+   *
+   * @param key - Semaphore key
+   * @param permits - Total permits of the semaphore
+   * @param fn - Function to execute while holding the permit
+   * @param options - Permit options
+   * @returns Result of function execution
+   * @throws {LockAcquisitionError} If no permit became free
+   * @throws Any error thrown by fn
+   *
+   * @example
+   * ```typescript
+   * const report = await semaphoreService.withPermit('reports:render', 2, () => renderReport(id), { ttl: 60000 });
+   * ```
+   */
+  withPermit<T>(key: string, permits: number, fn: () => Promise<T>, options?: ILockOptions): Promise<T>;
+
+  /**
+   * Lists current permit holders.
+   *
+   * Expired permits are not included.
+   *
+   * @param key - Semaphore key
+   * @returns Holders, soonest expiry first
+   *
+   * @example
+   * ```typescript
+   * const holders = await semaphoreService.getHolders('partner-api');
+   * console.log(`${holders.length}/5 permits in use`);
+   * ```
+   */
+  getHolders(key: string): Promise<ISemaphoreHolder[]>;
+}
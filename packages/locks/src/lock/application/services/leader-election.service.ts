@@ -0,0 +1,213 @@
+import * as os from 'os';
+
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+
+import { LOCKS_PLUGIN_OPTIONS, LOCK_STORE } from '../../../shared/constants';
+import { ILeadershipChange, ILocksPluginOptions } from '../../../shared/types';
+import { Lock } from '../../domain/entities/lock.entity';
+import { ILeaderElectionService } from '../ports/leader-election-service.port';
+import { ILockStore } from '../ports/lock-store.port';
+
+/**
+ * State of one election this instance takes part in.
+ */
+interface IElection {
+  name: string;
+  key: string;
+  leadership: Lock | null;
+  retryTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Leader election service implementation.
+ *
+ * Leadership is an exclusive `Lock` on `<keyPrefix>leader:<election>` whose
+ * token is this instance's id, kept alive with auto-renewal. A failed renewal
+ * means leadership is lost: the instance turns follower right away, even if
+ * the lease might still be valid, so two instances never both act as leader.
+ * Steps down from all elections on module destroy.
+ */
+@Injectable()
+export class LeaderElectionService implements ILeaderElectionService, OnModuleDestroy {
+  readonly instanceId: string;
+
+  private readonly logger = new Logger(LeaderElectionService.name);
+  private readonly elections = new Map<string, IElection>();
+  private readonly listeners = new Set<(change: ILeadershipChange) => void>();
+  private readonly ttl: number;
+  private readonly retryInterval: number;
+
+  constructor(
+    @Inject(LOCKS_PLUGIN_OPTIONS) private readonly config: ILocksPluginOptions,
+    @Inject(LOCK_STORE) private readonly store: ILockStore,
+  ) {
+    this.instanceId = config.leaderElection?.instanceId ?? `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2)}`;
+    this.ttl = config.leaderElection?.ttl ?? 15000;
+    this.retryInterval = config.leaderElection?.retryInterval ?? 5000;
+  }
+
+  /**
+   * Lifecycle hook: steps down from all elections on shutdown.
+   */
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(Array.from(this.elections.keys()).map((election) => this.resign(election)));
+    this.listeners.clear();
+  }
+
+  /**
+   * Joins an election and keeps campaigning until resigned.
+   */
+  async campaign(election: string): Promise<boolean> {
+    const existing = this.elections.get(election);
+    if (existing) {
+      return existing.leadership !== null;
+    }
+
+    const state: IElection = { name: election, key: this.buildKey(election), leadership: null, retryTimer: null };
+    this.elections.set(election, state);
+    await this.attempt(state);
+    return state.leadership !== null;
+  }
+
+  /**
+   * Leaves an election, releasing leadership if held.
+   */
+  async resign(election: string): Promise<void> {
+    const state = this.elections.get(election);
+    if (!state) {
+      return;
+    }
+
+    this.elections.delete(election);
+    if (state.retryTimer) {
+      clearTimeout(state.retryTimer);
+      state.retryTimer = null;
+    }
+
+    const leadership = state.leadership;
+    if (!leadership) {
+      return;
+    }
+
+    state.leadership = null;
+    await leadership.release().catch((error) => {
+      this.logger.warn(`Failed to release leadership of "${election}"; it expires with its lease: ${(error as Error).message}`);
+    });
+    this.logger.log(`Resigned leadership of "${election}"`);
+    this.emit({ election, isLeader: false, reason: 'resigned' });
+  }
+
+  /**
+   * Checks whether this instance currently leads the election.
+   */
+  isLeader(election: string): boolean {
+    return (this.elections.get(election)?.leadership ?? null) !== null;
+  }
+
+  /**
+   * Gets the current leader's instance id.
+   */
+  async getLeader(election: string): Promise<string | null> {
+    return this.store.getHolder(this.buildKey(election));
+  }
+
+  /**
+   * Registers a leadership change listener.
+   */
+  onLeadershipChange(listener: (change: ILeadershipChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tries to take the leadership key once; schedules the next attempt on failure.
+   */
+  private async attempt(state: IElection): Promise<void> {
+    state.retryTimer = null;
+
+    let fencingToken: number | null = null;
+    try {
+      fencingToken = await this.store.acquire(state.key, this.instanceId, this.ttl);
+    } catch (error) {
+      this.logger.warn(`Leader election attempt for "${state.name}" failed: ${(error as Error).message}`);
+    }
+
+    // Resigned while the attempt was in flight
+    if (this.elections.get(state.name) !== state) {
+      if (fencingToken !== null) {
+        await this.store.release(state.key, this.instanceId).catch(() => false);
+      }
+      return;
+    }
+
+    if (fencingToken === null) {
+      this.scheduleAttempt(state);
+      return;
+    }
+
+    const leadership = new Lock(state.key, this.instanceId, this.ttl, this.store, fencingToken);
+    leadership.startAutoRenew(this.ttl * (this.config.autoRenew?.intervalFraction ?? 0.5), (error) => this.onLost(state, leadership, error));
+    state.leadership = leadership;
+
+    this.logger.log(`Elected leader of "${state.name}" as ${this.instanceId}`);
+    this.emit({ election: state.name, isLeader: true, reason: 'elected', fencingToken });
+  }
+
+  /**
+   * Turns follower after a failed renewal and resumes campaigning.
+   *
+   * After a transient renewal error the key may still hold this instance's
+   * id, which would fail every attempt until the lease expires, so it is
+   * given back first (best effort) before the next attempt is scheduled.
+   */
+  private onLost(state: IElection, leadership: Lock, error: Error): void {
+    if (state.leadership !== leadership) {
+      return;
+    }
+
+    state.leadership = null;
+    this.logger.warn(`Lost leadership of "${state.name}": ${error.message}`);
+    this.emit({ election: state.name, isLeader: false, reason: 'lost' });
+
+    void this.store
+      .release(state.key, this.instanceId)
+      .catch(() => false)
+      .then(() => {
+        if (this.elections.get(state.name) === state) {
+          this.scheduleAttempt(state);
+        }
+      });
+  }
+
+  private scheduleAttempt(state: IElection): void {
+    state.retryTimer = setTimeout(() => void this.attempt(state), this.retryInterval);
+
+    // Don't prevent Node.js process from exiting
+    if (state.retryTimer.unref) {
+      state.retryTimer.unref();
+    }
+  }
+
+  /**
+   * Notifies listeners; a throwing listener does not affect the others.
+   */
+  private emit(change: ILeadershipChange): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.error(`Leadership listener failed for "${change.election}":`, error);
+      }
+    }
+  }
+
+  /**
+   * Builds full leadership key with prefix.
+   */
+  private buildKey(election: string): string {
+    const prefix = this.config.keyPrefix ?? '_lock:';
+    return `${prefix}leader:${election}`;
+  }
+}
@@ -1,9 +1,13 @@
 import { Injectable, Inject, Logger, OnModuleDestroy, Optional } from '@nestjs/common';
+import { ErrorCode } from '@nestjs-redisx/core';
 
-import { LOCKS_PLUGIN_OPTIONS, LOCK_STORE } from '../../../shared/constants';
-import { LockAcquisitionError } from '../../../shared/errors';
+import { LOCKS_PLUGIN_OPTIONS, LOCK_RELEASE_LISTENER, LOCK_STORE } from '../../../shared/constants';
+import { LockAcquisitionError, LockError } from '../../../shared/errors';
 import { ILocksPluginOptions, ILockOptions } from '../../../shared/types';
-import { Lock, ILock } from '../../domain/entities/lock.entity';
+import { getLockOwner, runAsLockOwner } from '../../../shared/utils/lock-owner.context';
+import { Lock, ILock, LockMode } from '../../domain/entities/lock.entity';
+import { MultiLock, IMultiLock } from '../../domain/entities/multi-lock.entity';
+import { ILockReleaseListener } from '../ports/lock-release-listener.port';
 import { ILockService } from '../ports/lock-service.port';
 import { ILockStore } from '../ports/lock-store.port';
 
@@ -37,6 +41,8 @@ interface ITracingService {
  * Lock service implementation.
  *
  * Provides distributed locking with automatic retry, timeout, and renewal.
+ * Exclusive locks can optionally be acquired in arrival order (fair mode),
+ * or made reentrant for the owner carried in async context.
  * Implements graceful shutdown to release all active locks on module destroy.
  */
 @Injectable()
@@ -47,6 +53,7 @@ export class LockService implements ILockService, OnModuleDestroy {
   constructor(
     @Inject(LOCKS_PLUGIN_OPTIONS) private readonly config: ILocksPluginOptions,
     @Inject(LOCK_STORE) private readonly store: ILockStore,
+    @Inject(LOCK_RELEASE_LISTENER) private readonly releaseListener: ILockReleaseListener,
     @Optional() @Inject(METRICS_SERVICE) private readonly metrics?: IMetricsService,
     @Optional() @Inject(TRACING_SERVICE) private readonly tracing?: ITracingService,
   ) {}
@@ -71,60 +78,66 @@ export class LockService implements ILockService, OnModuleDestroy {
    * Acquires lock with exponential backoff retry.
    */
   async acquire(key: string, options: ILockOptions = {}): Promise<ILock> {
+    return this.acquireWithRetry(key, options, 'exclusive');
+  }
+
+  /**
+   * Acquires shared read lock with exponential backoff retry.
+   */
+  async acquireRead(key: string, options: ILockOptions = {}): Promise<ILock> {
+    return this.acquireWithRetry(key, options, 'read');
+  }
+
+  /**
+   * Acquires exclusive write lock with exponential backoff retry.
+   */
+  async acquireWrite(key: string, options: ILockOptions = {}): Promise<ILock> {
+    return this.acquireWithRetry(key, options, 'write');
+  }
+
+  /**
+   * Acquires several locks at once, all or nothing, with exponential backoff retry.
+   */
+  async acquireMany(keys: string[], options: ILockOptions = {}): Promise<IMultiLock> {
+    const uniqueKeys = Array.from(new Set(keys));
+    if (uniqueKeys.length === 0) {
+      throw new LockError('acquireMany needs at least one lock key', ErrorCode.OP_INVALID_ARGS, '');
+    }
+
+    const joinedKey = uniqueKeys.join(',');
     const span = this.tracing?.startSpan('lock.acquire', {
       kind: 'INTERNAL',
-      attributes: { 'lock.key': key, 'lock.ttl': options.ttl },
+      attributes: { 'lock.key': joinedKey, 'lock.ttl': options.ttl, 'lock.mode': 'exclusive', 'lock.keys_count': uniqueKeys.length },
     });
 
-    const fullKey = this.buildKey(key);
+    const fullKeys = uniqueKeys.map((key) => this.buildKey(key));
     const ttl = this.resolveTtl(options.ttl);
     const token = this.generateToken();
-
-    const retry = this.resolveRetryConfig(options);
-    const waitTimeout = options.waitTimeout;
     const startTime = Date.now();
 
-    let delay = retry.initialDelay;
-
     try {
-      for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
-        const acquired = await this.store.acquire(fullKey, token, ttl);
-
-        if (acquired) {
-          const waitDuration = (Date.now() - startTime) / 1000;
-          this.metrics?.observeHistogram('redisx_lock_wait_duration_seconds', waitDuration);
-          this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'acquired' });
-          this.metrics?.incrementGauge('redisx_locks_active');
-
-          span?.setAttribute('lock.acquired', true);
-          span?.setAttribute('lock.attempts', attempt + 1);
-          span?.setStatus('OK');
-
-          const lock = this.createLock(fullKey, token, ttl, options);
-          this.activeLocks.add(lock);
-          return lock;
-        }
-
-        // Stop when the retry cap is reached, or when sleeping again would push
-        // the total wait past the caller's waitTimeout budget (when provided).
-        const waitBudgetExhausted = waitTimeout !== undefined && Date.now() - startTime + delay >= waitTimeout;
+      const { result: fencingTokens, attempts } = await this.retryWithBackoff(options, () => this.store.acquireMany(fullKeys, token, ttl));
+      span?.setAttribute('lock.attempts', attempts);
+
+      if (fencingTokens === null) {
+        this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'failed' });
+        span?.setAttribute('lock.acquired', false);
+        span?.setStatus('ERROR');
+        throw new LockAcquisitionError(joinedKey, 'timeout');
+      }
 
-        if (attempt === retry.maxRetries || waitBudgetExhausted) {
-          this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'failed' });
-          span?.setAttribute('lock.acquired', false);
-          span?.setAttribute('lock.attempts', attempt + 1);
-          span?.setStatus('ERROR');
-          throw new LockAcquisitionError(key, 'timeout');
-        }
+      const waitDuration = (Date.now() - startTime) / 1000;
+      this.metrics?.observeHistogram('redisx_lock_wait_duration_seconds', waitDuration);
+      this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'acquired' });
+      this.metrics?.incrementGauge('redisx_locks_active');
 
-        // Wait before retry
-        await this.sleep(delay);
-        delay = Math.min(delay * retry.multiplier, retry.maxDelay);
-      }
+      span?.setAttribute('lock.acquired', true);
+      span?.setStatus('OK');
 
-      // Should never reach here, but satisfy TypeScript
-      this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'failed' });
-      throw new LockAcquisitionError(key, 'timeout');
+      const lock = new MultiLock(fullKeys, token, ttl, this.store, fencingTokens);
+      this.startAutoRenewIfEnabled(lock, ttl, options);
+      this.activeLocks.add(lock);
+      return lock;
     } catch (error) {
       span?.recordException(error as Error);
       span?.setStatus('ERROR');
@@ -136,15 +149,20 @@ export class LockService implements ILockService, OnModuleDestroy {
 
   /**
    * Tries to acquire lock once without retry.
+   *
+   * In fair mode the attempt respects the queue: it succeeds only when no
+   * one is waiting, and leaves the queue again when it fails.
    */
   async tryAcquire(key: string, options: ILockOptions = {}): Promise<ILock | null> {
+    const mode = this.resolveExclusiveMode(options);
+    const fair = mode === 'exclusive' && (options.fair ?? this.config.fair?.enabled ?? false);
     const fullKey = this.buildKey(key);
     const ttl = this.resolveTtl(options.ttl);
-    const token = this.generateToken();
+    const token = this.resolveToken(mode);
 
-    const acquired = await this.store.acquire(fullKey, token, ttl);
+    const fencingToken = fair ? await this.tryFairOnce(fullKey, token, ttl) : await this.acquireOnce(fullKey, token, ttl, mode);
 
-    if (!acquired) {
+    if (fencingToken === null) {
       this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'failed' });
       return null;
     }
@@ -152,7 +170,7 @@ export class LockService implements ILockService, OnModuleDestroy {
     this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'acquired' });
     this.metrics?.incrementGauge('redisx_locks_active');
 
-    const lock = this.createLock(fullKey, token, ttl, options);
+    const lock = this.createLock(fullKey, token, ttl, fencingToken, options, mode);
     this.activeLocks.add(lock);
     return lock;
   }
@@ -162,10 +180,214 @@ export class LockService implements ILockService, OnModuleDestroy {
    */
   async withLock<T>(key: string, fn: () => Promise<T>, options: ILockOptions = {}): Promise<T> {
     const lock = await this.acquire(key, options);
+    return this.runHolding(key, lock, fn);
+  }
+
+  /**
+   * Executes function while holding a shared read lock.
+   */
+  async withReadLock<T>(key: string, fn: () => Promise<T>, options: ILockOptions = {}): Promise<T> {
+    const lock = await this.acquireRead(key, options);
+    return this.runHolding(key, lock, fn);
+  }
+
+  /**
+   * Executes function while holding an exclusive write lock.
+   */
+  async withWriteLock<T>(key: string, fn: () => Promise<T>, options: ILockOptions = {}): Promise<T> {
+    const lock = await this.acquireWrite(key, options);
+    return this.runHolding(key, lock, fn);
+  }
+
+  /**
+   * Checks if key is locked.
+   */
+  async isLocked(key: string): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    return this.store.exists(fullKey);
+  }
+
+  /**
+   * Force releases lock without ownership check.
+   */
+  async forceRelease(key: string): Promise<boolean> {
+    const fullKey = this.buildKey(key);
+    return this.store.forceRelease(fullKey);
+  }
+
+  /**
+   * Acquires lock in the given mode, in fair mode or with exponential backoff retry.
+   *
+   * A write lock that gives up withdraws itself from the waiting writers,
+   * so readers are not blocked by a writer that is gone. A fair waiter that
+   * gives up leaves the queue, so the next in line is not held back.
+   * Reentrant locks never wait in line: the owner must not queue behind itself.
+   */
+  private async acquireWithRetry(key: string, options: ILockOptions, requestedMode: LockMode): Promise<ILock> {
+    const mode = requestedMode === 'exclusive' ? this.resolveExclusiveMode(options) : requestedMode;
+    const fair = mode === 'exclusive' && (options.fair ?? this.config.fair?.enabled ?? false);
+    const span = this.tracing?.startSpan('lock.acquire', {
+      kind: 'INTERNAL',
+      attributes: { 'lock.key': key, 'lock.ttl': options.ttl, 'lock.mode': mode, 'lock.fair': fair },
+    });
+
+    const fullKey = this.buildKey(key);
+    const ttl = this.resolveTtl(options.ttl);
+    const token = this.resolveToken(mode);
+    const startTime = Date.now();
+
+    try {
+      const { result: fencingToken, attempts } = fair ? await this.waitInLine(fullKey, token, ttl, options) : await this.retryWithBackoff(options, () => this.acquireOnce(fullKey, token, ttl, mode));
+      span?.setAttribute('lock.attempts', attempts);
+
+      if (fencingToken === null) {
+        this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'failed' });
+        span?.setAttribute('lock.acquired', false);
+        span?.setStatus('ERROR');
+        throw new LockAcquisitionError(key, 'timeout');
+      }
+
+      const waitDuration = (Date.now() - startTime) / 1000;
+      this.metrics?.observeHistogram('redisx_lock_wait_duration_seconds', waitDuration);
+      this.metrics?.incrementCounter('redisx_lock_acquisitions_total', { status: 'acquired' });
+      this.metrics?.incrementGauge('redisx_locks_active');
+
+      span?.setAttribute('lock.acquired', true);
+      span?.setAttribute('lock.fencing_token', fencingToken);
+      span?.setStatus('OK');
+
+      const lock = this.createLock(fullKey, token, ttl, fencingToken, options, mode);
+      this.activeLocks.add(lock);
+      return lock;
+    } catch (error) {
+      if (mode === 'write') {
+        await this.store.cancelWrite(fullKey, token).catch((cancelError: Error) => {
+          this.logger.warn(`Failed to withdraw waiting writer for ${key}: ${cancelError.message}`);
+        });
+      }
+      if (fair) {
+        await this.store.leaveQueue(fullKey, token).catch((leaveError: Error) => {
+          this.logger.warn(`Failed to leave wait queue for ${key}: ${leaveError.message}`);
+        });
+      }
+      span?.recordException(error as Error);
+      span?.setStatus('ERROR');
+      throw error;
+    } finally {
+      span?.end();
+    }
+  }
+
+  /**
+   * Retries an acquisition attempt with exponential backoff.
+   *
+   * @returns Attempt result (null once retries or the wait budget ran out) and attempt count
+   */
+  private async retryWithBackoff<T>(options: ILockOptions, tryOnce: () => Promise<T | null>): Promise<{ result: T | null; attempts: number }> {
+    const retry = this.resolveRetryConfig(options);
+    const waitTimeout = options.waitTimeout;
+    const startTime = Date.now();
+
+    let delay = retry.initialDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      const result = await tryOnce();
+
+      // Stop when the retry cap is reached, or when sleeping again would push
+      // the total wait past the caller's waitTimeout budget (when provided).
+      const waitBudgetExhausted = waitTimeout !== undefined && Date.now() - startTime + delay >= waitTimeout;
+
+      if (result !== null || attempt >= retry.maxRetries || waitBudgetExhausted) {
+        return { result, attempts: attempt + 1 };
+      }
+
+      // Wait before retry
+      await this.sleep(delay);
+      delay = Math.min(delay * retry.multiplier, retry.maxDelay);
+    }
+  }
+
+  /**
+   * Waits in the key's FIFO queue until first in line and the lock is free.
+   *
+   * Retries on every release notification, and every `fair.pollInterval` in
+   * case the holder's lease expired instead of being released. The callback
+   * is registered before the first attempt, so a release that lands between
+   * an attempt and the wait is not missed. Without notifications (listener
+   * unavailable) the wait degrades to polling.
+   *
+   * @returns Fencing token (null once the wait timed out) and attempt count
+   */
+  private async waitInLine(fullKey: string, token: string, ttl: number, options: ILockOptions): Promise<{ result: number | null; attempts: number }> {
+    const pollInterval = this.config.fair?.pollInterval ?? 1000;
+    const deadline = Date.now() + (options.waitTimeout ?? this.config.fair?.waitTimeout ?? 10000);
+
+    const signal: { released: boolean; wake: (() => void) | null } = { released: false, wake: null };
+    const unregister = await this.releaseListener
+      .onRelease(fullKey, () => {
+        signal.released = true;
+        signal.wake?.();
+      })
+      .catch((error: Error) => {
+        this.logger.warn(`Release notifications unavailable for ${fullKey}, polling instead: ${error.message}`);
+        return () => undefined;
+      });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        signal.released = false;
+        // A waiter keeps its place for two poll intervals without an attempt
+        const fencingToken = await this.store.acquireFair(fullKey, token, ttl, pollInterval * 2);
+        const remaining = deadline - Date.now();
+
+        if (fencingToken !== null || remaining <= 0) {
+          return { result: fencingToken, attempts: attempt };
+        }
+
+        if (!signal.released) {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, Math.min(pollInterval, remaining));
+            signal.wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+          signal.wake = null;
+        }
+      }
+    } finally {
+      unregister();
+    }
+  }
+
+  /**
+   * Makes a single fair attempt: joins the queue, takes the lock if first in
+   * line, and otherwise leaves the queue so it does not hold back waiters.
+   */
+  private async tryFairOnce(fullKey: string, token: string, ttl: number): Promise<number | null> {
+    const pollInterval = this.config.fair?.pollInterval ?? 1000;
+    const fencingToken = await this.store.acquireFair(fullKey, token, ttl, pollInterval * 2);
+
+    if (fencingToken === null) {
+      await this.store.leaveQueue(fullKey, token).catch((error: Error) => {
+        this.logger.warn(`Failed to leave wait queue for ${fullKey}: ${error.message}`);
+      });
+    }
+    return fencingToken;
+  }
+
+  /**
+   * Runs function and releases the lock afterwards.
+   *
+   * A reentrant lock's function runs as its owner, so nested reentrant
+   * acquisitions of the key enter it again, including those of concurrent
+   * branches started by the function.
+   */
+  private async runHolding<T>(key: string, lock: ILock, fn: () => Promise<T>): Promise<T> {
     const holdStart = Date.now();
 
     try {
-      return await fn();
+      return await (lock.mode === 'reentrant' ? runAsLockOwner(lock.token, fn) : fn());
     } finally {
       const holdDuration = (Date.now() - holdStart) / 1000;
       this.metrics?.observeHistogram('redisx_lock_hold_duration_seconds', holdDuration);
@@ -183,36 +405,55 @@ export class LockService implements ILockService, OnModuleDestroy {
   }
 
   /**
-   * Checks if key is locked.
+   * Makes a single store acquisition attempt in the given mode.
    */
-  async isLocked(key: string): Promise<boolean> {
-    const fullKey = this.buildKey(key);
-    return this.store.exists(fullKey);
+  private acquireOnce(fullKey: string, token: string, ttl: number, mode: LockMode): Promise<number | null> {
+    switch (mode) {
+      case 'read':
+        return this.store.acquireRead(fullKey, token, ttl);
+      case 'write':
+        return this.store.acquireWrite(fullKey, token, ttl);
+      case 'reentrant':
+        return this.store.acquireReentrant(fullKey, token, ttl);
+      default:
+        return this.store.acquire(fullKey, token, ttl);
+    }
   }
 
   /**
-   * Force releases lock without ownership check.
+   * Creates lock instance with optional auto-renewal.
    */
-  async forceRelease(key: string): Promise<boolean> {
-    const fullKey = this.buildKey(key);
-    return this.store.forceRelease(fullKey);
+  private createLock(fullKey: string, token: string, ttl: number, fencingToken: number, options: ILockOptions, mode: LockMode = 'exclusive'): Lock {
+    const lock = new Lock(fullKey, token, ttl, this.store, fencingToken, mode);
+    this.startAutoRenewIfEnabled(lock, ttl, options);
+    return lock;
   }
 
   /**
-   * Creates lock instance with optional auto-renewal.
+   * Starts auto-renewal unless disabled for this lock or in plugin options.
    */
-  private createLock(fullKey: string, token: string, ttl: number, options: ILockOptions): Lock {
-    const lock = new Lock(fullKey, token, ttl, this.store);
-
-    // Setup auto-renew if enabled
+  private startAutoRenewIfEnabled(lock: Lock, ttl: number, options: ILockOptions): void {
     const autoRenewEnabled = options.autoRenew ?? this.config.autoRenew?.enabled ?? true;
     if (autoRenewEnabled) {
       const intervalFraction = this.config.autoRenew?.intervalFraction ?? 0.5;
       const interval = ttl * intervalFraction;
       lock.startAutoRenew(interval);
     }
+  }
 
-    return lock;
+  /**
+   * Resolves whether an exclusive lock is reentrant for this call.
+   */
+  private resolveExclusiveMode(options: ILockOptions): LockMode {
+    return (options.reentrant ?? this.config.reentrant?.enabled ?? false) ? 'reentrant' : 'exclusive';
+  }
+
+  /**
+   * Resolves the lock token: a reentrant lock reuses the owner of the
+   * current async context, if any.
+   */
+  private resolveToken(mode: LockMode): string {
+    return (mode === 'reentrant' ? getLockOwner() : undefined) ?? this.generateToken();
   }
 
   /**
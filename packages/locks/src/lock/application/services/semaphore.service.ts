@@ -0,0 +1,175 @@
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ErrorCode } from '@nestjs-redisx/core';
+
+import { LOCKS_PLUGIN_OPTIONS, LOCK_STORE } from '../../../shared/constants';
+import { LockAcquisitionError, LockError } from '../../../shared/errors';
+import { ILocksPluginOptions, ILockOptions, ISemaphoreHolder } from '../../../shared/types';
+import { Lock, ILock } from '../../domain/entities/lock.entity';
+import { ILockStore } from '../ports/lock-store.port';
+import { ISemaphoreService } from '../ports/semaphore-service.port';
+
+/**
+ * Semaphore service implementation.
+ *
+ * Hands out permits as `Lock` entities in `'permit'` mode, so TTL, renewal
+ * and release behave exactly like locks. Uses the same key prefix, default
+ * TTL, retry and auto-renewal settings as `LockService`. Releases all held
+ * permits on module destroy.
+ */
+@Injectable()
+export class SemaphoreService implements ISemaphoreService, OnModuleDestroy {
+  private readonly logger = new Logger(SemaphoreService.name);
+  private readonly activePermits = new Set<Lock>();
+
+  constructor(
+    @Inject(LOCKS_PLUGIN_OPTIONS) private readonly config: ILocksPluginOptions,
+    @Inject(LOCK_STORE) private readonly store: ILockStore,
+  ) {}
+
+  /**
+   * Lifecycle hook: returns all held permits on shutdown.
+   */
+  async onModuleDestroy(): Promise<void> {
+    const releasePromises = Array.from(this.activePermits).map((permit) =>
+      permit.release().catch((error) => {
+        this.logger.error(`Failed to release permit of ${permit.key} during shutdown:`, error);
+      }),
+    );
+
+    await Promise.all(releasePromises);
+    this.activePermits.clear();
+  }
+
+  /**
+   * Takes one permit with exponential backoff retry.
+   */
+  async acquire(key: string, permits: number, options: ILockOptions = {}): Promise<ILock> {
+    this.assertPermits(key, permits);
+
+    const retry = this.resolveRetryConfig(options);
+    const waitTimeout = options.waitTimeout;
+    const startTime = Date.now();
+    let delay = retry.initialDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      const permit = await this.tryAcquire(key, permits, options);
+      if (permit) {
+        return permit;
+      }
+
+      // Same stop rule as LockService: retry cap, or the next sleep would
+      // overrun the caller's waitTimeout budget.
+      const waitBudgetExhausted = waitTimeout !== undefined && Date.now() - startTime + delay >= waitTimeout;
+      if (attempt >= retry.maxRetries || waitBudgetExhausted) {
+        throw new LockAcquisitionError(key, 'timeout');
+      }
+
+      await this.sleep(delay);
+      delay = Math.min(delay * retry.multiplier, retry.maxDelay);
+    }
+  }
+
+  /**
+   * Tries to take one permit once without retry.
+   */
+  async tryAcquire(key: string, permits: number, options: ILockOptions = {}): Promise<ILock | null> {
+    this.assertPermits(key, permits);
+
+    const fullKey = this.buildKey(key);
+    const ttl = this.resolveTtl(options.ttl);
+    const token = this.generateToken();
+
+    const fencingToken = await this.store.acquirePermit(fullKey, token, ttl, permits);
+    if (fencingToken === null) {
+      return null;
+    }
+
+    const permit = new Lock(fullKey, token, ttl, this.store, fencingToken, 'permit');
+    const autoRenewEnabled = options.autoRenew ?? this.config.autoRenew?.enabled ?? true;
+    if (autoRenewEnabled) {
+      permit.startAutoRenew(ttl * (this.config.autoRenew?.intervalFraction ?? 0.5));
+    }
+
+    this.activePermits.add(permit);
+    return permit;
+  }
+
+  /**
+   * Executes function while holding one permit.
+   */
+  async withPermit<T>(key: string, permits: number, fn: () => Promise<T>, options: ILockOptions = {}): Promise<T> {
+    const permit = await this.acquire(key, permits, options);
+
+    try {
+      return await fn();
+    } finally {
+      await permit
+        .release()
+        .catch((error) => {
+          this.logger.error(`Permit release failed for ${key}:`, error);
+        })
+        .finally(() => {
+          this.activePermits.delete(permit as Lock);
+        });
+    }
+  }
+
+  /**
+   * Lists current permit holders.
+   */
+  async getHolders(key: string): Promise<ISemaphoreHolder[]> {
+    return this.store.getPermitHolders(this.buildKey(key));
+  }
+
+  /**
+   * Rejects a permit count that cannot form a semaphore.
+   */
+  private assertPermits(key: string, permits: number): void {
+    if (!Number.isInteger(permits) || permits < 1) {
+      throw new LockError(`Semaphore "${key}" needs a positive integer number of permits, got ${permits}`, ErrorCode.OP_INVALID_ARGS, key);
+    }
+  }
+
+  /**
+   * Builds full semaphore key with prefix.
+   */
+  private buildKey(key: string): string {
+    const prefix = this.config.keyPrefix ?? '_lock:';
+    return `${prefix}${key}`;
+  }
+
+  /**
+   * Generates unique permit token.
+   */
+  private generateToken(): string {
+    return `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  /**
+   * Resolves TTL with defaults and limits.
+   */
+  private resolveTtl(ttl?: number): number {
+    const resolvedTtl = ttl ?? this.config.defaultTtl ?? 30000;
+    const maxTtl = this.config.maxTtl ?? 300000;
+    return Math.min(resolvedTtl, maxTtl);
+  }
+
+  /**
+   * Resolves retry configuration.
+   */
+  private resolveRetryConfig(options: ILockOptions) {
+    return {
+      maxRetries: options.retry?.maxRetries ?? this.config.retry?.maxRetries ?? 3,
+      initialDelay: options.retry?.initialDelay ?? this.config.retry?.initialDelay ?? 100,
+      maxDelay: this.config.retry?.maxDelay ?? 3000,
+      multiplier: this.config.retry?.multiplier ?? 2,
+    };
+  }
+
+  /**
+   * Sleeps for specified milliseconds.
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
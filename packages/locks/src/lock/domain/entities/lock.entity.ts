@@ -3,6 +3,17 @@ import { Logger } from '@nestjs/common';
 import { LockNotOwnedError, LockExtensionError } from '../../../shared/errors';
 import { ILockStore } from '../../application/ports/lock-store.port';
 
+/**
+ * How a lock holds its key.
+ *
+ * - `'exclusive'`: plain mutex (`acquire`)
+ * - `'reentrant'`: mutex its owner may acquire again (`acquire` with `reentrant`)
+ * - `'read'`: shared with other readers, excludes writers
+ * - `'write'`: excludes readers and other writers
+ * - `'permit'`: one of a semaphore's N permits
+ */
+export type LockMode = 'exclusive' | 'reentrant' | 'read' | 'write' | 'permit';
+
 /**
  * Represents an acquired distributed lock.
  */
@@ -13,6 +24,16 @@ export interface ILock {
   /** Unique token identifying lock ownership */
   readonly token: string;
 
+  /**
+   * Fencing token: increases monotonically with every acquisition of this
+   * key. Pass it to downstream storage so writes from a holder whose lock
+   * already expired (e.g. after a GC pause) can be rejected.
+   */
+  readonly fencingToken: number;
+
+  /** How the key is held */
+  readonly mode: LockMode;
+
   /** Lock TTL in milliseconds */
   readonly ttl: number;
 
@@ -63,7 +84,7 @@ export interface ILock {
  *
  * @example
  * ```typescript
- * const lock = new Lock('my-resource', 'token-123', 30000, store);
+ * const lock = new Lock('my-resource', 'token-123', 30000, store, 42);
  *
  * // Start auto-renewal every 15 seconds
  * lock.startAutoRenew(15000);
@@ -81,6 +102,8 @@ export class Lock implements ILock {
   readonly token: string;
   readonly ttl: number;
   readonly acquiredAt: Date;
+  readonly fencingToken: number;
+  readonly mode: LockMode;
 
   private readonly logger = new Logger(Lock.name);
   private _expiresAt: Date;
@@ -94,16 +117,22 @@ export class Lock implements ILock {
    * @param token - Unique ownership token
    * @param ttl - Time-to-live in milliseconds
    * @param store - Lock store for persistence operations
+   * @param fencingToken - Fencing token issued by the store on acquisition
+   * @param mode - How the key is held; selects the store operations used
    */
   constructor(
     key: string,
     token: string,
     ttl: number,
-    private readonly store: ILockStore,
+    protected readonly store: ILockStore,
+    fencingToken: number,
+    mode: LockMode = 'exclusive',
   ) {
     this.key = key;
     this.token = token;
     this.ttl = ttl;
+    this.fencingToken = fencingToken;
+    this.mode = mode;
     this.acquiredAt = new Date();
     this._expiresAt = new Date(Date.now() + ttl);
   }
@@ -137,7 +166,7 @@ export class Lock implements ILock {
 
     this.stopAutoRenew();
 
-    const success = await this.store.release(this.key, this.token);
+    const success = await this.releaseInStore();
     if (!success) {
       throw new LockNotOwnedError(this.key, this.token);
     }
@@ -157,7 +186,7 @@ export class Lock implements ILock {
       throw new LockNotOwnedError(this.key, this.token);
     }
 
-    const success = await this.store.extend(this.key, this.token, ttl);
+    const success = await this.extendInStore(ttl);
     if (!success) {
       throw new LockExtensionError(this.key, this.token);
     }
@@ -174,7 +203,7 @@ export class Lock implements ILock {
     if (this.released) {
       return false;
     }
-    return this.store.isHeldBy(this.key, this.token);
+    return this.isHeldInStore();
   }
 
   /**
@@ -184,8 +213,9 @@ export class Lock implements ILock {
    * until stopAutoRenew() is called or extension fails.
    *
    * @param intervalMs - Renewal interval in milliseconds
+   * @param onLost - Called once when an extension fails and renewal stops
    */
-  startAutoRenew(intervalMs: number): void {
+  startAutoRenew(intervalMs: number, onLost?: (error: Error) => void): void {
     if (this.autoRenewTimer) {
       return;
     }
@@ -200,6 +230,7 @@ export class Lock implements ILock {
         // also detect this via `isAutoRenewing` flipping to false.
         this.logger.warn(`Auto-renewal failed for lock "${this.key}"; the lock may have expired and renewal has stopped: ${(error as Error).message}`);
         this.stopAutoRenew();
+        onLost?.(error as Error);
       }
     }, intervalMs);
 
@@ -220,4 +251,50 @@ export class Lock implements ILock {
       this.autoRenewTimer = null;
     }
   }
+
+  /**
+   * Removes this lock from the store according to its mode.
+   */
+  protected releaseInStore(): Promise<boolean> {
+    switch (this.mode) {
+      case 'read':
+        return this.store.releaseRead(this.key, this.token);
+      case 'permit':
+        return this.store.releasePermit(this.key, this.token);
+      case 'reentrant':
+        return this.store.releaseReentrant(this.key, this.token);
+      default:
+        return this.store.release(this.key, this.token);
+    }
+  }
+
+  /**
+   * Extends this lock in the store according to its mode.
+   */
+  protected extendInStore(ttl: number): Promise<boolean> {
+    switch (this.mode) {
+      case 'read':
+        return this.store.extendRead(this.key, this.token, ttl);
+      case 'permit':
+        return this.store.extendPermit(this.key, this.token, ttl);
+      case 'reentrant':
+        return this.store.extendReentrant(this.key, this.token, ttl);
+      default:
+        return this.store.extend(this.key, this.token, ttl);
+    }
+  }
+
+  /**
+   * Checks ownership in the store according to its mode.
+   */
+  protected isHeldInStore(): Promise<boolean> {
+    switch (this.mode) {
+      case 'read':
+        return this.store.isReadHeldBy(this.key, this.token);
+      case 'permit':
+        return this.store.isPermitHeldBy(this.key, this.token);
+      default:
+        return this.store.isHeldBy(this.key, this.token);
+    }
+  }
 }
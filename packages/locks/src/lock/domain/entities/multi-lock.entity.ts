@@ -0,0 +1,77 @@
+import { ILockStore } from '../../application/ports/lock-store.port';
+import { Lock, ILock } from './lock.entity';
+
+/**
+ * Represents several distributed locks acquired together.
+ *
+ * Behaves as one lock: release, extend, auto-renewal and `isHeld` cover
+ * every key. `key` is the comma-joined list of keys.
+ */
+export interface IMultiLock extends ILock {
+  /** Lock keys, in the order they were requested (duplicates removed) */
+  readonly keys: readonly string[];
+
+  /**
+   * Fencing token of each key, in the same order as `keys`.
+   * `fencingToken` is the token of the first key.
+   */
+  readonly fencingTokens: readonly number[];
+}
+
+/**
+ * Multi-key lock entity implementation.
+ *
+ * Reuses the lock lifecycle (release, extension, auto-renewal) of `Lock`
+ * and applies each store operation to all keys at once.
+ *
+ * @example
+ * ```typescript
+ * const lock = new MultiLock(['account:1', 'account:2'], 'token-123', 30000, store, [7, 12]);
+ *
+ * try {
+ *   await transfer();
+ * } finally {
+ *   await lock.release(); // Releases both keys
+ * }
+ * ```
+ */
+export class MultiLock extends Lock implements IMultiLock {
+  readonly keys: readonly string[];
+  readonly fencingTokens: readonly number[];
+
+  /**
+   * Creates a new MultiLock instance.
+   *
+   * @param keys - Lock keys in Redis (at least one, no duplicates)
+   * @param token - Unique ownership token shared by all keys
+   * @param ttl - Time-to-live in milliseconds
+   * @param store - Lock store for persistence operations
+   * @param fencingTokens - Fencing token of each key, in the same order
+   */
+  constructor(keys: readonly string[], token: string, ttl: number, store: ILockStore, fencingTokens: readonly number[]) {
+    super(keys.join(','), token, ttl, store, fencingTokens[0] ?? 0);
+    this.keys = keys;
+    this.fencingTokens = fencingTokens;
+  }
+
+  /**
+   * Removes every key from the store.
+   */
+  protected override releaseInStore(): Promise<boolean> {
+    return this.store.releaseMany([...this.keys], this.token);
+  }
+
+  /**
+   * Extends every key in the store.
+   */
+  protected override extendInStore(ttl: number): Promise<boolean> {
+    return this.store.extendMany([...this.keys], this.token, ttl);
+  }
+
+  /**
+   * Checks ownership of every key in the store.
+   */
+  protected override isHeldInStore(): Promise<boolean> {
+    return this.store.isManyHeldBy([...this.keys], this.token);
+  }
+}
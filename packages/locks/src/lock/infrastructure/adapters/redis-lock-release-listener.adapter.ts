@@ -0,0 +1,119 @@
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+import { IRedisDriver, DriverEvent, DriverType, CLIENT_MANAGER, RedisClientManager } from '@nestjs-redisx/core';
+
+import { LOCKS_PLUGIN_OPTIONS } from '../../../shared/constants';
+import { ILocksPluginOptions } from '../../../shared/types';
+import { ILockReleaseListener } from '../../application/ports/lock-release-listener.port';
+
+/**
+ * Lock release listener over Redis Pub/Sub.
+ *
+ * The lock store publishes the released key on `fair.channel` whenever fair
+ * waiters are queued. This adapter subscribes once per instance, on the
+ * first fair wait, and fans each message out to the local waiters of that key.
+ *
+ * The subscription lives on a DEDICATED connection (`<client>:locks-release`)
+ * cloned from the locks client — a Redis connection in subscriber mode cannot
+ * execute regular commands.
+ */
+@Injectable()
+export class RedisLockReleaseListenerAdapter implements ILockReleaseListener, OnModuleDestroy {
+  private readonly logger = new Logger(RedisLockReleaseListenerAdapter.name);
+  private readonly channel: string;
+  private readonly callbacks = new Map<string, Set<() => void>>();
+  private subscription: Promise<IRedisDriver> | null = null;
+
+  constructor(
+    @Inject(CLIENT_MANAGER) private readonly manager: RedisClientManager,
+    @Inject(LOCKS_PLUGIN_OPTIONS) private readonly options: ILocksPluginOptions,
+  ) {
+    this.channel = options.fair?.channel ?? '_lock:released';
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.callbacks.clear();
+    if (!this.subscription) {
+      return;
+    }
+
+    const subscription = this.subscription;
+    this.subscription = null;
+    try {
+      const subscriber = await subscription;
+      await subscriber.unsubscribe(this.channel);
+    } catch (error) {
+      this.logger.warn(`Failed to unsubscribe lock release channel on shutdown: ${(error as Error).message}`);
+    }
+  }
+
+  async onRelease(key: string, callback: () => void): Promise<() => void> {
+    let callbacks = this.callbacks.get(key);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.callbacks.set(key, callbacks);
+    }
+    callbacks.add(callback);
+
+    const unregister = () => {
+      callbacks.delete(callback);
+      if (callbacks.size === 0 && this.callbacks.get(key) === callbacks) {
+        this.callbacks.delete(key);
+      }
+    };
+
+    try {
+      await this.ensureSubscribed();
+    } catch (error) {
+      unregister();
+      throw error;
+    }
+
+    return unregister;
+  }
+
+  /**
+   * Subscribes to the release channel once; a failed attempt is retried on next use.
+   */
+  private ensureSubscribed(): Promise<IRedisDriver> {
+    if (!this.subscription) {
+      this.subscription = this.subscribe().catch((error: unknown) => {
+        this.subscription = null;
+        throw error;
+      });
+    }
+    return this.subscription;
+  }
+
+  private async subscribe(): Promise<IRedisDriver> {
+    const clientName = this.options.client ?? 'default';
+    const subscriberName = `${clientName}:locks-release`;
+    if (!this.manager.hasClient(subscriberName)) {
+      // Clone connection config AND driver type from the locks client.
+      const { config, driverType } = this.manager.getMetadata(clientName);
+      await this.manager.createClient(subscriberName, config, { driverType: driverType as DriverType | undefined });
+    }
+
+    const subscriber = await this.manager.getClient(subscriberName);
+    subscriber.on(DriverEvent.MESSAGE, (...args: unknown[]) => {
+      const [channel, key] = args as [string, string];
+      if (channel === this.channel) {
+        this.dispatch(key);
+      }
+    });
+    await subscriber.subscribe(this.channel);
+
+    this.logger.log(`Lock release listener subscribed to "${this.channel}"`);
+    return subscriber;
+  }
+
+  private dispatch(key: string): void {
+    const callbacks = this.callbacks.get(key);
+    if (!callbacks) {
+      return;
+    }
+
+    for (const callback of Array.from(callbacks)) {
+      callback();
+    }
+  }
+}
@@ -1,46 +1,98 @@
 import { Injectable, Inject, OnModuleInit } from '@nestjs/common';
 import { IRedisDriver } from '@nestjs-redisx/core';
 
-import { LOCK_REDIS_DRIVER } from '../../../shared/constants';
+import { LOCKS_PLUGIN_OPTIONS, LOCK_REDIS_DRIVER } from '../../../shared/constants';
+import { ILocksPluginOptions, ISemaphoreHolder } from '../../../shared/types';
 import { ILockStore } from '../../application/ports/lock-store.port';
-import { RELEASE_LOCK_SCRIPT, EXTEND_LOCK_SCRIPT } from '../scripts/lua-scripts';
+import { ACQUIRE_LOCK_SCRIPT, RELEASE_LOCK_SCRIPT, EXTEND_LOCK_SCRIPT, ACQUIRE_READ_LOCK_SCRIPT, ACQUIRE_WRITE_LOCK_SCRIPT, RELEASE_READ_LOCK_SCRIPT, EXTEND_READ_LOCK_SCRIPT, ACQUIRE_PERMIT_SCRIPT, ACQUIRE_FAIR_LOCK_SCRIPT, LEAVE_LOCK_QUEUE_SCRIPT, ACQUIRE_MANY_LOCKS_SCRIPT, RELEASE_MANY_LOCKS_SCRIPT, EXTEND_MANY_LOCKS_SCRIPT, ACQUIRE_REENTRANT_LOCK_SCRIPT, EXTEND_REENTRANT_LOCK_SCRIPT, RELEASE_REENTRANT_LOCK_SCRIPT } from '../scripts/lua-scripts';
 
 /**
  * Redis-based lock store implementation.
  *
  * Uses atomic Redis operations for lock management:
- * - SET NX PX for acquiring locks
+ * - Lua script (SET NX PX + INCR) for acquiring locks with a fencing token
  * - Lua scripts for safe release and extension
+ * - Lua scripts for multi-key locks: every key set, released or extended
+ *   in one script, all or nothing
+ * - Lua scripts for reentrant locks: the owner's hold count is a counter
+ *   next to the lock key, and only the last release deletes the lock
+ * - Lua scripts for read/write locks: the writer holds the lock key itself,
+ *   readers and waiting writers are sorted sets scored by expiry
+ * - Lua script for semaphore permits: holders are a sorted set scored by
+ *   expiry, released and extended like read locks
+ * - Lua script for fair acquisition: waiters queue in arrival order and
+ *   only the head may take the lock; releases with waiters queued are
+ *   announced on the `fair.channel` Pub/Sub channel
+ *
+ * The fencing counter, hold count, read/write sets and wait queue live next to the lock key (see
+ * {@link relatedKey}) and share its cluster hash slot, so every script stays
+ * cluster-safe.
  */
 @Injectable()
 export class RedisLockStoreAdapter implements ILockStore, OnModuleInit {
+  private acquireSha: string | null = null;
   private releaseSha: string | null = null;
   private extendSha: string | null = null;
+  private acquireReadSha: string | null = null;
+  private acquireWriteSha: string | null = null;
+  private releaseReadSha: string | null = null;
+  private extendReadSha: string | null = null;
+  private acquirePermitSha: string | null = null;
+  private acquireFairSha: string | null = null;
+  private leaveQueueSha: string | null = null;
+  private acquireManySha: string | null = null;
+  private releaseManySha: string | null = null;
+  private extendManySha: string | null = null;
+  private acquireReentrantSha: string | null = null;
+  private extendReentrantSha: string | null = null;
+  private releaseReentrantSha: string | null = null;
+  private readonly releaseChannel: string;
 
-  constructor(@Inject(LOCK_REDIS_DRIVER) private readonly driver: IRedisDriver) {}
+  constructor(
+    @Inject(LOCK_REDIS_DRIVER) private readonly driver: IRedisDriver,
+    @Inject(LOCKS_PLUGIN_OPTIONS) options: ILocksPluginOptions,
+  ) {
+    this.releaseChannel = options.fair?.channel ?? '_lock:released';
+  }
 
   /**
    * Lifecycle hook: loads Lua scripts into Redis on initialization.
    */
   async onModuleInit(): Promise<void> {
     // Pre-load Lua scripts and cache their SHA hashes
+    this.acquireSha = await this.driver.scriptLoad(ACQUIRE_LOCK_SCRIPT);
     this.releaseSha = await this.driver.scriptLoad(RELEASE_LOCK_SCRIPT);
     this.extendSha = await this.driver.scriptLoad(EXTEND_LOCK_SCRIPT);
+    this.acquireReadSha = await this.driver.scriptLoad(ACQUIRE_READ_LOCK_SCRIPT);
+    this.acquireWriteSha = await this.driver.scriptLoad(ACQUIRE_WRITE_LOCK_SCRIPT);
+    this.releaseReadSha = await this.driver.scriptLoad(RELEASE_READ_LOCK_SCRIPT);
+    this.extendReadSha = await this.driver.scriptLoad(EXTEND_READ_LOCK_SCRIPT);
+    this.acquirePermitSha = await this.driver.scriptLoad(ACQUIRE_PERMIT_SCRIPT);
+    this.acquireFairSha = await this.driver.scriptLoad(ACQUIRE_FAIR_LOCK_SCRIPT);
+    this.leaveQueueSha = await this.driver.scriptLoad(LEAVE_LOCK_QUEUE_SCRIPT);
+    this.acquireManySha = await this.driver.scriptLoad(ACQUIRE_MANY_LOCKS_SCRIPT);
+    this.releaseManySha = await this.driver.scriptLoad(RELEASE_MANY_LOCKS_SCRIPT);
+    this.extendManySha = await this.driver.scriptLoad(EXTEND_MANY_LOCKS_SCRIPT);
+    this.acquireReentrantSha = await this.driver.scriptLoad(ACQUIRE_REENTRANT_LOCK_SCRIPT);
+    this.extendReentrantSha = await this.driver.scriptLoad(EXTEND_REENTRANT_LOCK_SCRIPT);
+    this.releaseReentrantSha = await this.driver.scriptLoad(RELEASE_REENTRANT_LOCK_SCRIPT);
   }
 
   /**
-   * Acquires lock using SET NX PX.
+   * Acquires lock and issues a fencing token (Lua script).
    */
-  async acquire(key: string, token: string, ttlMs: number): Promise<boolean> {
-    const result = await this.driver.set(key, token, {
-      nx: true, // Only set if key doesn't exist
-      px: ttlMs, // TTL in milliseconds
-    });
-    return result === 'OK';
+  async acquire(key: string, token: string, ttlMs: number): Promise<number | null> {
+    if (!this.acquireSha) {
+      // Fallback if script not loaded
+      this.acquireSha = await this.driver.scriptLoad(ACQUIRE_LOCK_SCRIPT);
+    }
+
+    const result = Number(await this.driver.evalsha(this.acquireSha, [key, fencingKey(key)], [token, ttlMs]));
+    return result > 0 ? result : null;
   }
 
   /**
-   * Releases lock if owned by token (Lua script).
+   * Releases lock if owned by token (Lua script), waking fair waiters.
    */
   async release(key: string, token: string): Promise<boolean> {
     if (!this.releaseSha) {
@@ -48,8 +100,11 @@ export class RedisLockStoreAdapter implements ILockStore, OnModuleInit {
       this.releaseSha = await this.driver.scriptLoad(RELEASE_LOCK_SCRIPT);
     }
 
-    const result = await this.driver.evalsha(this.releaseSha, [key], [token]);
-    return result === 1;
+    const result = Number(await this.driver.evalsha(this.releaseSha, [key, queueKey(key)], [token]));
+    if (result === 2) {
+      await this.notifyWaiters(key);
+    }
+    return result > 0;
   }
 
   /**
@@ -81,6 +136,13 @@ export class RedisLockStoreAdapter implements ILockStore, OnModuleInit {
     return value === token;
   }
 
+  /**
+   * Gets the token of the current lock holder.
+   */
+  async getHolder(key: string): Promise<string | null> {
+    return this.driver.get(key);
+  }
+
   /**
    * Force removes lock without ownership check.
    */
@@ -88,4 +150,333 @@ export class RedisLockStoreAdapter implements ILockStore, OnModuleInit {
     const count = await this.driver.del(key);
     return count > 0;
   }
+
+  /**
+   * Acquires all keys or none (Lua script).
+   */
+  async acquireMany(keys: string[], token: string, ttlMs: number): Promise<number[] | null> {
+    if (!this.acquireManySha) {
+      // Fallback if script not loaded
+      this.acquireManySha = await this.driver.scriptLoad(ACQUIRE_MANY_LOCKS_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.acquireManySha, [...keys, ...keys.map(fencingKey)], [token, ttlMs, keys.length]);
+    return Array.isArray(result) && result.length === keys.length ? result.map(Number) : null;
+  }
+
+  /**
+   * Releases owned keys (Lua script), waking fair waiters of each.
+   */
+  async releaseMany(keys: string[], token: string): Promise<boolean> {
+    if (!this.releaseManySha) {
+      // Fallback if script not loaded
+      this.releaseManySha = await this.driver.scriptLoad(RELEASE_MANY_LOCKS_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.releaseManySha, [...keys, ...keys.map(queueKey)], [token, keys.length]);
+    const statuses = Array.isArray(result) ? result.map(Number) : [];
+    await Promise.all(keys.filter((_, i) => statuses[i] === 2).map((key) => this.notifyWaiters(key)));
+    return statuses.length === keys.length && statuses.every((status) => status > 0);
+  }
+
+  /**
+   * Extends all keys or none (Lua script).
+   */
+  async extendMany(keys: string[], token: string, ttlMs: number): Promise<boolean> {
+    if (!this.extendManySha) {
+      // Fallback if script not loaded
+      this.extendManySha = await this.driver.scriptLoad(EXTEND_MANY_LOCKS_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.extendManySha, keys, [token, ttlMs]);
+    return result === 1;
+  }
+
+  /**
+   * Checks if every key is held by specific token.
+   */
+  async isManyHeldBy(keys: string[], token: string): Promise<boolean> {
+    const values = await this.driver.mget(...keys);
+    return values.every((value) => value === token);
+  }
+
+  /**
+   * Acquires reentrant lock or enters it again as its owner (Lua script).
+   */
+  async acquireReentrant(key: string, token: string, ttlMs: number): Promise<number | null> {
+    if (!this.acquireReentrantSha) {
+      // Fallback if script not loaded
+      this.acquireReentrantSha = await this.driver.scriptLoad(ACQUIRE_REENTRANT_LOCK_SCRIPT);
+    }
+
+    const result = Number(await this.driver.evalsha(this.acquireReentrantSha, [key, holdsKey(key), fencingKey(key)], [token, ttlMs]));
+    return result > 0 ? result : null;
+  }
+
+  /**
+   * Extends reentrant lock TTL if owned by token, never shortening it (Lua script).
+   */
+  async extendReentrant(key: string, token: string, ttlMs: number): Promise<boolean> {
+    if (!this.extendReentrantSha) {
+      // Fallback if script not loaded
+      this.extendReentrantSha = await this.driver.scriptLoad(EXTEND_REENTRANT_LOCK_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.extendReentrantSha, [key, holdsKey(key)], [token, ttlMs]);
+    return result === 1;
+  }
+
+  /**
+   * Leaves reentrant lock, releasing it on the last hold (Lua script), waking fair waiters.
+   */
+  async releaseReentrant(key: string, token: string): Promise<boolean> {
+    if (!this.releaseReentrantSha) {
+      // Fallback if script not loaded
+      this.releaseReentrantSha = await this.driver.scriptLoad(RELEASE_REENTRANT_LOCK_SCRIPT);
+    }
+
+    const result = Number(await this.driver.evalsha(this.releaseReentrantSha, [key, holdsKey(key), queueKey(key)], [token]));
+    if (result === 2) {
+      await this.notifyWaiters(key);
+    }
+    return result > 0;
+  }
+
+  /**
+   * Acquires lock if first in the wait queue (Lua script).
+   */
+  async acquireFair(key: string, token: string, ttlMs: number, heartbeatMs: number): Promise<number | null> {
+    if (!this.acquireFairSha) {
+      // Fallback if script not loaded
+      this.acquireFairSha = await this.driver.scriptLoad(ACQUIRE_FAIR_LOCK_SCRIPT);
+    }
+
+    const now = Date.now();
+    const keys = [key, queueKey(key), waitersKey(key), fencingKey(key)];
+    const result = Number(await this.driver.evalsha(this.acquireFairSha, keys, [token, ttlMs, now, now + heartbeatMs]));
+    return result > 0 ? result : null;
+  }
+
+  /**
+   * Leaves the wait queue and wakes the remaining waiters (Lua script).
+   */
+  async leaveQueue(key: string, token: string): Promise<void> {
+    if (!this.leaveQueueSha) {
+      // Fallback if script not loaded
+      this.leaveQueueSha = await this.driver.scriptLoad(LEAVE_LOCK_QUEUE_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.leaveQueueSha, [queueKey(key), waitersKey(key)], [token]);
+    if (result === 1) {
+      await this.notifyWaiters(key);
+    }
+  }
+
+  /**
+   * Acquires shared read lock unless a writer holds or awaits it (Lua script).
+   */
+  async acquireRead(key: string, token: string, ttlMs: number): Promise<number | null> {
+    if (!this.acquireReadSha) {
+      // Fallback if script not loaded
+      this.acquireReadSha = await this.driver.scriptLoad(ACQUIRE_READ_LOCK_SCRIPT);
+    }
+
+    const keys = [key, readersKey(key), writersKey(key), fencingKey(key)];
+    const result = Number(await this.driver.evalsha(this.acquireReadSha, keys, [token, ttlMs, Date.now()]));
+    return result > 0 ? result : null;
+  }
+
+  /**
+   * Acquires exclusive write lock once readers drained (Lua script).
+   */
+  async acquireWrite(key: string, token: string, ttlMs: number): Promise<number | null> {
+    if (!this.acquireWriteSha) {
+      // Fallback if script not loaded
+      this.acquireWriteSha = await this.driver.scriptLoad(ACQUIRE_WRITE_LOCK_SCRIPT);
+    }
+
+    const keys = [key, readersKey(key), writersKey(key), fencingKey(key)];
+    const result = Number(await this.driver.evalsha(this.acquireWriteSha, keys, [token, ttlMs, Date.now()]));
+    return result > 0 ? result : null;
+  }
+
+  /**
+   * Removes a waiting writer.
+   */
+  async cancelWrite(key: string, token: string): Promise<void> {
+    await this.driver.zrem(writersKey(key), token);
+  }
+
+  /**
+   * Releases read lock if held by token (Lua script).
+   */
+  async releaseRead(key: string, token: string): Promise<boolean> {
+    return this.releaseLease(readersKey(key), token);
+  }
+
+  /**
+   * Extends read lock TTL if held by token (Lua script).
+   */
+  async extendRead(key: string, token: string, ttlMs: number): Promise<boolean> {
+    return this.extendLease(readersKey(key), token, ttlMs);
+  }
+
+  /**
+   * Checks if read lock is held by specific token.
+   */
+  async isReadHeldBy(key: string, token: string): Promise<boolean> {
+    return this.isLeaseHeldBy(readersKey(key), token);
+  }
+
+  /**
+   * Takes one permit unless all are held (Lua script).
+   */
+  async acquirePermit(key: string, token: string, ttlMs: number, permits: number): Promise<number | null> {
+    if (!this.acquirePermitSha) {
+      // Fallback if script not loaded
+      this.acquirePermitSha = await this.driver.scriptLoad(ACQUIRE_PERMIT_SCRIPT);
+    }
+
+    const result = Number(await this.driver.evalsha(this.acquirePermitSha, [permitsKey(key), fencingKey(key)], [token, ttlMs, Date.now(), permits]));
+    return result > 0 ? result : null;
+  }
+
+  /**
+   * Returns permit if held by token (Lua script).
+   */
+  async releasePermit(key: string, token: string): Promise<boolean> {
+    return this.releaseLease(permitsKey(key), token);
+  }
+
+  /**
+   * Extends permit TTL if held by token (Lua script).
+   */
+  async extendPermit(key: string, token: string, ttlMs: number): Promise<boolean> {
+    return this.extendLease(permitsKey(key), token, ttlMs);
+  }
+
+  /**
+   * Checks if permit is held by specific token.
+   */
+  async isPermitHeldBy(key: string, token: string): Promise<boolean> {
+    return this.isLeaseHeldBy(permitsKey(key), token);
+  }
+
+  /**
+   * Lists unexpired permit holders.
+   */
+  async getPermitHolders(key: string): Promise<ISemaphoreHolder[]> {
+    const entries = await this.driver.zrangebyscore(permitsKey(key), `(${Date.now()}`, '+inf', true);
+    const holders: ISemaphoreHolder[] = [];
+    for (let i = 0; i + 1 < entries.length; i += 2) {
+      holders.push({ token: entries[i]!, expiresAt: new Date(Number(entries[i + 1])) });
+    }
+    return holders;
+  }
+
+  /**
+   * Announces that fair waiters of a key should retry.
+   *
+   * Best effort: waiters that miss it fall back to polling.
+   */
+  private async notifyWaiters(key: string): Promise<void> {
+    await this.driver.publish(this.releaseChannel, key).catch(() => undefined);
+  }
+
+  /**
+   * Removes a lease (read lock or permit) from its set if still held.
+   */
+  private async releaseLease(setKey: string, token: string): Promise<boolean> {
+    if (!this.releaseReadSha) {
+      // Fallback if script not loaded
+      this.releaseReadSha = await this.driver.scriptLoad(RELEASE_READ_LOCK_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.releaseReadSha, [setKey], [token, Date.now()]);
+    return result === 1;
+  }
+
+  /**
+   * Pushes back the expiry of a lease (read lock or permit) if still held.
+   */
+  private async extendLease(setKey: string, token: string, ttlMs: number): Promise<boolean> {
+    if (!this.extendReadSha) {
+      // Fallback if script not loaded
+      this.extendReadSha = await this.driver.scriptLoad(EXTEND_READ_LOCK_SCRIPT);
+    }
+
+    const result = await this.driver.evalsha(this.extendReadSha, [setKey], [token, ttlMs, Date.now()]);
+    return result === 1;
+  }
+
+  /**
+   * Checks whether a lease (read lock or permit) is held and unexpired.
+   */
+  private async isLeaseHeldBy(setKey: string, token: string): Promise<boolean> {
+    const expiry = await this.driver.zscore(setKey, token);
+    return expiry !== null && Number(expiry) > Date.now();
+  }
+}
+
+/**
+ * Builds a helper key for a lock key, in the same cluster slot.
+ *
+ * Reuses the lock key's hash tag when it has one; otherwise the whole lock
+ * key becomes the tag (`{key}` hashes exactly like an untagged `key`). A key
+ * containing a stray `}` cannot be wrapped and keeps a plain suffix.
+ */
+export function relatedKey(key: string, suffix: string): string {
+  const tagStart = key.indexOf('{');
+  const tagEnd = tagStart === -1 ? -1 : key.indexOf('}', tagStart + 1);
+  const hasHashTag = tagEnd > tagStart + 1;
+  return hasHashTag || key.includes('}') ? `${key}:${suffix}` : `{${key}}:${suffix}`;
+}
+
+/**
+ * Fencing counter key of a lock key.
+ */
+export function fencingKey(key: string): string {
+  return relatedKey(key, 'fencing');
+}
+
+/**
+ * Hold count of a reentrant lock key.
+ */
+function holdsKey(key: string): string {
+  return relatedKey(key, 'holds');
+}
+
+/**
+ * Read lock holders of a lock key.
+ */
+function readersKey(key: string): string {
+  return relatedKey(key, 'readers');
+}
+
+/**
+ * Writers waiting for a lock key.
+ */
+function writersKey(key: string): string {
+  return relatedKey(key, 'writers');
+}
+
+/**
+ * Permit holders of a semaphore key.
+ */
+function permitsKey(key: string): string {
+  return relatedKey(key, 'permits');
+}
+
+/**
+ * Fair waiters of a lock key, in arrival order.
+ */
+function queueKey(key: string): string {
+  return relatedKey(key, 'queue');
+}
+
+/**
+ * Heartbeat expiry of each fair waiter of a lock key.
+ */
+function waitersKey(key: string): string {
+  return relatedKey(key, 'waiters');
 }
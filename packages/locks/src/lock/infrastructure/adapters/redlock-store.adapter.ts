@@ -0,0 +1,242 @@
+import { OnModuleInit } from '@nestjs/common';
+import { ErrorCode } from '@nestjs-redisx/core';
+
+import { LockError } from '../../../shared/errors';
+import { ILocksPluginOptions, ISemaphoreHolder } from '../../../shared/types';
+import { ILockStore } from '../../application/ports/lock-store.port';
+
+/**
+ * Redlock (quorum) lock store over several independent Redis primaries.
+ *
+ * Every operation is sent to all nodes, each a regular single-node store:
+ * - Acquire succeeds only if a majority of nodes grant the lock and time is
+ *   left of the TTL after the round trip and the allowed clock drift
+ *   (`ttl - elapsed - ttl * driftFactor - 2ms`). Otherwise the partial
+ *   acquisition is released on every node, including the ones that failed,
+ *   since a timed-out `SET` may still have been applied.
+ * - Release and extend succeed if a majority of nodes confirm them.
+ * - The fencing token is the highest one issued by the granting nodes. Each
+ *   node keeps its own counter, so tokens are only monotonic while a majority
+ *   of nodes keep their counters (no restart without persistence).
+ *
+ * Read/write locks, semaphores, reentrant and fair acquisition are single-node only and
+ * reject with {@link ErrorCode.OP_NOT_SUPPORTED}.
+ */
+export class RedlockStoreAdapter implements ILockStore, OnModuleInit {
+  private readonly quorum: number;
+  private readonly driftFactor: number;
+
+  constructor(
+    private readonly nodes: Array<ILockStore & Partial<OnModuleInit>>,
+    options: ILocksPluginOptions,
+  ) {
+    this.quorum = Math.floor(nodes.length / 2) + 1;
+    this.driftFactor = options.redlock?.driftFactor ?? 0.01;
+  }
+
+  /**
+   * Lifecycle hook: loads Lua scripts on every node.
+   */
+  async onModuleInit(): Promise<void> {
+    await Promise.all(this.nodes.map((node) => node.onModuleInit?.()));
+  }
+
+  /**
+   * Acquires lock on a majority of nodes; returns the highest fencing token.
+   */
+  async acquire(key: string, token: string, ttlMs: number): Promise<number | null> {
+    const tokens = await this.acquireOnQuorum(
+      ttlMs,
+      (node) => node.acquire(key, token, ttlMs),
+      (node) => node.release(key, token),
+    );
+    return tokens ? Math.max(...tokens) : null;
+  }
+
+  /**
+   * Releases lock on all nodes.
+   */
+  async release(key: string, token: string): Promise<boolean> {
+    return this.onQuorum((node) => node.release(key, token));
+  }
+
+  /**
+   * Extends lock TTL on all nodes.
+   */
+  async extend(key: string, token: string, ttlMs: number): Promise<boolean> {
+    return this.onQuorum((node) => node.extend(key, token, ttlMs));
+  }
+
+  /**
+   * Checks if lock exists on a majority of nodes.
+   */
+  async exists(key: string): Promise<boolean> {
+    return this.onQuorum((node) => node.exists(key));
+  }
+
+  /**
+   * Checks if lock is held by token on a majority of nodes.
+   */
+  async isHeldBy(key: string, token: string): Promise<boolean> {
+    return this.onQuorum((node) => node.isHeldBy(key, token));
+  }
+
+  /**
+   * Gets the holder token found on a majority of nodes.
+   */
+  async getHolder(key: string): Promise<string | null> {
+    const results = await Promise.allSettled(this.nodes.map((node) => node.getHolder(key)));
+    const votes = new Map<string, number>();
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value !== null) {
+        votes.set(result.value, (votes.get(result.value) ?? 0) + 1);
+      }
+    }
+
+    for (const [holder, count] of votes) {
+      if (count >= this.quorum) {
+        return holder;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Force releases lock on all nodes (admin operation).
+   */
+  async forceRelease(key: string): Promise<boolean> {
+    return (await this.countSuccesses((node) => node.forceRelease(key))) > 0;
+  }
+
+  /**
+   * Acquires all keys on a majority of nodes; returns the highest fencing token per key.
+   */
+  async acquireMany(keys: string[], token: string, ttlMs: number): Promise<number[] | null> {
+    const tokens = await this.acquireOnQuorum(
+      ttlMs,
+      (node) => node.acquireMany(keys, token, ttlMs),
+      (node) => node.releaseMany(keys, token),
+    );
+    return tokens ? keys.map((_, i) => Math.max(...tokens.map((nodeTokens) => nodeTokens[i]!))) : null;
+  }
+
+  /**
+   * Releases all keys on all nodes.
+   */
+  async releaseMany(keys: string[], token: string): Promise<boolean> {
+    return this.onQuorum((node) => node.releaseMany(keys, token));
+  }
+
+  /**
+   * Extends all keys on all nodes.
+   */
+  async extendMany(keys: string[], token: string, ttlMs: number): Promise<boolean> {
+    return this.onQuorum((node) => node.extendMany(keys, token, ttlMs));
+  }
+
+  /**
+   * Checks if all keys are held by token on a majority of nodes.
+   */
+  async isManyHeldBy(keys: string[], token: string): Promise<boolean> {
+    return this.onQuorum((node) => node.isManyHeldBy(keys, token));
+  }
+
+  acquireReentrant(key: string): Promise<number | null> {
+    return this.unsupported('Reentrant locks', key);
+  }
+
+  extendReentrant(key: string): Promise<boolean> {
+    return this.unsupported('Reentrant locks', key);
+  }
+
+  releaseReentrant(key: string): Promise<boolean> {
+    return this.unsupported('Reentrant locks', key);
+  }
+
+  acquireFair(key: string): Promise<number | null> {
+    return this.unsupported('Fair locks', key);
+  }
+
+  leaveQueue(key: string): Promise<void> {
+    return this.unsupported('Fair locks', key);
+  }
+
+  acquireRead(key: string): Promise<number | null> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  acquireWrite(key: string): Promise<number | null> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  cancelWrite(key: string): Promise<void> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  releaseRead(key: string): Promise<boolean> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  extendRead(key: string): Promise<boolean> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  isReadHeldBy(key: string): Promise<boolean> {
+    return this.unsupported('Read/write locks', key);
+  }
+
+  acquirePermit(key: string): Promise<number | null> {
+    return this.unsupported('Semaphores', key);
+  }
+
+  releasePermit(key: string): Promise<boolean> {
+    return this.unsupported('Semaphores', key);
+  }
+
+  extendPermit(key: string): Promise<boolean> {
+    return this.unsupported('Semaphores', key);
+  }
+
+  isPermitHeldBy(key: string): Promise<boolean> {
+    return this.unsupported('Semaphores', key);
+  }
+
+  getPermitHolders(key: string): Promise<ISemaphoreHolder[]> {
+    return this.unsupported('Semaphores', key);
+  }
+
+  /**
+   * Runs an acquisition on all nodes and keeps it only if a majority granted
+   * it with validity left; otherwise rolls it back on all nodes.
+   */
+  private async acquireOnQuorum<T>(ttlMs: number, acquire: (node: ILockStore) => Promise<T | null>, rollback: (node: ILockStore) => Promise<unknown>): Promise<T[] | null> {
+    const startedAt = Date.now();
+    const results = await Promise.allSettled(this.nodes.map(acquire));
+    const granted = results.flatMap((result) => (result.status === 'fulfilled' && result.value !== null ? [result.value] : []));
+
+    const drift = Math.round(ttlMs * this.driftFactor) + 2;
+    const validity = ttlMs - (Date.now() - startedAt) - drift;
+    if (granted.length >= this.quorum && validity > 0) {
+      return granted;
+    }
+
+    await Promise.allSettled(this.nodes.map(rollback));
+    return null;
+  }
+
+  private async onQuorum(operation: (node: ILockStore) => Promise<boolean>): Promise<boolean> {
+    return (await this.countSuccesses(operation)) >= this.quorum;
+  }
+
+  /**
+   * Counts nodes where the operation returned true; a failing node counts as false.
+   */
+  private async countSuccesses(operation: (node: ILockStore) => Promise<boolean>): Promise<number> {
+    const results = await Promise.allSettled(this.nodes.map(operation));
+    return results.filter((result) => result.status === 'fulfilled' && result.value).length;
+  }
+
+  private unsupported<T>(feature: string, key: string): Promise<T> {
+    return Promise.reject(new LockError(`${feature} are not supported in Redlock mode (locks plugin "clients" option)`, ErrorCode.OP_NOT_SUPPORTED, key));
+  }
+}
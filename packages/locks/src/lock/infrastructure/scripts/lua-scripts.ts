@@ -5,16 +5,43 @@
  * after build (dist directory doesn't contain .lua files).
  */
 
+/**
+ * Acquire lock and issue a fencing token atomically.
+ *
+ * The fencing counter is never expired or deleted, so tokens keep increasing
+ * across lock lifetimes for the same key.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * Returns: fencing token (>= 1) if acquired, 0 if already held
+ */
+export const ACQUIRE_LOCK_SCRIPT = `
+if redis.call("set", KEYS[1], ARGV[1], "NX", "PX", ARGV[2]) then
+  return redis.call("incr", KEYS[2])
+else
+  return 0
+end
+`.trim();
+
 /**
  * Release lock if owned by token.
  *
+ * Reports fair-mode waiters so the caller can wake them up.
+ *
  * KEYS[1] = lock key
+ * KEYS[2] = fair wait queue sorted set
  * ARGV[1] = owner token
- * Returns: 1 if released, 0 if not owned or doesn't exist
+ * Returns: 2 if released and waiters are queued, 1 if released, 0 if not owned or doesn't exist
  */
 export const RELEASE_LOCK_SCRIPT = `
 if redis.call("get", KEYS[1]) == ARGV[1] then
-  return redis.call("del", KEYS[1])
+  redis.call("del", KEYS[1])
+  if redis.call("zcard", KEYS[2]) > 0 then
+    return 2
+  end
+  return 1
 else
   return 0
 end
@@ -35,3 +62,378 @@ else
   return 0
 end
 `.trim();
+
+/**
+ * Acquire a reentrant lock, or enter it again as its owner.
+ *
+ * The owner's hold count lives next to the lock key and expires with it, so
+ * an owner that crashed while holding the lock leaves nothing behind. A fresh
+ * acquisition resets it, and the last release deletes it. Re-entry keeps the
+ * fencing token of the outermost acquisition and never shortens the
+ * remaining TTL.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = hold count key
+ * KEYS[3] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * Returns: fencing token (>= 1) if acquired or entered again, 0 if held by another owner
+ */
+export const ACQUIRE_REENTRANT_LOCK_SCRIPT = `
+local owner = redis.call("get", KEYS[1])
+if not owner then
+  redis.call("set", KEYS[1], ARGV[1], "PX", ARGV[2])
+  redis.call("set", KEYS[2], 1, "PX", ARGV[2])
+  return redis.call("incr", KEYS[3])
+end
+
+if owner ~= ARGV[1] then
+  return 0
+end
+
+redis.call("incr", KEYS[2])
+if redis.call("pttl", KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call("pexpire", KEYS[1], ARGV[2])
+end
+redis.call("pexpire", KEYS[2], redis.call("pttl", KEYS[1]))
+return tonumber(redis.call("get", KEYS[3]))
+`.trim();
+
+/**
+ * Extend a reentrant lock if owned by token, never shortening its TTL.
+ *
+ * Nested holds share one key, so a holder renewing with a shorter TTL must
+ * not cut the time left for an outer holder with a longer one. The hold
+ * count keeps the lock key's TTL.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = hold count key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * Returns: 1 if owned (TTL raised to at least ARGV[2]), 0 if not owned or doesn't exist
+ */
+export const EXTEND_REENTRANT_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+if redis.call("pttl", KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call("pexpire", KEYS[1], ARGV[2])
+end
+redis.call("pexpire", KEYS[2], redis.call("pttl", KEYS[1]))
+return 1
+`.trim();
+
+/**
+ * Leave a reentrant lock; release it when the hold count reaches zero.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = hold count key
+ * KEYS[3] = fair wait queue sorted set
+ * ARGV[1] = owner token
+ * Returns: 3 if still held by the owner, 2 if released and waiters are queued,
+ * 1 if released, 0 if not owned or doesn't exist
+ */
+export const RELEASE_REENTRANT_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+
+if redis.call("decr", KEYS[2]) > 0 then
+  redis.call("pexpire", KEYS[2], redis.call("pttl", KEYS[1]))
+  return 3
+end
+
+redis.call("del", KEYS[1], KEYS[2])
+if redis.call("zcard", KEYS[3]) > 0 then
+  return 2
+end
+return 1
+`.trim();
+
+/**
+ * Acquire a shared (read) lock.
+ *
+ * Readers live in a sorted set scored by their own expiry, so a crashed
+ * reader only blocks writers until its TTL passes. New readers are refused
+ * while a writer holds the lock or is waiting for it (writer preference).
+ *
+ * KEYS[1] = lock key (held by the writer)
+ * KEYS[2] = readers sorted set
+ * KEYS[3] = waiting writers sorted set
+ * KEYS[4] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = current timestamp (ms)
+ * Returns: fencing token (>= 1) if acquired, 0 if blocked by a writer
+ */
+export const ACQUIRE_READ_LOCK_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+
+if redis.call("exists", KEYS[1]) == 1 then
+  return 0
+end
+
+redis.call("zremrangebyscore", KEYS[3], "-inf", now)
+if redis.call("zcard", KEYS[3]) > 0 then
+  return 0
+end
+
+redis.call("zremrangebyscore", KEYS[2], "-inf", now)
+redis.call("zadd", KEYS[2], now + ttl, ARGV[1])
+local last = redis.call("zrange", KEYS[2], -1, -1, "WITHSCORES")
+redis.call("pexpire", KEYS[2], math.ceil(tonumber(last[2]) - now))
+return redis.call("incr", KEYS[4])
+`.trim();
+
+/**
+ * Acquire an exclusive (write) lock.
+ *
+ * Succeeds only when neither a writer nor a live reader holds the key. When
+ * blocked, the writer is recorded as waiting (until its TTL passes) so that
+ * no new readers are admitted while it retries.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = readers sorted set
+ * KEYS[3] = waiting writers sorted set
+ * KEYS[4] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = current timestamp (ms)
+ * Returns: fencing token (>= 1) if acquired, 0 if held
+ */
+export const ACQUIRE_WRITE_LOCK_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+
+redis.call("zremrangebyscore", KEYS[2], "-inf", now)
+if redis.call("exists", KEYS[1]) == 0 and redis.call("zcard", KEYS[2]) == 0 then
+  redis.call("set", KEYS[1], ARGV[1], "PX", ttl)
+  redis.call("zrem", KEYS[3], ARGV[1])
+  return redis.call("incr", KEYS[4])
+end
+
+redis.call("zremrangebyscore", KEYS[3], "-inf", now)
+redis.call("zadd", KEYS[3], now + ttl, ARGV[1])
+local last = redis.call("zrange", KEYS[3], -1, -1, "WITHSCORES")
+redis.call("pexpire", KEYS[3], math.ceil(tonumber(last[2]) - now))
+return 0
+`.trim();
+
+/**
+ * Release a read lock or semaphore permit if still held by token.
+ *
+ * An expired entry is removed as well, but reported as not owned.
+ *
+ * KEYS[1] = readers (or permit holders) sorted set
+ * ARGV[1] = owner token
+ * ARGV[2] = current timestamp (ms)
+ * Returns: 1 if released, 0 if not owned or expired
+ */
+export const RELEASE_READ_LOCK_SCRIPT = `
+local expiry = redis.call("zscore", KEYS[1], ARGV[1])
+if not expiry then
+  return 0
+end
+
+redis.call("zrem", KEYS[1], ARGV[1])
+if tonumber(expiry) > tonumber(ARGV[2]) then
+  return 1
+else
+  return 0
+end
+`.trim();
+
+/**
+ * Extend a read lock or semaphore permit TTL if still held by token.
+ *
+ * KEYS[1] = readers (or permit holders) sorted set
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = current timestamp (ms)
+ * Returns: 1 if extended, 0 if not owned or expired
+ */
+export const EXTEND_READ_LOCK_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local expiry = redis.call("zscore", KEYS[1], ARGV[1])
+if not expiry or tonumber(expiry) <= now then
+  return 0
+end
+
+redis.call("zadd", KEYS[1], now + ttl, ARGV[1])
+local last = redis.call("zrange", KEYS[1], -1, -1, "WITHSCORES")
+redis.call("pexpire", KEYS[1], math.ceil(tonumber(last[2]) - now))
+return 1
+`.trim();
+
+/**
+ * Acquire one semaphore permit.
+ *
+ * Holders live in a sorted set scored by their own expiry, so permits of a
+ * crashed holder return to the pool once its TTL passes.
+ *
+ * KEYS[1] = permit holders sorted set
+ * KEYS[2] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = current timestamp (ms)
+ * ARGV[4] = total permits
+ * Returns: fencing token (>= 1) if acquired, 0 if all permits are taken
+ */
+export const ACQUIRE_PERMIT_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+
+redis.call("zremrangebyscore", KEYS[1], "-inf", now)
+if redis.call("zcard", KEYS[1]) >= tonumber(ARGV[4]) then
+  return 0
+end
+
+redis.call("zadd", KEYS[1], now + ttl, ARGV[1])
+local last = redis.call("zrange", KEYS[1], -1, -1, "WITHSCORES")
+redis.call("pexpire", KEYS[1], math.ceil(tonumber(last[2]) - now))
+return redis.call("incr", KEYS[2])
+`.trim();
+
+/**
+ * Acquire lock in fair (FIFO) mode.
+ *
+ * Waiters join a queue ordered by arrival and keep their place across
+ * attempts; only the head of the queue may take the lock. Each attempt
+ * refreshes the waiter's heartbeat, and waiters whose heartbeat lapsed
+ * (crashed or gone) are dropped so they cannot block the queue.
+ *
+ * KEYS[1] = lock key
+ * KEYS[2] = wait queue sorted set (token -> arrival sequence)
+ * KEYS[3] = waiter heartbeat sorted set (token -> expiry)
+ * KEYS[4] = fencing counter key
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = current timestamp (ms)
+ * ARGV[4] = heartbeat expiry timestamp (ms)
+ * Returns: fencing token (>= 1) if acquired, 0 if held or not first in line
+ */
+export const ACQUIRE_FAIR_LOCK_SCRIPT = `
+local now = tonumber(ARGV[3])
+
+local stale = redis.call("zrangebyscore", KEYS[3], "-inf", now)
+for i = 1, #stale do
+  redis.call("zrem", KEYS[2], stale[i])
+end
+redis.call("zremrangebyscore", KEYS[3], "-inf", now)
+
+if not redis.call("zscore", KEYS[2], ARGV[1]) then
+  local tail = redis.call("zrange", KEYS[2], -1, -1, "WITHSCORES")
+  local seq = 1
+  if #tail > 0 then
+    seq = tonumber(tail[2]) + 1
+  end
+  redis.call("zadd", KEYS[2], seq, ARGV[1])
+end
+
+local head = redis.call("zrange", KEYS[2], 0, 0)
+if head[1] == ARGV[1] and redis.call("exists", KEYS[1]) == 0 then
+  redis.call("set", KEYS[1], ARGV[1], "PX", ARGV[2])
+  redis.call("zrem", KEYS[2], ARGV[1])
+  redis.call("zrem", KEYS[3], ARGV[1])
+  return redis.call("incr", KEYS[4])
+end
+
+redis.call("zadd", KEYS[3], ARGV[4], ARGV[1])
+local last = redis.call("zrange", KEYS[3], -1, -1, "WITHSCORES")
+local ttl = math.ceil(tonumber(last[2]) - now)
+redis.call("pexpire", KEYS[2], ttl)
+redis.call("pexpire", KEYS[3], ttl)
+return 0
+`.trim();
+
+/**
+ * Remove a waiter from the fair wait queue.
+ *
+ * KEYS[1] = wait queue sorted set
+ * KEYS[2] = waiter heartbeat sorted set
+ * ARGV[1] = owner token
+ * Returns: 1 if other waiters remain, 0 otherwise
+ */
+export const LEAVE_LOCK_QUEUE_SCRIPT = `
+redis.call("zrem", KEYS[1], ARGV[1])
+redis.call("zrem", KEYS[2], ARGV[1])
+if redis.call("zcard", KEYS[1]) > 0 then
+  return 1
+end
+return 0
+`.trim();
+
+/**
+ * Acquire several locks at once, all or nothing.
+ *
+ * KEYS[1..n] = lock keys
+ * KEYS[n+1..2n] = fencing counter keys, in the same order
+ * ARGV[1] = owner token
+ * ARGV[2] = TTL in milliseconds
+ * ARGV[3] = number of lock keys (n)
+ * Returns: fencing token per lock key if all were free, empty table otherwise
+ */
+export const ACQUIRE_MANY_LOCKS_SCRIPT = `
+local n = tonumber(ARGV[3])
+for i = 1, n do
+  if redis.call("exists", KEYS[i]) == 1 then
+    return {}
+  end
+end
+
+local tokens = {}
+for i = 1, n do
+  redis.call("set", KEYS[i], ARGV[1], "PX", ARGV[2])
+  tokens[i] = redis.call("incr", KEYS[n + i])
+end
+return tokens
+`.trim();
+
+/**
+ * Release several locks owned by token.
+ *
+ * KEYS[1..n] = lock keys
+ * KEYS[n+1..2n] = fair wait queue sorted sets, in the same order
+ * ARGV[1] = owner token
+ * ARGV[2] = number of lock keys (n)
+ * Returns: status per lock key, as RELEASE_LOCK_SCRIPT (2 = released with waiters, 1 = released, 0 = not owned)
+ */
+export const RELEASE_MANY_LOCKS_SCRIPT = `
+local n = tonumber(ARGV[2])
+local statuses = {}
+for i = 1, n do
+  statuses[i] = 0
+  if redis.call("get", KEYS[i]) == ARGV[1] then
+    redis.call("del", KEYS[i])
+    statuses[i] = 1
+    if redis.call("zcard", KEYS[n + i]) > 0 then
+      statuses[i] = 2
+    end
+  end
+end
+return statuses
+`.trim();
+
+/**
+ * Extend several locks owned by token, all or nothing.
+ *
+ * KEYS[1..n] = lock keys
+ * ARGV[1] = owner token
+ * ARGV[2] = new TTL in milliseconds
+ * Returns: 1 if all were owned and extended, 0 if any is not owned (none extended)
+ */
+export const EXTEND_MANY_LOCKS_SCRIPT = `
+for i = 1, #KEYS do
+  if redis.call("get", KEYS[i]) ~= ARGV[1] then
+    return 0
+  end
+end
+
+for i = 1, #KEYS do
+  redis.call("pexpire", KEYS[i], ARGV[2])
+end
+return 1
+`.trim();
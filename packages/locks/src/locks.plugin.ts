@@ -4,17 +4,22 @@
  */
 
 import { DynamicModule, ForwardReference, Provider, Type } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
-import { IRedisXPlugin, IPluginAsyncOptions, CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION, RedisClientManager } from '@nestjs-redisx/core';
+import { DiscoveryModule, Reflector } from '@nestjs/core';
+import { IRedisXPlugin, IPluginAsyncOptions, IRedisDriver, CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION, RedisClientManager } from '@nestjs-redisx/core';
 
 import { version } from '../package.json';
-import { LOCKS_PLUGIN_OPTIONS, LOCK_REDIS_DRIVER, LOCK_SERVICE, LOCK_STORE } from './shared/constants';
+import { LEADER_ELECTION_SERVICE, LOCKS_PLUGIN_OPTIONS, LOCK_REDIS_DRIVER, LOCK_RELEASE_LISTENER, LOCK_SERVICE, LOCK_STORE, SEMAPHORE_SERVICE } from './shared/constants';
 import { ILocksPluginOptions } from './shared/types';
+import { LeaderElectionDiscovery } from './lock/api/discovery/leader-election.discovery';
+import { LeaderElectionService } from './lock/application/services/leader-election.service';
 import { LockDecoratorInitializerService } from './lock/application/services/lock-decorator-initializer.service';
 import { LockService } from './lock/application/services/lock.service';
+import { SemaphoreService } from './lock/application/services/semaphore.service';
+import { RedisLockReleaseListenerAdapter } from './lock/infrastructure/adapters/redis-lock-release-listener.adapter';
 import { RedisLockStoreAdapter } from './lock/infrastructure/adapters/redis-lock-store.adapter';
+import { RedlockStoreAdapter } from './lock/infrastructure/adapters/redlock-store.adapter';
 
-const DEFAULT_LOCKS_CONFIG: Required<Omit<ILocksPluginOptions, 'isGlobal' | 'client'>> = {
+const DEFAULT_LOCKS_CONFIG: Required<Omit<ILocksPluginOptions, 'isGlobal' | 'client' | 'clients'>> = {
   defaultTtl: 30000,
   maxTtl: 300000,
   keyPrefix: '_lock:',
@@ -28,8 +33,50 @@ const DEFAULT_LOCKS_CONFIG: Required<Omit<ILocksPluginOptions, 'isGlobal' | 'cli
     enabled: true,
     intervalFraction: 0.5,
   },
+  fair: {
+    enabled: false,
+    waitTimeout: 10000,
+    pollInterval: 1000,
+    channel: '_lock:released',
+  },
+  redlock: {
+    driftFactor: 0.01,
+  },
+  reentrant: {
+    enabled: false,
+  },
+  leaderElection: {
+    ttl: 15000,
+    retryInterval: 5000,
+  },
 };
 
+async function resolveClient(manager: RedisClientManager, clientName: string): Promise<IRedisDriver> {
+  try {
+    return await manager.getClient(clientName);
+  } catch {
+    throw new Error(`LocksPlugin: Redis client "${clientName}" not found. ` + `Available clients are configured in RedisModule.forRoot({ clients: { ... } }). ` + `Either add a "${clientName}" client or remove the "client" option to use the default connection.`);
+  }
+}
+
+/**
+ * Redlock mode (`clients`) runs plain exclusive locks only; fair and reentrant
+ * locks would fail on every call, so refuse them up front.
+ */
+function validateRedlockOptions(options: ILocksPluginOptions): void {
+  if (!options.clients?.length) {
+    return;
+  }
+  for (const [mode, settings] of [
+    ['fair', options.fair],
+    ['reentrant', options.reentrant],
+  ] as const) {
+    if (settings?.enabled) {
+      throw new Error(`LocksPlugin: ${mode} locks are not supported in Redlock mode ("clients" option). ` + `Remove ${mode}.enabled or lock on a single client.`);
+    }
+  }
+}
+
 /**
  * Distributed locks plugin for NestJS RedisX.
  *
@@ -61,7 +108,9 @@ export class LocksPlugin implements IRedisXPlugin {
 
   private asyncOptions?: IPluginAsyncOptions<ILocksPluginOptions>;
 
-  constructor(private readonly options: ILocksPluginOptions = {}) {}
+  constructor(private readonly options: ILocksPluginOptions = {}) {
+    validateRedlockOptions(options);
+  }
 
   static registerAsync(asyncOptions: IPluginAsyncOptions<ILocksPluginOptions>): LocksPlugin {
     const plugin = new LocksPlugin();
@@ -70,18 +119,25 @@ export class LocksPlugin implements IRedisXPlugin {
   }
 
   private static mergeDefaults(options: ILocksPluginOptions): ILocksPluginOptions {
+    validateRedlockOptions(options);
     return {
       client: options.client,
+      clients: options.clients,
       defaultTtl: options.defaultTtl ?? DEFAULT_LOCKS_CONFIG.defaultTtl,
       maxTtl: options.maxTtl ?? DEFAULT_LOCKS_CONFIG.maxTtl,
       keyPrefix: options.keyPrefix ?? DEFAULT_LOCKS_CONFIG.keyPrefix,
       retry: { ...DEFAULT_LOCKS_CONFIG.retry, ...options.retry },
       autoRenew: { ...DEFAULT_LOCKS_CONFIG.autoRenew, ...options.autoRenew },
+      fair: { ...DEFAULT_LOCKS_CONFIG.fair, ...options.fair },
+      redlock: { ...DEFAULT_LOCKS_CONFIG.redlock, ...options.redlock },
+      reentrant: { ...DEFAULT_LOCKS_CONFIG.reentrant, ...options.reentrant },
+      leaderElection: { ...DEFAULT_LOCKS_CONFIG.leaderElection, ...options.leaderElection },
     };
   }
 
   getImports(): Array<Type<unknown> | DynamicModule | ForwardReference> {
-    return this.asyncOptions?.imports ?? [];
+    // DiscoveryModule powers the @OnLeader/@OnFollower decorator scan.
+    return [DiscoveryModule, ...(this.asyncOptions?.imports ?? [])];
   }
 
   getProviders(): Provider[] {
@@ -105,21 +161,26 @@ export class LocksPlugin implements IRedisXPlugin {
       // Plugin-specific Redis driver (resolves named client)
       {
         provide: LOCK_REDIS_DRIVER,
-        useFactory: async (manager: RedisClientManager, _init: void, options: ILocksPluginOptions) => {
-          const clientName = options.client ?? 'default';
-          try {
-            return await manager.getClient(clientName);
-          } catch {
-            throw new Error(`LocksPlugin: Redis client "${clientName}" not found. ` + `Available clients are configured in RedisModule.forRoot({ clients: { ... } }). ` + `Either add a "${clientName}" client or remove the "client" option to use the default connection.`);
-          }
-        },
+        useFactory: (manager: RedisClientManager, _init: void, options: ILocksPluginOptions) => resolveClient(manager, options.client ?? options.clients?.[0] ?? 'default'),
         inject: [CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION, LOCKS_PLUGIN_OPTIONS],
       },
 
-      // Store adapter
+      // Store adapter (Redlock over all `clients` when set)
       {
         provide: LOCK_STORE,
-        useClass: RedisLockStoreAdapter,
+        useFactory: async (driver: IRedisDriver, manager: RedisClientManager, options: ILocksPluginOptions) => {
+          if (!options.clients?.length) {
+            return new RedisLockStoreAdapter(driver, options);
+          }
+
+          const nodes = await Promise.all(options.clients.map(async (clientName) => new RedisLockStoreAdapter(await resolveClient(manager, clientName), options)));
+          return new RedlockStoreAdapter(nodes, options);
+        },
+        inject: [LOCK_REDIS_DRIVER, CLIENT_MANAGER, LOCKS_PLUGIN_OPTIONS],
+      },
+      {
+        provide: LOCK_RELEASE_LISTENER,
+        useClass: RedisLockReleaseListenerAdapter,
       },
 
       // Application service
@@ -127,16 +188,27 @@ export class LocksPlugin implements IRedisXPlugin {
         provide: LOCK_SERVICE,
         useClass: LockService,
       },
+      {
+        provide: SEMAPHORE_SERVICE,
+        useClass: SemaphoreService,
+      },
+      {
+        provide: LEADER_ELECTION_SERVICE,
+        useClass: LeaderElectionService,
+      },
 
       // @WithLock decorator initialization (proxy-based)
       LockDecoratorInitializerService,
 
+      // @OnLeader/@OnFollower discovery
+      LeaderElectionDiscovery,
+
       // Reflector is needed for decorator metadata
       Reflector,
     ];
   }
 
   getExports(): Array<string | symbol | Provider> {
-    return [LOCK_SERVICE];
+    return [LOCK_SERVICE, SEMAPHORE_SERVICE, LEADER_ELECTION_SERVICE];
   }
 }
@@ -8,11 +8,26 @@ export const LOCKS_PLUGIN_OPTIONS = Symbol.for('LOCKS_PLUGIN_OPTIONS');
  */
 export const LOCK_SERVICE = Symbol.for('LOCK_SERVICE');
 
+/**
+ * Injection token for semaphore service
+ */
+export const SEMAPHORE_SERVICE = Symbol.for('SEMAPHORE_SERVICE');
+
+/**
+ * Injection token for leader election service
+ */
+export const LEADER_ELECTION_SERVICE = Symbol.for('LEADER_ELECTION_SERVICE');
+
 /**
  * Injection token for lock store
  */
 export const LOCK_STORE = Symbol.for('LOCK_STORE');
 
+/**
+ * Injection token for lock release listener
+ */
+export const LOCK_RELEASE_LISTENER = Symbol.for('LOCK_RELEASE_LISTENER');
+
 /**
  * Plugin-specific Redis driver token.
  * Resolves to the named client specified in plugin options.
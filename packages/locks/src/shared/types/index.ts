@@ -9,6 +9,29 @@ export interface ILocksPluginOptions {
    */
   client?: string;
 
+  /**
+   * Named Redis clients for Redlock (quorum) mode, one per independent Redis
+   * primary. When set, `client` is not used for locking: a lock is acquired
+   * only if a majority of these clients grant it within its validity window,
+   * and it is released on all of them. Use an odd number (3 or 5).
+   *
+   * Read/write locks, semaphores, fair mode and reentrant locks are not
+   * available in this mode; enabling `fair` or `reentrant` alongside it throws.
+   */
+  clients?: string[];
+
+  /**
+   * Redlock configuration (used only with `clients`)
+   */
+  redlock?: {
+    /**
+     * Expected clock drift between nodes, as a fraction of the lock TTL.
+     * An acquisition only counts if `ttl - elapsed - ttl * driftFactor - 2ms` is still positive.
+     * @default 0.01
+     */
+    driftFactor?: number;
+  };
+
   /**
    * Default TTL for locks in milliseconds
    * @default 30000
@@ -72,6 +95,72 @@ export interface ILocksPluginOptions {
      */
     intervalFraction?: number;
   };
+
+  /**
+   * Fair (FIFO) acquisition configuration
+   */
+  fair?: {
+    /**
+     * Acquire locks in arrival order by default
+     * @default false
+     */
+    enabled?: boolean;
+
+    /**
+     * Maximum time a fair waiter waits when no waitTimeout is given, in milliseconds
+     * @default 10000
+     */
+    waitTimeout?: number;
+
+    /**
+     * Interval between fallback attempts when no release notification arrives, in milliseconds.
+     * Also bounds how long a crashed waiter keeps its place in the queue (twice this value).
+     * @default 1000
+     */
+    pollInterval?: number;
+
+    /**
+     * Pub/Sub channel used to wake waiters when a lock is released
+     * @default '_lock:released'
+     */
+    channel?: string;
+  };
+
+  /**
+   * Reentrant lock configuration
+   */
+  reentrant?: {
+    /**
+     * Make exclusive locks reentrant by default
+     * @default false
+     */
+    enabled?: boolean;
+  };
+
+  /**
+   * Leader election configuration
+   */
+  leaderElection?: {
+    /**
+     * Leadership lease in milliseconds. A crashed leader is replaced at most
+     * this long (plus retryInterval) after its last renewal.
+     * @default 15000
+     */
+    ttl?: number;
+
+    /**
+     * Interval between attempts of followers to take over leadership, in milliseconds
+     * @default 5000
+     */
+    retryInterval?: number;
+
+    /**
+     * Identifier of this instance, stored as the leadership key's value.
+     * Must be unique per instance.
+     * @default '<hostname>-<pid>-<random>'
+     */
+    instanceId?: string;
+  };
 }
 
 /**
@@ -93,6 +182,28 @@ export interface ILockOptions {
    */
   autoRenew?: boolean;
 
+  /**
+   * Wait in line and acquire in arrival order instead of retrying with backoff.
+   * Applies to exclusive locks (`acquire`, `withLock`); `retry` is ignored.
+   */
+  fair?: boolean;
+
+  /**
+   * Let the current owner acquire the key again instead of waiting for itself.
+   *
+   * The owner is carried in async context: code running inside `withLock` or
+   * a `@WithLock` method that holds a reentrant lock owns it, and each nested
+   * reentrant acquisition of the key only increments a hold count stored in
+   * Redis. The key is released when the last hold is released. Applies to
+   * exclusive locks (`acquire`, `tryAcquire`, `withLock`); takes precedence
+   * over `fair`.
+   *
+   * Ownership is per async context, not per call: branches run in parallel
+   * inside the holder (`Promise.all`) all enter the lock, so it does not
+   * serialize them.
+   */
+  reentrant?: boolean;
+
   /**
    * Retry configuration for this specific lock
    */
@@ -109,6 +220,49 @@ export interface ILockOptions {
   };
 }
 
+/**
+ * Current holder of a semaphore permit
+ */
+export interface ISemaphoreHolder {
+  /**
+   * Ownership token of the permit (same as `ILock.token`)
+   */
+  token: string;
+
+  /**
+   * When the permit expires unless renewed
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Leadership change of this instance in an election
+ */
+export interface ILeadershipChange {
+  /**
+   * Election name
+   */
+  election: string;
+
+  /**
+   * Whether this instance is the leader now
+   */
+  isLeader: boolean;
+
+  /**
+   * Why leadership changed:
+   * - `elected` - this instance took the leadership key
+   * - `lost` - renewing the leadership key failed (expired, taken over or Redis unreachable)
+   * - `resigned` - this instance stepped down (`resign()` or shutdown)
+   */
+  reason: 'elected' | 'lost' | 'resigned';
+
+  /**
+   * Fencing token of the leadership term (set when elected)
+   */
+  fencingToken?: number;
+}
+
 /**
  * Alias for plugin options (for consistency with plugin naming)
  * @public
@@ -0,0 +1,28 @@
+/**
+ * Owner identity of reentrant locks, carried along the async call chain.
+ *
+ * `withLock` and `@WithLock` run their callback as the owner of the
+ * reentrant lock they took. A reentrant acquisition made inside that
+ * callback (or anything it awaits) reuses the owner token, so the store
+ * counts it as a re-entry instead of making the caller wait for itself.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const lockOwner = new AsyncLocalStorage<string>();
+
+/**
+ * Gets the reentrant lock owner token of the current async context.
+ *
+ * @returns Owner token, or undefined outside a reentrant critical section
+ */
+export function getLockOwner(): string | undefined {
+  return lockOwner.getStore();
+}
+
+/**
+ * Runs a function as the owner of reentrant locks taken with `token`.
+ */
+export function runAsLockOwner<T>(token: string, fn: () => T): T {
+  return lockOwner.run(token, fn);
+}
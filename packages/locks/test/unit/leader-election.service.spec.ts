@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
+import { Logger } from '@nestjs/common';
+import { LeaderElectionService } from '../../src/lock/application/services/leader-election.service';
+import type { ILockStore } from '../../src/lock/application/ports/lock-store.port';
+import type { ILeadershipChange, ILocksPluginOptions } from '../../src/shared/types';
+
+describe('LeaderElectionService', () => {
+  let service: LeaderElectionService;
+  let mockStore: MockedObject<ILockStore>;
+  let config: ILocksPluginOptions;
+  let changes: ILeadershipChange[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+    mockStore = {
+      acquire: vi.fn().mockResolvedValue(1),
+      release: vi.fn().mockResolvedValue(true),
+      extend: vi.fn().mockResolvedValue(true),
+      getHolder: vi.fn(),
+    } as unknown as MockedObject<ILockStore>;
+
+    config = {
+      keyPrefix: '_lock:',
+      autoRenew: { intervalFraction: 0.5 },
+      leaderElection: { ttl: 10000, retryInterval: 2000, instanceId: 'node-a' },
+    };
+
+    service = new LeaderElectionService(config, mockStore);
+    changes = [];
+    service.onLeadershipChange((change) => changes.push(change));
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('instanceId', () => {
+    it('should use the configured instance id', () => {
+      expect(service.instanceId).toBe('node-a');
+    });
+
+    it('should default to a unique id per instance', () => {
+      // Given
+      const first = new LeaderElectionService({}, mockStore);
+      const second = new LeaderElectionService({}, mockStore);
+
+      // Then
+      expect(first.instanceId).toContain(`-${process.pid}-`);
+      expect(first.instanceId).not.toBe(second.instanceId);
+    });
+  });
+
+  describe('campaign', () => {
+    it('should take the leadership key with the instance id as token', async () => {
+      // Given
+      mockStore.acquire.mockResolvedValue(7);
+
+      // When
+      const elected = await service.campaign('billing-cron');
+
+      // Then
+      expect(elected).toBe(true);
+      expect(service.isLeader('billing-cron')).toBe(true);
+      expect(mockStore.acquire).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a', 10000);
+      expect(changes).toEqual([{ election: 'billing-cron', isLeader: true, reason: 'elected', fencingToken: 7 }]);
+    });
+
+    it('should keep retrying as a follower until the key is free', async () => {
+      // Given
+      mockStore.acquire.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(3);
+
+      // When
+      const elected = await service.campaign('billing-cron');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(elected).toBe(false);
+      expect(service.isLeader('billing-cron')).toBe(false);
+
+      // When
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(mockStore.acquire).toHaveBeenCalledTimes(3);
+      expect(service.isLeader('billing-cron')).toBe(true);
+    });
+
+    it('should keep retrying when Redis is unreachable', async () => {
+      // Given
+      mockStore.acquire.mockRejectedValueOnce(new Error('Connection refused'));
+
+      // When
+      await service.campaign('billing-cron');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(service.isLeader('billing-cron')).toBe(true);
+    });
+
+    it('should join an election only once', async () => {
+      // When
+      await service.campaign('billing-cron');
+      const again = await service.campaign('billing-cron');
+
+      // Then
+      expect(again).toBe(true);
+      expect(mockStore.acquire).toHaveBeenCalledTimes(1);
+    });
+
+    it('should renew leadership at the auto-renew interval', async () => {
+      // Given
+      await service.campaign('billing-cron');
+
+      // When
+      await vi.advanceTimersByTimeAsync(5000);
+
+      // Then
+      expect(mockStore.extend).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a', 10000);
+      expect(service.isLeader('billing-cron')).toBe(true);
+    });
+  });
+
+  describe('leadership loss', () => {
+    it('should turn follower when renewal fails and campaign again', async () => {
+      // Given
+      await service.campaign('billing-cron');
+      mockStore.extend.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
+
+      // When
+      await vi.advanceTimersByTimeAsync(5000);
+
+      // Then
+      expect(service.isLeader('billing-cron')).toBe(false);
+      expect(changes[1]).toEqual({ election: 'billing-cron', isLeader: false, reason: 'lost' });
+
+      // When
+      mockStore.acquire.mockResolvedValue(9);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(service.isLeader('billing-cron')).toBe(true);
+      expect(changes[2]).toMatchObject({ isLeader: true, reason: 'elected', fencingToken: 9 });
+    });
+
+    it('should give its own key back so a transient renewal error does not block re-election', async () => {
+      // Given
+      await service.campaign('billing-cron');
+      mockStore.extend.mockRejectedValueOnce(new Error('Connection reset'));
+
+      // When
+      await vi.advanceTimersByTimeAsync(5000);
+
+      // Then
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a');
+      expect(service.isLeader('billing-cron')).toBe(false);
+
+      // When
+      await vi.advanceTimersByTimeAsync(2000);
+
+      // Then
+      expect(mockStore.acquire).toHaveBeenCalledTimes(2);
+      expect(service.isLeader('billing-cron')).toBe(true);
+    });
+
+    it('should campaign again when giving the key back fails', async () => {
+      // Given
+      await service.campaign('billing-cron');
+      mockStore.extend.mockResolvedValue(false);
+      mockStore.release.mockRejectedValueOnce(new Error('Connection lost'));
+
+      // When
+      await vi.advanceTimersByTimeAsync(7000);
+
+      // Then
+      expect(mockStore.acquire).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('resign', () => {
+    it('should release the leadership key and stop campaigning', async () => {
+      // Given
+      await service.campaign('billing-cron');
+
+      // When
+      await service.resign('billing-cron');
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // Then
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a');
+      expect(mockStore.acquire).toHaveBeenCalledTimes(1);
+      expect(service.isLeader('billing-cron')).toBe(false);
+      expect(changes[1]).toEqual({ election: 'billing-cron', isLeader: false, reason: 'resigned' });
+    });
+
+    it('should stop retrying as a follower without emitting a change', async () => {
+      // Given
+      mockStore.acquire.mockResolvedValue(null);
+      await service.campaign('billing-cron');
+
+      // When
+      await service.resign('billing-cron');
+      await vi.advanceTimersByTimeAsync(10000);
+
+      // Then
+      expect(mockStore.acquire).toHaveBeenCalledTimes(1);
+      expect(changes).toEqual([]);
+    });
+
+    it('should give the key back when it was won while resigning', async () => {
+      // Given
+      let grant!: (fencingToken: number) => void;
+      mockStore.acquire.mockReturnValue(new Promise((resolve) => (grant = resolve)));
+      const campaign = service.campaign('billing-cron');
+
+      // When
+      await service.resign('billing-cron');
+      grant(4);
+      await campaign;
+
+      // Then
+      expect(service.isLeader('billing-cron')).toBe(false);
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a');
+      expect(changes).toEqual([]);
+    });
+
+    it('should still report resignation when releasing fails', async () => {
+      // Given
+      await service.campaign('billing-cron');
+      mockStore.release.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      await service.resign('billing-cron');
+
+      // Then
+      expect(changes[1]).toMatchObject({ isLeader: false, reason: 'resigned' });
+    });
+  });
+
+  describe('onModuleDestroy', () => {
+    it('should step down from all elections', async () => {
+      // Given
+      await service.campaign('billing-cron');
+      await service.campaign('reports');
+
+      // When
+      await service.onModuleDestroy();
+
+      // Then
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:leader:billing-cron', 'node-a');
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:leader:reports', 'node-a');
+      expect(service.isLeader('billing-cron')).toBe(false);
+      expect(service.isLeader('reports')).toBe(false);
+    });
+  });
+
+  describe('getLeader', () => {
+    it('should read the leader instance id from the leadership key', async () => {
+      // Given
+      mockStore.getHolder.mockResolvedValue('node-b');
+
+      // When
+      const leader = await service.getLeader('billing-cron');
+
+      // Then
+      expect(leader).toBe('node-b');
+      expect(mockStore.getHolder).toHaveBeenCalledWith('_lock:leader:billing-cron');
+    });
+  });
+
+  describe('onLeadershipChange', () => {
+    it('should stop notifying after unsubscribe', async () => {
+      // Given
+      const listener = vi.fn();
+      const unsubscribe = service.onLeadershipChange(listener);
+
+      // When
+      unsubscribe();
+      await service.campaign('billing-cron');
+
+      // Then
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should isolate throwing listeners', async () => {
+      // Given
+      vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      service.onLeadershipChange(() => {
+        throw new Error('boom');
+      });
+      const after = vi.fn();
+      service.onLeadershipChange(after);
+
+      // When
+      await service.campaign('billing-cron');
+
+      // Then
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(service.isLeader('billing-cron')).toBe(true);
+    });
+  });
+});
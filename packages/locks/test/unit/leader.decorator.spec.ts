@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import 'reflect-metadata';
+import { Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OnLeader, OnFollower, ON_LEADER_METADATA, ON_FOLLOWER_METADATA } from '../../src/lock/api/decorators/leader.decorator';
+import { LeaderElectionDiscovery } from '../../src/lock/api/discovery/leader-election.discovery';
+import type { ILeaderElectionService } from '../../src/lock/application/ports/leader-election-service.port';
+import type { ILeadershipChange } from '../../src/shared/types';
+
+describe('OnLeader / OnFollower decorators', () => {
+  it('should attach the election name as metadata', () => {
+    // Given
+    class Scheduler {
+      @OnLeader('billing-cron')
+      start(): void {}
+
+      @OnFollower('billing-cron')
+      stop(): void {}
+    }
+
+    // When
+    const reflector = new Reflector();
+
+    // Then
+    expect(reflector.get(ON_LEADER_METADATA, Scheduler.prototype.start)).toBe('billing-cron');
+    expect(reflector.get(ON_FOLLOWER_METADATA, Scheduler.prototype.stop)).toBe('billing-cron');
+  });
+});
+
+describe('LeaderElectionDiscovery', () => {
+  let listeners: Array<(change: ILeadershipChange) => void>;
+  let service: { campaign: ReturnType<typeof vi.fn>; onLeadershipChange: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    listeners = [];
+    service = {
+      campaign: vi.fn().mockResolvedValue(false),
+      onLeadershipChange: vi.fn().mockImplementation((listener: (change: ILeadershipChange) => void) => {
+        listeners.push(listener);
+        return () => undefined;
+      }),
+    };
+  });
+
+  function discoveryFor(instances: object[]): LeaderElectionDiscovery {
+    const discoveryService = { getProviders: () => [...instances.map((instance) => ({ instance })), { instance: null }] };
+    return new LeaderElectionDiscovery(discoveryService as never, service as unknown as ILeaderElectionService, new Reflector());
+  }
+
+  function emit(change: ILeadershipChange): void {
+    for (const listener of listeners) {
+      listener(change);
+    }
+  }
+
+  it('should register hooks before joining each election once', async () => {
+    // Given
+    class Scheduler {
+      @OnLeader('billing-cron')
+      start(): void {}
+
+      @OnFollower('billing-cron')
+      stop(): void {}
+
+      @OnLeader('reports')
+      startReports(): void {}
+    }
+
+    // When
+    await discoveryFor([new Scheduler()]).onApplicationBootstrap();
+
+    // Then
+    expect(listeners).toHaveLength(3);
+    expect(service.campaign).toHaveBeenCalledTimes(2);
+    expect(service.campaign).toHaveBeenCalledWith('billing-cron');
+    expect(service.campaign).toHaveBeenCalledWith('reports');
+    expect(service.onLeadershipChange.mock.invocationCallOrder[2]).toBeLessThan(service.campaign.mock.invocationCallOrder[0]!);
+  });
+
+  it('should call the matching hook bound to its instance', async () => {
+    // Given
+    const calls: string[] = [];
+    class Scheduler {
+      name = 'scheduler';
+
+      @OnLeader('billing-cron')
+      start(change: ILeadershipChange): void {
+        calls.push(`${this.name}:start:${change.reason}`);
+      }
+
+      @OnFollower('billing-cron')
+      stop(change: ILeadershipChange): void {
+        calls.push(`${this.name}:stop:${change.reason}`);
+      }
+    }
+    await discoveryFor([new Scheduler()]).onApplicationBootstrap();
+
+    // When
+    emit({ election: 'billing-cron', isLeader: true, reason: 'elected', fencingToken: 1 });
+    emit({ election: 'other', isLeader: true, reason: 'elected', fencingToken: 1 });
+    emit({ election: 'billing-cron', isLeader: false, reason: 'lost' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Then
+    expect(calls).toEqual(['scheduler:start:elected', 'scheduler:stop:lost']);
+  });
+
+  it('should log hook failures', async () => {
+    // Given
+    const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    class Scheduler {
+      @OnLeader('billing-cron')
+      async start(): Promise<void> {
+        throw new Error('boom');
+      }
+    }
+    await discoveryFor([new Scheduler()]).onApplicationBootstrap();
+
+    // When
+    emit({ election: 'billing-cron', isLeader: true, reason: 'elected', fencingToken: 1 });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Then
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Scheduler.start'), expect.any(Error));
+  });
+
+  it('should warn and skip when DiscoveryService is missing', async () => {
+    // Given
+    const warnSpy = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    const discovery = new LeaderElectionDiscovery(null, service as unknown as ILeaderElectionService, new Reflector());
+
+    // When
+    await discovery.onApplicationBootstrap();
+
+    // Then
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('DiscoveryService not available'));
+    expect(service.campaign).not.toHaveBeenCalled();
+  });
+});
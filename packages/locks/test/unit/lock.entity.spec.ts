@@ -17,9 +17,17 @@ describe('Lock Entity', () => {
       release: vi.fn(),
       extend: vi.fn(),
       isHeldBy: vi.fn(),
+      releaseRead: vi.fn(),
+      extendRead: vi.fn(),
+      isReadHeldBy: vi.fn(),
+      releasePermit: vi.fn(),
+      extendPermit: vi.fn(),
+      isPermitHeldBy: vi.fn(),
+      extendReentrant: vi.fn(),
+      releaseReentrant: vi.fn(),
     } as unknown as MockedObject<ILockStore>;
 
-    lock = new Lock(key, token, ttl, mockStore);
+    lock = new Lock(key, token, ttl, mockStore, 1);
   });
 
   afterEach(() => {
@@ -29,12 +37,14 @@ describe('Lock Entity', () => {
   describe('constructor', () => {
     it('should create lock with provided parameters', () => {
       // Given/When
-      const lock = new Lock(key, token, ttl, mockStore);
+      const lock = new Lock(key, token, ttl, mockStore, 1);
 
       // Then
       expect(lock.key).toBe(key);
       expect(lock.token).toBe(token);
       expect(lock.ttl).toBe(ttl);
+      expect(lock.fencingToken).toBe(1);
+      expect(lock.mode).toBe('exclusive');
       expect(lock.acquiredAt).toBeInstanceOf(Date);
       expect(lock.expiresAt).toBeInstanceOf(Date);
       expect(lock.isAutoRenewing).toBe(false);
@@ -45,7 +55,7 @@ describe('Lock Entity', () => {
       const now = Date.now();
 
       // When
-      const lock = new Lock(key, token, ttl, mockStore);
+      const lock = new Lock(key, token, ttl, mockStore, 1);
 
       // Then
       const expectedExpiration = now + ttl;
@@ -278,6 +288,23 @@ describe('Lock Entity', () => {
       warnSpy.mockRestore();
     });
 
+    it('should call onLost once when auto-renewal fails', async () => {
+      // Given
+      const warnSpy = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      const onLost = vi.fn();
+      mockStore.extend.mockResolvedValue(false);
+
+      // When
+      lock.startAutoRenew(50, onLost);
+      await new Promise((resolve) => setTimeout(resolve, 130));
+
+      // Then
+      expect(onLost).toHaveBeenCalledTimes(1);
+      expect(onLost).toHaveBeenCalledWith(expect.any(LockExtensionError));
+
+      warnSpy.mockRestore();
+    });
+
     it('should continue renewal on successful extensions', async () => {
       // Given
       const intervalMs = 50;
@@ -372,4 +399,117 @@ describe('Lock Entity', () => {
       expect(lock.isAutoRenewing).toBe(false);
     });
   });
+
+  describe('read mode', () => {
+    let readLock: Lock;
+
+    beforeEach(() => {
+      readLock = new Lock(key, token, ttl, mockStore, 2, 'read');
+    });
+
+    it('should release through the read lock store operation', async () => {
+      // Given
+      mockStore.releaseRead.mockResolvedValue(true);
+
+      // When
+      await readLock.release();
+
+      // Then
+      expect(mockStore.releaseRead).toHaveBeenCalledWith(key, token);
+      expect(mockStore.release).not.toHaveBeenCalled();
+    });
+
+    it('should throw LockNotOwnedError when read lock already expired', async () => {
+      // Given
+      mockStore.releaseRead.mockResolvedValue(false);
+
+      // When/Then
+      await expect(readLock.release()).rejects.toThrow(LockNotOwnedError);
+    });
+
+    it('should extend through the read lock store operation', async () => {
+      // Given
+      mockStore.extendRead.mockResolvedValue(true);
+
+      // When
+      await readLock.extend(10000);
+
+      // Then
+      expect(mockStore.extendRead).toHaveBeenCalledWith(key, token, 10000);
+      expect(mockStore.extend).not.toHaveBeenCalled();
+    });
+
+    it('should check ownership through the read lock store operation', async () => {
+      // Given
+      mockStore.isReadHeldBy.mockResolvedValue(true);
+
+      // When
+      const held = await readLock.isHeld();
+
+      // Then
+      expect(held).toBe(true);
+      expect(mockStore.isReadHeldBy).toHaveBeenCalledWith(key, token);
+    });
+  });
+
+  describe('permit mode', () => {
+    let permit: Lock;
+
+    beforeEach(() => {
+      permit = new Lock(key, token, ttl, mockStore, 3, 'permit');
+    });
+
+    it('should release, extend and check through the permit store operations', async () => {
+      // Given
+      mockStore.releasePermit.mockResolvedValue(true);
+      mockStore.extendPermit.mockResolvedValue(true);
+      mockStore.isPermitHeldBy.mockResolvedValue(true);
+
+      // When
+      await permit.extend(5000);
+      const held = await permit.isHeld();
+      await permit.release();
+
+      // Then
+      expect(held).toBe(true);
+      expect(mockStore.extendPermit).toHaveBeenCalledWith(key, token, 5000);
+      expect(mockStore.isPermitHeldBy).toHaveBeenCalledWith(key, token);
+      expect(mockStore.releasePermit).toHaveBeenCalledWith(key, token);
+      expect(mockStore.release).not.toHaveBeenCalled();
+    });
+
+    it('should renew through the permit store operation', async () => {
+      // Given
+      vi.useFakeTimers();
+      mockStore.extendPermit.mockResolvedValue(true);
+      permit.startAutoRenew(1000);
+
+      // When
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Then
+      expect(mockStore.extendPermit).toHaveBeenCalledWith(key, token, ttl);
+      permit.stopAutoRenew();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('reentrant mode', () => {
+    it('should leave and extend through the reentrant store operations', async () => {
+      // Given
+      const reentrant = new Lock(key, token, ttl, mockStore, 2, 'reentrant');
+      mockStore.releaseReentrant.mockResolvedValue(true);
+      mockStore.extendReentrant.mockResolvedValue(true);
+
+      // When
+      await reentrant.extend(5000);
+      await reentrant.release();
+
+      // Then
+      expect(mockStore.extendReentrant).toHaveBeenCalledWith(key, token, 5000);
+      expect(mockStore.extend).not.toHaveBeenCalled();
+      expect(mockStore.releaseReentrant).toHaveBeenCalledWith(key, token);
+      expect(mockStore.release).not.toHaveBeenCalled();
+    });
+  });
 });
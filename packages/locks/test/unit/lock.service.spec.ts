@@ -1,13 +1,16 @@
 import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
 import { LockService } from '../../src/lock/application/services/lock.service';
 import type { ILockStore } from '../../src/lock/application/ports/lock-store.port';
+import type { ILockReleaseListener } from '../../src/lock/application/ports/lock-release-listener.port';
 import type { ILocksPluginOptions } from '../../src/shared/types';
-import { LockAcquisitionError } from '../../src/shared/errors';
+import { LockAcquisitionError, LockError } from '../../src/shared/errors';
 import { Lock } from '../../src/lock/domain/entities/lock.entity';
+import { MultiLock } from '../../src/lock/domain/entities/multi-lock.entity';
 
 describe('LockService', () => {
   let service: LockService;
   let mockStore: MockedObject<ILockStore>;
+  let mockListener: MockedObject<ILockReleaseListener>;
   let config: ILocksPluginOptions;
 
   beforeEach(() => {
@@ -18,8 +21,25 @@ describe('LockService', () => {
       isHeldBy: vi.fn(),
       exists: vi.fn(),
       forceRelease: vi.fn(),
+      acquireRead: vi.fn(),
+      acquireWrite: vi.fn(),
+      cancelWrite: vi.fn().mockResolvedValue(undefined),
+      releaseRead: vi.fn(),
+      extendRead: vi.fn(),
+      isReadHeldBy: vi.fn(),
+      acquireFair: vi.fn(),
+      acquireMany: vi.fn(),
+      releaseMany: vi.fn(),
+      leaveQueue: vi.fn().mockResolvedValue(undefined),
+      acquireReentrant: vi.fn(),
+      extendReentrant: vi.fn(),
+      releaseReentrant: vi.fn(),
     } as unknown as MockedObject<ILockStore>;
 
+    mockListener = {
+      onRelease: vi.fn().mockResolvedValue(vi.fn()),
+    } as unknown as MockedObject<ILockReleaseListener>;
+
     config = {
       keyPrefix: '_lock:',
       defaultTtl: 30000,
@@ -36,14 +56,14 @@ describe('LockService', () => {
       },
     };
 
-    service = new LockService(config, mockStore);
+    service = new LockService(config, mockStore, mockListener);
   });
 
   describe('acquire', () => {
     it('should acquire lock successfully on first attempt', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       const lock = await service.acquire(key);
@@ -54,10 +74,21 @@ describe('LockService', () => {
       expect(mockStore.acquire).toHaveBeenCalledWith('_lock:test-key', expect.any(String), 30000);
     });
 
+    it('should expose the fencing token issued by the store', async () => {
+      // Given
+      mockStore.acquire.mockResolvedValue(42);
+
+      // When
+      const lock = await service.acquire('test-key');
+
+      // Then
+      expect(lock.fencingToken).toBe(42);
+    });
+
     it('should retry on failure and eventually succeed', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      mockStore.acquire.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(1);
 
       // When
       const lock = await service.acquire(key);
@@ -70,7 +101,7 @@ describe('LockService', () => {
     it('should throw LockAcquisitionError after max retries', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When/Then
       try {
@@ -88,7 +119,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const ttl = 60000;
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await service.acquire(key, { ttl });
@@ -101,7 +132,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const ttl = 500000; // Greater than maxTtl
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await service.acquire(key, { ttl });
@@ -117,7 +148,7 @@ describe('LockService', () => {
     it('should use custom retry configuration', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When/Then
       try {
@@ -135,7 +166,7 @@ describe('LockService', () => {
     it('should stop immediately when waitTimeout is shorter than the first retry delay', async () => {
       // Given - initialDelay is 100ms, waitTimeout is 50ms
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When/Then
       await expect(service.acquire(key, { waitTimeout: 50 })).rejects.toThrow(LockAcquisitionError);
@@ -148,7 +179,7 @@ describe('LockService', () => {
     it('should stop retrying once the waitTimeout budget is exhausted', async () => {
       // Given - maxRetries (3) would allow 4 attempts, but waitTimeout cuts it short
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When/Then
       await expect(service.acquire(key, { waitTimeout: 150 })).rejects.toThrow(LockAcquisitionError);
@@ -161,7 +192,7 @@ describe('LockService', () => {
     it('should ignore waitTimeout when the lock is acquired in time', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       const lock = await service.acquire(key, { waitTimeout: 50 });
@@ -174,7 +205,7 @@ describe('LockService', () => {
     it('should start auto-renewal when enabled', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.extend.mockResolvedValue(true);
 
       // When
@@ -187,7 +218,7 @@ describe('LockService', () => {
     it('should not start auto-renewal when disabled', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       const lock = await service.acquire(key, { autoRenew: false });
@@ -201,7 +232,7 @@ describe('LockService', () => {
     it('should acquire lock without retry', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       const lock = await service.tryAcquire(key);
@@ -214,7 +245,7 @@ describe('LockService', () => {
     it('should return null immediately on failure', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When
       const lock = await service.tryAcquire(key);
@@ -228,7 +259,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const ttl = 60000;
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await service.tryAcquire(key, { ttl });
@@ -243,7 +274,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const fn = vi.fn().mockResolvedValue('result');
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockResolvedValue(true);
 
       // When
@@ -261,7 +292,7 @@ describe('LockService', () => {
       const key = 'test-key';
       const error = new Error('Function error');
       const fn = vi.fn().mockRejectedValue(error);
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockResolvedValue(true);
 
       // When/Then
@@ -279,7 +310,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const fn = vi.fn().mockResolvedValue('result');
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockRejectedValue(new Error('Release error'));
 
       // When
@@ -293,7 +324,7 @@ describe('LockService', () => {
       // Given
       const key = 'test-key';
       const fn = vi.fn();
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
 
       // When/Then
       try {
@@ -307,6 +338,445 @@ describe('LockService', () => {
     });
   });
 
+  describe('read/write locks', () => {
+    it('should acquire read lock through the store', async () => {
+      // Given
+      mockStore.acquireRead.mockResolvedValue(3);
+
+      // When
+      const lock = await service.acquireRead('pricing', { autoRenew: false });
+
+      // Then
+      expect(lock.mode).toBe('read');
+      expect(lock.fencingToken).toBe(3);
+      expect(mockStore.acquireRead).toHaveBeenCalledWith('_lock:pricing', expect.any(String), 30000);
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should acquire write lock through the store', async () => {
+      // Given
+      mockStore.acquireWrite.mockResolvedValue(4);
+
+      // When
+      const lock = await service.acquireWrite('pricing', { autoRenew: false });
+
+      // Then
+      expect(lock.mode).toBe('write');
+      expect(mockStore.acquireWrite).toHaveBeenCalledWith('_lock:pricing', expect.any(String), 30000);
+      expect(mockStore.cancelWrite).not.toHaveBeenCalled();
+    });
+
+    it('should retry write lock with the same token while readers are active', async () => {
+      // Given
+      mockStore.acquireWrite.mockResolvedValueOnce(null).mockResolvedValueOnce(5);
+
+      // When
+      await service.acquireWrite('pricing', { autoRenew: false, retry: { initialDelay: 1 } });
+
+      // Then
+      expect(mockStore.acquireWrite).toHaveBeenCalledTimes(2);
+      expect(mockStore.acquireWrite.mock.calls[0]![1]).toBe(mockStore.acquireWrite.mock.calls[1]![1]);
+    });
+
+    it('should withdraw the waiting writer when write lock acquisition gives up', async () => {
+      // Given
+      mockStore.acquireWrite.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquireWrite('pricing', { retry: { maxRetries: 0 } })).rejects.toThrow(LockAcquisitionError);
+      const token = mockStore.acquireWrite.mock.calls[0]![1];
+      expect(mockStore.cancelWrite).toHaveBeenCalledWith('_lock:pricing', token);
+    });
+
+    it('should still throw LockAcquisitionError when withdrawing the writer fails', async () => {
+      // Given
+      mockStore.acquireWrite.mockResolvedValue(null);
+      mockStore.cancelWrite.mockRejectedValue(new Error('Connection lost'));
+
+      // When/Then
+      await expect(service.acquireWrite('pricing', { retry: { maxRetries: 0 } })).rejects.toThrow(LockAcquisitionError);
+    });
+
+    it('should not withdraw anything when read lock acquisition gives up', async () => {
+      // Given
+      mockStore.acquireRead.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquireRead('pricing', { retry: { maxRetries: 0 } })).rejects.toThrow(LockAcquisitionError);
+      expect(mockStore.cancelWrite).not.toHaveBeenCalled();
+    });
+
+    it('should run function holding a read lock and release it', async () => {
+      // Given
+      mockStore.acquireRead.mockResolvedValue(1);
+      mockStore.releaseRead.mockResolvedValue(true);
+
+      // When
+      const result = await service.withReadLock('pricing', async () => 'read', { autoRenew: false });
+
+      // Then
+      expect(result).toBe('read');
+      expect(mockStore.releaseRead).toHaveBeenCalledWith('_lock:pricing', expect.any(String));
+    });
+
+    it('should run function holding a write lock and release it', async () => {
+      // Given
+      mockStore.acquireWrite.mockResolvedValue(1);
+      mockStore.release.mockResolvedValue(true);
+
+      // When
+      const result = await service.withWriteLock('pricing', async () => 'written', { autoRenew: false });
+
+      // Then
+      expect(result).toBe('written');
+      expect(mockStore.release).toHaveBeenCalledWith('_lock:pricing', expect.any(String));
+    });
+  });
+
+  describe('acquireMany', () => {
+    it('should acquire all prefixed keys with one token', async () => {
+      // Given
+      mockStore.acquireMany.mockResolvedValue([4, 9]);
+
+      // When
+      const lock = await service.acquireMany(['account:1', 'account:2'], { autoRenew: false });
+
+      // Then
+      expect(lock).toBeInstanceOf(MultiLock);
+      expect(lock.keys).toEqual(['_lock:account:1', '_lock:account:2']);
+      expect(lock.fencingTokens).toEqual([4, 9]);
+      expect(mockStore.acquireMany).toHaveBeenCalledWith(['_lock:account:1', '_lock:account:2'], expect.any(String), 30000);
+    });
+
+    it('should ignore duplicate keys', async () => {
+      // Given
+      mockStore.acquireMany.mockResolvedValue([1, 2]);
+
+      // When
+      await service.acquireMany(['a', 'b', 'a'], { autoRenew: false });
+
+      // Then
+      expect(mockStore.acquireMany).toHaveBeenCalledWith(['_lock:a', '_lock:b'], expect.any(String), 30000);
+    });
+
+    it('should retry with the same token until all keys are free', async () => {
+      // Given
+      mockStore.acquireMany.mockResolvedValueOnce(null).mockResolvedValueOnce([1, 2]);
+
+      // When
+      await service.acquireMany(['a', 'b'], { autoRenew: false, retry: { initialDelay: 1 } });
+
+      // Then
+      expect(mockStore.acquireMany).toHaveBeenCalledTimes(2);
+      expect(mockStore.acquireMany.mock.calls[0]![1]).toBe(mockStore.acquireMany.mock.calls[1]![1]);
+    });
+
+    it('should throw LockAcquisitionError naming all keys after all retries', async () => {
+      // Given
+      mockStore.acquireMany.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquireMany(['a', 'b'], { retry: { maxRetries: 0 } })).rejects.toThrow('Failed to acquire lock "a,b": timeout');
+    });
+
+    it('should reject an empty key list', async () => {
+      // When/Then
+      await expect(service.acquireMany([])).rejects.toThrow(LockError);
+      expect(mockStore.acquireMany).not.toHaveBeenCalled();
+    });
+
+    it('should start auto-renewal and release all keys on shutdown', async () => {
+      // Given
+      mockStore.acquireMany.mockResolvedValue([1, 2]);
+      mockStore.releaseMany.mockResolvedValue(true);
+      const lock = await service.acquireMany(['a', 'b']);
+
+      // When
+      expect(lock.isAutoRenewing).toBe(true);
+      await service.onModuleDestroy();
+
+      // Then
+      expect(mockStore.releaseMany).toHaveBeenCalledWith(['_lock:a', '_lock:b'], lock.token);
+    });
+  });
+
+  describe('fair mode', () => {
+    beforeEach(() => {
+      config.fair = { enabled: false, waitTimeout: 10000, pollInterval: 1000 };
+    });
+
+    it('should acquire through the wait queue when fair is requested', async () => {
+      // Given
+      mockStore.acquireFair.mockResolvedValue(7);
+
+      // When
+      const lock = await service.acquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(lock.fencingToken).toBe(7);
+      expect(mockStore.acquireFair).toHaveBeenCalledWith('_lock:order', expect.any(String), 30000, 2000);
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+      expect(mockStore.leaveQueue).not.toHaveBeenCalled();
+    });
+
+    it('should use fair mode by default when enabled in plugin options', async () => {
+      // Given
+      config.fair!.enabled = true;
+      mockStore.acquireFair.mockResolvedValue(1);
+
+      // When
+      await service.acquire('order', { autoRenew: false });
+
+      // Then
+      expect(mockStore.acquireFair).toHaveBeenCalled();
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should take a free lock with a fair tryAcquire when no one is queued', async () => {
+      // Given
+      mockStore.acquireFair.mockResolvedValue(4);
+
+      // When
+      const lock = await service.tryAcquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(lock?.fencingToken).toBe(4);
+      expect(mockStore.acquireFair).toHaveBeenCalledWith('_lock:order', expect.any(String), 30000, 2000);
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+      expect(mockStore.leaveQueue).not.toHaveBeenCalled();
+    });
+
+    it('should not let a fair tryAcquire jump the queue', async () => {
+      // Given — others are waiting, so the attempt is not first in line
+      config.fair!.enabled = true;
+      mockStore.acquireFair.mockResolvedValue(null);
+
+      // When
+      const lock = await service.tryAcquire('order');
+
+      // Then
+      expect(lock).toBeNull();
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+      expect(mockStore.leaveQueue).toHaveBeenCalledWith('_lock:order', mockStore.acquireFair.mock.calls[0]![1]);
+    });
+
+    it('should keep read and write locks out of the wait queue', async () => {
+      // Given
+      config.fair!.enabled = true;
+      mockStore.acquireRead.mockResolvedValue(1);
+
+      // When
+      await service.acquireRead('order', { autoRenew: false });
+
+      // Then
+      expect(mockStore.acquireFair).not.toHaveBeenCalled();
+    });
+
+    it('should retry with the same token when woken by a release', async () => {
+      // Given
+      let notify: () => void = () => undefined;
+      mockListener.onRelease.mockImplementation(async (_key, callback) => {
+        notify = callback;
+        return vi.fn();
+      });
+      mockStore.acquireFair.mockImplementationOnce(async () => {
+        setTimeout(() => notify(), 5);
+        return null;
+      });
+      mockStore.acquireFair.mockResolvedValueOnce(2);
+      const start = Date.now();
+
+      // When
+      await service.acquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(mockStore.acquireFair).toHaveBeenCalledTimes(2);
+      expect(mockStore.acquireFair.mock.calls[0]![1]).toBe(mockStore.acquireFair.mock.calls[1]![1]);
+      expect(mockListener.onRelease).toHaveBeenCalledWith('_lock:order', expect.any(Function));
+    });
+
+    it('should retry right away when a release arrives during an attempt', async () => {
+      // Given
+      let notify: () => void = () => undefined;
+      mockListener.onRelease.mockImplementation(async (_key, callback) => {
+        notify = callback;
+        return vi.fn();
+      });
+      mockStore.acquireFair.mockImplementationOnce(async () => {
+        notify();
+        return null;
+      });
+      mockStore.acquireFair.mockResolvedValueOnce(2);
+      const start = Date.now();
+
+      // When
+      await service.acquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(Date.now() - start).toBeLessThan(500);
+      expect(mockStore.acquireFair).toHaveBeenCalledTimes(2);
+    });
+
+    it('should poll when no release notification arrives', async () => {
+      // Given
+      config.fair!.pollInterval = 10;
+      mockStore.acquireFair.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(3);
+
+      // When
+      const lock = await service.acquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(lock.fencingToken).toBe(3);
+      expect(mockStore.acquireFair).toHaveBeenCalledWith('_lock:order', expect.any(String), 30000, 20);
+    });
+
+    it('should leave the queue and throw once waitTimeout runs out', async () => {
+      // Given
+      const unregister = vi.fn();
+      mockListener.onRelease.mockResolvedValue(unregister);
+      config.fair!.pollInterval = 10;
+      mockStore.acquireFair.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquire('order', { fair: true, waitTimeout: 30 })).rejects.toThrow(LockAcquisitionError);
+      const token = mockStore.acquireFair.mock.calls[0]![1];
+      expect(mockStore.leaveQueue).toHaveBeenCalledWith('_lock:order', token);
+      expect(unregister).toHaveBeenCalled();
+    });
+
+    it('should fall back to fair.waitTimeout when no waitTimeout is given', async () => {
+      // Given
+      config.fair = { waitTimeout: 20, pollInterval: 5 };
+      mockStore.acquireFair.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquire('order', { fair: true })).rejects.toThrow(LockAcquisitionError);
+      expect(mockStore.leaveQueue).toHaveBeenCalled();
+    });
+
+    it('should leave the queue when the store fails', async () => {
+      // Given
+      const error = new Error('Connection lost');
+      mockStore.acquireFair.mockRejectedValue(error);
+
+      // When/Then
+      await expect(service.acquire('order', { fair: true })).rejects.toBe(error);
+      expect(mockStore.leaveQueue).toHaveBeenCalled();
+    });
+
+    it('should poll when release notifications are unavailable', async () => {
+      // Given
+      config.fair!.pollInterval = 5;
+      mockListener.onRelease.mockRejectedValue(new Error('Subscribe failed'));
+      mockStore.acquireFair.mockResolvedValueOnce(null).mockResolvedValueOnce(4);
+
+      // When
+      const lock = await service.acquire('order', { fair: true, autoRenew: false });
+
+      // Then
+      expect(lock.fencingToken).toBe(4);
+    });
+  });
+
+  describe('reentrant mode', () => {
+    it('should acquire as a reentrant lock when requested', async () => {
+      // Given
+      mockStore.acquireReentrant.mockResolvedValue(5);
+
+      // When
+      const lock = await service.acquire('order', { reentrant: true, autoRenew: false });
+
+      // Then
+      expect(lock.mode).toBe('reentrant');
+      expect(lock.fencingToken).toBe(5);
+      expect(mockStore.acquireReentrant).toHaveBeenCalledWith('_lock:order', lock.token, 30000);
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should use reentrant mode by default when enabled in plugin options', async () => {
+      // Given
+      config.reentrant = { enabled: true };
+      mockStore.acquireReentrant.mockResolvedValue(1);
+
+      // When
+      const lock = await service.tryAcquire('order', { autoRenew: false });
+
+      // Then
+      expect(lock?.mode).toBe('reentrant');
+      expect(mockStore.acquire).not.toHaveBeenCalled();
+    });
+
+    it('should not wait in line even when fair mode is enabled', async () => {
+      // Given
+      config.fair = { enabled: true };
+      mockStore.acquireReentrant.mockResolvedValue(1);
+
+      // When
+      await service.acquire('order', { reentrant: true, autoRenew: false });
+
+      // Then
+      expect(mockStore.acquireFair).not.toHaveBeenCalled();
+      expect(mockListener.onRelease).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the owner token for nested acquisitions inside withLock', async () => {
+      // Given
+      mockStore.acquireReentrant.mockResolvedValue(3);
+      mockStore.releaseReentrant.mockResolvedValue(true);
+
+      // When
+      let inner: string | undefined;
+      await service.withLock(
+        'order',
+        async () => {
+          const nested = await service.acquire('order', { reentrant: true, autoRenew: false });
+          inner = nested.token;
+          await nested.release();
+        },
+        { reentrant: true, autoRenew: false },
+      );
+
+      // Then
+      const outer = mockStore.acquireReentrant.mock.calls[0]![1];
+      expect(inner).toBe(outer);
+      expect(mockStore.releaseReentrant).toHaveBeenCalledTimes(2);
+      expect(mockStore.releaseReentrant).toHaveBeenCalledWith('_lock:order', outer);
+    });
+
+    it('should use a new token outside the owner context', async () => {
+      // Given
+      mockStore.acquireReentrant.mockResolvedValue(1);
+
+      // When
+      const first = await service.acquire('order', { reentrant: true, autoRenew: false });
+      const second = await service.acquire('order', { reentrant: true, autoRenew: false });
+
+      // Then
+      expect(second.token).not.toBe(first.token);
+    });
+
+    it('should not share the owner with non-reentrant locks', async () => {
+      // Given
+      mockStore.acquire.mockResolvedValue(1);
+      mockStore.release.mockResolvedValue(true);
+      mockStore.acquireReentrant.mockResolvedValue(2);
+
+      // When
+      let nestedToken: string | undefined;
+      await service.withLock(
+        'order',
+        async () => {
+          nestedToken = (await service.acquire('order', { reentrant: true, autoRenew: false })).token;
+        },
+        { autoRenew: false },
+      );
+
+      // Then
+      expect(nestedToken).not.toBe(mockStore.acquire.mock.calls[0]![1]);
+    });
+  });
+
   describe('isLocked', () => {
     it('should return true when lock exists', async () => {
       // Given
@@ -364,7 +834,7 @@ describe('LockService', () => {
   describe('onModuleDestroy', () => {
     it('should release all active locks on shutdown', async () => {
       // Given
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockResolvedValue(true);
 
       await service.acquire('key1');
@@ -380,7 +850,7 @@ describe('LockService', () => {
 
     it('should continue shutdown even if release fails', async () => {
       // Given
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockRejectedValueOnce(new Error('Release error 1')).mockResolvedValueOnce(true).mockRejectedValueOnce(new Error('Release error 2'));
 
       await service.acquire('key1');
@@ -396,7 +866,7 @@ describe('LockService', () => {
 
     it('should clear active locks after shutdown', async () => {
       // Given
-      mockStore.acquire.mockResolvedValue(true);
+      mockStore.acquire.mockResolvedValue(1);
       mockStore.release.mockResolvedValue(true);
 
       await service.acquire('key1');
@@ -412,8 +882,8 @@ describe('LockService', () => {
   describe('configuration', () => {
     it('should use default key prefix when not configured', async () => {
       // Given
-      const serviceWithDefaults = new LockService({}, mockStore);
-      mockStore.acquire.mockResolvedValue(true);
+      const serviceWithDefaults = new LockService({}, mockStore, mockListener);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await serviceWithDefaults.acquire('test-key');
@@ -424,8 +894,8 @@ describe('LockService', () => {
 
     it('should use custom key prefix', async () => {
       // Given
-      const customService = new LockService({ keyPrefix: 'custom:' }, mockStore);
-      mockStore.acquire.mockResolvedValue(true);
+      const customService = new LockService({ keyPrefix: 'custom:' }, mockStore, mockListener);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await customService.acquire('test-key');
@@ -436,8 +906,8 @@ describe('LockService', () => {
 
     it('should use default TTL when not configured', async () => {
       // Given
-      const serviceWithDefaults = new LockService({}, mockStore);
-      mockStore.acquire.mockResolvedValue(true);
+      const serviceWithDefaults = new LockService({}, mockStore, mockListener);
+      mockStore.acquire.mockResolvedValue(1);
 
       // When
       await serviceWithDefaults.acquire('test-key');
@@ -455,7 +925,7 @@ describe('LockService', () => {
     it('should use exponential backoff', async () => {
       // Given
       const key = 'test-key';
-      mockStore.acquire.mockResolvedValue(false);
+      mockStore.acquire.mockResolvedValue(null);
       const sleepSpy = vi.spyOn(service as any, 'sleep');
 
       // When/Then
@@ -484,8 +954,8 @@ describe('LockService', () => {
           multiplier: 2,
         },
       };
-      const customService = new LockService(customConfig, mockStore);
-      mockStore.acquire.mockResolvedValue(false);
+      const customService = new LockService(customConfig, mockStore, mockListener);
+      mockStore.acquire.mockResolvedValue(null);
       const sleepSpy = vi.spyOn(customService as any, 'sleep');
 
       // When/Then
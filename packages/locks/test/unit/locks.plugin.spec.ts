@@ -1,10 +1,15 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { LocksPlugin } from '../../src/locks.plugin';
 import { version } from '../../package.json';
-import { LOCKS_PLUGIN_OPTIONS, LOCK_SERVICE, LOCK_STORE, LOCK_REDIS_DRIVER } from '../../src/shared/constants';
+import { LOCKS_PLUGIN_OPTIONS, LOCK_SERVICE, LOCK_STORE, LOCK_REDIS_DRIVER, LOCK_RELEASE_LISTENER, SEMAPHORE_SERVICE, LEADER_ELECTION_SERVICE } from '../../src/shared/constants';
 import { LockService } from '../../src/lock/application/services/lock.service';
+import { LeaderElectionService } from '../../src/lock/application/services/leader-election.service';
+import { LeaderElectionDiscovery } from '../../src/lock/api/discovery/leader-election.discovery';
 import { RedisLockStoreAdapter } from '../../src/lock/infrastructure/adapters/redis-lock-store.adapter';
+import { RedisLockReleaseListenerAdapter } from '../../src/lock/infrastructure/adapters/redis-lock-release-listener.adapter';
+import { RedlockStoreAdapter } from '../../src/lock/infrastructure/adapters/redlock-store.adapter';
 import { CLIENT_MANAGER, REDIS_CLIENTS_INITIALIZATION } from '@nestjs-redisx/core';
+import { DiscoveryModule } from '@nestjs/core';
 import type { ILocksPluginOptions } from '../../src/shared/types';
 
 describe('LocksPlugin', () => {
@@ -59,6 +64,22 @@ describe('LocksPlugin', () => {
           enabled: true,
           intervalFraction: 0.5,
         },
+        fair: {
+          enabled: false,
+          waitTimeout: 10000,
+          pollInterval: 1000,
+          channel: '_lock:released',
+        },
+        redlock: {
+          driftFactor: 0.01,
+        },
+        reentrant: {
+          enabled: false,
+        },
+        leaderElection: {
+          ttl: 15000,
+          retryInterval: 5000,
+        },
       });
     });
 
@@ -185,6 +206,45 @@ describe('LocksPlugin', () => {
           enabled: false,
           intervalFraction: 0.5,
         },
+        fair: {
+          enabled: false,
+          waitTimeout: 10000,
+          pollInterval: 1000,
+          channel: '_lock:released',
+        },
+        redlock: {
+          driftFactor: 0.01,
+        },
+        reentrant: {
+          enabled: false,
+        },
+        leaderElection: {
+          ttl: 15000,
+          retryInterval: 5000,
+        },
+      });
+    });
+
+    it('should merge fair options with defaults', () => {
+      // Given
+      const options: ILocksPluginOptions = {
+        fair: {
+          enabled: true,
+          pollInterval: 250,
+        },
+      };
+      const plugin = new LocksPlugin(options);
+
+      // When
+      const providers = plugin.getProviders();
+      const configProvider = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCKS_PLUGIN_OPTIONS);
+
+      // Then
+      expect((configProvider as any).useValue.fair).toEqual({
+        enabled: true, // Overridden
+        waitTimeout: 10000, // Default
+        pollInterval: 250, // Overridden
+        channel: '_lock:released', // Default
       });
     });
   });
@@ -214,7 +274,52 @@ describe('LocksPlugin', () => {
       const storeProvider = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_STORE);
       expect(storeProvider).toBeDefined();
       expect((storeProvider as any).provide).toBe(LOCK_STORE);
-      expect((storeProvider as any).useClass).toBe(RedisLockStoreAdapter);
+      expect((storeProvider as any).inject).toEqual([LOCK_REDIS_DRIVER, CLIENT_MANAGER, LOCKS_PLUGIN_OPTIONS]);
+    });
+
+    it('should build a single-node store when no clients are listed', async () => {
+      // Given
+      const plugin = new LocksPlugin();
+      const storeProvider = plugin.getProviders().find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_STORE);
+      const mockManager = { getClient: vi.fn() };
+
+      // When
+      const store = await (storeProvider as any).useFactory({}, mockManager, {});
+
+      // Then
+      expect(store).toBeInstanceOf(RedisLockStoreAdapter);
+      expect(mockManager.getClient).not.toHaveBeenCalled();
+    });
+
+    it('should build a Redlock store over every listed client', async () => {
+      // Given
+      const plugin = new LocksPlugin();
+      const storeProvider = plugin.getProviders().find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_STORE);
+      const mockManager = { getClient: vi.fn().mockResolvedValue({}) };
+
+      // When
+      const store = await (storeProvider as any).useFactory({}, mockManager, { clients: ['a', 'b', 'c'] });
+
+      // Then
+      expect(store).toBeInstanceOf(RedlockStoreAdapter);
+      expect(mockManager.getClient.mock.calls).toEqual([['a'], ['b'], ['c']]);
+    });
+
+    it('should reject fair or reentrant locks combined with Redlock clients', () => {
+      // When / Then
+      expect(() => new LocksPlugin({ clients: ['a', 'b', 'c'], fair: { enabled: true } })).toThrow('LocksPlugin: fair locks are not supported in Redlock mode');
+      expect(() => new LocksPlugin({ clients: ['a', 'b', 'c'], reentrant: { enabled: true } })).toThrow('LocksPlugin: reentrant locks are not supported in Redlock mode');
+      expect(() => new LocksPlugin({ clients: ['a', 'b', 'c'], fair: { enabled: false }, reentrant: { enabled: false } })).not.toThrow();
+      expect(() => new LocksPlugin({ client: 'a', fair: { enabled: true }, reentrant: { enabled: true } })).not.toThrow();
+    });
+
+    it('should reject fair locks combined with Redlock clients from registerAsync', async () => {
+      // Given
+      const plugin = LocksPlugin.registerAsync({ useFactory: () => ({ clients: ['a', 'b', 'c'], fair: { enabled: true } }), inject: [] });
+      const optionsProvider = plugin.getProviders().find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCKS_PLUGIN_OPTIONS);
+
+      // When / Then
+      await expect((optionsProvider as any).useFactory()).rejects.toThrow('LocksPlugin: fair locks are not supported in Redlock mode');
     });
 
     it('should return lock service provider', () => {
@@ -231,7 +336,7 @@ describe('LocksPlugin', () => {
       expect((serviceProvider as any).useClass).toBe(LockService);
     });
 
-    it('should return exactly 5 providers', () => {
+    it('should return lock release listener provider', () => {
       // Given
       const plugin = new LocksPlugin();
 
@@ -239,8 +344,34 @@ describe('LocksPlugin', () => {
       const providers = plugin.getProviders();
 
       // Then
-      // 3 config/store/service + driver + Reflector + LockDecoratorInitializerService
-      expect(providers).toHaveLength(6);
+      const listenerProvider = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_RELEASE_LISTENER);
+      expect(listenerProvider).toBeDefined();
+      expect((listenerProvider as any).useClass).toBe(RedisLockReleaseListenerAdapter);
+    });
+
+    it('should provide leader election service and @OnLeader/@OnFollower discovery', () => {
+      // Given
+      const plugin = new LocksPlugin();
+
+      // When
+      const providers = plugin.getProviders();
+
+      // Then
+      const serviceProvider = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === LEADER_ELECTION_SERVICE);
+      expect((serviceProvider as any).useClass).toBe(LeaderElectionService);
+      expect(providers).toContain(LeaderElectionDiscovery);
+    });
+
+    it('should return exactly 10 providers', () => {
+      // Given
+      const plugin = new LocksPlugin();
+
+      // When
+      const providers = plugin.getProviders();
+
+      // Then
+      // config/store/release listener/lock/semaphore/leader election services + driver + Reflector + LockDecoratorInitializerService + LeaderElectionDiscovery
+      expect(providers).toHaveLength(10);
     });
   });
 
@@ -256,7 +387,18 @@ describe('LocksPlugin', () => {
       expect(exports).toContain(LOCK_SERVICE);
     });
 
-    it('should export exactly 1 item', () => {
+    it('should export semaphore service', () => {
+      // Given
+      const plugin = new LocksPlugin();
+
+      // When
+      const exports = plugin.getExports();
+
+      // Then
+      expect(exports).toContain(SEMAPHORE_SERVICE);
+    });
+
+    it('should export leader election service', () => {
       // Given
       const plugin = new LocksPlugin();
 
@@ -264,7 +406,18 @@ describe('LocksPlugin', () => {
       const exports = plugin.getExports();
 
       // Then
-      expect(exports).toHaveLength(1);
+      expect(exports).toContain(LEADER_ELECTION_SERVICE);
+    });
+
+    it('should export exactly 3 items', () => {
+      // Given
+      const plugin = new LocksPlugin();
+
+      // When
+      const exports = plugin.getExports();
+
+      // Then
+      expect(exports).toHaveLength(3);
     });
   });
 
@@ -382,6 +535,37 @@ describe('LocksPlugin', () => {
       // When/Then
       await expect(factory(mockManager, undefined, { client: 'nonexistent' })).rejects.toThrow('LocksPlugin: Redis client "nonexistent" not found');
     });
+
+    it('should resolve the first of clients when client option not specified', async () => {
+      // Given
+      const plugin = new LocksPlugin({ clients: ['redis-a', 'redis-b', 'redis-c'] });
+      const providers = plugin.getProviders();
+      const driverProvider = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_REDIS_DRIVER);
+      const mockManager = { getClient: vi.fn().mockResolvedValue({}) };
+
+      // When
+      await (driverProvider as any).useFactory(mockManager, undefined, { clients: ['redis-a', 'redis-b', 'redis-c'] });
+
+      // Then
+      expect(mockManager.getClient).toHaveBeenCalledWith('redis-a');
+    });
+
+    it('should throw descriptive error when one of clients is invalid', async () => {
+      // Given
+      const plugin = new LocksPlugin({ clients: ['redis-a', 'nonexistent'] });
+      const storeProvider = plugin.getProviders().find((p) => typeof p === 'object' && 'provide' in p && p.provide === LOCK_STORE);
+      const mockManager = {
+        getClient: vi.fn().mockImplementation(async (name: string) => {
+          if (name === 'nonexistent') {
+            throw new Error('Client not found');
+          }
+          return {};
+        }),
+      };
+
+      // When/Then
+      await expect((storeProvider as any).useFactory({}, mockManager, { clients: ['redis-a', 'nonexistent'] })).rejects.toThrow('LocksPlugin: Redis client "nonexistent" not found');
+    });
   });
 
   describe('registerAsync', () => {
@@ -391,15 +575,15 @@ describe('LocksPlugin', () => {
       expect(plugin.name).toBe('locks');
     });
 
-    it('should return imports from async options', () => {
+    it('should return imports from async options after DiscoveryModule', () => {
       class ConfigModule {}
       const plugin = LocksPlugin.registerAsync({ imports: [ConfigModule], useFactory: () => ({}), inject: [] } as any);
-      expect(plugin.getImports!()).toEqual([ConfigModule]);
+      expect(plugin.getImports!()).toEqual([DiscoveryModule, ConfigModule]);
     });
 
-    it('should return empty imports when no async options', () => {
+    it('should import only DiscoveryModule when no async options', () => {
       const plugin = new LocksPlugin();
-      expect(plugin.getImports!()).toEqual([]);
+      expect(plugin.getImports!()).toEqual([DiscoveryModule]);
     });
 
     it('should return async provider with useFactory', async () => {
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi, afterEach, type MockedObject } from 'vitest';
+import { MultiLock } from '../../src/lock/domain/entities/multi-lock.entity';
+import type { ILockStore } from '../../src/lock/application/ports/lock-store.port';
+import { LockNotOwnedError, LockExtensionError } from '../../src/shared/errors';
+
+describe('MultiLock Entity', () => {
+  let lock: MultiLock;
+  let mockStore: MockedObject<ILockStore>;
+  const keys = ['_lock:account:1', '_lock:account:2'];
+  const token = 'unique-token-123';
+  const ttl = 30000;
+
+  beforeEach(() => {
+    mockStore = {
+      release: vi.fn(),
+      extend: vi.fn(),
+      isHeldBy: vi.fn(),
+      releaseMany: vi.fn(),
+      extendMany: vi.fn(),
+      isManyHeldBy: vi.fn(),
+    } as unknown as MockedObject<ILockStore>;
+
+    lock = new MultiLock(keys, token, ttl, mockStore, [7, 12]);
+  });
+
+  afterEach(() => {
+    lock.stopAutoRenew();
+    vi.useRealTimers();
+  });
+
+  describe('constructor', () => {
+    it('should expose every key and its fencing token', () => {
+      // Then
+      expect(lock.keys).toEqual(keys);
+      expect(lock.fencingTokens).toEqual([7, 12]);
+      expect(lock.fencingToken).toBe(7);
+      expect(lock.key).toBe('_lock:account:1,_lock:account:2');
+      expect(lock.mode).toBe('exclusive');
+    });
+  });
+
+  describe('release', () => {
+    it('should release all keys at once', async () => {
+      // Given
+      mockStore.releaseMany.mockResolvedValue(true);
+
+      // When
+      await lock.release();
+
+      // Then
+      expect(mockStore.releaseMany).toHaveBeenCalledWith(keys, token);
+      expect(mockStore.release).not.toHaveBeenCalled();
+    });
+
+    it('should throw LockNotOwnedError when any key was lost', async () => {
+      // Given
+      mockStore.releaseMany.mockResolvedValue(false);
+
+      // When/Then
+      await expect(lock.release()).rejects.toThrow(LockNotOwnedError);
+    });
+  });
+
+  describe('extend', () => {
+    it('should extend all keys at once', async () => {
+      // Given
+      mockStore.extendMany.mockResolvedValue(true);
+
+      // When
+      await lock.extend(10000);
+
+      // Then
+      expect(mockStore.extendMany).toHaveBeenCalledWith(keys, token, 10000);
+      expect(mockStore.extend).not.toHaveBeenCalled();
+    });
+
+    it('should throw LockExtensionError when any key was lost', async () => {
+      // Given
+      mockStore.extendMany.mockResolvedValue(false);
+
+      // When/Then
+      await expect(lock.extend(10000)).rejects.toThrow(LockExtensionError);
+    });
+
+    it('should auto-renew all keys', async () => {
+      // Given
+      vi.useFakeTimers();
+      mockStore.extendMany.mockResolvedValue(true);
+      lock.startAutoRenew(1000);
+
+      // When
+      await vi.advanceTimersByTimeAsync(1000);
+
+      // Then
+      expect(mockStore.extendMany).toHaveBeenCalledWith(keys, token, ttl);
+    });
+  });
+
+  describe('isHeld', () => {
+    it('should check ownership of all keys', async () => {
+      // Given
+      mockStore.isManyHeldBy.mockResolvedValue(true);
+
+      // When
+      const held = await lock.isHeld();
+
+      // Then
+      expect(held).toBe(true);
+      expect(mockStore.isManyHeldBy).toHaveBeenCalledWith(keys, token);
+    });
+  });
+});
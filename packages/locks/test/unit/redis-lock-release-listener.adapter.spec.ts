@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { DriverEvent, type IRedisDriver, type RedisClientManager } from '@nestjs-redisx/core';
+
+import { RedisLockReleaseListenerAdapter } from '../../src/lock/infrastructure/adapters/redis-lock-release-listener.adapter';
+import type { ILocksPluginOptions } from '../../src/shared/types';
+
+describe('RedisLockReleaseListenerAdapter', () => {
+  let subscriber: MockedObject<IRedisDriver>;
+  let manager: MockedObject<RedisClientManager>;
+  let onMessage: (channel: string, message: string) => void;
+
+  const options: ILocksPluginOptions = { client: 'locks', fair: { channel: 'test:released' } };
+
+  beforeEach(() => {
+    subscriber = {
+      on: vi.fn().mockImplementation((event: DriverEvent, handler: (...args: unknown[]) => void) => {
+        if (event === DriverEvent.MESSAGE) {
+          onMessage = handler as (channel: string, message: string) => void;
+        }
+      }),
+      subscribe: vi.fn().mockResolvedValue(undefined),
+      unsubscribe: vi.fn().mockResolvedValue(undefined),
+    } as unknown as MockedObject<IRedisDriver>;
+
+    manager = {
+      hasClient: vi.fn().mockReturnValue(false),
+      getMetadata: vi.fn().mockReturnValue({ config: { host: 'localhost' }, driverType: 'ioredis' }),
+      createClient: vi.fn().mockResolvedValue(subscriber),
+      getClient: vi.fn().mockResolvedValue(subscriber),
+    } as unknown as MockedObject<RedisClientManager>;
+  });
+
+  describe('onRelease', () => {
+    it('subscribes on a dedicated connection cloned from the locks client on first use', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+
+      // When
+      await listener.onRelease('_lock:a', vi.fn());
+      await listener.onRelease('_lock:b', vi.fn());
+
+      // Then
+      expect(manager.getMetadata).toHaveBeenCalledWith('locks');
+      expect(manager.createClient).toHaveBeenCalledWith('locks:locks-release', { host: 'localhost' }, { driverType: 'ioredis' });
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledWith('test:released');
+    });
+
+    it('reuses an existing subscriber connection', async () => {
+      // Given
+      manager.hasClient.mockReturnValue(true);
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+
+      // When
+      await listener.onRelease('_lock:a', vi.fn());
+
+      // Then
+      expect(manager.createClient).not.toHaveBeenCalled();
+      expect(manager.getClient).toHaveBeenCalledWith('locks:locks-release');
+    });
+
+    it('calls back waiters of the released key only', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+      const first = vi.fn();
+      const second = vi.fn();
+      const other = vi.fn();
+      await listener.onRelease('_lock:a', first);
+      await listener.onRelease('_lock:a', second);
+      await listener.onRelease('_lock:b', other);
+
+      // When
+      onMessage('test:released', '_lock:a');
+
+      // Then
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(other).not.toHaveBeenCalled();
+    });
+
+    it('ignores messages on other channels', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+      const callback = vi.fn();
+      await listener.onRelease('_lock:a', callback);
+
+      // When
+      onMessage('other', '_lock:a');
+
+      // Then
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('stops calling back after unregister', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+      const callback = vi.fn();
+      const unregister = await listener.onRelease('_lock:a', callback);
+
+      // When
+      unregister();
+      onMessage('test:released', '_lock:a');
+
+      // Then
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it('rejects and retries the subscription on next use when subscribing fails', async () => {
+      // Given
+      subscriber.subscribe.mockRejectedValueOnce(new Error('Connection refused'));
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+
+      // When/Then
+      await expect(listener.onRelease('_lock:a', vi.fn())).rejects.toThrow('Connection refused');
+      await expect(listener.onRelease('_lock:a', vi.fn())).resolves.toBeTypeOf('function');
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it('defaults to the "_lock:released" channel', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, {});
+
+      // When
+      await listener.onRelease('_lock:a', vi.fn());
+
+      // Then
+      expect(manager.getMetadata).toHaveBeenCalledWith('default');
+      expect(subscriber.subscribe).toHaveBeenCalledWith('_lock:released');
+    });
+  });
+
+  describe('onModuleDestroy', () => {
+    it('unsubscribes when subscribed', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+      await listener.onRelease('_lock:a', vi.fn());
+
+      // When
+      await listener.onModuleDestroy();
+
+      // Then
+      expect(subscriber.unsubscribe).toHaveBeenCalledWith('test:released');
+    });
+
+    it('does nothing when never subscribed', async () => {
+      // Given
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+
+      // When
+      await listener.onModuleDestroy();
+
+      // Then
+      expect(manager.getClient).not.toHaveBeenCalled();
+      expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+    });
+
+    it('swallows unsubscribe errors', async () => {
+      // Given
+      subscriber.unsubscribe.mockRejectedValue(new Error('Connection lost'));
+      const listener = new RedisLockReleaseListenerAdapter(manager, options);
+      await listener.onRelease('_lock:a', vi.fn());
+
+      // When/Then
+      await expect(listener.onModuleDestroy()).resolves.toBeUndefined();
+    });
+  });
+});
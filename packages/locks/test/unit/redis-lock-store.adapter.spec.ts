@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
 import type { IRedisDriver } from '@nestjs-redisx/core';
-import { RedisLockStoreAdapter } from '../../src/lock/infrastructure/adapters/redis-lock-store.adapter';
+import { RedisLockStoreAdapter, fencingKey, relatedKey } from '../../src/lock/infrastructure/adapters/redis-lock-store.adapter';
+import { EXTEND_REENTRANT_LOCK_SCRIPT } from '../../src/lock/infrastructure/scripts/lua-scripts';
 
 describe('RedisLockStoreAdapter', () => {
   let adapter: RedisLockStoreAdapter;
@@ -10,32 +11,39 @@ describe('RedisLockStoreAdapter', () => {
     mockDriver = {
       set: vi.fn(),
       get: vi.fn(),
+      mget: vi.fn(),
       del: vi.fn(),
       exists: vi.fn(),
+      zrem: vi.fn(),
+      zscore: vi.fn(),
+      zrangebyscore: vi.fn(),
       scriptLoad: vi.fn(),
       evalsha: vi.fn(),
+      publish: vi.fn().mockResolvedValue(1),
     } as unknown as MockedObject<IRedisDriver>;
 
-    adapter = new RedisLockStoreAdapter(mockDriver);
+    adapter = new RedisLockStoreAdapter(mockDriver, { fair: { channel: '_lock:released' } });
   });
 
   describe('onModuleInit', () => {
     it('should load Lua scripts on initialization', async () => {
       // Given
-      mockDriver.scriptLoad.mockResolvedValueOnce('release-sha').mockResolvedValueOnce('extend-sha');
+      mockDriver.scriptLoad.mockResolvedValueOnce('acquire-sha').mockResolvedValueOnce('release-sha').mockResolvedValueOnce('extend-sha');
 
       // When
       await adapter.onModuleInit();
 
       // Then
-      expect(mockDriver.scriptLoad).toHaveBeenCalledTimes(2);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledTimes(16);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('incr'));
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('get'));
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('pexpire'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('zremrangebyscore'));
     });
 
     it('should cache script SHA hashes', async () => {
       // Given
-      mockDriver.scriptLoad.mockResolvedValueOnce('release-sha').mockResolvedValueOnce('extend-sha');
+      mockDriver.scriptLoad.mockResolvedValueOnce('acquire-sha').mockResolvedValueOnce('release-sha').mockResolvedValueOnce('extend-sha');
 
       await adapter.onModuleInit();
 
@@ -44,55 +52,68 @@ describe('RedisLockStoreAdapter', () => {
       await adapter.release('key', 'token');
 
       // Then
-      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key'], ['token']);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key', '{key}:queue'], ['token']);
     });
   });
 
   describe('acquire', () => {
-    it('should acquire lock successfully', async () => {
+    it('should acquire lock and return the fencing token', async () => {
       // Given
-      const key = 'test-lock';
-      const token = 'unique-token';
-      const ttl = 30000;
-      mockDriver.set.mockResolvedValue('OK');
+      mockDriver.scriptLoad.mockResolvedValue('acquire-sha');
+      await adapter.onModuleInit();
+      mockDriver.evalsha.mockResolvedValue(7);
 
       // When
-      const result = await adapter.acquire(key, token, ttl);
+      const result = await adapter.acquire('test-lock', 'unique-token', 30000);
 
       // Then
-      expect(result).toBe(true);
-      expect(mockDriver.set).toHaveBeenCalledWith(key, token, {
-        nx: true,
-        px: ttl,
-      });
+      expect(result).toBe(7);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('acquire-sha', ['test-lock', '{test-lock}:fencing'], ['unique-token', 30000]);
     });
 
-    it('should fail when lock already exists', async () => {
+    it('should return null when lock already exists', async () => {
       // Given
-      const key = 'test-lock';
-      const token = 'unique-token';
-      const ttl = 30000;
-      mockDriver.set.mockResolvedValue(null);
+      mockDriver.scriptLoad.mockResolvedValue('acquire-sha');
+      await adapter.onModuleInit();
+      mockDriver.evalsha.mockResolvedValue(0);
 
       // When
-      const result = await adapter.acquire(key, token, ttl);
+      const result = await adapter.acquire('test-lock', 'unique-token', 30000);
 
       // Then
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
-    it('should use correct Redis options', async () => {
+    it('should load script if not initialized', async () => {
       // Given
-      mockDriver.set.mockResolvedValue('OK');
+      mockDriver.scriptLoad.mockResolvedValue('acquire-sha');
+      mockDriver.evalsha.mockResolvedValue(1);
 
       // When
-      await adapter.acquire('key', 'token', 5000);
+      const result = await adapter.acquire('key', 'token', 5000);
 
       // Then
-      expect(mockDriver.set).toHaveBeenCalledWith('key', 'token', {
-        nx: true,
-        px: 5000,
-      });
+      expect(result).toBe(1);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('NX'));
+    });
+  });
+
+  describe('fencingKey', () => {
+    it('should wrap an untagged lock key so the counter shares its slot', () => {
+      expect(fencingKey('_lock:order:1')).toBe('{_lock:order:1}:fencing');
+    });
+
+    it('should reuse an existing hash tag', () => {
+      expect(fencingKey('_lock:{order:1}:ship')).toBe('_lock:{order:1}:ship:fencing');
+    });
+
+    it('should not wrap keys with a stray closing brace', () => {
+      expect(fencingKey('_lock:a}b')).toBe('_lock:a}b:fencing');
+    });
+
+    it('should build other helper keys the same way', () => {
+      expect(relatedKey('_lock:order:1', 'readers')).toBe('{_lock:order:1}:readers');
+      expect(relatedKey('_lock:{order:1}', 'writers')).toBe('_lock:{order:1}:writers');
     });
   });
 
@@ -109,7 +130,7 @@ describe('RedisLockStoreAdapter', () => {
 
       // Then
       expect(result).toBe(true);
-      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key'], ['token']);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key', '{key}:queue'], ['token']);
     });
 
     it('should return false when lock not owned', async () => {
@@ -126,6 +147,46 @@ describe('RedisLockStoreAdapter', () => {
       expect(result).toBe(false);
     });
 
+    it('should wake fair waiters when some are queued', async () => {
+      // Given
+      mockDriver.scriptLoad.mockResolvedValue('release-sha');
+      await adapter.onModuleInit();
+
+      mockDriver.evalsha.mockResolvedValue(2);
+
+      // When
+      const result = await adapter.release('key', 'token');
+
+      // Then
+      expect(result).toBe(true);
+      expect(mockDriver.publish).toHaveBeenCalledWith('_lock:released', 'key');
+    });
+
+    it('should not publish when nobody is queued', async () => {
+      // Given
+      mockDriver.scriptLoad.mockResolvedValue('release-sha');
+      mockDriver.evalsha.mockResolvedValue(1);
+
+      // When
+      await adapter.release('key', 'token');
+
+      // Then
+      expect(mockDriver.publish).not.toHaveBeenCalled();
+    });
+
+    it('should still report the release when the notification fails', async () => {
+      // Given
+      mockDriver.scriptLoad.mockResolvedValue('release-sha');
+      mockDriver.evalsha.mockResolvedValue(2);
+      mockDriver.publish.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      const result = await adapter.release('key', 'token');
+
+      // Then
+      expect(result).toBe(true);
+    });
+
     it('should load script if not initialized', async () => {
       // Given
       mockDriver.scriptLoad.mockResolvedValue('release-sha');
@@ -137,7 +198,7 @@ describe('RedisLockStoreAdapter', () => {
       // Then
       expect(result).toBe(true);
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('get'));
-      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key'], ['token']);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('release-sha', ['key', '{key}:queue'], ['token']);
     });
   });
 
@@ -263,6 +324,20 @@ describe('RedisLockStoreAdapter', () => {
     });
   });
 
+  describe('getHolder', () => {
+    it('should return the token stored under the lock key', async () => {
+      // Given
+      mockDriver.get.mockResolvedValue('holder-token');
+
+      // When
+      const result = await adapter.getHolder('test-lock');
+
+      // Then
+      expect(result).toBe('holder-token');
+      expect(mockDriver.get).toHaveBeenCalledWith('test-lock');
+    });
+  });
+
   describe('forceRelease', () => {
     it('should delete lock and return true', async () => {
       // Given
@@ -287,4 +362,392 @@ describe('RedisLockStoreAdapter', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('read/write locks', () => {
+    const now = 1_700_000_000_000;
+    const rwKeys = ['pricing', '{pricing}:readers', '{pricing}:writers', '{pricing}:fencing'];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      mockDriver.scriptLoad.mockResolvedValue('sha');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should acquire read lock with the current time and return the fencing token', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(4);
+
+      // When
+      const result = await adapter.acquireRead('pricing', 'reader', 30000);
+
+      // Then
+      expect(result).toBe(4);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('zadd'));
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', rwKeys, ['reader', 30000, now]);
+    });
+
+    it('should return null when read lock is blocked by a writer', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When
+      const result = await adapter.acquireRead('pricing', 'reader', 30000);
+
+      // Then
+      expect(result).toBeNull();
+    });
+
+    it('should acquire write lock over the same keys', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(5);
+
+      // When
+      const result = await adapter.acquireWrite('pricing', 'writer', 30000);
+
+      // Then
+      expect(result).toBe(5);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', rwKeys, ['writer', 30000, now]);
+    });
+
+    it('should return null when write lock is held or readers are active', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When
+      const result = await adapter.acquireWrite('pricing', 'writer', 30000);
+
+      // Then
+      expect(result).toBeNull();
+    });
+
+    it('should remove a waiting writer on cancel', async () => {
+      // When
+      await adapter.cancelWrite('pricing', 'writer');
+
+      // Then
+      expect(mockDriver.zrem).toHaveBeenCalledWith('{pricing}:writers', 'writer');
+    });
+
+    it('should release read lock by token', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // When / Then
+      await expect(adapter.releaseRead('pricing', 'reader')).resolves.toBe(true);
+      await expect(adapter.releaseRead('pricing', 'reader')).resolves.toBe(false);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{pricing}:readers'], ['reader', now]);
+    });
+
+    it('should extend read lock by token', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // When / Then
+      await expect(adapter.extendRead('pricing', 'reader', 10000)).resolves.toBe(true);
+      await expect(adapter.extendRead('pricing', 'reader', 10000)).resolves.toBe(false);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{pricing}:readers'], ['reader', 10000, now]);
+    });
+
+    it('should report read lock as held only until its expiry', async () => {
+      // Given
+      mockDriver.zscore
+        .mockResolvedValueOnce(String(now + 1))
+        .mockResolvedValueOnce(String(now))
+        .mockResolvedValueOnce(null);
+
+      // When / Then
+      await expect(adapter.isReadHeldBy('pricing', 'reader')).resolves.toBe(true);
+      await expect(adapter.isReadHeldBy('pricing', 'reader')).resolves.toBe(false);
+      await expect(adapter.isReadHeldBy('pricing', 'reader')).resolves.toBe(false);
+      expect(mockDriver.zscore).toHaveBeenCalledWith('{pricing}:readers', 'reader');
+    });
+  });
+
+  describe('multi-key locks', () => {
+    beforeEach(() => {
+      mockDriver.scriptLoad.mockResolvedValue('sha');
+    });
+
+    it('should acquire all keys in one script and return their fencing tokens', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([3, 9]);
+
+      // When
+      const result = await adapter.acquireMany(['a', 'b'], 'token', 30000);
+
+      // Then
+      expect(result).toEqual([3, 9]);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['a', 'b', '{a}:fencing', '{b}:fencing'], ['token', 30000, 2]);
+    });
+
+    it('should return null when any key is held', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([]);
+
+      // When
+      const result = await adapter.acquireMany(['a', 'b'], 'token', 30000);
+
+      // Then
+      expect(result).toBeNull();
+    });
+
+    it('should release all keys and wake fair waiters of each released key', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([2, 1]);
+
+      // When
+      const result = await adapter.releaseMany(['a', 'b'], 'token');
+
+      // Then
+      expect(result).toBe(true);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['a', 'b', '{a}:queue', '{b}:queue'], ['token', 2]);
+      expect(mockDriver.publish).toHaveBeenCalledTimes(1);
+      expect(mockDriver.publish).toHaveBeenCalledWith('_lock:released', 'a');
+    });
+
+    it('should report false when any key was not owned', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([1, 0]);
+
+      // When
+      const result = await adapter.releaseMany(['a', 'b'], 'token');
+
+      // Then
+      expect(result).toBe(false);
+    });
+
+    it('should extend all keys or none', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // When / Then
+      await expect(adapter.extendMany(['a', 'b'], 'token', 10000)).resolves.toBe(true);
+      await expect(adapter.extendMany(['a', 'b'], 'token', 10000)).resolves.toBe(false);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['a', 'b'], ['token', 10000]);
+    });
+
+    it('should report held only when every key matches the token', async () => {
+      // Given
+      mockDriver.mget.mockResolvedValueOnce(['token', 'token']).mockResolvedValueOnce(['token', null]);
+
+      // When / Then
+      await expect(adapter.isManyHeldBy(['a', 'b'], 'token')).resolves.toBe(true);
+      await expect(adapter.isManyHeldBy(['a', 'b'], 'token')).resolves.toBe(false);
+      expect(mockDriver.mget).toHaveBeenCalledWith('a', 'b');
+    });
+  });
+
+  describe('reentrant locks', () => {
+    beforeEach(() => {
+      mockDriver.scriptLoad.mockResolvedValue('sha');
+    });
+
+    it('should acquire or enter again with the hold count next to the lock key', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(6);
+
+      // When
+      const result = await adapter.acquireReentrant('order', 'owner', 30000);
+
+      // Then
+      expect(result).toBe(6);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['order', '{order}:holds', '{order}:fencing'], ['owner', 30000]);
+    });
+
+    it('should return null when held by another owner', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When / Then
+      await expect(adapter.acquireReentrant('order', 'owner', 30000)).resolves.toBeNull();
+    });
+
+    it('should extend through the reentrant script, which never shortens the TTL', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(1);
+
+      // When
+      const result = await adapter.extendReentrant('order', 'owner', 5000);
+
+      // Then
+      expect(result).toBe(true);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(EXTEND_REENTRANT_LOCK_SCRIPT);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['order', '{order}:holds'], ['owner', 5000]);
+    });
+
+    it('should report owned while holds remain, without waking waiters', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(3);
+
+      // When
+      const result = await adapter.releaseReentrant('order', 'owner');
+
+      // Then
+      expect(result).toBe(true);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['order', '{order}:holds', '{order}:queue'], ['owner']);
+      expect(mockDriver.publish).not.toHaveBeenCalled();
+    });
+
+    it('should wake fair waiters when the last hold releases the lock', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(2);
+
+      // When
+      const result = await adapter.releaseReentrant('order', 'owner');
+
+      // Then
+      expect(result).toBe(true);
+      expect(mockDriver.publish).toHaveBeenCalledWith('_lock:released', 'order');
+    });
+
+    it('should report false when not owned', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When / Then
+      await expect(adapter.releaseReentrant('order', 'owner')).resolves.toBe(false);
+    });
+  });
+
+  describe('fair acquisition', () => {
+    const now = 1_700_000_000_000;
+    const fairKeys = ['order', '{order}:queue', '{order}:waiters', '{order}:fencing'];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      mockDriver.scriptLoad.mockResolvedValue('sha');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should acquire as head of the queue with a waiter heartbeat', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(4);
+
+      // When
+      const result = await adapter.acquireFair('order', 'waiter', 30000, 2000);
+
+      // Then
+      expect(result).toBe(4);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', fairKeys, ['waiter', 30000, now, now + 2000]);
+    });
+
+    it('should return null while held or not first in line', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When
+      const result = await adapter.acquireFair('order', 'waiter', 30000, 2000);
+
+      // Then
+      expect(result).toBeNull();
+    });
+
+    it('should leave the queue and wake the remaining waiters', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(1);
+
+      // When
+      await adapter.leaveQueue('order', 'waiter');
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{order}:queue', '{order}:waiters'], ['waiter']);
+      expect(mockDriver.publish).toHaveBeenCalledWith('_lock:released', 'order');
+    });
+
+    it('should not publish when the queue is empty after leaving', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When
+      await adapter.leaveQueue('order', 'waiter');
+
+      // Then
+      expect(mockDriver.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('semaphore permits', () => {
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      mockDriver.scriptLoad.mockResolvedValue('sha');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should take a permit against the total and return the fencing token', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(6);
+
+      // When
+      const result = await adapter.acquirePermit('partner-api', 'holder', 30000, 5);
+
+      // Then
+      expect(result).toBe(6);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{partner-api}:permits', '{partner-api}:fencing'], ['holder', 30000, now, 5]);
+    });
+
+    it('should return null when all permits are held', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(0);
+
+      // When
+      const result = await adapter.acquirePermit('partner-api', 'holder', 30000, 5);
+
+      // Then
+      expect(result).toBeNull();
+    });
+
+    it('should release and extend permits in the permit set', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(1);
+
+      // When
+      await adapter.releasePermit('partner-api', 'holder');
+      await adapter.extendPermit('partner-api', 'holder', 10000);
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{partner-api}:permits'], ['holder', now]);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha', ['{partner-api}:permits'], ['holder', 10000, now]);
+    });
+
+    it('should check permit ownership against its expiry', async () => {
+      // Given
+      mockDriver.zscore.mockResolvedValue(String(now + 5));
+
+      // When
+      const held = await adapter.isPermitHeldBy('partner-api', 'holder');
+
+      // Then
+      expect(held).toBe(true);
+      expect(mockDriver.zscore).toHaveBeenCalledWith('{partner-api}:permits', 'holder');
+    });
+
+    it('should list unexpired holders with their expiry', async () => {
+      // Given
+      mockDriver.zrangebyscore.mockResolvedValue(['a', String(now + 1000), 'b', String(now + 2000)]);
+
+      // When
+      const holders = await adapter.getPermitHolders('partner-api');
+
+      // Then
+      expect(holders).toEqual([
+        { token: 'a', expiresAt: new Date(now + 1000) },
+        { token: 'b', expiresAt: new Date(now + 2000) },
+      ]);
+      expect(mockDriver.zrangebyscore).toHaveBeenCalledWith('{partner-api}:permits', `(${now}`, '+inf', true);
+    });
+  });
 });
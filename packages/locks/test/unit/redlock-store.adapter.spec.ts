@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
+import { ErrorCode } from '@nestjs-redisx/core';
+import { RedlockStoreAdapter } from '../../src/lock/infrastructure/adapters/redlock-store.adapter';
+import type { ILockStore } from '../../src/lock/application/ports/lock-store.port';
+import { LockError } from '../../src/shared/errors';
+
+function createNode(): MockedObject<ILockStore & { onModuleInit: () => Promise<void> }> {
+  return {
+    onModuleInit: vi.fn().mockResolvedValue(undefined),
+    acquire: vi.fn().mockResolvedValue(1),
+    release: vi.fn().mockResolvedValue(true),
+    extend: vi.fn().mockResolvedValue(true),
+    exists: vi.fn().mockResolvedValue(true),
+    isHeldBy: vi.fn().mockResolvedValue(true),
+    getHolder: vi.fn().mockResolvedValue('token'),
+    forceRelease: vi.fn().mockResolvedValue(true),
+    acquireMany: vi.fn().mockResolvedValue([1, 1]),
+    releaseMany: vi.fn().mockResolvedValue(true),
+    extendMany: vi.fn().mockResolvedValue(true),
+    isManyHeldBy: vi.fn().mockResolvedValue(true),
+  } as unknown as MockedObject<ILockStore & { onModuleInit: () => Promise<void> }>;
+}
+
+describe('RedlockStoreAdapter', () => {
+  let nodes: ReturnType<typeof createNode>[];
+  let adapter: RedlockStoreAdapter;
+
+  beforeEach(() => {
+    nodes = [createNode(), createNode(), createNode()];
+    adapter = new RedlockStoreAdapter(nodes, { redlock: { driftFactor: 0.01 } });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('onModuleInit', () => {
+    it('should load scripts on every node', async () => {
+      // When
+      await adapter.onModuleInit();
+
+      // Then
+      for (const node of nodes) {
+        expect(node.onModuleInit).toHaveBeenCalledTimes(1);
+      }
+    });
+  });
+
+  describe('acquire', () => {
+    it('should acquire on all nodes and return the highest fencing token', async () => {
+      // Given
+      nodes[0]!.acquire.mockResolvedValue(4);
+      nodes[1]!.acquire.mockResolvedValue(7);
+      nodes[2]!.acquire.mockResolvedValue(5);
+
+      // When
+      const fencingToken = await adapter.acquire('_lock:a', 'token', 30000);
+
+      // Then
+      expect(fencingToken).toBe(7);
+      for (const node of nodes) {
+        expect(node.acquire).toHaveBeenCalledWith('_lock:a', 'token', 30000);
+        expect(node.release).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should succeed on a majority when a node is held or down', async () => {
+      // Given
+      nodes[1]!.acquire.mockResolvedValue(null);
+      nodes[2]!.acquire.mockRejectedValue(new Error('Connection refused'));
+      nodes[0]!.acquire.mockResolvedValue(3);
+      const fiveNodes = [nodes[0]!, createNode(), createNode(), nodes[1]!, nodes[2]!];
+      adapter = new RedlockStoreAdapter(fiveNodes, {});
+
+      // When
+      const fencingToken = await adapter.acquire('_lock:a', 'token', 30000);
+
+      // Then
+      expect(fencingToken).toBe(3);
+    });
+
+    it('should fail and release on every node without a majority', async () => {
+      // Given
+      nodes[1]!.acquire.mockResolvedValue(null);
+      nodes[2]!.acquire.mockRejectedValue(new Error('Connection refused'));
+
+      // When
+      const fencingToken = await adapter.acquire('_lock:a', 'token', 30000);
+
+      // Then
+      expect(fencingToken).toBeNull();
+      for (const node of nodes) {
+        expect(node.release).toHaveBeenCalledWith('_lock:a', 'token');
+      }
+    });
+
+    it('should fail when acquisition used up the validity window', async () => {
+      // Given
+      vi.useFakeTimers();
+      for (const node of nodes) {
+        node.acquire.mockImplementation(async () => {
+          vi.advanceTimersByTime(950);
+          return 1;
+        });
+      }
+
+      // When
+      const fencingToken = await adapter.acquire('_lock:a', 'token', 1000);
+
+      // Then
+      expect(fencingToken).toBeNull();
+      expect(nodes[0]!.release).toHaveBeenCalledWith('_lock:a', 'token');
+    });
+
+    it('should account for clock drift in the validity window', async () => {
+      // Given
+      vi.useFakeTimers();
+      nodes[0]!.acquire.mockImplementation(async () => {
+        vi.advanceTimersByTime(900);
+        return 1;
+      });
+      adapter = new RedlockStoreAdapter(nodes, { redlock: { driftFactor: 0.1 } });
+
+      // When
+      const fencingToken = await adapter.acquire('_lock:a', 'token', 1000);
+
+      // Then
+      expect(fencingToken).toBeNull();
+    });
+  });
+
+  describe('release', () => {
+    it('should release on all nodes and succeed on a majority', async () => {
+      // Given
+      nodes[2]!.release.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      const released = await adapter.release('_lock:a', 'token');
+
+      // Then
+      expect(released).toBe(true);
+      for (const node of nodes) {
+        expect(node.release).toHaveBeenCalledWith('_lock:a', 'token');
+      }
+    });
+
+    it('should fail when a majority did not hold the lock', async () => {
+      // Given
+      nodes[0]!.release.mockResolvedValue(false);
+      nodes[1]!.release.mockResolvedValue(false);
+
+      // When/Then
+      await expect(adapter.release('_lock:a', 'token')).resolves.toBe(false);
+    });
+  });
+
+  describe('extend', () => {
+    it('should require a majority', async () => {
+      // Given
+      nodes[0]!.extend.mockResolvedValue(false);
+      nodes[1]!.extend.mockResolvedValue(false);
+
+      // When
+      const extended = await adapter.extend('_lock:a', 'token', 30000);
+
+      // Then
+      expect(extended).toBe(false);
+      expect(nodes[2]!.extend).toHaveBeenCalledWith('_lock:a', 'token', 30000);
+    });
+  });
+
+  describe('isHeldBy', () => {
+    it('should require a majority', async () => {
+      // Given
+      nodes[0]!.isHeldBy.mockResolvedValue(false);
+
+      // When/Then
+      await expect(adapter.isHeldBy('_lock:a', 'token')).resolves.toBe(true);
+    });
+  });
+
+  describe('getHolder', () => {
+    it('should return the holder found on a majority of nodes', async () => {
+      // Given
+      nodes[0]!.getHolder.mockResolvedValue('stale');
+      nodes[2]!.getHolder.mockRejectedValue(new Error('Connection lost'));
+      adapter = new RedlockStoreAdapter([...nodes, createNode(), createNode()], {});
+
+      // When/Then
+      await expect(adapter.getHolder('_lock:a')).resolves.toBe('token');
+    });
+
+    it('should return null without a majority holder', async () => {
+      // Given
+      nodes[0]!.getHolder.mockResolvedValue('other');
+      nodes[1]!.getHolder.mockResolvedValue(null);
+
+      // When/Then
+      await expect(adapter.getHolder('_lock:a')).resolves.toBeNull();
+    });
+  });
+
+  describe('forceRelease', () => {
+    it('should succeed when any node released the lock', async () => {
+      // Given
+      nodes[0]!.forceRelease.mockResolvedValue(false);
+      nodes[1]!.forceRelease.mockResolvedValue(false);
+
+      // When/Then
+      await expect(adapter.forceRelease('_lock:a')).resolves.toBe(true);
+      expect(nodes[2]!.forceRelease).toHaveBeenCalledWith('_lock:a');
+    });
+  });
+
+  describe('multi-key locks', () => {
+    it('should return the highest fencing token per key', async () => {
+      // Given
+      nodes[0]!.acquireMany.mockResolvedValue([3, 9]);
+      nodes[1]!.acquireMany.mockResolvedValue([5, 2]);
+      nodes[2]!.acquireMany.mockResolvedValue(null);
+
+      // When
+      const fencingTokens = await adapter.acquireMany(['_lock:a', '_lock:b'], 'token', 30000);
+
+      // Then
+      expect(fencingTokens).toEqual([5, 9]);
+    });
+
+    it('should release all keys on every node without a majority', async () => {
+      // Given
+      nodes[0]!.acquireMany.mockResolvedValue(null);
+      nodes[1]!.acquireMany.mockResolvedValue(null);
+
+      // When
+      const fencingTokens = await adapter.acquireMany(['_lock:a', '_lock:b'], 'token', 30000);
+
+      // Then
+      expect(fencingTokens).toBeNull();
+      for (const node of nodes) {
+        expect(node.releaseMany).toHaveBeenCalledWith(['_lock:a', '_lock:b'], 'token');
+      }
+    });
+  });
+
+  describe('unsupported operations', () => {
+    it.each([
+      ['acquireRead', () => adapter.acquireRead('_lock:a', 'token', 30000)],
+      ['acquirePermit', () => adapter.acquirePermit('_lock:a', 'token', 30000, 3)],
+      ['acquireFair', () => adapter.acquireFair('_lock:a', 'token', 30000, 2000)],
+      ['acquireReentrant', () => adapter.acquireReentrant('_lock:a', 'token', 30000)],
+      ['extendReentrant', () => adapter.extendReentrant('_lock:a', 'token', 30000)],
+    ])('should reject %s', async (_name, operation) => {
+      // When/Then
+      await expect(operation()).rejects.toThrow(LockError);
+      await expect(operation()).rejects.toMatchObject({ code: ErrorCode.OP_NOT_SUPPORTED, lockKey: '_lock:a' });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { SemaphoreService } from '../../src/lock/application/services/semaphore.service';
+import type { ILockStore } from '../../src/lock/application/ports/lock-store.port';
+import type { ILocksPluginOptions } from '../../src/shared/types';
+import { LockAcquisitionError, LockError } from '../../src/shared/errors';
+import { Lock } from '../../src/lock/domain/entities/lock.entity';
+
+describe('SemaphoreService', () => {
+  let service: SemaphoreService;
+  let mockStore: MockedObject<ILockStore>;
+  let config: ILocksPluginOptions;
+
+  beforeEach(() => {
+    mockStore = {
+      acquirePermit: vi.fn(),
+      releasePermit: vi.fn(),
+      extendPermit: vi.fn(),
+      isPermitHeldBy: vi.fn(),
+      getPermitHolders: vi.fn(),
+    } as unknown as MockedObject<ILockStore>;
+
+    config = {
+      keyPrefix: '_lock:',
+      defaultTtl: 30000,
+      maxTtl: 300000,
+      autoRenew: { enabled: false },
+      retry: { maxRetries: 3, initialDelay: 1, maxDelay: 10, multiplier: 2 },
+    };
+
+    service = new SemaphoreService(config, mockStore);
+  });
+
+  describe('tryAcquire', () => {
+    it('should take a permit and return it as a lock in permit mode', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(8);
+
+      // When
+      const permit = await service.tryAcquire('partner-api', 5);
+
+      // Then
+      expect(permit).toBeInstanceOf(Lock);
+      expect(permit?.mode).toBe('permit');
+      expect(permit?.key).toBe('_lock:partner-api');
+      expect(permit?.fencingToken).toBe(8);
+      expect(mockStore.acquirePermit).toHaveBeenCalledWith('_lock:partner-api', expect.any(String), 30000, 5);
+    });
+
+    it('should return null when all permits are held', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(null);
+
+      // When
+      const permit = await service.tryAcquire('partner-api', 5);
+
+      // Then
+      expect(permit).toBeNull();
+    });
+
+    it('should cap TTL at maxTtl', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+
+      // When
+      await service.tryAcquire('partner-api', 5, { ttl: 999999 });
+
+      // Then
+      expect(mockStore.acquirePermit).toHaveBeenCalledWith('_lock:partner-api', expect.any(String), 300000, 5);
+    });
+
+    it('should start auto-renewal when enabled', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+
+      // When
+      const permit = await service.tryAcquire('partner-api', 5, { autoRenew: true });
+
+      // Then
+      expect(permit?.isAutoRenewing).toBe(true);
+      permit?.stopAutoRenew();
+    });
+
+    it.each([0, -1, 1.5, NaN])('should reject %s permits', async (permits) => {
+      // When/Then
+      await expect(service.tryAcquire('partner-api', permits)).rejects.toThrow(LockError);
+      expect(mockStore.acquirePermit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acquire', () => {
+    it('should retry until a permit frees up', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockResolvedValueOnce(3);
+
+      // When
+      const permit = await service.acquire('partner-api', 2);
+
+      // Then
+      expect(permit.fencingToken).toBe(3);
+      expect(mockStore.acquirePermit).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw LockAcquisitionError after all retries', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquire('partner-api', 2)).rejects.toThrow(LockAcquisitionError);
+      expect(mockStore.acquirePermit).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop retrying when waitTimeout would be exceeded', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(null);
+
+      // When/Then
+      await expect(service.acquire('partner-api', 2, { waitTimeout: 1, retry: { maxRetries: 10 } })).rejects.toThrow(LockAcquisitionError);
+      expect(mockStore.acquirePermit).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('withPermit', () => {
+    it('should run function and return the permit', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+      mockStore.releasePermit.mockResolvedValue(true);
+
+      // When
+      const result = await service.withPermit('partner-api', 5, async () => 'called');
+
+      // Then
+      expect(result).toBe('called');
+      expect(mockStore.releasePermit).toHaveBeenCalledWith('_lock:partner-api', expect.any(String));
+    });
+
+    it('should return the permit even if function throws', async () => {
+      // Given
+      const error = new Error('Partner down');
+      mockStore.acquirePermit.mockResolvedValue(1);
+      mockStore.releasePermit.mockResolvedValue(true);
+
+      // When/Then
+      await expect(service.withPermit('partner-api', 5, () => Promise.reject(error))).rejects.toBe(error);
+      expect(mockStore.releasePermit).toHaveBeenCalled();
+    });
+
+    it('should not fail when returning the permit fails', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+      mockStore.releasePermit.mockResolvedValue(false);
+
+      // When
+      const result = await service.withPermit('partner-api', 5, async () => 'called');
+
+      // Then
+      expect(result).toBe('called');
+    });
+  });
+
+  describe('getHolders', () => {
+    it('should list holders of the prefixed key', async () => {
+      // Given
+      const holders = [{ token: 't1', expiresAt: new Date(1000) }];
+      mockStore.getPermitHolders.mockResolvedValue(holders);
+
+      // When
+      const result = await service.getHolders('partner-api');
+
+      // Then
+      expect(result).toBe(holders);
+      expect(mockStore.getPermitHolders).toHaveBeenCalledWith('_lock:partner-api');
+    });
+  });
+
+  describe('onModuleDestroy', () => {
+    it('should return all held permits', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+      mockStore.releasePermit.mockResolvedValue(true);
+      await service.tryAcquire('a', 1);
+      await service.tryAcquire('b', 1);
+
+      // When
+      await service.onModuleDestroy();
+
+      // Then
+      expect(mockStore.releasePermit).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep going when a permit fails to release', async () => {
+      // Given
+      mockStore.acquirePermit.mockResolvedValue(1);
+      mockStore.releasePermit.mockRejectedValueOnce(new Error('Connection lost')).mockResolvedValueOnce(true);
+      await service.tryAcquire('a', 1);
+      await service.tryAcquire('b', 1);
+
+      // When/Then
+      await expect(service.onModuleDestroy()).resolves.toBeUndefined();
+      expect(mockStore.releasePermit).toHaveBeenCalledTimes(2);
+    });
+  });
+});
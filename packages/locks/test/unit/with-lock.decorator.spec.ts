@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Reflector } from '@nestjs/core';
-import { WithLock, WITH_LOCK_OPTIONS, registerLockServiceGetter, type IWithLockOptions } from '../../src/lock/api/decorators/with-lock.decorator';
+import { WithLock, WithReadLock, WithWriteLock, WithLocks, WITH_LOCK_OPTIONS, WITH_READ_LOCK_OPTIONS, WITH_WRITE_LOCK_OPTIONS, WITH_LOCKS_OPTIONS, registerLockServiceGetter, getFencingToken, type IWithLockOptions } from '../../src/lock/api/decorators/with-lock.decorator';
 import { LockAcquisitionError } from '../../src/shared/errors';
+import { getLockOwner } from '../../src/shared/utils/lock-owner.context';
 
 describe('@WithLock Decorator', () => {
   const reflector = new Reflector();
@@ -147,11 +148,11 @@ describe('@WithLock Decorator', () => {
   });
 
   describe('runtime behavior', () => {
-    let mockLock: { release: ReturnType<typeof vi.fn> };
+    let mockLock: { fencingToken: number; release: ReturnType<typeof vi.fn> };
     let mockLockService: { acquire: ReturnType<typeof vi.fn> };
 
     beforeEach(() => {
-      mockLock = { release: vi.fn().mockResolvedValue(undefined) };
+      mockLock = { fencingToken: 7, release: vi.fn().mockResolvedValue(undefined) };
       mockLockService = { acquire: vi.fn().mockResolvedValue(mockLock) };
       registerLockServiceGetter(() => mockLockService);
     });
@@ -392,6 +393,90 @@ describe('@WithLock Decorator', () => {
     });
   });
 
+  describe('fencing token', () => {
+    afterEach(() => {
+      registerLockServiceGetter(null as any);
+    });
+
+    it('should expose the held lock fencing token inside the method', async () => {
+      // Given
+      const tokens: Record<string, number> = { outer: 3, inner: 9 };
+      registerLockServiceGetter(() => ({
+        acquire: vi.fn().mockImplementation(async (key: string) => ({ fencingToken: tokens[key], release: vi.fn().mockResolvedValue(undefined) })),
+      }));
+      class TestService {
+        @WithLock({ key: 'inner' })
+        async inner() {
+          return [getFencingToken(), getFencingToken('outer'), getFencingToken('missing')];
+        }
+
+        @WithLock({ key: 'outer' })
+        async outer() {
+          return this.inner();
+        }
+      }
+
+      // When
+      const result = await new TestService().outer();
+
+      // Then
+      expect(result).toEqual([9, 3, undefined]);
+      expect(getFencingToken()).toBeUndefined();
+    });
+  });
+
+  describe('reentrant', () => {
+    afterEach(() => {
+      registerLockServiceGetter(null as any);
+    });
+
+    it('should run a reentrant lock method as the lock owner', async () => {
+      // Given
+      const ownersAtAcquire: Array<string | undefined> = [];
+      const acquire = vi.fn().mockImplementation(async () => {
+        ownersAtAcquire.push(getLockOwner());
+        return { token: 'owner-1', mode: 'reentrant', fencingToken: 1, release: vi.fn().mockResolvedValue(undefined) };
+      });
+      registerLockServiceGetter(() => ({ acquire }));
+      class TestService {
+        @WithLock({ key: 'order', reentrant: true })
+        async inner() {
+          return getLockOwner();
+        }
+
+        @WithLock({ key: 'order', reentrant: true })
+        async outer() {
+          return this.inner();
+        }
+      }
+
+      // When
+      const owner = await new TestService().outer();
+
+      // Then
+      expect(owner).toBe('owner-1');
+      expect(ownersAtAcquire).toEqual([undefined, 'owner-1']);
+      expect(acquire).toHaveBeenCalledWith('order', expect.objectContaining({ reentrant: true }));
+      expect(getLockOwner()).toBeUndefined();
+    });
+
+    it('should not set an owner for non-reentrant locks', async () => {
+      // Given
+      registerLockServiceGetter(() => ({
+        acquire: vi.fn().mockResolvedValue({ token: 'plain', mode: 'exclusive', fencingToken: 1, release: vi.fn().mockResolvedValue(undefined) }),
+      }));
+      class TestService {
+        @WithLock({ key: 'order' })
+        async work() {
+          return getLockOwner();
+        }
+      }
+
+      // When/Then
+      await expect(new TestService().work()).resolves.toBeUndefined();
+    });
+  });
+
   describe('key patterns', () => {
     it('should support string key', () => {
       // Given
@@ -456,3 +541,168 @@ describe('@WithLock Decorator', () => {
     });
   });
 });
+
+describe('@WithReadLock / @WithWriteLock Decorators', () => {
+  const reflector = new Reflector();
+  let mockLock: { fencingToken: number; release: ReturnType<typeof vi.fn> };
+  let mockLockService: { acquire: ReturnType<typeof vi.fn>; acquireRead: ReturnType<typeof vi.fn>; acquireWrite: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    mockLock = { fencingToken: 11, release: vi.fn().mockResolvedValue(undefined) };
+    mockLockService = {
+      acquire: vi.fn().mockResolvedValue(mockLock),
+      acquireRead: vi.fn().mockResolvedValue(mockLock),
+      acquireWrite: vi.fn().mockResolvedValue(mockLock),
+    };
+    registerLockServiceGetter(() => mockLockService);
+  });
+
+  afterEach(() => {
+    registerLockServiceGetter(null as any);
+  });
+
+  it('should store options under their own metadata keys', () => {
+    // Given
+    class TestClass {
+      @WithReadLock({ key: 'pricing:{0}' })
+      read() {}
+
+      @WithWriteLock({ key: 'pricing:{0}' })
+      write() {}
+    }
+
+    // Then
+    expect(reflector.get(WITH_READ_LOCK_OPTIONS, TestClass.prototype.read)).toEqual({ key: 'pricing:{0}' });
+    expect(reflector.get(WITH_WRITE_LOCK_OPTIONS, TestClass.prototype.write)).toEqual({ key: 'pricing:{0}' });
+    expect(reflector.get(WITH_LOCK_OPTIONS, TestClass.prototype.read)).toBeUndefined();
+  });
+
+  it('should hold a read lock around the method', async () => {
+    // Given
+    class TestService {
+      @WithReadLock({ key: 'pricing:{0}', ttl: 5000 })
+      async getPrice(sku: string) {
+        return `${sku}:${getFencingToken()}`;
+      }
+    }
+
+    // When
+    const result = await new TestService().getPrice('sku-1');
+
+    // Then
+    expect(result).toBe('sku-1:11');
+    expect(mockLockService.acquireRead).toHaveBeenCalledWith('pricing:sku-1', { ttl: 5000, waitTimeout: undefined, autoRenew: undefined });
+    expect(mockLockService.acquire).not.toHaveBeenCalled();
+    expect(mockLock.release).toHaveBeenCalled();
+  });
+
+  it('should hold a write lock around the method', async () => {
+    // Given
+    class TestService {
+      @WithWriteLock({ key: 'pricing:{0}' })
+      async setPrice(sku: string) {
+        return sku;
+      }
+    }
+
+    // When
+    await new TestService().setPrice('sku-1');
+
+    // Then
+    expect(mockLockService.acquireWrite).toHaveBeenCalledWith('pricing:sku-1', expect.any(Object));
+    expect(mockLock.release).toHaveBeenCalled();
+  });
+
+  it('should apply onLockFailed when the lock is not acquired', async () => {
+    // Given
+    mockLockService.acquireWrite.mockRejectedValue(new LockAcquisitionError('pricing', 'timeout'));
+    const method = vi.fn();
+    class TestService {
+      @WithWriteLock({ key: 'pricing', onLockFailed: 'skip' })
+      async setPrice() {
+        return method();
+      }
+    }
+
+    // When
+    const result = await new TestService().setPrice();
+
+    // Then
+    expect(result).toBeUndefined();
+    expect(method).not.toHaveBeenCalled();
+  });
+});
+
+describe('@WithLocks Decorator', () => {
+  const reflector = new Reflector();
+  let mockLock: { fencingToken: number; fencingTokens: number[]; release: ReturnType<typeof vi.fn> };
+  let mockLockService: { acquireMany: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    mockLock = { fencingToken: 5, fencingTokens: [5, 8], release: vi.fn().mockResolvedValue(undefined) };
+    mockLockService = { acquireMany: vi.fn().mockResolvedValue(mockLock) };
+    registerLockServiceGetter(() => mockLockService as any);
+  });
+
+  afterEach(() => {
+    registerLockServiceGetter(null as any);
+  });
+
+  it('should store options under its own metadata key', () => {
+    // Given
+    class TestClass {
+      @WithLocks({ keys: ['account:{0}', 'account:{1}'] })
+      transfer() {}
+    }
+
+    // Then
+    expect(reflector.get(WITH_LOCKS_OPTIONS, TestClass.prototype.transfer)).toEqual({ keys: ['account:{0}', 'account:{1}'] });
+    expect(reflector.get(WITH_LOCK_OPTIONS, TestClass.prototype.transfer)).toBeUndefined();
+  });
+
+  it('should acquire all keys at once and expose each fencing token', async () => {
+    // Given
+    class TestService {
+      @WithLocks({ keys: ['account:{0}', (_from: unknown, to: unknown) => `account:${String(to)}`], ttl: 5000 })
+      async transfer(from: string, to: string) {
+        return [getFencingToken(), getFencingToken(`account:${from}`), getFencingToken(`account:${to}`)];
+      }
+    }
+
+    // When
+    const result = await new TestService().transfer('1', '2');
+
+    // Then
+    expect(result).toEqual([5, 5, 8]);
+    expect(mockLockService.acquireMany).toHaveBeenCalledWith(['account:1', 'account:2'], { ttl: 5000, waitTimeout: undefined, autoRenew: undefined, fair: undefined });
+    expect(mockLock.release).toHaveBeenCalled();
+  });
+
+  it('should drop duplicate keys built from the same arguments', async () => {
+    // Given
+    class TestService {
+      @WithLocks({ keys: ['account:{0}', 'account:{1}'] })
+      async transfer(_from: string, _to: string) {
+        return getFencingToken('account:1');
+      }
+    }
+
+    // When
+    await new TestService().transfer('1', '1');
+
+    // Then
+    expect(mockLockService.acquireMany).toHaveBeenCalledWith(['account:1'], expect.any(Object));
+  });
+
+  it('should pass the joined keys to a custom onLockFailed', async () => {
+    // Given
+    mockLockService.acquireMany.mockRejectedValue(new LockAcquisitionError('account:1,account:2', 'timeout'));
+    class TestService {
+      @WithLocks({ keys: ['account:{0}', 'account:{1}'], onLockFailed: (key) => new Error(`busy: ${key}`) })
+      async transfer(_from: string, _to: string) {}
+    }
+
+    // When/Then
+    await expect(new TestService().transfer('1', '2')).rejects.toThrow('busy: account:1,account:2');
+  });
+});
@@ -9,18 +9,22 @@ export type { IRateLimitService } from './rate-limit/application/ports/rate-limi
 
 // Decorators
 export { RateLimit, type IRateLimitOptions, RATE_LIMIT_OPTIONS, type KeyExtractor } from './rate-limit/api/decorators/rate-limit.decorator';
+export { ConcurrencyLimit, type IConcurrencyLimitOptions, CONCURRENCY_LIMIT_OPTIONS } from './rate-limit/api/decorators/concurrency-limit.decorator';
 
 // Guards
 export { RateLimitGuard } from './rate-limit/api/guards/rate-limit.guard';
 
+// Interceptors
+export { ConcurrencyLimitInterceptor } from './rate-limit/api/interceptors/concurrency-limit.interceptor';
+
 // Filters
 export { RateLimitExceptionFilter } from './rate-limit/api/filters/rate-limit-exception.filter';
 
 // Types
-export type { IRateLimitPluginOptions, RateLimitConfig, RateLimitResult, RateLimitState } from './shared/types';
+export type { IRateLimitPluginOptions, RateLimitConfig, RateLimitResult, RateLimitState, RateLimitAcquireOptions, RateLimitReservation, RateLimitTier, RateLimitTierResult, RateLimitHeaderFormat, RateLimitQuota, QuotaResolver, IRateLimitQuotaOptions, ConcurrencyLimitConfig, ConcurrencyResult, IRateLimitPreAllocationOptions, RateLimitPreAllocationStats, RateLimitPenalty } from './shared/types';
 
 // Errors
-export { RateLimitError, RateLimitExceededError, RateLimitScriptError } from './shared/errors';
+export { RateLimitError, RateLimitExceededError, RateLimitScriptError, InvalidRateLimitConfigError } from './shared/errors';
 
 // Constants
 export { RATE_LIMIT_PLUGIN_OPTIONS, RATE_LIMIT_REDIS_DRIVER, RATE_LIMIT_SERVICE, RATE_LIMIT_STORE } from './shared/constants';
@@ -30,3 +34,5 @@ export type { IRateLimitStrategy, IStrategyConfig } from './rate-limit/domain/st
 export { FixedWindowStrategy } from './rate-limit/domain/strategies/fixed-window.strategy';
 export { SlidingWindowStrategy } from './rate-limit/domain/strategies/sliding-window.strategy';
 export { TokenBucketStrategy } from './rate-limit/domain/strategies/token-bucket.strategy';
+export { LeakyBucketStrategy } from './rate-limit/domain/strategies/leaky-bucket.strategy';
+export { GcraStrategy } from './rate-limit/domain/strategies/gcra.strategy';
@@ -1,6 +1,6 @@
 /**
  * Rate limiting plugin for NestJS RedisX.
- * Provides multiple algorithms: fixed-window, sliding-window, token-bucket.
+ * Provides multiple algorithms: fixed-window, sliding-window, token-bucket, leaky-bucket, GCRA.
  */
 
 import { DynamicModule, ForwardReference, Provider, Type } from '@nestjs/common';
@@ -10,18 +10,20 @@ import { IRedisXPlugin, IPluginAsyncOptions, CLIENT_MANAGER, REDIS_CLIENTS_INITI
 import { version } from '../package.json';
 import { RateLimitExceptionFilter } from './rate-limit/api/filters/rate-limit-exception.filter';
 import { RateLimitGuard } from './rate-limit/api/guards/rate-limit.guard';
+import { ConcurrencyLimitInterceptor } from './rate-limit/api/interceptors/concurrency-limit.interceptor';
 import { RateLimitService } from './rate-limit/application/services/rate-limit.service';
 import { RedisRateLimitStoreAdapter } from './rate-limit/infrastructure/adapters/redis-rate-limit-store.adapter';
 import { RATE_LIMIT_PLUGIN_OPTIONS, RATE_LIMIT_REDIS_DRIVER, RATE_LIMIT_SERVICE, RATE_LIMIT_STORE } from './shared/constants';
 import { IRateLimitPluginOptions } from './shared/types';
 
-const DEFAULT_RATE_LIMIT_CONFIG: Required<Omit<IRateLimitPluginOptions, 'isGlobal' | 'client' | 'skip' | 'errorFactory'>> = {
+const DEFAULT_RATE_LIMIT_CONFIG: Required<Omit<IRateLimitPluginOptions, 'isGlobal' | 'client' | 'quotas' | 'preAllocation' | 'skip' | 'errorFactory'>> = {
   defaultAlgorithm: 'sliding-window',
   defaultPoints: 100,
   defaultDuration: 60,
   keyPrefix: 'rl:',
   defaultKeyExtractor: 'ip',
   includeHeaders: true,
+  headerFormat: 'legacy',
   headers: {
     limit: 'X-RateLimit-Limit',
     remaining: 'X-RateLimit-Remaining',
@@ -64,7 +66,7 @@ const DEFAULT_RATE_LIMIT_CONFIG: Required<Omit<IRateLimitPluginOptions, 'isGloba
 export class RateLimitPlugin implements IRedisXPlugin {
   readonly name = 'rate-limit';
   readonly version: string = version;
-  readonly description = 'Rate limiting with fixed-window, sliding-window, and token-bucket algorithms';
+  readonly description = 'Rate limiting with fixed-window, sliding-window, token-bucket, leaky-bucket, and GCRA algorithms';
 
   private asyncOptions?: IPluginAsyncOptions<IRateLimitPluginOptions>;
 
@@ -85,10 +87,13 @@ export class RateLimitPlugin implements IRedisXPlugin {
       keyPrefix: options.keyPrefix ?? DEFAULT_RATE_LIMIT_CONFIG.keyPrefix,
       defaultKeyExtractor: options.defaultKeyExtractor ?? DEFAULT_RATE_LIMIT_CONFIG.defaultKeyExtractor,
       includeHeaders: options.includeHeaders ?? DEFAULT_RATE_LIMIT_CONFIG.includeHeaders,
+      headerFormat: options.headerFormat ?? DEFAULT_RATE_LIMIT_CONFIG.headerFormat,
       headers: { ...DEFAULT_RATE_LIMIT_CONFIG.headers, ...options.headers },
       errorPolicy: options.errorPolicy ?? DEFAULT_RATE_LIMIT_CONFIG.errorPolicy,
       trustProxy: options.trustProxy ?? DEFAULT_RATE_LIMIT_CONFIG.trustProxy,
       registerExceptionFilter: options.registerExceptionFilter ?? DEFAULT_RATE_LIMIT_CONFIG.registerExceptionFilter,
+      quotas: options.quotas,
+      preAllocation: options.preAllocation,
       skip: options.skip,
       errorFactory: options.errorFactory,
     };
@@ -130,10 +135,11 @@ export class RateLimitPlugin implements IRedisXPlugin {
       },
       { provide: RATE_LIMIT_STORE, useClass: RedisRateLimitStoreAdapter },
       { provide: RATE_LIMIT_SERVICE, useClass: RateLimitService },
-      // Reflector is needed for @RateLimit decorator metadata
+      // Reflector is needed for @RateLimit / @ConcurrencyLimit decorator metadata
       Reflector,
       // Guard must be in providers for proper DI
       RateLimitGuard,
+      ConcurrencyLimitInterceptor,
     ];
 
     // Global exception filter (429 for exceeded, 503 for store failure).
@@ -148,6 +154,6 @@ export class RateLimitPlugin implements IRedisXPlugin {
   }
 
   getExports(): Array<string | symbol | Provider> {
-    return [RATE_LIMIT_PLUGIN_OPTIONS, RATE_LIMIT_SERVICE, RateLimitGuard];
+    return [RATE_LIMIT_PLUGIN_OPTIONS, RATE_LIMIT_SERVICE, RateLimitGuard, ConcurrencyLimitInterceptor];
   }
 }
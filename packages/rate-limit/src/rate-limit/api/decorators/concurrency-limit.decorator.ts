@@ -0,0 +1,62 @@
+import { SetMetadata, UseInterceptors, applyDecorators, ExecutionContext } from '@nestjs/common';
+
+import { IConcurrencyLimitConfig, KeyExtractor } from '../../../shared/types';
+import { ConcurrencyLimitInterceptor } from '../interceptors/concurrency-limit.interceptor';
+
+/**
+ * Metadata key for concurrency limit options.
+ */
+export const CONCURRENCY_LIMIT_OPTIONS = Symbol.for('CONCURRENCY_LIMIT_OPTIONS');
+
+/**
+ * Concurrency limit options for decorator.
+ */
+export interface IConcurrencyLimitOptions extends IConcurrencyLimitConfig {
+  /**
+   * Concurrency key or key extractor function.
+   * If not provided: uses default key extractor from module config
+   *
+   * @example
+   * ```typescript
+   * @ConcurrencyLimit({ max: 5, key: 'reports' })
+   * @ConcurrencyLimit({ max: 2, key: (ctx) => `export:${ctx.switchToHttp().getRequest().user.id}` })
+   * ```
+   */
+  key?: string | KeyExtractor;
+
+  /**
+   * Skip condition function.
+   * If returns true, no slot is taken.
+   */
+  skip?: (context: ExecutionContext) => boolean | Promise<boolean>;
+
+  /**
+   * Custom error message.
+   */
+  message?: string;
+}
+
+/**
+ * Concurrency limit decorator.
+ * Caps the requests in flight at once; excess requests are rejected with 429.
+ * Can be applied to methods or classes.
+ *
+ * @param options - Concurrency limit options
+ * @returns Decorator function
+ *
+ * @example
+ * ```typescript
+ * @Controller('reports')
+ * export class ReportsController {
+ *   // At most 2 exports running per user, on all instances
+ *   @Post('export')
+ *   @ConcurrencyLimit({ max: 2, key: 'user' })
+ *   export() {
+ *     return this.reports.export();
+ *   }
+ * }
+ * ```
+ */
+export function ConcurrencyLimit(options: IConcurrencyLimitOptions): MethodDecorator & ClassDecorator {
+  return applyDecorators(SetMetadata(CONCURRENCY_LIMIT_OPTIONS, options), UseInterceptors(ConcurrencyLimitInterceptor)) as MethodDecorator & ClassDecorator;
+}
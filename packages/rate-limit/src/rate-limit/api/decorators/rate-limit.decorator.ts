@@ -1,6 +1,6 @@
 import { SetMetadata, UseGuards, applyDecorators, ExecutionContext } from '@nestjs/common';
 
-import { IRateLimitResult } from '../../../shared/types';
+import { IRateLimitPenalty, IRateLimitResult, IRateLimitTier, RateLimitHeaderFormat } from '../../../shared/types';
 import { RateLimitGuard } from '../guards/rate-limit.guard';
 
 /**
@@ -35,10 +35,10 @@ export interface IRateLimitOptions {
    * Algorithm to use.
    * @default from module config
    */
-  algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket';
+  algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket' | 'leaky-bucket' | 'gcra';
 
   /**
-   * Max requests (fixed/sliding) or capacity (token bucket).
+   * Max requests (fixed/sliding), capacity (token bucket) or requests leaving per duration (leaky bucket).
    * @default from module config
    */
   points?: number;
@@ -54,6 +54,69 @@ export interface IRateLimitOptions {
    */
   refillRate?: number;
 
+  /**
+   * Max requests in the bucket (leaky bucket only).
+   * @default points
+   */
+  capacity?: number;
+
+  /**
+   * Requests allowed back-to-back (GCRA only).
+   * @default points
+   */
+  burst?: number;
+
+  /**
+   * Points the request consumes, or a function computing them from the
+   * request (e.g. from the page size). Refund unused points with
+   * `RateLimitService.refund()`.
+   * @default 1
+   *
+   * @example
+   * ```typescript
+   * @RateLimit({ points: 1000, duration: 3600, cost: 50 })
+   * @RateLimit({
+   *   points: 1000,
+   *   duration: 3600,
+   *   cost: (ctx) => Math.ceil(Number(ctx.switchToHttp().getRequest().query.limit ?? 100) / 100),
+   * })
+   * ```
+   */
+  cost?: number | ((context: ExecutionContext) => number | Promise<number>);
+
+  /**
+   * Stacked limit tiers, checked atomically in one round-trip. Replace
+   * `points` / `duration`; response headers report the most restrictive tier.
+   *
+   * @example
+   * ```typescript
+   * @RateLimit({
+   *   limits: [
+   *     { name: 'second', points: 10, duration: 1 },
+   *     { name: 'hour', points: 1000, duration: 3600 },
+   *     { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' },
+   *   ],
+   * })
+   * ```
+   */
+  limits?: IRateLimitTier[];
+
+  /**
+   * Ban keys that keep hammering after hitting the limit. After `threshold`
+   * rejections within `window` seconds, the key is rejected for `duration`
+   * seconds, longer with every further ban.
+   *
+   * @example
+   * ```typescript
+   * @RateLimit({
+   *   points: 5,
+   *   duration: 60,
+   *   penalty: { threshold: 10, window: 60, duration: 300 }, // 5 min, then 10, 20, ...
+   * })
+   * ```
+   */
+  penalty?: IRateLimitPenalty;
+
   /**
    * Skip condition function.
    * If returns true, rate limiting is skipped.
@@ -70,6 +133,12 @@ export interface IRateLimitOptions {
    */
   skip?: (context: ExecutionContext) => boolean | Promise<boolean>;
 
+  /**
+   * Format of the response headers of this route.
+   * @default from module config
+   */
+  headerFormat?: RateLimitHeaderFormat;
+
   /**
    * Custom error message.
    */
@@ -93,7 +162,7 @@ export interface IRateLimitOptions {
  * Rate limit decorator.
  * Can be applied to methods or classes.
  *
- * @param options - Rate limit options
+ * @param options - Rate limit options, or stacked limit tiers
  * @returns Decorator function
  *
  * @example
@@ -130,8 +199,19 @@ export interface IRateLimitOptions {
  * getUserData() {
  *   return { data: 'value' };
  * }
+ *
+ * // Stacked limits: 10/second AND 1000/hour
+ * @Get('search')
+ * @RateLimit([
+ *   { name: 'second', points: 10, duration: 1 },
+ *   { name: 'hour', points: 1000, duration: 3600 },
+ * ])
+ * search() {
+ *   return { data: 'value' };
+ * }
  * ```
  */
-export function RateLimit(options: IRateLimitOptions = {}): MethodDecorator & ClassDecorator {
-  return applyDecorators(SetMetadata(RATE_LIMIT_OPTIONS, options), UseGuards(RateLimitGuard)) as MethodDecorator & ClassDecorator;
+export function RateLimit(options: IRateLimitOptions | IRateLimitTier[] = {}): MethodDecorator & ClassDecorator {
+  const metadata: IRateLimitOptions = Array.isArray(options) ? { limits: options } : options;
+  return applyDecorators(SetMetadata(RATE_LIMIT_OPTIONS, metadata), UseGuards(RateLimitGuard)) as MethodDecorator & ClassDecorator;
 }
@@ -1,8 +1,22 @@
 import { Catch, ExceptionFilter, ArgumentsHost, HttpStatus, Inject, Logger } from '@nestjs/common';
 import { HttpAdapterHost } from '@nestjs/core';
+import { throwError } from 'rxjs';
 
 import { RateLimitError, RateLimitExceededError, RateLimitScriptError } from '../../../shared/errors';
 
+/**
+ * Response body of a rate-limit error.
+ */
+interface IRateLimitErrorBody {
+  statusCode: HttpStatus;
+  message: string;
+  error: string;
+  retryAfter?: number;
+  limit?: number;
+  remaining?: number;
+  reset?: number;
+}
+
 /**
  * Exception filter for rate-limit errors.
  *
@@ -15,6 +29,12 @@ import { RateLimitError, RateLimitExceededError, RateLimitScriptError } from '..
  * Catches the base `RateLimitError` so both cases are handled; any other
  * subclass falls back to 503 (a rate-limit subsystem failure, not the caller's
  * fault).
+ *
+ * Outside HTTP the same body is sent the way the transport reports errors:
+ * - GraphQL: an error whose `extensions` carry the body, with `code`
+ *   `TOO_MANY_REQUESTS` or `SERVICE_UNAVAILABLE`
+ * - WebSocket: an `exception` event, like a `WsException` with an object error
+ * - RPC: an error observable, like an `RpcException` with an object error
  */
 @Catch(RateLimitError)
 export class RateLimitExceptionFilter implements ExceptionFilter {
@@ -22,17 +42,37 @@ export class RateLimitExceptionFilter implements ExceptionFilter {
 
   constructor(@Inject(HttpAdapterHost) private readonly adapterHost: HttpAdapterHost) {}
 
-  catch(exception: RateLimitError, host: ArgumentsHost): void {
-    const httpAdapter = this.adapterHost.httpAdapter;
-    if (!httpAdapter) {
-      throw new Error('RateLimitExceptionFilter: HttpAdapterHost is not initialized. Ensure the NestJS application has bootstrapped with an HTTP adapter before handling requests.');
-    }
+  catch(exception: RateLimitError, host: ArgumentsHost): unknown {
+    const body = this.createBody(exception);
 
-    const response = host.switchToHttp().getResponse();
+    switch (host.getType<'http' | 'graphql' | 'ws' | 'rpc'>()) {
+      case 'graphql': {
+        // graphql-js copies the extensions of the original error
+        const { message, ...extensions } = body;
+        return Object.assign(new Error(message), {
+          extensions: { code: exception instanceof RateLimitExceededError ? 'TOO_MANY_REQUESTS' : 'SERVICE_UNAVAILABLE', ...extensions },
+        });
+      }
+      case 'ws': {
+        const client = host.switchToWs().getClient<{ emit(event: string, data: unknown): unknown }>();
+        client.emit('exception', { status: 'error', ...body });
+        return undefined;
+      }
+      case 'rpc':
+        return throwError(() => ({ status: 'error', ...body }));
+      default:
+        this.reply(exception, host, body);
+        return undefined;
+    }
+  }
 
+  /**
+   * Build the error body shared by all transports.
+   */
+  private createBody(exception: RateLimitError): IRateLimitErrorBody {
     if (exception instanceof RateLimitExceededError) {
       const result = exception.result;
-      const body = {
+      return {
         statusCode: HttpStatus.TOO_MANY_REQUESTS,
         message: exception.message,
         error: 'Too Many Requests',
@@ -41,10 +81,6 @@ export class RateLimitExceptionFilter implements ExceptionFilter {
         remaining: result?.remaining,
         reset: result?.reset,
       };
-
-      httpAdapter.setHeader(response, 'Retry-After', exception.retryAfter.toString());
-      httpAdapter.reply(response, body, HttpStatus.TOO_MANY_REQUESTS);
-      return;
     }
 
     // Store/script failure under fail-closed (or any other rate-limit error):
@@ -54,11 +90,27 @@ export class RateLimitExceptionFilter implements ExceptionFilter {
       this.logger.error(`Rate-limit store unavailable, rejecting request (fail-closed): ${exception.message}`);
     }
 
-    const body = {
+    return {
       statusCode: HttpStatus.SERVICE_UNAVAILABLE,
       message: 'Rate limiting is temporarily unavailable',
       error: 'Service Unavailable',
     };
-    httpAdapter.reply(response, body, HttpStatus.SERVICE_UNAVAILABLE);
+  }
+
+  /**
+   * Send the body as an HTTP response.
+   */
+  private reply(exception: RateLimitError, host: ArgumentsHost, body: IRateLimitErrorBody): void {
+    const httpAdapter = this.adapterHost.httpAdapter;
+    if (!httpAdapter) {
+      throw new Error('RateLimitExceptionFilter: HttpAdapterHost is not initialized. Ensure the NestJS application has bootstrapped with an HTTP adapter before handling requests.');
+    }
+
+    const response = host.switchToHttp().getResponse();
+
+    if (exception instanceof RateLimitExceededError) {
+      httpAdapter.setHeader(response, 'Retry-After', exception.retryAfter.toString());
+    }
+    httpAdapter.reply(response, body, body.statusCode);
   }
 }
@@ -4,6 +4,7 @@ import { HttpAdapterHost, Reflector } from '@nestjs/core';
 import { RATE_LIMIT_SERVICE, RATE_LIMIT_PLUGIN_OPTIONS } from '../../../shared/constants';
 import { RateLimitExceededError } from '../../../shared/errors';
 import { IRateLimitPluginOptions, IRateLimitResult } from '../../../shared/types';
+import { extractRequestKey } from '../../../shared/utils/request-key';
 import { IRateLimitService } from '../../application/ports/rate-limit-service.port';
 import { RATE_LIMIT_OPTIONS, IRateLimitOptions } from '../decorators/rate-limit.decorator';
 
@@ -39,6 +40,10 @@ interface ITracingService {
  * the guard is also registered globally as `APP_GUARD` — would otherwise run
  * `canActivate` (and consume a point) more than once for a single request. The
  * marker makes consumption idempotent within one request.
+ *
+ * Outside HTTP it is set on the handler arguments, which all guards of one
+ * invocation share: a WebSocket client or GraphQL context outlives a single
+ * message or resolver call.
  */
 const RATE_LIMIT_CONSUMED = Symbol('redisx.rateLimitConsumed');
 
@@ -68,8 +73,8 @@ export class RateLimitGuard implements CanActivate {
     // bound more than once (class + method decorator, or decorator + global
     // APP_GUARD). If a prior binding already consumed it, allow without
     // re-consuming.
-    const request = context.switchToHttp().getRequest<Record<symbol, unknown>>();
-    if (request[RATE_LIMIT_CONSUMED]) {
+    const invocation = (context.getType() === 'http' ? context.switchToHttp().getRequest() : context.getArgs()) as Record<symbol, unknown>;
+    if (invocation[RATE_LIMIT_CONSUMED]) {
       return true;
     }
 
@@ -80,26 +85,32 @@ export class RateLimitGuard implements CanActivate {
       return true;
     }
 
-    request[RATE_LIMIT_CONSUMED] = true;
+    invocation[RATE_LIMIT_CONSUMED] = true;
 
-    const key = await this.extractKey(context, options);
+    const key = await extractRequestKey(context, options.key, this.config);
     const span = this.tracing?.startSpan('ratelimit.check', {
       kind: 'INTERNAL',
       attributes: { 'ratelimit.key': key },
     });
 
     try {
-      const result = await this.rateLimitService.check(key, options);
+      // A quota plan replaces the limit of the decorator
+      const quota = await this.rateLimitService.resolveQuota(key, context);
+      const limit: IRateLimitOptions = quota ? { ...options, limits: undefined, ...quota } : options;
+
+      const cost = typeof options.cost === 'function' ? await options.cost(context) : options.cost;
+      const result = await this.rateLimitService.check(key, { ...limit, cost });
 
       // Set response headers
-      this.setHeaders(context, result);
+      this.setHeaders(context, result, limit);
 
       span?.setAttribute('ratelimit.allowed', result.allowed);
       span?.setAttribute('ratelimit.remaining', result.remaining);
       span?.setAttribute('ratelimit.limit', result.limit);
 
       if (!result.allowed) {
-        this.metrics?.incrementCounter('redisx_ratelimit_requests_total', { status: 'rejected' });
+        this.metrics?.incrementCounter('redisx_ratelimit_requests_total', { status: result.banned ? 'banned' : 'rejected' });
+        span?.setAttribute('ratelimit.banned', result.banned === true);
         span?.setStatus('OK'); // Not an error - rate limit working as expected
         throw this.createError(result, options);
       }
@@ -130,113 +141,104 @@ export class RateLimitGuard implements CanActivate {
   }
 
   /**
-   * Extract rate limit key from context.
+   * Set response headers.
    */
-  private async extractKey(context: ExecutionContext, options: IRateLimitOptions): Promise<string> {
-    const extractor = options.key ?? this.config.defaultKeyExtractor ?? 'ip';
+  private setHeaders(context: ExecutionContext, result: IRateLimitResult, options: IRateLimitOptions): void {
+    if (this.config.includeHeaders === false) {
+      return;
+    }
 
-    // Custom function
-    if (typeof extractor === 'function') {
-      return await extractor(context);
+    const response = this.getResponse(context);
+    if (!response) {
+      return;
     }
 
-    // String key
-    if (typeof extractor === 'string' && !['ip', 'user', 'apiKey'].includes(extractor)) {
-      return extractor;
+    const httpAdapter = this.adapterHost.httpAdapter;
+    if (!httpAdapter) {
+      throw new Error('RateLimitGuard: HttpAdapterHost is not initialized. Ensure the NestJS application has bootstrapped with an HTTP adapter before handling requests.');
     }
+    const headers = this.config.headers ?? {};
+    const format = options.headerFormat ?? this.config.headerFormat ?? 'legacy';
 
-    // Predefined extractors
-    const request = context.switchToHttp().getRequest();
+    const limitHeader = headers.limit ?? 'X-RateLimit-Limit';
+    const remainingHeader = headers.remaining ?? 'X-RateLimit-Remaining';
+    const resetHeader = headers.reset ?? 'X-RateLimit-Reset';
+    const retryAfterHeader = headers.retryAfter ?? 'Retry-After';
 
-    switch (extractor) {
-      case 'ip':
-        return this.getClientIp(request);
-      case 'user':
-        return this.getUserId(request);
-      case 'apiKey':
-        return this.getApiKey(request);
-      default:
-        return this.getClientIp(request);
+    if (format !== 'ietf') {
+      httpAdapter.setHeader(response, limitHeader, result.limit.toString());
+      httpAdapter.setHeader(response, remainingHeader, result.remaining.toString());
+      httpAdapter.setHeader(response, resetHeader, result.reset.toString());
     }
-  }
-
-  /**
-   * Get client IP address.
-   */
-  private getClientIp(request: Request & { ip?: string; ips?: string[] }): string {
-    // Secure default: take the IP from the framework. `request.ip` respects the
-    // app's own trust-proxy configuration (Express `trust proxy` / Fastify
-    // `trustProxy`), so it is the real client IP and cannot be spoofed by a
-    // client-supplied header. Only read forwarding headers ourselves when the
-    // operator explicitly opts in via `trustProxy: true`.
-    if (this.config.trustProxy === true) {
-      const forwardedFor = (request.headers as unknown as Record<string, string>)['x-forwarded-for'];
-      if (forwardedFor) {
-        const ips = forwardedFor.split(',').map((ip) => ip.trim());
-        if (ips[0]) return ips[0];
-      }
 
-      const realIp = (request.headers as unknown as Record<string, string>)['x-real-ip'];
-      if (realIp) {
-        return realIp;
-      }
+    if (format !== 'legacy') {
+      // Structured-field lists with one item per policy (one per stacked tier)
+      const now = Math.floor(Date.now() / 1000);
+      const policies = this.getPolicies(result, options);
+      httpAdapter.setHeader(response, 'RateLimit-Policy', policies.map((policy) => `${policy.name};q=${policy.result.limit};w=${policy.window}`).join(', '));
+      httpAdapter.setHeader(response, 'RateLimit', policies.map((policy) => `${policy.name};r=${policy.result.remaining};t=${Math.max(0, policy.result.reset - now)}`).join(', '));
     }
 
-    return request.ip || 'unknown';
+    if (!result.allowed && result.retryAfter) {
+      httpAdapter.setHeader(response, retryAfterHeader, result.retryAfter.toString());
+    }
   }
 
   /**
-   * Get user ID from request.
+   * Get the HTTP response to set headers on: the HTTP response, or the `res`
+   * of a GraphQL context. WebSocket and RPC handlers have none.
    */
-  private getUserId(request: Request & { user?: { id?: string } }): string {
-    const userId = request.user?.id;
-    if (!userId) {
-      throw new Error('User ID not found. Ensure authentication guard runs before rate limit guard.');
+  private getResponse(context: ExecutionContext): unknown {
+    switch (context.getType<'http' | 'graphql' | 'ws' | 'rpc'>()) {
+      case 'http':
+        return context.switchToHttp().getResponse();
+      case 'graphql': {
+        const gqlContext = context.getArgByIndex<{ res?: unknown; reply?: unknown } | undefined>(2);
+        return gqlContext?.res ?? gqlContext?.reply;
+      }
+      default:
+        return undefined;
     }
-    return `user:${userId}`;
   }
 
   /**
-   * Get API key from request.
+   * Get the quota policies of a result for the IETF headers: one per stacked
+   * tier, or a single `"default"` policy.
    */
-  private getApiKey(request: Request): string {
-    const apiKey = (request.headers as unknown as Record<string, string>)['x-api-key'] || (request.headers as unknown as Record<string, string>)['authorization'];
-
-    if (!apiKey) {
-      throw new Error('API key not found. Ensure request includes X-API-Key or Authorization header.');
+  private getPolicies(result: IRateLimitResult, options: IRateLimitOptions): Array<{ name: string; result: IRateLimitResult; window: number }> {
+    if (result.tiers && options.limits) {
+      const limits = options.limits;
+      return result.tiers.map((tier) => ({
+        name: this.toStructuredString(tier.name),
+        result: tier,
+        window: limits.find((limit) => limit.name === tier.name)?.duration ?? 0,
+      }));
     }
 
-    return `apikey:${apiKey}`;
+    return [{ name: '"default"', result, window: this.getWindow(options) }];
   }
 
   /**
-   * Set response headers.
+   * Get the quota window in seconds. For token bucket, the time an empty
+   * bucket takes to refill.
    */
-  private setHeaders(context: ExecutionContext, result: IRateLimitResult): void {
-    if (this.config.includeHeaders === false) {
-      return;
-    }
+  private getWindow(options: IRateLimitOptions): number {
+    const algorithm = options.algorithm ?? this.config.defaultAlgorithm ?? 'sliding-window';
 
-    const httpAdapter = this.adapterHost.httpAdapter;
-    if (!httpAdapter) {
-      throw new Error('RateLimitGuard: HttpAdapterHost is not initialized. Ensure the NestJS application has bootstrapped with an HTTP adapter before handling requests.');
+    if (algorithm === 'token-bucket') {
+      const capacity = options.capacity ?? options.points ?? this.config.defaultPoints ?? 100;
+      const refillRate = options.refillRate ?? (options.duration ? capacity / options.duration : 10);
+      return Math.ceil(capacity / refillRate);
     }
 
-    const response = context.switchToHttp().getResponse();
-    const headers = this.config.headers ?? {};
-
-    const limitHeader = headers.limit ?? 'X-RateLimit-Limit';
-    const remainingHeader = headers.remaining ?? 'X-RateLimit-Remaining';
-    const resetHeader = headers.reset ?? 'X-RateLimit-Reset';
-    const retryAfterHeader = headers.retryAfter ?? 'Retry-After';
-
-    httpAdapter.setHeader(response, limitHeader, result.limit.toString());
-    httpAdapter.setHeader(response, remainingHeader, result.remaining.toString());
-    httpAdapter.setHeader(response, resetHeader, result.reset.toString());
+    return options.duration ?? this.config.defaultDuration ?? 60;
+  }
 
-    if (!result.allowed && result.retryAfter) {
-      httpAdapter.setHeader(response, retryAfterHeader, result.retryAfter.toString());
-    }
+  /**
+   * Serialize a policy name as a structured-field string (RFC 8941).
+   */
+  private toStructuredString(value: string): string {
+    return `"${value.replace(/[\\"]/g, '\\$&')}"`;
   }
 
   /**
@@ -254,7 +256,7 @@ export class RateLimitGuard implements CanActivate {
     }
 
     // Default error
-    const message = options.message ?? `Rate limit exceeded. Try again in ${result.retryAfter || 0} seconds.`;
+    const message = options.message ?? (result.banned ? `Temporarily banned for exceeding the rate limit repeatedly. Try again in ${result.retryAfter || 0} seconds.` : `Rate limit exceeded. Try again in ${result.retryAfter || 0} seconds.`);
 
     return new RateLimitExceededError(message, result);
   }
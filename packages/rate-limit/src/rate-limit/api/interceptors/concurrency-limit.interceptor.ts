@@ -0,0 +1,109 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Inject, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+
+import { RATE_LIMIT_SERVICE, RATE_LIMIT_PLUGIN_OPTIONS } from '../../../shared/constants';
+import { RateLimitExceededError } from '../../../shared/errors';
+import { IRateLimitPluginOptions } from '../../../shared/types';
+import { extractRequestKey } from '../../../shared/utils/request-key';
+import { IRateLimitService } from '../../application/ports/rate-limit-service.port';
+import { CONCURRENCY_LIMIT_OPTIONS, IConcurrencyLimitOptions } from '../decorators/concurrency-limit.decorator';
+
+/**
+ * Per-invocation marker recording that a slot was already taken for the
+ * current request, so a route decorated on both the class and the method
+ * holds one slot, not two. Mirrors RATE_LIMIT_CONSUMED in the rate-limit
+ * guard.
+ */
+const CONCURRENCY_SLOT_TAKEN = Symbol('redisx.concurrencySlotTaken');
+
+/**
+ * Concurrency limit interceptor.
+ * Holds an in-flight slot from the start of the handler until its response
+ * completes or fails, as configured by the @ConcurrencyLimit() decorator.
+ * The slot's lease is renewed every half lease while the handler runs.
+ */
+@Injectable()
+export class ConcurrencyLimitInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ConcurrencyLimitInterceptor.name);
+
+  constructor(
+    @Inject(RATE_LIMIT_SERVICE)
+    private readonly rateLimitService: IRateLimitService,
+    @Inject(RATE_LIMIT_PLUGIN_OPTIONS)
+    private readonly config: IRateLimitPluginOptions,
+    @Inject(Reflector) private readonly reflector: Reflector,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const invocation = (context.getType() === 'http' ? context.switchToHttp().getRequest() : context.getArgs()) as Record<symbol, unknown>;
+    if (invocation[CONCURRENCY_SLOT_TAKEN]) {
+      return next.handle();
+    }
+
+    const options = this.getOptions(context);
+    if (!options || (options.skip && (await options.skip(context)))) {
+      return next.handle();
+    }
+
+    invocation[CONCURRENCY_SLOT_TAKEN] = true;
+
+    const key = await extractRequestKey(context, options.key, this.config);
+    const result = await this.rateLimitService.checkConcurrency(key, options);
+
+    if (!result.allowed) {
+      const message = options.message ?? `Too many concurrent requests. Try again in ${result.retryAfter || 0} seconds.`;
+      throw this.config.errorFactory ? this.config.errorFactory(result) : new RateLimitExceededError(message, result);
+    }
+
+    const slot = result.slot;
+    if (!slot) {
+      // Allowed without a slot (fail-open while Redis is unavailable)
+      return next.handle();
+    }
+
+    const renewal = setInterval(() => this.renew(key, slot, options, renewal), (options.lease ?? 60000) / 2);
+
+    // Don't prevent Node.js process from exiting
+    if (renewal.unref) {
+      renewal.unref();
+    }
+
+    return next.handle().pipe(
+      finalize(() => {
+        clearInterval(renewal);
+        this.rateLimitService.releaseConcurrency(key, slot).catch((error) => {
+          this.logger.error(`Failed to release concurrency slot of "${key}":`, error);
+        });
+      }),
+    );
+  }
+
+  /**
+   * Renew the slot's lease; stops renewing once the slot is lost.
+   */
+  private renew(key: string, slot: string, options: IConcurrencyLimitOptions, renewal: NodeJS.Timeout): void {
+    this.rateLimitService
+      .renewConcurrency(key, slot, options)
+      .then((renewed) => {
+        if (!renewed) {
+          clearInterval(renewal);
+          this.logger.error(`Concurrency slot of "${key}" expired while its request still runs; the limit may be exceeded until it completes`);
+        }
+      })
+      .catch((error) => {
+        this.logger.warn(`Failed to renew concurrency slot of "${key}": ${(error as Error).message}`);
+      });
+  }
+
+  /**
+   * Get concurrency limit options from metadata, if the route is limited.
+   */
+  private getOptions(context: ExecutionContext): IConcurrencyLimitOptions | undefined {
+    const handlerOptions = this.reflector.get<IConcurrencyLimitOptions>(CONCURRENCY_LIMIT_OPTIONS, context.getHandler());
+    const classOptions = this.reflector.get<IConcurrencyLimitOptions>(CONCURRENCY_LIMIT_OPTIONS, context.getClass());
+
+    return handlerOptions ?? classOptions;
+  }
+}
@@ -1,4 +1,6 @@
-import { IRateLimitResult, IRateLimitConfig, IRateLimitState } from '../../../shared/types';
+import { ExecutionContext } from '@nestjs/common';
+
+import { IRateLimitResult, IRateLimitConfig, IRateLimitState, IRateLimitAcquireOptions, IRateLimitReservation, IRateLimitQuota, IConcurrencyLimitConfig, IConcurrencyResult, IRateLimitPreAllocationStats } from '../../../shared/types';
 
 /**
  * Rate limit service port.
@@ -13,6 +15,7 @@ export interface IRateLimitService {
    * @returns Rate limit result with allowed status
    *
    * @throws {RateLimitScriptError} When Lua script execution fails
+   * @throws {InvalidRateLimitConfigError} When the cost, tiers or penalty are invalid
    *
    * @example
    * ```typescript
@@ -29,6 +32,51 @@ export interface IRateLimitService {
    */
   check(key: string, config?: IRateLimitConfig): Promise<IRateLimitResult>;
 
+  /**
+   * Wait for the next free slot (leaky bucket).
+   * Reserves a future slot atomically and resolves once it is reached, so
+   * callers leave at `points` per `duration` instead of being rejected.
+   * Always uses the leaky bucket algorithm, whatever `config.algorithm` is.
+   *
+   * @param key - Rate limit key
+   * @param config - Rate limit configuration (`capacity` bounds the queue)
+   * @param options - Wait options
+   * @returns Reservation once its slot is reached
+   *
+   * @throws {RateLimitExceededError} When the bucket is full or the slot is further than `maxWait`
+   * @throws {RateLimitScriptError} When Lua script execution fails
+   *
+   * @example
+   * ```typescript
+   * await rateLimitService.acquire('stripe-api', { points: 25, duration: 1 }, { maxWait: 5000 });
+   * await stripe.charges.create(charge);
+   * ```
+   */
+  acquire(key: string, config?: IRateLimitConfig, options?: IRateLimitAcquireOptions): Promise<IRateLimitReservation>;
+
+  /**
+   * Give points back to a key.
+   * Use after a request was checked with a `cost` higher than it turned out
+   * to need. Pass the same config as to `check()`. Never goes beyond an unused
+   * state; fixed window refunds go to the current window.
+   *
+   * @param key - Rate limit key
+   * @param points - Points to give back
+   * @param config - Rate limit configuration used by the check
+   *
+   * @throws {RateLimitScriptError} When Lua script execution fails
+   *
+   * @example
+   * ```typescript
+   * await rateLimitService.check('export:user:123', { points: 1000, duration: 3600, cost: 100 });
+   * const rows = await this.exportRows(query);
+   * if (rows.length < 100) {
+   *   await rateLimitService.refund('export:user:123', 100 - rows.length, { points: 1000, duration: 3600 });
+   * }
+   * ```
+   */
+  refund(key: string, points: number, config?: IRateLimitConfig): Promise<void>;
+
   /**
    * Check without consuming.
    * Useful for previewing rate limit status without affecting counters.
@@ -47,16 +95,20 @@ export interface IRateLimitService {
 
   /**
    * Reset rate limit for key.
-   * Removes all tracking data for the specified key.
+   * Removes the tracking data of every algorithm for the specified key.
+   * Stacked tiers are only known from their config, so pass `limits` to reset them too.
+   * Bans (see `unban`) and held concurrency slots are not reset.
    *
    * @param key - Rate limit key to reset
+   * @param config - Rate limit configuration; its `limits` name the stacked tiers to reset
    *
    * @example
    * ```typescript
    * await rateLimitService.reset('user:123');
+   * await rateLimitService.reset('ip:1.2.3.4', { limits: [{ name: 'second', points: 10, duration: 1 }] });
    * ```
    */
-  reset(key: string): Promise<void>;
+  reset(key: string, config?: IRateLimitConfig): Promise<void>;
 
   /**
    * Get current state.
@@ -74,4 +126,145 @@ export interface IRateLimitService {
    * ```
    */
   getState(key: string, config?: IRateLimitConfig): Promise<IRateLimitState>;
+
+  /**
+   * Ban a key, e.g. from an abuse report. Checks of the key with a
+   * `penalty` policy are rejected until the ban ends.
+   *
+   * @param key - Rate limit key
+   * @param duration - Ban duration in seconds
+   *
+   * @example
+   * ```typescript
+   * await rateLimitService.ban('user:123', 3600);
+   * ```
+   */
+  ban(key: string, duration: number): Promise<void>;
+
+  /**
+   * Lift the ban of a key and forget its rejections and previous bans, so
+   * its next ban starts at the first duration again.
+   *
+   * @param key - Rate limit key
+   */
+  unban(key: string): Promise<void>;
+
+  /**
+   * Check whether a key is banned.
+   *
+   * @param key - Rate limit key
+   * @returns True if the key is banned
+   */
+  isBanned(key: string): Promise<boolean>;
+
+  /**
+   * Get how many checks were served from locally leased tokens and how many
+   * went to Redis, since startup. Both stay 0 unless `preAllocation` is set.
+   *
+   * @returns Pre-allocation statistics
+   *
+   * @example
+   * ```typescript
+   * const { localChecks, remoteChecks } = rateLimitService.getPreAllocationStats();
+   * const localRatio = localChecks / (localChecks + remoteChecks || 1);
+   * ```
+   */
+  getPreAllocationStats(): IRateLimitPreAllocationStats;
+
+  /**
+   * Resolve the quota of a key: the quota set with `setQuota()`, else the
+   * result of the `quotas.resolver` plugin option. Cached in memory for
+   * `quotas.cacheTtl`. Returns null when `quotas` is not configured.
+   *
+   * @param key - Rate limit key
+   * @param context - Execution context passed to the resolver
+   * @returns Quota replacing the configured limit, or null
+   *
+   * @example
+   * ```typescript
+   * const quota = await rateLimitService.resolveQuota('tenant:acme');
+   * await rateLimitService.check('tenant:acme', { points: 100, duration: 60, ...quota });
+   * ```
+   */
+  resolveQuota(key: string, context?: ExecutionContext): Promise<IRateLimitQuota | null>;
+
+  /**
+   * Override the quota of a key in Redis, e.g. for a customer on a custom
+   * deal. Takes effect at once on this instance and within
+   * `quotas.cacheTtl` on the others.
+   *
+   * @param key - Rate limit key
+   * @param quota - Quota replacing the plan of the key
+   * @param ttl - Seconds until the override expires (kept until deleted if omitted)
+   *
+   * @throws {RateLimitScriptError} When the quota cannot be stored
+   *
+   * @example
+   * ```typescript
+   * await rateLimitService.setQuota('tenant:acme', { points: 5000, duration: 60 });
+   * await rateLimitService.setQuota('tenant:trial', { points: 200, duration: 60 }, 7 * 24 * 3600);
+   * ```
+   */
+  setQuota(key: string, quota: IRateLimitQuota, ttl?: number): Promise<void>;
+
+  /**
+   * Get the quota override of a key.
+   *
+   * @param key - Rate limit key
+   * @returns Override set with `setQuota()`, or null
+   */
+  getQuota(key: string): Promise<IRateLimitQuota | null>;
+
+  /**
+   * Remove the quota override of a key, so its plan applies again. Takes
+   * effect at once on this instance and within `quotas.cacheTtl` on the
+   * others.
+   *
+   * @param key - Rate limit key
+   */
+  deleteQuota(key: string): Promise<void>;
+
+  /**
+   * Take an in-flight slot for a key, if fewer than `max` are held.
+   * The slot frees itself once its lease runs out.
+   *
+   * @param key - Concurrency key
+   * @param config - Concurrency limit configuration
+   * @returns Concurrency result with the slot to release when allowed
+   *
+   * @example
+   * ```typescript
+   * const result = await rateLimitService.checkConcurrency(`export:${userId}`, { max: 2 });
+   * if (!result.allowed) {
+   *   throw new TooManyRequestsException();
+   * }
+   * try {
+   *   await this.runExport();
+   * } finally {
+   *   await rateLimitService.releaseConcurrency(`export:${userId}`, result.slot!);
+   * }
+   * ```
+   */
+  checkConcurrency(key: string, config: IConcurrencyLimitConfig): Promise<IConcurrencyResult>;
+
+  /**
+   * Free an in-flight slot taken with `checkConcurrency()`.
+   *
+   * @param key - Concurrency key
+   * @param slot - Slot of the concurrency result
+   */
+  releaseConcurrency(key: string, slot: string): Promise<void>;
+
+  /**
+   * Extend the lease of a slot taken with `checkConcurrency()`, for work that
+   * may outlive its lease. `@ConcurrencyLimit()` does this on its own.
+   *
+   * @param key - Concurrency key
+   * @param slot - Slot of the concurrency result
+   * @param config - Concurrency limit configuration; its `lease` is granted again from now
+   * @returns False if the slot was already freed or its lease ran out
+   *
+   * @throws {RateLimitScriptError} When the lease cannot be renewed
+   */
+  renewConcurrency(key: string, slot: string, config: IConcurrencyLimitConfig): Promise<boolean>;
 }
@@ -1,4 +1,4 @@
-import { IRateLimitResult } from '../../../shared/types';
+import { IConcurrencyResult, IRateLimitPenalty, IRateLimitQuota, IRateLimitReservation, IRateLimitResult, IRateLimitTier, IRateLimitTierResult } from '../../../shared/types';
 
 /**
  * Rate limit store port.
@@ -13,9 +13,10 @@ export interface IRateLimitStore {
    * @param key - Rate limit key
    * @param points - Max requests per window
    * @param duration - Window duration in seconds
+   * @param cost - Points to consume (default: 1)
    * @returns Rate limit result
    */
-  fixedWindow(key: string, points: number, duration: number): Promise<IRateLimitResult>;
+  fixedWindow(key: string, points: number, duration: number, cost?: number): Promise<IRateLimitResult>;
 
   /**
    * Sliding window algorithm.
@@ -24,9 +25,10 @@ export interface IRateLimitStore {
    * @param key - Rate limit key
    * @param points - Max requests per window
    * @param duration - Window duration in seconds
+   * @param cost - Points to consume (default: 1)
    * @returns Rate limit result
    */
-  slidingWindow(key: string, points: number, duration: number): Promise<IRateLimitResult>;
+  slidingWindow(key: string, points: number, duration: number, cost?: number): Promise<IRateLimitResult>;
 
   /**
    * Token bucket algorithm.
@@ -40,6 +42,73 @@ export interface IRateLimitStore {
    */
   tokenBucket(key: string, capacity: number, refillRate: number, consume?: number): Promise<IRateLimitResult>;
 
+  /**
+   * Leaky bucket algorithm (queue).
+   * Reserves the next free slot; requests leave at `points` per `duration`.
+   *
+   * @param key - Rate limit key
+   * @param points - Requests per duration leaving the bucket
+   * @param duration - Duration in seconds
+   * @param capacity - Max requests in the bucket
+   * @param maxWait - Max milliseconds the caller accepts until its slot (0 = only a free slot)
+   * @param cost - Slots to reserve (default: 1)
+   * @returns Reservation with the delay until the reserved slot
+   */
+  leakyBucket(key: string, points: number, duration: number, capacity: number, maxWait: number, cost?: number): Promise<IRateLimitReservation>;
+
+  /**
+   * GCRA (generic cell rate algorithm).
+   * Spaces requests evenly at `points` per `duration` with burst tolerance.
+   *
+   * @param key - Rate limit key
+   * @param points - Requests per duration at the sustained rate
+   * @param duration - Duration in seconds
+   * @param burst - Requests allowed back-to-back
+   * @param cost - Points to consume (default: 1)
+   * @returns Rate limit result
+   */
+  gcra(key: string, points: number, duration: number, burst: number, cost?: number): Promise<IRateLimitResult>;
+
+  /**
+   * Stacked window limits, checked atomically.
+   * Counts the request in every tier only if all tiers allow it.
+   *
+   * @param key - Rate limit key (tier keys are derived from it)
+   * @param tiers - Tiers with resolved algorithms
+   * @param cost - Points to consume in every tier (default: 1)
+   * @returns Result of each tier, in the given order
+   */
+  stacked(key: string, tiers: Array<Required<IRateLimitTier>>, cost?: number): Promise<IRateLimitTierResult[]>;
+
+  /**
+   * Take a leased in-flight slot if fewer than `max` are held.
+   *
+   * @param key - Concurrency key
+   * @param max - Max slots held at once
+   * @param lease - Milliseconds until the slot frees itself
+   * @param slot - Unique slot id
+   * @returns Concurrency result; `reset` is the earliest lease expiry
+   */
+  concurrency(key: string, max: number, lease: number, slot: string): Promise<IConcurrencyResult>;
+
+  /**
+   * Free an in-flight slot.
+   *
+   * @param key - Concurrency key
+   * @param slot - Slot id passed to `concurrency()`
+   */
+  releaseConcurrency(key: string, slot: string): Promise<void>;
+
+  /**
+   * Extend the lease of a held in-flight slot.
+   *
+   * @param key - Concurrency key
+   * @param slot - Slot id passed to `concurrency()`
+   * @param lease - Milliseconds from now until the slot frees itself
+   * @returns False if the slot was already freed or its lease ran out
+   */
+  renewConcurrency(key: string, slot: string, lease: number): Promise<boolean>;
+
   /**
    * Peek current state without consuming.
    *
@@ -50,10 +119,94 @@ export interface IRateLimitStore {
    */
   peek(key: string, algorithm: string, config: Record<string, number>): Promise<IRateLimitResult>;
 
+  /**
+   * Give points back to a key, e.g. when a request turned out cheaper than
+   * its cost. Never goes beyond an unused state.
+   *
+   * @param key - Rate limit key
+   * @param algorithm - Algorithm name
+   * @param points - Points to give back
+   * @param config - Algorithm-specific configuration
+   */
+  refund(key: string, algorithm: string, points: number, config: Record<string, number>): Promise<void>;
+
+  /**
+   * Give points back to every tier of stacked limits.
+   *
+   * @param key - Rate limit key (tier keys are derived from it)
+   * @param tiers - Tiers with resolved algorithms
+   * @param points - Points to give back
+   */
+  refundStacked(key: string, tiers: Array<Required<IRateLimitTier>>, points: number): Promise<void>;
+
+  /**
+   * Count a rejection of a key and ban it once the penalty threshold is hit.
+   *
+   * @param key - Penalty key (strike, ban and level keys are derived from it)
+   * @param penalty - Penalty policy with defaults applied
+   * @returns Ban duration in seconds, or 0 if the key was not banned
+   */
+  penalize(key: string, penalty: Required<IRateLimitPenalty>): Promise<number>;
+
+  /**
+   * Get the time left of a ban.
+   *
+   * @param key - Penalty key
+   * @returns Milliseconds until the ban ends, or 0 if the key is not banned
+   */
+  getBan(key: string): Promise<number>;
+
+  /**
+   * Ban a key.
+   *
+   * @param key - Penalty key
+   * @param duration - Ban duration in seconds
+   */
+  ban(key: string, duration: number): Promise<void>;
+
+  /**
+   * Lift the ban of a key and forget its rejections and previous bans.
+   *
+   * @param key - Penalty key
+   */
+  unban(key: string): Promise<void>;
+
   /**
    * Reset/delete rate limit key.
    *
    * @param key - Rate limit key to delete
    */
   reset(key: string): Promise<void>;
+
+  /**
+   * Delete every tier of stacked limits, including the current fixed window.
+   *
+   * @param key - Stacked limits key (hash tag of the tier keys)
+   * @param tiers - Tiers whose keys to delete
+   */
+  resetStacked(key: string, tiers: Array<Required<IRateLimitTier>>): Promise<void>;
+
+  /**
+   * Get the quota stored for a key.
+   *
+   * @param key - Quota key
+   * @returns Stored quota, or null
+   */
+  getQuota(key: string): Promise<IRateLimitQuota | null>;
+
+  /**
+   * Store the quota of a key.
+   *
+   * @param key - Quota key
+   * @param quota - Quota to store
+   * @param ttl - Seconds until the quota is removed (kept until deleted if omitted)
+   */
+  setQuota(key: string, quota: IRateLimitQuota, ttl?: number): Promise<void>;
+
+  /**
+   * Remove the quota stored for a key.
+   *
+   * @param key - Quota key
+   */
+  deleteQuota(key: string): Promise<void>;
 }
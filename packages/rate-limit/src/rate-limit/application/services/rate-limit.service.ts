@@ -1,8 +1,9 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, ExecutionContext } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 
 import { RATE_LIMIT_PLUGIN_OPTIONS, RATE_LIMIT_STORE } from '../../../shared/constants';
-import { RateLimitScriptError } from '../../../shared/errors';
-import { IRateLimitPluginOptions, IRateLimitConfig, IRateLimitResult, IRateLimitState } from '../../../shared/types';
+import { InvalidRateLimitConfigError, RateLimitExceededError, RateLimitScriptError } from '../../../shared/errors';
+import { IRateLimitPluginOptions, IRateLimitConfig, IRateLimitResult, IRateLimitState, IRateLimitAcquireOptions, IRateLimitReservation, IRateLimitTier, IRateLimitTierResult, IRateLimitQuota, IRateLimitQuotaOptions, IConcurrencyLimitConfig, IConcurrencyResult, IRateLimitPreAllocationOptions, IRateLimitPreAllocationStats, IRateLimitPenalty } from '../../../shared/types';
 import { IRateLimitService } from '../ports/rate-limit-service.port';
 import { IRateLimitStore } from '../ports/rate-limit-store.port';
 
@@ -12,6 +13,10 @@ import { IRateLimitStore } from '../ports/rate-limit-store.port';
  */
 @Injectable()
 export class RateLimitService implements IRateLimitService {
+  private readonly quotaCache = new Map<string, { quota: IRateLimitQuota | null; expiresAt: number }>();
+  private readonly batches = new Map<string, { tokens: number; expiresAt: number; result: IRateLimitResult }>();
+  private readonly allocationStats: IRateLimitPreAllocationStats = { localChecks: 0, remoteChecks: 0 };
+
   constructor(
     @Inject(RATE_LIMIT_PLUGIN_OPTIONS)
     private readonly config: IRateLimitPluginOptions,
@@ -24,23 +29,61 @@ export class RateLimitService implements IRateLimitService {
    */
   async check(key: string, config: IRateLimitConfig = {}): Promise<IRateLimitResult> {
     const algorithm = config.algorithm ?? this.config.defaultAlgorithm ?? 'sliding-window';
-    // Include algorithm in key to avoid WRONGTYPE errors when different algorithms
-    // use different Redis data types (string, sorted set, hash) for the same key
-    const fullKey = this.buildKey(key, algorithm);
 
+    if (config.penalty) {
+      return this.checkPenalized(key, algorithm, config, config.penalty);
+    }
+
+    return this.checkLimit(key, algorithm, config);
+  }
+
+  /**
+   * Wait for the next free leaky bucket slot.
+   */
+  async acquire(key: string, config: IRateLimitConfig = {}, options: IRateLimitAcquireOptions = {}): Promise<IRateLimitReservation> {
+    const points = config.points ?? this.config.defaultPoints ?? 100;
+    const duration = config.duration ?? this.config.defaultDuration ?? 60;
+    const capacity = config.capacity ?? points;
+    // Default: wait as long as a full bucket takes to drain
+    const maxWait = options.maxWait ?? (capacity * duration * 1000) / points;
+
+    let reservation: IRateLimitReservation;
     try {
-      switch (algorithm) {
-        case 'fixed-window':
-          return await this.checkFixedWindow(fullKey, config);
-        case 'sliding-window':
-          return await this.checkSlidingWindow(fullKey, config);
-        case 'token-bucket':
-          return await this.checkTokenBucket(fullKey, config);
-        default:
-          throw new Error(`Unknown algorithm: ${algorithm}`);
+      reservation = await this.store.leakyBucket(this.buildKey(key, 'leaky-bucket'), points, duration, capacity, maxWait, this.resolveCost(config, capacity));
+    } catch (error) {
+      return { ...this.handleError(error as Error, config), delay: 0 };
+    }
+
+    if (!reservation.allowed) {
+      throw new RateLimitExceededError(`Rate limit exceeded: no slot for "${key}" within ${maxWait}ms`, reservation);
+    }
+
+    if (reservation.delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, reservation.delay));
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Give points back after a request turned out cheaper than its cost.
+   */
+  async refund(key: string, points: number, config: IRateLimitConfig = {}): Promise<void> {
+    const algorithm = config.algorithm ?? this.config.defaultAlgorithm ?? 'sliding-window';
+
+    try {
+      if (!Number.isInteger(points) || points < 1) {
+        throw new InvalidRateLimitConfigError(`Refunded points must be a positive integer, got: ${points}`);
+      }
+
+      if (config.limits?.length) {
+        await this.store.refundStacked(this.buildKey(key, 'stacked'), this.resolveTiers(algorithm, config.limits), points);
+        return;
       }
+
+      await this.store.refund(this.buildKey(key, algorithm), algorithm, points, this.buildStoreConfig(algorithm, config));
     } catch (error) {
-      return this.handleError(error as Error, config);
+      this.handleError(error as Error, config);
     }
   }
 
@@ -61,11 +104,19 @@ export class RateLimitService implements IRateLimitService {
 
   /**
    * Reset rate limit for key.
-   * Resets all algorithm variants (fixed-window, sliding-window, token-bucket).
+   * Resets all algorithm variants (fixed-window, sliding-window, token-bucket, leaky-bucket, gcra),
+   * and the stacked tiers named in `config.limits`. Bans and concurrency slots are left alone.
    */
-  async reset(key: string): Promise<void> {
-    const algorithms = ['fixed-window', 'sliding-window', 'token-bucket'] as const;
+  async reset(key: string, config: IRateLimitConfig = {}): Promise<void> {
+    const algorithms = ['fixed-window', 'sliding-window', 'token-bucket', 'leaky-bucket', 'gcra'] as const;
     await Promise.all(algorithms.map((algo) => this.store.reset(this.buildKey(key, algo))));
+    if (config.limits?.length) {
+      const algorithm = config.algorithm ?? this.config.defaultAlgorithm ?? 'sliding-window';
+      await this.store.resetStacked(this.buildKey(key, 'stacked'), this.resolveTiers(algorithm, config.limits));
+    }
+    for (const algo of [...algorithms, 'stacked']) {
+      this.batches.delete(this.buildKey(key, algo));
+    }
   }
 
   /**
@@ -82,6 +133,338 @@ export class RateLimitService implements IRateLimitService {
     };
   }
 
+  /**
+   * Ban a key.
+   */
+  async ban(key: string, duration: number): Promise<void> {
+    if (!Number.isInteger(duration) || duration < 1) {
+      throw new InvalidRateLimitConfigError(`Ban duration must be a positive integer of seconds, got: ${duration}`);
+    }
+
+    await this.store.ban(this.buildKey(key, 'penalty'), duration);
+  }
+
+  /**
+   * Lift the ban of a key.
+   */
+  async unban(key: string): Promise<void> {
+    await this.store.unban(this.buildKey(key, 'penalty'));
+  }
+
+  /**
+   * Check whether a key is banned.
+   */
+  async isBanned(key: string): Promise<boolean> {
+    return (await this.store.getBan(this.buildKey(key, 'penalty'))) > 0;
+  }
+
+  /**
+   * Get local token pre-allocation statistics.
+   */
+  getPreAllocationStats(): IRateLimitPreAllocationStats {
+    return { ...this.allocationStats };
+  }
+
+  /**
+   * Resolve the quota of a key: its override, else its plan.
+   */
+  async resolveQuota(key: string, context?: ExecutionContext): Promise<IRateLimitQuota | null> {
+    const options = this.config.quotas;
+    if (!options) {
+      return null;
+    }
+
+    const cached = this.quotaCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.quota;
+    }
+
+    let override: IRateLimitQuota | null;
+    try {
+      override = await this.store.getQuota(this.buildKey(key, 'quota'));
+    } catch (error) {
+      if (this.config.errorPolicy !== 'fail-open') {
+        throw error;
+      }
+      // Fall back to the plan, uncached, until Redis answers again
+      return (await options.resolver?.(key, context)) ?? null;
+    }
+
+    const quota = override ?? (await options.resolver?.(key, context)) ?? null;
+    this.cacheQuota(key, quota, options);
+    return quota;
+  }
+
+  /**
+   * Override the quota of a key.
+   */
+  async setQuota(key: string, quota: IRateLimitQuota, ttl?: number): Promise<void> {
+    if (ttl !== undefined && (!Number.isInteger(ttl) || ttl < 1)) {
+      throw new InvalidRateLimitConfigError(`Quota TTL must be a positive integer of seconds, got: ${ttl}`);
+    }
+
+    await this.store.setQuota(this.buildKey(key, 'quota'), quota, ttl);
+    this.quotaCache.delete(key);
+  }
+
+  /**
+   * Get the quota override of a key.
+   */
+  async getQuota(key: string): Promise<IRateLimitQuota | null> {
+    return await this.store.getQuota(this.buildKey(key, 'quota'));
+  }
+
+  /**
+   * Remove the quota override of a key.
+   */
+  async deleteQuota(key: string): Promise<void> {
+    await this.store.deleteQuota(this.buildKey(key, 'quota'));
+    this.quotaCache.delete(key);
+  }
+
+  /**
+   * Take an in-flight slot for a key.
+   */
+  async checkConcurrency(key: string, config: IConcurrencyLimitConfig): Promise<IConcurrencyResult> {
+    const { max, lease = 60000, retryAfter = 1 } = config;
+
+    try {
+      if (!Number.isInteger(max) || max < 1) {
+        throw new InvalidRateLimitConfigError(`Concurrency max must be a positive integer, got: ${max}`);
+      }
+      if (!Number.isInteger(lease) || lease < 1) {
+        throw new InvalidRateLimitConfigError(`Concurrency lease must be a positive integer of milliseconds, got: ${lease}`);
+      }
+
+      const result = await this.store.concurrency(this.buildKey(key, 'concurrency'), max, lease, randomUUID());
+      return result.allowed ? result : { ...result, retryAfter };
+    } catch (error) {
+      return this.handleError(error as Error, { points: max });
+    }
+  }
+
+  /**
+   * Free an in-flight slot taken with `checkConcurrency()`.
+   */
+  async releaseConcurrency(key: string, slot: string): Promise<void> {
+    try {
+      await this.store.releaseConcurrency(this.buildKey(key, 'concurrency'), slot);
+    } catch (error) {
+      this.handleError(error as Error, {});
+    }
+  }
+
+  /**
+   * Extend the lease of a slot taken with `checkConcurrency()` by another `lease`.
+   */
+  async renewConcurrency(key: string, slot: string, config: IConcurrencyLimitConfig): Promise<boolean> {
+    const { lease = 60000 } = config;
+
+    return this.store.renewConcurrency(this.buildKey(key, 'concurrency'), slot, lease);
+  }
+
+  /**
+   * Check the limit, from locally leased tokens if pre-allocation is enabled.
+   */
+  private async checkLimit(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): Promise<IRateLimitResult> {
+    const allocation = this.preAllocationFor(algorithm, config);
+    if (allocation) {
+      return this.checkPreAllocated(key, algorithm, config, allocation);
+    }
+
+    return this.consume(key, algorithm, config);
+  }
+
+  /**
+   * Pre-allocation options of a check, or undefined when it checks Redis.
+   */
+  private preAllocationFor(algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): IRateLimitPreAllocationOptions | undefined {
+    // Leaky bucket slots are spaced in time, so they cannot be leased ahead
+    if (config.limits?.length || algorithm !== 'leaky-bucket') {
+      return this.config.preAllocation;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a check can be served from tokens leased to this instance.
+   */
+  private hasLeasedTokens(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): boolean {
+    if (!this.preAllocationFor(algorithm, config)) {
+      return false;
+    }
+
+    const batch = this.batches.get(this.batchKey(key, algorithm, config));
+    return !!batch && batch.expiresAt > Date.now() && batch.tokens >= this.resolveCost(config, this.costLimit(algorithm, config));
+  }
+
+  /**
+   * Key of the tokens leased for a check; stacked tiers share one batch.
+   */
+  private batchKey(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): string {
+    return this.buildKey(key, config.limits?.length ? 'stacked' : algorithm);
+  }
+
+  /**
+   * Reject banned keys before checking the limit, and count rejections of
+   * the limit towards a ban. With pre-allocation, the ban is only read when
+   * a batch is leased: leased tokens are served without a Redis call, so a
+   * ban set by another instance applies here once the batch runs out or
+   * expires.
+   */
+  private async checkPenalized(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig, penalty: IRateLimitPenalty): Promise<IRateLimitResult> {
+    const penaltyKey = this.buildKey(key, 'penalty');
+    let resolved: Required<IRateLimitPenalty>;
+
+    try {
+      resolved = this.resolvePenalty(penalty);
+
+      const banned = this.hasLeasedTokens(key, algorithm, config) ? 0 : await this.store.getBan(penaltyKey);
+      if (banned > 0) {
+        const limit = config.points ?? this.config.defaultPoints ?? 100;
+        const retryAfter = Math.ceil(banned / 1000);
+        return { allowed: false, limit, remaining: 0, reset: Math.floor(Date.now() / 1000) + retryAfter, current: limit, retryAfter, banned: true };
+      }
+    } catch (error) {
+      return this.handleError(error as Error, config);
+    }
+
+    const result = await this.checkLimit(key, algorithm, config);
+    if (result.allowed) {
+      return result;
+    }
+
+    try {
+      const ban = await this.store.penalize(penaltyKey, resolved);
+      if (ban > 0) {
+        return { ...result, reset: Math.floor(Date.now() / 1000) + ban, retryAfter: ban, banned: true };
+      }
+    } catch (error) {
+      // Throws under fail-closed; under fail-open the plain rejection stands
+      this.handleError(error as Error, config);
+    }
+
+    return result;
+  }
+
+  /**
+   * Apply penalty defaults and validate the policy.
+   */
+  private resolvePenalty(penalty: IRateLimitPenalty): Required<IRateLimitPenalty> {
+    const resolved = { multiplier: 2, maxDuration: 86400, decay: 86400, ...penalty };
+
+    for (const field of ['threshold', 'window', 'duration', 'maxDuration', 'decay'] as const) {
+      if (!Number.isInteger(resolved[field]) || resolved[field] < 1) {
+        throw new InvalidRateLimitConfigError(`Penalty ${field} must be a positive integer, got: ${resolved[field]}`);
+      }
+    }
+    if (!(resolved.multiplier >= 1)) {
+      throw new InvalidRateLimitConfigError(`Penalty multiplier must be at least 1, got: ${resolved.multiplier}`);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Consume points in Redis.
+   */
+  private async consume(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): Promise<IRateLimitResult> {
+    // Include algorithm in key to avoid WRONGTYPE errors when different algorithms
+    // use different Redis data types (string, sorted set, hash) for the same key
+    const fullKey = this.buildKey(key, algorithm);
+
+    try {
+      if (config.limits?.length) {
+        return await this.checkStacked(key, algorithm, config);
+      }
+
+      switch (algorithm) {
+        case 'fixed-window':
+          return await this.checkFixedWindow(fullKey, config);
+        case 'sliding-window':
+          return await this.checkSlidingWindow(fullKey, config);
+        case 'token-bucket':
+          return await this.checkTokenBucket(fullKey, config);
+        case 'leaky-bucket':
+          return await this.checkLeakyBucket(fullKey, config);
+        case 'gcra':
+          return await this.checkGcra(fullKey, config);
+        default:
+          throw new InvalidRateLimitConfigError(`Unknown algorithm: ${algorithm}`);
+      }
+    } catch (error) {
+      return this.handleError(error as Error, config);
+    }
+  }
+
+  /**
+   * Serve a check from tokens leased to this instance, leasing a new batch
+   * from Redis when they run out or expire.
+   */
+  private async checkPreAllocated(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig, options: IRateLimitPreAllocationOptions): Promise<IRateLimitResult> {
+    let cost: number;
+    let limit: number;
+    try {
+      limit = this.costLimit(algorithm, config);
+      cost = this.resolveCost(config, limit);
+    } catch (error) {
+      return this.handleError(error as Error, config);
+    }
+
+    const batchKey = this.batchKey(key, algorithm, config);
+    const batch = this.batches.get(batchKey);
+
+    if (batch && batch.expiresAt > Date.now() && batch.tokens >= cost) {
+      batch.tokens -= cost;
+      this.allocationStats.localChecks++;
+      return this.withLocalTokens(batch.result, batch.tokens);
+    }
+
+    // Lease no more than Redis had left last time, so the last tokens of a
+    // limit are checked one request at a time, and never more than the limit
+    const lease = Math.max(cost, Math.min(options.batchSize ?? 10, limit, batch ? batch.result.remaining : Infinity));
+
+    this.allocationStats.remoteChecks++;
+    let result = await this.consume(key, algorithm, { ...config, cost: lease });
+    let tokens = result.allowed ? lease - cost : 0;
+
+    if (!result.allowed && lease > cost) {
+      // Not enough left for a batch: check the request alone
+      this.allocationStats.remoteChecks++;
+      result = await this.consume(key, algorithm, config);
+      tokens = 0;
+    }
+
+    this.storeBatch(batchKey, { tokens, expiresAt: Date.now() + (options.maxAge ?? 1000), result }, options);
+    return this.withLocalTokens(result, tokens);
+  }
+
+  /**
+   * Count tokens still leased to this instance as remaining.
+   */
+  private withLocalTokens(result: IRateLimitResult, tokens: number): IRateLimitResult {
+    if (tokens === 0) {
+      return result;
+    }
+
+    return { ...result, remaining: result.remaining + tokens, current: Math.max(0, result.current - tokens) };
+  }
+
+  /**
+   * Keep leased tokens of a key, evicting the oldest key when full.
+   */
+  private storeBatch(batchKey: string, batch: { tokens: number; expiresAt: number; result: IRateLimitResult }, options: IRateLimitPreAllocationOptions): void {
+    this.batches.delete(batchKey);
+    if (this.batches.size >= (options.maxKeys ?? 10000)) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      const oldest = this.batches.keys().next().value;
+      if (oldest !== undefined) {
+        this.batches.delete(oldest);
+      }
+    }
+    this.batches.set(batchKey, batch);
+  }
+
   /**
    * Check fixed window rate limit.
    */
@@ -89,7 +472,7 @@ export class RateLimitService implements IRateLimitService {
     const points = config.points ?? this.config.defaultPoints ?? 100;
     const duration = config.duration ?? this.config.defaultDuration ?? 60;
 
-    return await this.store.fixedWindow(key, points, duration);
+    return await this.store.fixedWindow(key, points, duration, this.resolveCost(config, points));
   }
 
   /**
@@ -99,7 +482,7 @@ export class RateLimitService implements IRateLimitService {
     const points = config.points ?? this.config.defaultPoints ?? 100;
     const duration = config.duration ?? this.config.defaultDuration ?? 60;
 
-    return await this.store.slidingWindow(key, points, duration);
+    return await this.store.slidingWindow(key, points, duration, this.resolveCost(config, points));
   }
 
   /**
@@ -109,7 +492,139 @@ export class RateLimitService implements IRateLimitService {
     const capacity = config.capacity ?? config.points ?? this.config.defaultPoints ?? 100;
     const refillRate = config.refillRate ?? (config.duration ? capacity / config.duration : 10);
 
-    return await this.store.tokenBucket(key, capacity, refillRate, 1);
+    return await this.store.tokenBucket(key, capacity, refillRate, this.resolveCost(config, capacity));
+  }
+
+  /**
+   * Check leaky bucket rate limit.
+   * Only passes when the next slot is free now; `acquire()` waits instead.
+   */
+  private async checkLeakyBucket(key: string, config: IRateLimitConfig): Promise<IRateLimitResult> {
+    const points = config.points ?? this.config.defaultPoints ?? 100;
+    const duration = config.duration ?? this.config.defaultDuration ?? 60;
+    const capacity = config.capacity ?? points;
+
+    return await this.store.leakyBucket(key, points, duration, capacity, 0, this.resolveCost(config, capacity));
+  }
+
+  /**
+   * Check GCRA rate limit.
+   */
+  private async checkGcra(key: string, config: IRateLimitConfig): Promise<IRateLimitResult> {
+    const points = config.points ?? this.config.defaultPoints ?? 100;
+    const duration = config.duration ?? this.config.defaultDuration ?? 60;
+    const burst = config.burst ?? points;
+
+    return await this.store.gcra(key, points, duration, burst, this.resolveCost(config, burst));
+  }
+
+  /**
+   * Check stacked limit tiers in one atomic step.
+   * The result describes the most restrictive tier and lists all of them.
+   */
+  private async checkStacked(key: string, algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): Promise<IRateLimitResult> {
+    const tiers = this.resolveTiers(algorithm, config.limits ?? []);
+    const results = await this.store.stacked(this.buildKey(key, 'stacked'), tiers, this.resolveCost(config, Math.min(...tiers.map((tier) => tier.points))));
+
+    return { ...this.mostRestrictive(results), tiers: results };
+  }
+
+  /**
+   * Resolve tier algorithms and validate stacked limit tiers.
+   */
+  private resolveTiers(algorithm: NonNullable<IRateLimitConfig['algorithm']>, limits: IRateLimitTier[]): Array<Required<IRateLimitTier>> {
+    const tiers: Array<Required<IRateLimitTier>> = [];
+    for (const limit of limits) {
+      const tierAlgorithm = limit.algorithm ?? algorithm;
+      if (tierAlgorithm !== 'fixed-window' && tierAlgorithm !== 'sliding-window') {
+        throw new InvalidRateLimitConfigError(`Stacked limit "${limit.name}" needs a window algorithm, got: ${tierAlgorithm}`);
+      }
+      if (tiers.some((tier) => tier.name === limit.name)) {
+        throw new InvalidRateLimitConfigError(`Duplicate stacked limit name: ${limit.name}`);
+      }
+      tiers.push({ ...limit, algorithm: tierAlgorithm });
+    }
+
+    return tiers;
+  }
+
+  /**
+   * Resolve the points a request consumes.
+   *
+   * @param limit - Most points the limit grants a single request
+   */
+  private resolveCost(config: IRateLimitConfig, limit: number): number {
+    const cost = config.cost ?? 1;
+    if (!Number.isInteger(cost) || cost < 0) {
+      throw new InvalidRateLimitConfigError(`Rate limit cost must be a non-negative integer, got: ${cost}`);
+    }
+    if (cost > limit) {
+      // Such a request could never pass, and has no time to retry after
+      throw new InvalidRateLimitConfigError(`Rate limit cost must not exceed the limit of ${limit} points, got: ${cost}`);
+    }
+
+    return cost;
+  }
+
+  /**
+   * The most points a single request can consume: the points of a window (of
+   * the smallest tier when stacked), the bucket capacity, or the GCRA burst.
+   */
+  private costLimit(algorithm: NonNullable<IRateLimitConfig['algorithm']>, config: IRateLimitConfig): number {
+    if (config.limits?.length) {
+      return Math.min(...config.limits.map((tier) => tier.points));
+    }
+
+    const points = config.points ?? this.config.defaultPoints ?? 100;
+    switch (algorithm) {
+      case 'token-bucket':
+      case 'leaky-bucket':
+        return config.capacity ?? points;
+      case 'gcra':
+        return config.burst ?? points;
+      default:
+        return points;
+    }
+  }
+
+  /**
+   * Pick the tier to report: the rejecting tier with the longest wait, or the
+   * tier with the fewest requests left.
+   */
+  private mostRestrictive(results: IRateLimitTierResult[]): IRateLimitResult {
+    const rejecting = results.filter((tier) => !tier.allowed);
+    const waitLongest = (worst: IRateLimitTierResult, next: IRateLimitTierResult) => ((next.retryAfter ?? 0) > (worst.retryAfter ?? 0) ? next : worst);
+    const fewestLeft = (worst: IRateLimitTierResult, next: IRateLimitTierResult) => (next.remaining < worst.remaining ? next : worst);
+    const tier = rejecting.length > 0 ? rejecting.reduce(waitLongest) : results.reduce(fewestLeft);
+
+    return {
+      allowed: rejecting.length === 0,
+      limit: tier.limit,
+      remaining: tier.remaining,
+      reset: tier.reset,
+      current: tier.current,
+      retryAfter: tier.retryAfter,
+    };
+  }
+
+  /**
+   * Cache a resolved quota, evicting the oldest entry when full.
+   */
+  private cacheQuota(key: string, quota: IRateLimitQuota | null, options: IRateLimitQuotaOptions): void {
+    const ttl = options.cacheTtl ?? 60;
+    if (ttl <= 0) {
+      return;
+    }
+
+    this.quotaCache.delete(key);
+    if (this.quotaCache.size >= (options.cacheSize ?? 10000)) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      const oldest = this.quotaCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.quotaCache.delete(oldest);
+      }
+    }
+    this.quotaCache.set(key, { quota, expiresAt: Date.now() + ttl * 1000 });
   }
 
   /**
@@ -127,13 +642,26 @@ export class RateLimitService implements IRateLimitService {
       return { capacity, refillRate };
     }
 
+    if (algorithm === 'leaky-bucket') {
+      return { ...baseConfig, capacity: config.capacity ?? baseConfig.points };
+    }
+
+    if (algorithm === 'gcra') {
+      return { ...baseConfig, burst: config.burst ?? baseConfig.points };
+    }
+
     return baseConfig;
   }
 
   /**
    * Handle error based on error policy.
+   * The policy covers store failures only; invalid configuration always throws.
    */
   private handleError(error: Error, config: IRateLimitConfig): IRateLimitResult {
+    if (error instanceof InvalidRateLimitConfigError) {
+      throw error;
+    }
+
     const errorPolicy = this.config.errorPolicy ?? 'fail-closed';
 
     if (errorPolicy === 'fail-open') {
@@ -27,6 +27,6 @@ export class FixedWindowStrategy implements IRateLimitStrategy {
     const points = config.points ?? 100;
     const duration = config.duration ?? 60;
 
-    return this.store.fixedWindow(key, points, duration);
+    return this.store.fixedWindow(key, points, duration, config.cost ?? 1);
   }
 }
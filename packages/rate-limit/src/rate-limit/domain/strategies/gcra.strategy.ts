@@ -0,0 +1,33 @@
+import { IRateLimitResult } from '../../../shared/types';
+import { IRateLimitStore } from '../../application/ports/rate-limit-store.port';
+import { GCRA_SCRIPT } from '../../infrastructure/scripts/lua-scripts';
+import { IRateLimitStrategy, IStrategyConfig } from './rate-limit-strategy.interface';
+
+/**
+ * GCRA (generic cell rate algorithm) rate limiting strategy.
+ *
+ * Spaces requests evenly at the sustained rate, tolerating bursts.
+ * Pros: Smooth limiting, exact retry time, one small key per client
+ * Cons: Less intuitive than window counters
+ */
+export class GcraStrategy implements IRateLimitStrategy {
+  readonly name = 'gcra' as const;
+
+  constructor(private readonly store?: IRateLimitStore) {}
+
+  getScript(): string {
+    return GCRA_SCRIPT;
+  }
+
+  async check(key: string, config: IStrategyConfig): Promise<IRateLimitResult> {
+    if (!this.store) {
+      throw new Error('GcraStrategy requires an IRateLimitStore. Pass it via constructor or use RateLimitService instead.');
+    }
+
+    const points = config.points ?? 100;
+    const duration = config.duration ?? 60;
+    const burst = config.burst ?? points;
+
+    return this.store.gcra(key, points, duration, burst, config.cost ?? 1);
+  }
+}
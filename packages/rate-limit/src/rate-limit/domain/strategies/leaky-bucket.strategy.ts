@@ -0,0 +1,34 @@
+import { IRateLimitResult } from '../../../shared/types';
+import { IRateLimitStore } from '../../application/ports/rate-limit-store.port';
+import { LEAKY_BUCKET_SCRIPT } from '../../infrastructure/scripts/lua-scripts';
+import { IRateLimitStrategy, IStrategyConfig } from './rate-limit-strategy.interface';
+
+/**
+ * Leaky bucket (queue) rate limiting strategy.
+ *
+ * Requests leave the bucket at a constant rate. A check only passes when the
+ * next slot is free now; use `RateLimitService.acquire()` to wait for a slot.
+ * Pros: Constant output rate, suited to outbound calls
+ * Cons: No bursts, callers must wait or be rejected
+ */
+export class LeakyBucketStrategy implements IRateLimitStrategy {
+  readonly name = 'leaky-bucket' as const;
+
+  constructor(private readonly store?: IRateLimitStore) {}
+
+  getScript(): string {
+    return LEAKY_BUCKET_SCRIPT;
+  }
+
+  async check(key: string, config: IStrategyConfig): Promise<IRateLimitResult> {
+    if (!this.store) {
+      throw new Error('LeakyBucketStrategy requires an IRateLimitStore. Pass it via constructor or use RateLimitService instead.');
+    }
+
+    const points = config.points ?? 100;
+    const duration = config.duration ?? 60;
+    const capacity = config.capacity ?? points;
+
+    return this.store.leakyBucket(key, points, duration, capacity, 0, config.cost ?? 1);
+  }
+}
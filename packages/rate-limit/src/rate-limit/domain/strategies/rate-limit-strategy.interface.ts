@@ -15,7 +15,7 @@ export interface IStrategyConfig {
   duration?: number;
 
   /**
-   * Bucket capacity (for token bucket).
+   * Bucket capacity (for token bucket and leaky bucket).
    */
   capacity?: number;
 
@@ -23,6 +23,16 @@ export interface IStrategyConfig {
    * Refill rate in tokens per second (for token bucket).
    */
   refillRate?: number;
+
+  /**
+   * Requests allowed back-to-back (for GCRA).
+   */
+  burst?: number;
+
+  /**
+   * Points consumed by the request (default: 1).
+   */
+  cost?: number;
 }
 
 /**
@@ -33,7 +43,7 @@ export interface IRateLimitStrategy {
   /**
    * Strategy name.
    */
-  readonly name: 'fixed-window' | 'sliding-window' | 'token-bucket';
+  readonly name: 'fixed-window' | 'sliding-window' | 'token-bucket' | 'leaky-bucket' | 'gcra';
 
   /**
    * Check and consume rate limit.
@@ -27,6 +27,6 @@ export class SlidingWindowStrategy implements IRateLimitStrategy {
     const points = config.points ?? 100;
     const duration = config.duration ?? 60;
 
-    return this.store.slidingWindow(key, points, duration);
+    return this.store.slidingWindow(key, points, duration, config.cost ?? 1);
   }
 }
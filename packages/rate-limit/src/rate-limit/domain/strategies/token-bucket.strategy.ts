@@ -27,6 +27,6 @@ export class TokenBucketStrategy implements IRateLimitStrategy {
     const capacity = config.capacity ?? config.points ?? 100;
     const refillRate = config.refillRate ?? (config.duration ? capacity / config.duration : 10);
 
-    return this.store.tokenBucket(key, capacity, refillRate, 1);
+    return this.store.tokenBucket(key, capacity, refillRate, config.cost ?? 1);
   }
 }
@@ -3,9 +3,9 @@ import { IRedisDriver } from '@nestjs-redisx/core';
 
 import { RATE_LIMIT_REDIS_DRIVER } from '../../../shared/constants';
 import { RateLimitScriptError } from '../../../shared/errors';
-import { IRateLimitResult } from '../../../shared/types';
+import { IConcurrencyResult, IRateLimitPenalty, IRateLimitQuota, IRateLimitReservation, IRateLimitResult, IRateLimitTier, IRateLimitTierResult } from '../../../shared/types';
 import { IRateLimitStore } from '../../application/ports/rate-limit-store.port';
-import { FIXED_WINDOW_SCRIPT, SLIDING_WINDOW_SCRIPT, TOKEN_BUCKET_SCRIPT } from '../scripts/lua-scripts';
+import { CONCURRENCY_SCRIPT, FIXED_WINDOW_SCRIPT, GCRA_SCRIPT, LEAKY_BUCKET_SCRIPT, PENALTY_SCRIPT, REFUND_SCRIPT, RENEW_CONCURRENCY_SCRIPT, SLIDING_WINDOW_SCRIPT, STACKED_LIMITS_SCRIPT, TOKEN_BUCKET_SCRIPT } from '../scripts/lua-scripts';
 
 /**
  * Redis-based rate limit store implementation.
@@ -16,6 +16,13 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
   private fixedWindowSha: string | null = null;
   private slidingWindowSha: string | null = null;
   private tokenBucketSha: string | null = null;
+  private leakyBucketSha: string | null = null;
+  private gcraSha: string | null = null;
+  private stackedSha: string | null = null;
+  private refundSha: string | null = null;
+  private concurrencySha: string | null = null;
+  private renewConcurrencySha: string | null = null;
+  private penaltySha: string | null = null;
 
   constructor(@Inject(RATE_LIMIT_REDIS_DRIVER) private readonly driver: IRedisDriver) {}
 
@@ -27,6 +34,13 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
       this.fixedWindowSha = await this.driver.scriptLoad(FIXED_WINDOW_SCRIPT);
       this.slidingWindowSha = await this.driver.scriptLoad(SLIDING_WINDOW_SCRIPT);
       this.tokenBucketSha = await this.driver.scriptLoad(TOKEN_BUCKET_SCRIPT);
+      this.leakyBucketSha = await this.driver.scriptLoad(LEAKY_BUCKET_SCRIPT);
+      this.gcraSha = await this.driver.scriptLoad(GCRA_SCRIPT);
+      this.stackedSha = await this.driver.scriptLoad(STACKED_LIMITS_SCRIPT);
+      this.refundSha = await this.driver.scriptLoad(REFUND_SCRIPT);
+      this.concurrencySha = await this.driver.scriptLoad(CONCURRENCY_SCRIPT);
+      this.renewConcurrencySha = await this.driver.scriptLoad(RENEW_CONCURRENCY_SCRIPT);
+      this.penaltySha = await this.driver.scriptLoad(PENALTY_SCRIPT);
     } catch (error) {
       throw new RateLimitScriptError(`Failed to load Lua scripts: ${(error as Error).message}`, error as Error);
     }
@@ -35,17 +49,17 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
   /**
    * Fixed window rate limiting.
    */
-  async fixedWindow(key: string, points: number, duration: number): Promise<IRateLimitResult> {
+  async fixedWindow(key: string, points: number, duration: number, cost = 1): Promise<IRateLimitResult> {
     const now = Math.floor(Date.now() / 1000);
 
     try {
-      const result = await this.driver.evalsha(this.fixedWindowSha!, [key], [points, duration, now]);
+      const result = await this.driver.evalsha(this.fixedWindowSha!, [key], [points, duration, now, cost]);
 
       return this.parseFixedWindowResult(result as number[], points);
     } catch (error) {
       // Fallback to eval if script not loaded
       if (this.isNoScriptError(error)) {
-        const result = await this.driver.eval(FIXED_WINDOW_SCRIPT, [key], [points, duration, now]);
+        const result = await this.driver.eval(FIXED_WINDOW_SCRIPT, [key], [points, duration, now, cost]);
         return this.parseFixedWindowResult(result as number[], points);
       }
 
@@ -56,18 +70,18 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
   /**
    * Sliding window rate limiting.
    */
-  async slidingWindow(key: string, points: number, duration: number): Promise<IRateLimitResult> {
+  async slidingWindow(key: string, points: number, duration: number, cost = 1): Promise<IRateLimitResult> {
     const now = Date.now();
     const requestId = `${now}-${Math.random().toString(36).substring(7)}`;
 
     try {
-      const result = await this.driver.evalsha(this.slidingWindowSha!, [key], [points, duration, now, requestId]);
+      const result = await this.driver.evalsha(this.slidingWindowSha!, [key], [points, duration, now, requestId, cost]);
 
       return this.parseSlidingWindowResult(result as number[], points);
     } catch (error) {
       // Fallback to eval if script not loaded
       if (this.isNoScriptError(error)) {
-        const result = await this.driver.eval(SLIDING_WINDOW_SCRIPT, [key], [points, duration, now, requestId]);
+        const result = await this.driver.eval(SLIDING_WINDOW_SCRIPT, [key], [points, duration, now, requestId, cost]);
         return this.parseSlidingWindowResult(result as number[], points);
       }
 
@@ -96,6 +110,128 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
     }
   }
 
+  /**
+   * Leaky bucket rate limiting (slot reservation).
+   */
+  async leakyBucket(key: string, points: number, duration: number, capacity: number, maxWait: number, cost = 1): Promise<IRateLimitReservation> {
+    const now = Date.now();
+    const interval = (duration * 1000) / points;
+
+    try {
+      const result = await this.driver.evalsha(this.leakyBucketSha!, [key], [interval, capacity, now, maxWait, cost]);
+
+      return this.parseLeakyBucketResult(result as number[], capacity);
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(LEAKY_BUCKET_SCRIPT, [key], [interval, capacity, now, maxWait, cost]);
+        return this.parseLeakyBucketResult(result as number[], capacity);
+      }
+
+      throw new RateLimitScriptError(`Leaky bucket check failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * GCRA rate limiting.
+   */
+  async gcra(key: string, points: number, duration: number, burst: number, cost = 1): Promise<IRateLimitResult> {
+    const now = Date.now();
+    const interval = (duration * 1000) / points;
+
+    try {
+      const result = await this.driver.evalsha(this.gcraSha!, [key], [interval, burst, now, cost]);
+
+      return this.parseGcraResult(result as number[], burst);
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(GCRA_SCRIPT, [key], [interval, burst, now, cost]);
+        return this.parseGcraResult(result as number[], burst);
+      }
+
+      throw new RateLimitScriptError(`GCRA check failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Stacked window limits.
+   * Tier keys share the `{key}` hash tag so the script may touch them all.
+   */
+  async stacked(key: string, tiers: Array<Required<IRateLimitTier>>, cost = 1): Promise<IRateLimitTierResult[]> {
+    const now = Date.now();
+    const requestId = `${now}-${Math.random().toString(36).substring(7)}`;
+    const keys = tiers.map((tier) => `{${key}}:${tier.name}`);
+    const args = [now, requestId, cost, ...tiers.flatMap((tier) => [tier.algorithm, tier.points, tier.duration])];
+
+    try {
+      const result = await this.driver.evalsha(this.stackedSha!, keys, args);
+
+      return this.parseStackedResult(result as number[], tiers);
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(STACKED_LIMITS_SCRIPT, keys, args);
+        return this.parseStackedResult(result as number[], tiers);
+      }
+
+      throw new RateLimitScriptError(`Stacked limits check failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Take a leased in-flight slot.
+   */
+  async concurrency(key: string, max: number, lease: number, slot: string): Promise<IConcurrencyResult> {
+    const now = Date.now();
+
+    try {
+      const result = await this.driver.evalsha(this.concurrencySha!, [key], [max, lease, now, slot]);
+
+      return this.parseConcurrencyResult(result as number[], max, slot);
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(CONCURRENCY_SCRIPT, [key], [max, lease, now, slot]);
+        return this.parseConcurrencyResult(result as number[], max, slot);
+      }
+
+      throw new RateLimitScriptError(`Concurrency check failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Free an in-flight slot.
+   */
+  async releaseConcurrency(key: string, slot: string): Promise<void> {
+    try {
+      await this.driver.zrem(key, slot);
+    } catch (error) {
+      throw new RateLimitScriptError(`Release concurrency failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Extend the lease of a held in-flight slot.
+   */
+  async renewConcurrency(key: string, slot: string, lease: number): Promise<boolean> {
+    const args = [lease, Date.now(), slot];
+
+    try {
+      const result = await this.driver.evalsha(this.renewConcurrencySha!, [key], args);
+
+      return Number(result) === 1;
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(RENEW_CONCURRENCY_SCRIPT, [key], args);
+        return Number(result) === 1;
+      }
+
+      throw new RateLimitScriptError(`Renew concurrency failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
   /**
    * Peek current state without consuming.
    * Note: This is a simplified implementation.
@@ -133,6 +269,42 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
           reset: Math.floor(Date.now() / 1000) + duration,
           current: count,
         };
+      } else if (algorithm === 'leaky-bucket') {
+        // Leaky bucket: read the next free slot and count the requests queued
+        // before it.
+        const points = config.points || 100;
+        const capacity = config.capacity || points;
+        const interval = ((config.duration || 60) * 1000) / points;
+        const now = Date.now();
+        const stored = await this.driver.get(key);
+        const slot = Math.max(stored ? parseFloat(stored) : now, now);
+        const queued = Math.ceil((slot - now) / interval);
+
+        return {
+          allowed: slot === now,
+          limit: capacity,
+          remaining: Math.max(0, capacity - queued),
+          reset: Math.ceil(slot / 1000),
+          current: queued,
+        };
+      } else if (algorithm === 'gcra') {
+        // GCRA: read the stored theoretical arrival time and count how many
+        // requests still fit in the burst tolerance.
+        const points = config.points || 100;
+        const burst = config.burst || points;
+        const interval = ((config.duration || 60) * 1000) / points;
+        const now = Date.now();
+        const stored = await this.driver.get(key);
+        const tat = Math.max(stored ? parseFloat(stored) : now, now);
+        const remaining = Math.max(0, Math.min(burst, Math.floor((now + interval * burst - tat) / interval)));
+
+        return {
+          allowed: remaining >= 1,
+          limit: burst,
+          remaining,
+          reset: Math.ceil(tat / 1000),
+          current: burst - remaining,
+        };
       }
 
       // Token bucket: read the stored state via HMGET and compute the currently
@@ -160,6 +332,94 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
     }
   }
 
+  /**
+   * Give points back to a rate limit key.
+   * Fixed window refunds go to the current window.
+   */
+  async refund(key: string, algorithm: string, points: number, config: Record<string, number>): Promise<void> {
+    const duration = config.duration || 60;
+    const interval = (duration * 1000) / (config.points || 100);
+
+    switch (algorithm) {
+      case 'fixed-window':
+        return this.runRefund([`{${key}}:${this.currentWindow(duration)}`], ['counter', 0], points);
+      case 'sliding-window':
+        return this.runRefund([key], ['log', 0], points);
+      case 'token-bucket':
+        return this.runRefund([key], ['bucket', config.capacity || 100], points);
+      default:
+        // Leaky bucket and GCRA store the time of the next slot
+        return this.runRefund([key], ['schedule', interval], points);
+    }
+  }
+
+  /**
+   * Give points back to every tier of stacked limits.
+   */
+  async refundStacked(key: string, tiers: Array<Required<IRateLimitTier>>, points: number): Promise<void> {
+    const keys = tiers.map((tier) => (tier.algorithm === 'fixed-window' ? `{${key}}:${tier.name}:${this.currentWindow(tier.duration)}` : `{${key}}:${tier.name}`));
+    const targets = tiers.flatMap((tier) => [tier.algorithm === 'fixed-window' ? 'counter' : 'log', 0]);
+
+    return this.runRefund(keys, targets, points);
+  }
+
+  /**
+   * Count a rejection and ban the key once the threshold is hit.
+   * Penalty keys share the `{key}` hash tag so the script may touch them all.
+   */
+  async penalize(key: string, penalty: Required<IRateLimitPenalty>): Promise<number> {
+    const keys = [`{${key}}:strikes`, `{${key}}:ban`, `{${key}}:level`];
+    const args = [penalty.threshold, penalty.window, penalty.duration, penalty.multiplier, penalty.maxDuration, penalty.decay];
+
+    try {
+      const result = await this.driver.evalsha(this.penaltySha!, keys, args);
+
+      return Number(result) || 0;
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        const result = await this.driver.eval(PENALTY_SCRIPT, keys, args);
+        return Number(result) || 0;
+      }
+
+      throw new RateLimitScriptError(`Penalty failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Get the time left of a ban.
+   */
+  async getBan(key: string): Promise<number> {
+    try {
+      // -2 (no key) and -1 (no expiry) both mean "not banned"
+      return Math.max(0, await this.driver.pttl(`{${key}}:ban`));
+    } catch (error) {
+      throw new RateLimitScriptError(`Get ban failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Ban a key.
+   */
+  async ban(key: string, duration: number): Promise<void> {
+    try {
+      await this.driver.setex(`{${key}}:ban`, duration, '0');
+    } catch (error) {
+      throw new RateLimitScriptError(`Ban failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Lift the ban of a key and forget its rejections and previous bans.
+   */
+  async unban(key: string): Promise<void> {
+    try {
+      await this.driver.del(`{${key}}:strikes`, `{${key}}:ban`, `{${key}}:level`);
+    } catch (error) {
+      throw new RateLimitScriptError(`Unban failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
   /**
    * Reset rate limit key.
    */
@@ -171,6 +431,84 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
     }
   }
 
+  /**
+   * Delete stacked tier keys.
+   * Older fixed windows are left to expire on their own.
+   */
+  async resetStacked(key: string, tiers: Array<Required<IRateLimitTier>>): Promise<void> {
+    const keys = tiers.map((tier) => (tier.algorithm === 'fixed-window' ? `{${key}}:${tier.name}:${this.currentWindow(tier.duration)}` : `{${key}}:${tier.name}`));
+
+    try {
+      await this.driver.del(...keys);
+    } catch (error) {
+      throw new RateLimitScriptError(`Reset failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Get the quota stored for a key.
+   */
+  async getQuota(key: string): Promise<IRateLimitQuota | null> {
+    try {
+      const value = await this.driver.get(key);
+      return value ? (JSON.parse(value) as IRateLimitQuota) : null;
+    } catch (error) {
+      throw new RateLimitScriptError(`Get quota failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Store the quota of a key, as JSON.
+   */
+  async setQuota(key: string, quota: IRateLimitQuota, ttl?: number): Promise<void> {
+    try {
+      if (ttl) {
+        await this.driver.setex(key, ttl, JSON.stringify(quota));
+      } else {
+        await this.driver.set(key, JSON.stringify(quota));
+      }
+    } catch (error) {
+      throw new RateLimitScriptError(`Set quota failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Remove the quota stored for a key.
+   */
+  async deleteQuota(key: string): Promise<void> {
+    try {
+      await this.driver.del(key);
+    } catch (error) {
+      throw new RateLimitScriptError(`Delete quota failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Run the refund script for keys with their state kind and parameter.
+   */
+  private async runRefund(keys: string[], targets: Array<string | number>, points: number): Promise<void> {
+    const args = [points, Date.now(), ...targets];
+
+    try {
+      await this.driver.evalsha(this.refundSha!, keys, args);
+    } catch (error) {
+      // Fallback to eval if script not loaded
+      if (this.isNoScriptError(error)) {
+        await this.driver.eval(REFUND_SCRIPT, keys, args);
+        return;
+      }
+
+      throw new RateLimitScriptError(`Refund failed: ${(error as Error).message}`, error as Error);
+    }
+  }
+
+  /**
+   * Start of the current fixed window, in seconds.
+   */
+  private currentWindow(duration: number): number {
+    return Math.floor(Math.floor(Date.now() / 1000) / duration) * duration;
+  }
+
   /**
    * Parse fixed window script result.
    * Returns: {allowed, remaining, reset, current}
@@ -233,6 +571,90 @@ export class RedisRateLimitStoreAdapter implements IRateLimitStore, OnModuleInit
     };
   }
 
+  /**
+   * Parse leaky bucket script result.
+   * Returns: {allowed, remaining, reset, current, retryAfterMs, delayMs}
+   */
+  private parseLeakyBucketResult(result: number[], capacity: number): IRateLimitReservation {
+    const allowed = result[0] ?? 0;
+    const remaining = result[1] ?? 0;
+    const reset = result[2] ?? 0;
+    const current = result[3] ?? 0;
+    const retryAfterMs = result[4] ?? 0;
+    const delay = result[5] ?? 0;
+
+    return {
+      allowed: allowed === 1,
+      limit: capacity,
+      remaining,
+      reset, // Unix timestamp when the bucket is empty again
+      current,
+      retryAfter: allowed === 0 ? Math.max(1, Math.ceil(retryAfterMs / 1000)) : undefined,
+      delay,
+    };
+  }
+
+  /**
+   * Parse GCRA script result.
+   * Returns: {allowed, remaining, reset, current, retryAfterMs}
+   */
+  private parseGcraResult(result: number[], burst: number): IRateLimitResult {
+    const allowed = result[0] ?? 0;
+    const remaining = result[1] ?? 0;
+    const reset = result[2] ?? 0;
+    const current = result[3] ?? 0;
+    const retryAfterMs = result[4] ?? 0;
+
+    return {
+      allowed: allowed === 1,
+      limit: burst,
+      remaining,
+      reset, // Unix timestamp when the full burst is available again
+      current,
+      retryAfter: allowed === 0 ? Math.max(1, Math.ceil(retryAfterMs / 1000)) : undefined,
+    };
+  }
+
+  /**
+   * Parse concurrency script result.
+   * Returns: {allowed, in-flight, earliest lease expiry (ms)}
+   */
+  private parseConcurrencyResult(result: number[], max: number, slot: string): IConcurrencyResult {
+    const allowed = (result[0] ?? 0) === 1;
+    const current = result[1] ?? 0;
+
+    return {
+      allowed,
+      limit: max,
+      remaining: Math.max(0, max - current),
+      reset: Math.ceil((result[2] ?? 0) / 1000), // Unix timestamp when the earliest lease expires
+      current,
+      slot: allowed ? slot : undefined,
+    };
+  }
+
+  /**
+   * Parse stacked limits script result.
+   * Returns: {allowed, remaining, reset, current, retryAfter} per tier
+   */
+  private parseStackedResult(result: number[], tiers: Array<Required<IRateLimitTier>>): IRateLimitTierResult[] {
+    return tiers.map((tier, index) => {
+      const offset = index * 5;
+      const allowed = result[offset] ?? 0;
+      const retryAfter = result[offset + 4];
+
+      return {
+        name: tier.name,
+        allowed: allowed === 1,
+        limit: tier.points,
+        remaining: result[offset + 1] ?? 0,
+        reset: result[offset + 2] ?? 0,
+        current: result[offset + 3] ?? 0,
+        retryAfter: allowed === 0 ? Math.max(1, retryAfter ?? 0) : undefined,
+      };
+    });
+  }
+
   /**
    * Check if error is NOSCRIPT error.
    */
@@ -12,6 +12,7 @@
  * ARGV[1] = max points
  * ARGV[2] = window duration (seconds)
  * ARGV[3] = current timestamp
+ * ARGV[4] = cost (points to consume, default: 1)
  *
  * Returns: {allowed, remaining, reset, current}
  */
@@ -20,31 +21,40 @@ local key = KEYS[1]
 local max_points = tonumber(ARGV[1])
 local duration = tonumber(ARGV[2])
 local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
 
 local window = math.floor(now / duration) * duration
 local window_key = '{' .. key .. '}:' .. window
 
-local current = redis.call('INCR', window_key)
+local current = redis.call('INCRBY', window_key, cost)
 
-if current == 1 then
+if current == cost then
   redis.call('EXPIRE', window_key, duration)
 end
 
-local allowed = current <= max_points
-local remaining = math.max(0, max_points - current)
 local reset = window + duration
 
-return {allowed and 1 or 0, remaining, reset, current}
+-- Rejected requests consume nothing
+if current > max_points then
+  current = redis.call('DECRBY', window_key, cost)
+  return {0, math.max(0, max_points - current), reset, current}
+end
+
+return {1, max_points - current, reset, current}
 `.trim();
 
 /**
  * Sliding Window Log Lua script.
  *
+ * Logs one sorted set member per point consumed, so a request costs memory
+ * and script time in proportion to its cost.
+ *
  * KEYS[1] = rate limit key
  * ARGV[1] = max points
  * ARGV[2] = window duration (seconds)
  * ARGV[3] = current timestamp (ms)
  * ARGV[4] = unique request id
+ * ARGV[5] = cost (points to consume, default: 1)
  *
  * Returns: {allowed, remaining, reset, current, retryAfter?}
  */
@@ -54,6 +64,7 @@ local max_points = tonumber(ARGV[1])
 local duration = tonumber(ARGV[2]) * 1000  -- Convert to ms
 local now = tonumber(ARGV[3])
 local request_id = ARGV[4]
+local cost = tonumber(ARGV[5]) or 1
 
 local window_start = now - duration
 
@@ -63,21 +74,33 @@ redis.call('ZREMRANGEBYSCORE', key, '-inf', window_start)
 -- Count current requests
 local current = redis.call('ZCARD', key)
 
-if current < max_points then
-  -- Add new request
-  redis.call('ZADD', key, now, request_id)
+if current + cost <= max_points then
+  -- Add one entry per point of the request, up to 500 per ZADD
+  local members = {}
+  local n = 0
+  for i = 1, cost do
+    members[n + 1] = now
+    members[n + 2] = request_id .. ':' .. i
+    n = n + 2
+    if n == 1000 or i == cost then
+      redis.call('ZADD', key, unpack(members))
+      members = {}
+      n = 0
+    end
+  end
   redis.call('PEXPIRE', key, duration)
 
-  return {1, max_points - current - 1, math.ceil((now + duration) / 1000), current + 1}
+  return {1, max_points - current - cost, math.ceil((now + duration) / 1000), current + cost}
 else
-  -- Get oldest entry to calculate retry time
-  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  -- Retry once enough of the oldest entries have expired
+  local excess = current + cost - max_points
+  local oldest = redis.call('ZRANGE', key, excess - 1, excess - 1, 'WITHSCORES')
   local retry_after = 0
   if #oldest > 0 then
     retry_after = math.ceil((tonumber(oldest[2]) + duration - now) / 1000)
   end
 
-  return {0, 0, math.ceil((now + duration) / 1000), current, retry_after}
+  return {0, math.max(0, max_points - current), math.ceil((now + duration) / 1000), current, retry_after}
 end
 `.trim();
 
@@ -132,3 +155,386 @@ local reset = math.ceil(now / 1000 + time_to_full)
 
 return {allowed and 1 or 0, math.floor(new_tokens), reset, math.floor(tokens), retry_after}
 `.trim();
+
+/**
+ * GCRA (generic cell rate algorithm) Lua script.
+ *
+ * Stores only the theoretical arrival time (TAT) of the next request at the
+ * sustained rate. A request is allowed while the TAT is at most
+ * `burst * interval` ahead of now.
+ *
+ * KEYS[1] = rate limit key
+ * ARGV[1] = emission interval (ms between requests at the sustained rate)
+ * ARGV[2] = burst (requests allowed back-to-back)
+ * ARGV[3] = current timestamp (ms)
+ * ARGV[4] = cost (intervals to consume, default: 1)
+ *
+ * Returns: {allowed, remaining, reset, current, retryAfterMs}
+ */
+export const GCRA_SCRIPT = `
+local key = KEYS[1]
+local interval = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4]) or 1
+local tolerance = interval * burst
+
+local tat = tonumber(redis.call('GET', key)) or now
+if tat < now then
+  tat = now
+end
+
+local new_tat = tat + interval * cost
+local allow_at = new_tat - tolerance
+
+if allow_at > now then
+  return {0, 0, math.ceil(tat / 1000), burst, math.ceil(allow_at - now)}
+end
+
+redis.call('SET', key, new_tat, 'PX', math.ceil(new_tat - now))
+
+local remaining = math.floor((now + tolerance - new_tat) / interval)
+return {1, remaining, math.ceil(new_tat / 1000), burst - remaining, 0}
+`.trim();
+
+/**
+ * Leaky Bucket (queue) Lua script.
+ *
+ * Requests leave the bucket one per interval. Stores the time of the next
+ * free slot; an admitted request reserves it and moves it one interval on.
+ * A request is rejected when the bucket holds `capacity` requests or its slot
+ * is further away than the caller is willing to wait.
+ *
+ * KEYS[1] = rate limit key
+ * ARGV[1] = leak interval (ms between requests)
+ * ARGV[2] = capacity (max requests in the bucket)
+ * ARGV[3] = current timestamp (ms)
+ * ARGV[4] = max wait for the slot (ms)
+ * ARGV[5] = cost (slots to reserve, default: 1)
+ *
+ * Returns: {allowed, remaining, reset, current, retryAfterMs, delayMs}
+ */
+export const LEAKY_BUCKET_SCRIPT = `
+local key = KEYS[1]
+local interval = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local max_wait = tonumber(ARGV[4])
+local cost = tonumber(ARGV[5]) or 1
+
+local slot = tonumber(redis.call('GET', key)) or now
+if slot < now then
+  slot = now
+end
+
+local delay = slot - now
+local queued = math.ceil(delay / interval)
+
+if queued + cost > capacity or delay > max_wait then
+  local acceptable = math.max(0, math.min(max_wait, (capacity - cost) * interval))
+  return {0, math.max(0, capacity - queued), math.ceil(slot / 1000), queued, math.ceil(delay - acceptable), delay}
+end
+
+local next_slot = slot + interval * cost
+redis.call('SET', key, next_slot, 'PX', math.ceil(next_slot - now))
+
+return {1, capacity - queued - cost, math.ceil(next_slot / 1000), queued + cost, 0, delay}
+`.trim();
+
+/**
+ * Stacked limits Lua script.
+ *
+ * Checks every tier first and only counts the request when all tiers allow
+ * it, so tiers never drift apart. Tier keys must share a hash tag.
+ *
+ * KEYS[i] = tier key
+ * ARGV[1] = current timestamp (ms)
+ * ARGV[2] = unique request id
+ * ARGV[3] = cost (points to consume in every tier)
+ * ARGV[4 + (i - 1) * 3] = tier algorithm ('fixed-window' or 'sliding-window')
+ * ARGV[5 + (i - 1) * 3] = tier max points
+ * ARGV[6 + (i - 1) * 3] = tier window duration (seconds)
+ *
+ * Returns: {allowed, remaining, reset, current, retryAfter} per tier, flattened
+ */
+export const STACKED_LIMITS_SCRIPT = `
+local now = tonumber(ARGV[1])
+local now_seconds = math.floor(now / 1000)
+local request_id = ARGV[2]
+local cost = tonumber(ARGV[3])
+local count = #KEYS
+
+local algorithms = {}
+local max_points = {}
+local durations = {}
+local window_keys = {}
+local resets = {}
+local currents = {}
+local allowed = true
+
+-- Read every tier without counting the request
+for i = 1, count do
+  local base = 4 + (i - 1) * 3
+  algorithms[i] = ARGV[base]
+  max_points[i] = tonumber(ARGV[base + 1])
+  durations[i] = tonumber(ARGV[base + 2])
+
+  if algorithms[i] == 'fixed-window' then
+    local window = math.floor(now_seconds / durations[i]) * durations[i]
+    window_keys[i] = KEYS[i] .. ':' .. window
+    resets[i] = window + durations[i]
+    currents[i] = tonumber(redis.call('GET', window_keys[i])) or 0
+  else
+    redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now - durations[i] * 1000)
+    resets[i] = math.ceil((now + durations[i] * 1000) / 1000)
+    currents[i] = redis.call('ZCARD', KEYS[i])
+  end
+
+  if currents[i] + cost > max_points[i] then
+    allowed = false
+  end
+end
+
+local result = {}
+for i = 1, count do
+  local tier_allowed = currents[i] + cost <= max_points[i]
+  local current = currents[i]
+  local retry_after = 0
+
+  if allowed then
+    if algorithms[i] == 'fixed-window' then
+      current = redis.call('INCRBY', window_keys[i], cost)
+      if current == cost then
+        redis.call('EXPIRE', window_keys[i], durations[i])
+      end
+    else
+      local members = {}
+      local n = 0
+      for j = 1, cost do
+        members[n + 1] = now
+        members[n + 2] = request_id .. ':' .. j
+        n = n + 2
+        if n == 1000 or j == cost then
+          redis.call('ZADD', KEYS[i], unpack(members))
+          members = {}
+          n = 0
+        end
+      end
+      redis.call('PEXPIRE', KEYS[i], durations[i] * 1000)
+      current = current + cost
+    end
+  elseif not tier_allowed then
+    if algorithms[i] == 'fixed-window' then
+      retry_after = resets[i] - now_seconds
+    else
+      local excess = currents[i] + cost - max_points[i]
+      local oldest = redis.call('ZRANGE', KEYS[i], excess - 1, excess - 1, 'WITHSCORES')
+      if #oldest > 0 then
+        retry_after = math.ceil((tonumber(oldest[2]) + durations[i] * 1000 - now) / 1000)
+      end
+    end
+  end
+
+  local offset = (i - 1) * 5
+  result[offset + 1] = tier_allowed and 1 or 0
+  result[offset + 2] = math.max(0, max_points[i] - current)
+  result[offset + 3] = resets[i]
+  result[offset + 4] = current
+  result[offset + 5] = retry_after
+end
+
+return result
+`.trim();
+
+/**
+ * Refund Lua script.
+ *
+ * Gives points back to keys of any algorithm, never beyond an unused state.
+ *
+ * KEYS[i] = state key
+ * ARGV[1] = points to refund
+ * ARGV[2] = current timestamp (ms)
+ * ARGV[1 + i * 2] = state kind of KEYS[i]: 'counter' (fixed window), 'log'
+ *                   (sliding window), 'bucket' (token bucket) or 'schedule'
+ *                   (leaky bucket, GCRA)
+ * ARGV[2 + i * 2] = bucket capacity, or interval (ms) for 'schedule'
+ *
+ * Returns: number of keys
+ */
+export const REFUND_SCRIPT = `
+local points = tonumber(ARGV[1])
+local now = tonumber(ARGV[2])
+
+for i = 1, #KEYS do
+  local key = KEYS[i]
+  local kind = ARGV[1 + i * 2]
+  local param = tonumber(ARGV[2 + i * 2])
+
+  if kind == 'counter' then
+    local current = tonumber(redis.call('GET', key))
+    if current then
+      redis.call('DECRBY', key, math.min(current, points))
+    end
+  elseif kind == 'log' then
+    -- Drop the newest entries
+    local members = redis.call('ZRANGE', key, -points, -1)
+    for j = 1, #members do
+      redis.call('ZREM', key, members[j])
+    end
+  elseif kind == 'bucket' then
+    local tokens = tonumber(redis.call('HGET', key, 'tokens'))
+    if tokens then
+      redis.call('HSET', key, 'tokens', math.min(param, tokens + points))
+    end
+  else
+    -- Move the stored time back by the refunded intervals
+    local time = tonumber(redis.call('GET', key))
+    if time then
+      local refunded = time - points * param
+      if refunded > now then
+        redis.call('SET', key, refunded, 'PX', math.ceil(refunded - now))
+      else
+        redis.call('DEL', key)
+      end
+    end
+  end
+end
+
+return #KEYS
+`.trim();
+
+/**
+ * Concurrency Lua script.
+ *
+ * Holds one leased slot per in-flight request. Slots whose lease ran out
+ * (e.g. their instance crashed) are dropped before counting.
+ *
+ * KEYS[1] = concurrency key
+ * ARGV[1] = max in-flight requests
+ * ARGV[2] = lease (ms)
+ * ARGV[3] = current timestamp (ms)
+ * ARGV[4] = unique slot id
+ *
+ * Returns: {allowed, in-flight, earliest lease expiry (ms)}
+ */
+export const CONCURRENCY_SCRIPT = `
+local key = KEYS[1]
+local max = tonumber(ARGV[1])
+local lease = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local slot = ARGV[4]
+
+-- Drop slots whose lease expired
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now)
+
+local current = redis.call('ZCARD', key)
+
+if current < max then
+  redis.call('ZADD', key, now + lease, slot)
+  -- Keep the key as long as its longest lease
+  if redis.call('PTTL', key) < lease then
+    redis.call('PEXPIRE', key, lease)
+  end
+
+  return {1, current + 1, now + lease}
+end
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local expiry = now + lease
+if #oldest > 0 then
+  expiry = tonumber(oldest[2])
+end
+
+return {0, current, expiry}
+`.trim();
+
+/**
+ * Concurrency lease renewal Lua script.
+ *
+ * Extends the lease of a held slot while its request still runs. A slot that
+ * was released, or whose lease already ran out, is not taken again.
+ *
+ * KEYS[1] = concurrency key
+ * ARGV[1] = lease (ms)
+ * ARGV[2] = current timestamp (ms)
+ * ARGV[3] = slot id
+ *
+ * Returns: 1 if renewed, 0 if the slot was lost
+ */
+export const RENEW_CONCURRENCY_SCRIPT = `
+local key = KEYS[1]
+local lease = tonumber(ARGV[1])
+local now = tonumber(ARGV[2])
+local slot = ARGV[3]
+
+local expiry = tonumber(redis.call('ZSCORE', key, slot))
+if not expiry or expiry <= now then
+  return 0
+end
+
+redis.call('ZADD', key, now + lease, slot)
+if redis.call('PTTL', key) < lease then
+  redis.call('PEXPIRE', key, lease)
+end
+
+return 1
+`.trim();
+
+/**
+ * Penalty Lua script.
+ *
+ * Counts a rejection of a key and bans the key once it was rejected
+ * `threshold` times within the strike window. Each ban of a key lasts
+ * `multiplier` times longer than its previous one, up to `max_duration`.
+ * Keys must share a hash tag.
+ *
+ * KEYS[1] = strike counter key
+ * KEYS[2] = ban key
+ * KEYS[3] = ban level key
+ * ARGV[1] = rejections that trigger a ban
+ * ARGV[2] = strike window (seconds)
+ * ARGV[3] = first ban duration (seconds)
+ * ARGV[4] = ban duration multiplier
+ * ARGV[5] = max ban duration (seconds)
+ * ARGV[6] = seconds after a ban until the ban level starts over
+ *
+ * Returns: ban duration in seconds, or 0 if the key is not banned
+ */
+export const PENALTY_SCRIPT = `
+local strikes_key = KEYS[1]
+local ban_key = KEYS[2]
+local level_key = KEYS[3]
+local threshold = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local duration = tonumber(ARGV[3])
+local multiplier = tonumber(ARGV[4])
+local max_duration = tonumber(ARGV[5])
+local decay = tonumber(ARGV[6])
+
+local strikes = redis.call('INCR', strikes_key)
+if strikes == 1 then
+  redis.call('EXPIRE', strikes_key, window)
+end
+
+if strikes < threshold then
+  return 0
+end
+
+redis.call('DEL', strikes_key)
+
+local level = redis.call('INCR', level_key)
+
+-- Escalate from the first ban duration, one step per previous ban
+local ban = duration
+for i = 2, level do
+  ban = math.min(max_duration, ban * multiplier)
+end
+ban = math.ceil(math.min(max_duration, ban))
+
+-- The level decays once the ban is over, not while it lasts
+redis.call('EXPIRE', level_key, ban + decay)
+
+redis.call('SET', ban_key, level, 'EX', ban)
+
+return ban
+`.trim();
@@ -40,3 +40,13 @@ export class RateLimitScriptError extends RateLimitError {
     super(message, ErrorCode.RATE_LIMIT_SCRIPT_ERROR, undefined, cause);
   }
 }
+
+/**
+ * Error thrown when a rate limit configuration is invalid.
+ * Never subject to the error policy: fail-open must not let it through.
+ */
+export class InvalidRateLimitConfigError extends RateLimitError {
+  constructor(message: string) {
+    super(message, ErrorCode.RATE_LIMIT_CONFIG_INVALID);
+  }
+}
@@ -6,6 +6,22 @@ import { ExecutionContext } from '@nestjs/common';
  */
 export type KeyExtractor = (context: ExecutionContext) => string | Promise<string>;
 
+/**
+ * Quota resolver function type.
+ * Maps an extracted rate limit key (and its request, when resolved by the
+ * guard) to the limit of its plan, or `null` to keep the `@RateLimit` limit.
+ */
+export type QuotaResolver = (key: string, context?: ExecutionContext) => IRateLimitQuota | null | undefined | Promise<IRateLimitQuota | null | undefined>;
+
+/**
+ * Format of the rate limit response headers.
+ * - legacy: `X-RateLimit-Limit`, `X-RateLimit-Remaining`, `X-RateLimit-Reset`
+ * - ietf: `RateLimit` and `RateLimit-Policy` of the IETF draft
+ *   (draft-ietf-httpapi-ratelimit-headers)
+ * - both: legacy and IETF headers
+ */
+export type RateLimitHeaderFormat = 'legacy' | 'ietf' | 'both';
+
 /**
  * Rate limit plugin options.
  */
@@ -26,7 +42,7 @@ export interface IRateLimitPluginOptions {
    * Default algorithm.
    * @default 'sliding-window'
    */
-  defaultAlgorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket';
+  defaultAlgorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket' | 'leaky-bucket' | 'gcra';
 
   /**
    * Default number of requests allowed.
@@ -59,7 +75,14 @@ export interface IRateLimitPluginOptions {
   includeHeaders?: boolean;
 
   /**
-   * Header names configuration.
+   * Format of the rate limit headers. `Retry-After` is sent on rejection in
+   * every format. Overridable per `@RateLimit`.
+   * @default 'legacy'
+   */
+  headerFormat?: RateLimitHeaderFormat;
+
+  /**
+   * Legacy header names configuration.
    */
   headers?: {
     /** @default 'X-RateLimit-Limit' */
@@ -108,6 +131,20 @@ export interface IRateLimitPluginOptions {
    */
   registerExceptionFilter?: boolean;
 
+  /**
+   * Per-key quota plans (e.g. free / pro / enterprise). When set,
+   * `RateLimitGuard` resolves the quota of each key and uses it instead of the
+   * limit of `@RateLimit`.
+   */
+  quotas?: IRateLimitQuotaOptions;
+
+  /**
+   * Lease tokens from Redis in batches and serve checks from them locally,
+   * saving a Redis round-trip per request at the cost of accuracy.
+   * Disabled unless set.
+   */
+  preAllocation?: IRateLimitPreAllocationOptions;
+
   /**
    * Skip rate limiting for certain conditions.
    */
@@ -119,6 +156,87 @@ export interface IRateLimitPluginOptions {
   errorFactory?: (result: IRateLimitResult) => Error;
 }
 
+/**
+ * Quota plan options.
+ * A quota set with `RateLimitService.setQuota()` takes precedence over the
+ * resolver.
+ */
+export interface IRateLimitQuotaOptions {
+  /**
+   * Map a key to the quota of its plan.
+   *
+   * @example
+   * ```typescript
+   * resolver: async (key) => {
+   *   const plan = await plans.findByKey(key);
+   *   return plan === 'pro' ? { points: 1000, duration: 60 } : null;
+   * }
+   * ```
+   */
+  resolver?: QuotaResolver;
+
+  /**
+   * Seconds a resolved quota is cached in memory, per key. Also how long
+   * other instances keep using a quota replaced with `setQuota()` or removed
+   * with `deleteQuota()`: only the calling instance drops its cached entry.
+   * The cache is keyed by the rate limit key alone, so the resolver must
+   * return the same quota for every request of a key. 0 disables the cache.
+   * @default 60
+   */
+  cacheTtl?: number;
+
+  /**
+   * Max keys cached in memory. The oldest entries are evicted first.
+   * @default 10000
+   */
+  cacheSize?: number;
+}
+
+/**
+ * Local token pre-allocation options.
+ *
+ * Leased tokens are consumed in Redis up front, so the limit is never
+ * exceeded. Tokens held by one instance are unavailable to the others, and
+ * tokens left when a lease expires are lost: the larger the batch, the more
+ * requests are rejected before the limit is actually reached.
+ */
+export interface IRateLimitPreAllocationOptions {
+  /**
+   * Tokens leased per Redis round-trip, per key. Near the limit, leases
+   * shrink to what Redis had left so the last tokens are checked exactly.
+   * @default 10
+   */
+  batchSize?: number;
+
+  /**
+   * Milliseconds leased tokens are served locally before the next check goes
+   * to Redis again. Bounds how stale `remaining` and quota changes can be.
+   * @default 1000
+   */
+  maxAge?: number;
+
+  /**
+   * Max keys with leased tokens held in memory. The oldest are evicted first.
+   * @default 10000
+   */
+  maxKeys?: number;
+}
+
+/**
+ * Local token pre-allocation statistics, since startup.
+ */
+export interface IRateLimitPreAllocationStats {
+  /**
+   * Checks served from leased tokens, without Redis.
+   */
+  localChecks: number;
+
+  /**
+   * Checks that went to Redis (lease requests included).
+   */
+  remoteChecks: number;
+}
+
 /**
  * Rate limit configuration for specific request.
  */
@@ -126,7 +244,7 @@ export interface IRateLimitConfig {
   /**
    * Algorithm to use.
    */
-  algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket';
+  algorithm?: 'fixed-window' | 'sliding-window' | 'token-bucket' | 'leaky-bucket' | 'gcra';
 
   /**
    * Max requests (fixed/sliding window) or capacity (token bucket).
@@ -139,7 +257,8 @@ export interface IRateLimitConfig {
   duration?: number;
 
   /**
-   * Bucket capacity for token bucket algorithm.
+   * Bucket capacity for token bucket algorithm, or the max requests waiting
+   * in the bucket for leaky bucket (defaults to `points`).
    */
   capacity?: number;
 
@@ -147,6 +266,103 @@ export interface IRateLimitConfig {
    * Tokens per second for token bucket algorithm.
    */
   refillRate?: number;
+
+  /**
+   * Requests allowed back-to-back for GCRA. After a burst, requests are
+   * spaced at the sustained rate of `points` per `duration`.
+   * Defaults to `points`.
+   */
+  burst?: number;
+
+  /**
+   * Points (or tokens, slots) the request consumes. Use a higher cost for
+   * expensive requests and `refund()` when one turns out cheaper.
+   * @default 1
+   */
+  cost?: number;
+
+  /**
+   * Stacked limit tiers, all checked in one atomic step. When set, they
+   * replace `points` / `duration`; a request passes only if every tier allows
+   * it, and is then counted by every tier.
+   */
+  limits?: IRateLimitTier[];
+
+  /**
+   * Ban keys that keep getting rejected. A banned key is rejected before the
+   * limit is checked.
+   */
+  penalty?: IRateLimitPenalty;
+}
+
+/**
+ * Penalty policy for repeat offenders.
+ */
+export interface IRateLimitPenalty {
+  /**
+   * Rejections within `window` that ban the key.
+   */
+  threshold: number;
+
+  /**
+   * Seconds rejections are counted in.
+   */
+  window: number;
+
+  /**
+   * Seconds of the first ban.
+   */
+  duration: number;
+
+  /**
+   * Each further ban of a key lasts this many times longer than its previous
+   * one.
+   * @default 2
+   */
+  multiplier?: number;
+
+  /**
+   * Max ban duration in seconds.
+   * @default 86400
+   */
+  maxDuration?: number;
+
+  /**
+   * Seconds after a ban until bans of the key start over at `duration`.
+   * @default 86400
+   */
+  decay?: number;
+}
+
+/**
+ * Limit of a quota plan: the limit fields of a rate limit configuration.
+ */
+export type IRateLimitQuota = Pick<IRateLimitConfig, 'algorithm' | 'points' | 'duration' | 'capacity' | 'refillRate' | 'burst' | 'limits'>;
+
+/**
+ * Named limit tier of stacked limits (e.g. 10/second AND 1000/hour).
+ */
+export interface IRateLimitTier {
+  /**
+   * Tier name, unique among the tiers of a limit (e.g. 'second', 'hour').
+   */
+  name: string;
+
+  /**
+   * Max requests per duration.
+   */
+  points: number;
+
+  /**
+   * Window duration in seconds.
+   */
+  duration: number;
+
+  /**
+   * Window algorithm of this tier.
+   * Defaults to the limit's algorithm, which must then be a window algorithm.
+   */
+  algorithm?: 'fixed-window' | 'sliding-window';
 }
 
 /**
@@ -182,6 +398,86 @@ export interface IRateLimitResult {
    * Current count or tokens.
    */
   current: number;
+
+  /**
+   * Result of every tier, for stacked limits. The other fields then describe
+   * the most restrictive tier.
+   */
+  tiers?: IRateLimitTierResult[];
+
+  /**
+   * Whether the request was rejected because the key is banned
+   * (see `penalty`). `retryAfter` is then the time left of the ban.
+   */
+  banned?: boolean;
+}
+
+/**
+ * Rate limit result of one stacked limit tier.
+ * `allowed` tells whether this tier alone would allow the request; counters
+ * only change when all tiers allow it.
+ */
+export interface IRateLimitTierResult extends IRateLimitResult {
+  /**
+   * Tier name.
+   */
+  name: string;
+}
+
+/**
+ * Options for waiting on a rate limit slot.
+ */
+export interface IRateLimitAcquireOptions {
+  /**
+   * Max time to wait for the reserved slot, in milliseconds.
+   * Defaults to the time the bucket takes to drain when full.
+   */
+  maxWait?: number;
+}
+
+/**
+ * Rate limit result of a slot reservation (leaky bucket).
+ */
+export interface IRateLimitReservation extends IRateLimitResult {
+  /**
+   * Milliseconds from the reservation until the reserved slot (0 if free now).
+   */
+  delay: number;
+}
+
+/**
+ * Concurrency limit configuration.
+ */
+export interface IConcurrencyLimitConfig {
+  /**
+   * Max requests in flight at once.
+   */
+  max: number;
+
+  /**
+   * Milliseconds a slot is held without renewal. `@ConcurrencyLimit()` renews
+   * it every half lease while the handler runs, so slots of crashed instances
+   * are freed once their lease runs out.
+   * @default 60000
+   */
+  lease?: number;
+
+  /**
+   * Seconds a rejected client is told to wait (`Retry-After`).
+   * @default 1
+   */
+  retryAfter?: number;
+}
+
+/**
+ * Concurrency limit result.
+ * `current` is the number of requests in flight.
+ */
+export interface IConcurrencyResult extends IRateLimitResult {
+  /**
+   * Id of the acquired slot, to release it (only set when allowed = true).
+   */
+  slot?: string;
 }
 
 /**
@@ -213,3 +509,12 @@ export interface IRateLimitState {
 export type RateLimitConfig = IRateLimitConfig;
 export type RateLimitResult = IRateLimitResult;
 export type RateLimitState = IRateLimitState;
+export type RateLimitAcquireOptions = IRateLimitAcquireOptions;
+export type RateLimitReservation = IRateLimitReservation;
+export type RateLimitTier = IRateLimitTier;
+export type RateLimitTierResult = IRateLimitTierResult;
+export type RateLimitQuota = IRateLimitQuota;
+export type ConcurrencyLimitConfig = IConcurrencyLimitConfig;
+export type ConcurrencyResult = IConcurrencyResult;
+export type RateLimitPreAllocationStats = IRateLimitPreAllocationStats;
+export type RateLimitPenalty = IRateLimitPenalty;
@@ -0,0 +1,166 @@
+import { ExecutionContext } from '@nestjs/common';
+
+import { IRateLimitPluginOptions, KeyExtractor } from '../types';
+
+type ContextType = 'http' | 'graphql' | 'ws' | 'rpc';
+
+/** Headers the built-in `apiKey` extractor reads, in order. */
+const API_KEY_HEADERS = ['x-api-key', 'authorization'];
+
+/**
+ * Request-like source of the built-in key extractors, resolved from the
+ * execution context (HTTP request, GraphQL `req`, WebSocket client, RPC
+ * transport metadata).
+ */
+interface IRequestLike {
+  ip?: string;
+  headers?: Record<string, string | undefined>;
+  user?: { id?: string };
+}
+
+/**
+ * Extract the rate limit key of a request: from a custom extractor, a static
+ * key, or the built-in `ip`, `user` and `apiKey` extractors.
+ */
+export async function extractRequestKey(context: ExecutionContext, key: string | KeyExtractor | undefined, config: IRateLimitPluginOptions): Promise<string> {
+  const extractor = key ?? config.defaultKeyExtractor ?? 'ip';
+
+  // Custom function
+  if (typeof extractor === 'function') {
+    return await extractor(context);
+  }
+
+  // String key
+  if (typeof extractor === 'string' && !['ip', 'user', 'apiKey'].includes(extractor)) {
+    return extractor;
+  }
+
+  // Predefined extractors
+  const type = context.getType<ContextType>();
+  const request = getRequest(context, type);
+
+  switch (extractor) {
+    case 'user':
+      return getUserId(request, type);
+    case 'apiKey':
+      return getApiKey(request);
+    default:
+      return getClientIp(request, config, type);
+  }
+}
+
+/**
+ * Resolve the request-like source of the built-in extractors for the
+ * execution context type.
+ */
+function getRequest(context: ExecutionContext, type: ContextType): IRequestLike {
+  switch (type) {
+    case 'graphql': {
+      // GraphQL resolver arguments are (root, args, context, info)
+      const gqlContext = context.getArgByIndex<{ req?: IRequestLike; request?: IRequestLike } | undefined>(2);
+      return gqlContext?.req ?? gqlContext?.request ?? {};
+    }
+    case 'ws': {
+      // socket.io keeps the handshake; the ws library only the raw socket
+      const client = context.switchToWs().getClient<{
+        handshake?: { address?: string; headers?: Record<string, string> };
+        _socket?: { remoteAddress?: string };
+        data?: { user?: { id?: string } };
+        user?: { id?: string };
+      }>();
+      return {
+        ip: client.handshake?.address ?? client._socket?.remoteAddress,
+        headers: client.handshake?.headers,
+        user: client.data?.user ?? client.user,
+      };
+    }
+    case 'rpc':
+      // The payload is client-controlled, so identity never comes from it.
+      // Transports carry no client IP and no authenticated user; headers come
+      // from the transport metadata.
+      return { headers: getRpcHeaders(context.switchToRpc().getContext()) };
+    default:
+      return context.switchToHttp().getRequest<IRequestLike>();
+  }
+}
+
+/**
+ * Read the `apiKey` headers from RPC transport metadata: gRPC `Metadata`
+ * (`get()` returns a value list) or NATS message headers (`getHeaders()`).
+ * Other transports expose none.
+ */
+function getRpcHeaders(transport: unknown): Record<string, string | undefined> {
+  const metadata = transport as { get?: (name: string) => unknown; getHeaders?: () => { get?: (name: string) => string } | undefined } | undefined;
+  const headers: Record<string, string | undefined> = {};
+  for (const name of API_KEY_HEADERS) {
+    const value = metadata?.getHeaders ? metadata.getHeaders()?.get?.(name) : metadata?.get?.(name);
+    const first: unknown = Array.isArray(value) ? value[0] : value;
+    if (first) {
+      headers[name] = String(first);
+    }
+  }
+  return headers;
+}
+
+/**
+ * Get client IP address.
+ */
+function getClientIp(request: IRequestLike, config: IRateLimitPluginOptions, type: ContextType): string {
+  // Secure default: take the IP from the framework. `request.ip` respects the
+  // app's own trust-proxy configuration (Express `trust proxy` / Fastify
+  // `trustProxy`), so it is the real client IP and cannot be spoofed by a
+  // client-supplied header. Only read forwarding headers ourselves when the
+  // operator explicitly opts in via `trustProxy: true`.
+  if (config.trustProxy === true) {
+    const forwardedFor = request.headers?.['x-forwarded-for'];
+    if (forwardedFor) {
+      const ips = forwardedFor.split(',').map((ip) => ip.trim());
+      if (ips[0]) return ips[0];
+    }
+
+    const realIp = request.headers?.['x-real-ip'];
+    if (realIp) {
+      return realIp;
+    }
+  }
+
+  if (request.ip) {
+    return request.ip;
+  }
+
+  // Outside HTTP a missing IP would put every caller in one shared bucket
+  if (type !== 'http') {
+    throw new Error(`Client IP not found in ${type} context. Use the 'user' or 'apiKey' extractor, or a custom key.`);
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Get user ID from request.
+ */
+function getUserId(request: IRequestLike, type: ContextType): string {
+  // An RPC payload could name any user, so only a custom key can supply one
+  if (type === 'rpc') {
+    throw new Error("User ID not found in rpc context. Use the 'apiKey' extractor or a custom key that reads a verified identity.");
+  }
+
+  const userId = request.user?.id;
+  if (!userId) {
+    throw new Error('User ID not found. Ensure authentication guard runs before rate limit guard.');
+  }
+  return `user:${userId}`;
+}
+
+/**
+ * Get API key from request.
+ */
+function getApiKey(request: IRequestLike): string {
+  const apiKey = request.headers?.['x-api-key'] || request.headers?.['authorization'];
+
+  if (!apiKey) {
+    throw new Error('API key not found. Ensure request includes X-API-Key or Authorization header.');
+  }
+
+  return `apikey:${apiKey}`;
+}
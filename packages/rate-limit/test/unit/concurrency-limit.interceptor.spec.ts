@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
+import type { CallHandler, ExecutionContext } from '@nestjs/common';
+import { INTERCEPTORS_METADATA } from '@nestjs/common/constants';
+import { Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { firstValueFrom, of, Subject, throwError } from 'rxjs';
+import { ConcurrencyLimit, CONCURRENCY_LIMIT_OPTIONS, type IConcurrencyLimitOptions } from '../../src/rate-limit/api/decorators/concurrency-limit.decorator';
+import { ConcurrencyLimitInterceptor } from '../../src/rate-limit/api/interceptors/concurrency-limit.interceptor';
+import type { IRateLimitService } from '../../src/rate-limit/application/ports/rate-limit-service.port';
+import type { ConcurrencyResult, IRateLimitPluginOptions } from '../../src/shared/types';
+import { RateLimitExceededError } from '../../src/shared/errors';
+
+describe('@ConcurrencyLimit Decorator', () => {
+  it('should set options metadata and bind the interceptor', () => {
+    // Given
+    class TestClass {
+      @ConcurrencyLimit({ max: 2, key: 'reports' })
+      testMethod() {
+        return 'test';
+      }
+    }
+
+    // When
+    const metadata = new Reflector().get(CONCURRENCY_LIMIT_OPTIONS, TestClass.prototype.testMethod);
+    const interceptors = Reflect.getMetadata(INTERCEPTORS_METADATA, TestClass.prototype.testMethod);
+
+    // Then
+    expect(metadata).toEqual({ max: 2, key: 'reports' });
+    expect(interceptors).toContain(ConcurrencyLimitInterceptor);
+  });
+});
+
+describe('ConcurrencyLimitInterceptor', () => {
+  let interceptor: ConcurrencyLimitInterceptor;
+  let mockService: MockedObject<IRateLimitService>;
+  let mockReflector: MockedObject<Reflector>;
+  let mockContext: MockedObject<ExecutionContext>;
+  let mockRequest: Record<string | symbol, unknown>;
+  let config: IRateLimitPluginOptions;
+  let options: IConcurrencyLimitOptions | undefined;
+
+  const allowedResult: ConcurrencyResult = {
+    allowed: true,
+    limit: 2,
+    remaining: 1,
+    reset: Math.floor(Date.now() / 1000) + 60,
+    current: 1,
+    slot: 'slot-1',
+  };
+
+  const handler = (source = of('ok')): CallHandler => ({ handle: vi.fn().mockReturnValue(source) });
+
+  beforeEach(() => {
+    mockRequest = { ip: '127.0.0.1', headers: {} };
+    options = { max: 2 };
+
+    mockContext = {
+      getType: vi.fn().mockReturnValue('http'),
+      getArgs: vi.fn().mockReturnValue([mockRequest]),
+      getHandler: vi.fn(),
+      getClass: vi.fn(),
+      switchToHttp: vi.fn().mockReturnValue({ getRequest: () => mockRequest }),
+    } as unknown as MockedObject<ExecutionContext>;
+
+    mockService = {
+      checkConcurrency: vi.fn().mockResolvedValue(allowedResult),
+      releaseConcurrency: vi.fn().mockResolvedValue(undefined),
+      renewConcurrency: vi.fn().mockResolvedValue(true),
+    } as unknown as MockedObject<IRateLimitService>;
+
+    mockReflector = {
+      get: vi.fn().mockImplementation((_key, target) => (target === mockContext.getHandler() ? options : undefined)),
+    } as unknown as MockedObject<Reflector>;
+
+    config = { defaultKeyExtractor: 'ip' };
+
+    interceptor = new ConcurrencyLimitInterceptor(mockService, config, mockReflector);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hold a slot until the response completes', async () => {
+    // Given
+    const response = new Subject<string>();
+    const next = handler(response);
+
+    // When
+    const result$ = await interceptor.intercept(mockContext, next);
+    const value = firstValueFrom(result$);
+
+    // Then
+    expect(mockService.checkConcurrency).toHaveBeenCalledWith('127.0.0.1', { max: 2 });
+    expect(mockService.releaseConcurrency).not.toHaveBeenCalled();
+
+    // When
+    response.next('done');
+    response.complete();
+
+    // Then
+    expect(await value).toBe('done');
+    expect(mockService.releaseConcurrency).toHaveBeenCalledWith('127.0.0.1', 'slot-1');
+  });
+
+  it('should release the slot when the handler fails', async () => {
+    // Given
+    const next = handler(throwError(() => new Error('boom')));
+
+    // When
+    const result$ = await interceptor.intercept(mockContext, next);
+
+    // Then
+    await expect(firstValueFrom(result$)).rejects.toThrow('boom');
+    expect(mockService.releaseConcurrency).toHaveBeenCalledWith('127.0.0.1', 'slot-1');
+  });
+
+  it('should reject with RateLimitExceededError when the cap is hit', async () => {
+    // Given
+    options = { max: 2, key: 'reports' };
+    mockService.checkConcurrency.mockResolvedValue({ ...allowedResult, allowed: false, remaining: 0, current: 2, slot: undefined, retryAfter: 1 });
+    const next = handler();
+
+    // When/Then
+    const error = await interceptor.intercept(mockContext, next).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error.message).toBe('Too many concurrent requests. Try again in 1 seconds.');
+    expect(error.retryAfter).toBe(1);
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('should use the module error factory when configured', async () => {
+    // Given
+    const custom = new Error('busy');
+    config.errorFactory = vi.fn().mockReturnValue(custom);
+    mockService.checkConcurrency.mockResolvedValue({ ...allowedResult, allowed: false, slot: undefined });
+
+    // When/Then
+    await expect(interceptor.intercept(mockContext, handler())).rejects.toBe(custom);
+  });
+
+  it('should pass through routes without @ConcurrencyLimit', async () => {
+    // Given
+    options = undefined;
+    const next = handler();
+
+    // When
+    await interceptor.intercept(mockContext, next);
+
+    // Then
+    expect(mockService.checkConcurrency).not.toHaveBeenCalled();
+    expect(next.handle).toHaveBeenCalled();
+  });
+
+  it('should pass through when skip returns true', async () => {
+    // Given
+    options = { max: 2, skip: () => true };
+
+    // When
+    await interceptor.intercept(mockContext, handler());
+
+    // Then
+    expect(mockService.checkConcurrency).not.toHaveBeenCalled();
+  });
+
+  it('should take one slot per request when bound twice', async () => {
+    // When
+    const outer$ = await interceptor.intercept(mockContext, handler());
+    const inner$ = await interceptor.intercept(mockContext, handler());
+    await firstValueFrom(inner$);
+    await firstValueFrom(outer$);
+
+    // Then
+    expect(mockService.checkConcurrency).toHaveBeenCalledTimes(1);
+    expect(mockService.releaseConcurrency).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not release when allowed without a slot (fail-open)', async () => {
+    // Given
+    mockService.checkConcurrency.mockResolvedValue({ ...allowedResult, slot: undefined });
+
+    // When
+    await firstValueFrom(await interceptor.intercept(mockContext, handler()));
+
+    // Then
+    expect(mockService.releaseConcurrency).not.toHaveBeenCalled();
+  });
+
+  it('should log release failures', async () => {
+    // Given
+    const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    mockService.releaseConcurrency.mockRejectedValue(new Error('Connection lost'));
+
+    // When
+    await firstValueFrom(await interceptor.intercept(mockContext, handler()));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    // Then
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('127.0.0.1'), expect.any(Error));
+    errorSpy.mockRestore();
+  });
+
+  it('should renew the lease every half lease while the handler runs', async () => {
+    // Given
+    vi.useFakeTimers();
+    options = { max: 2, lease: 10000 };
+    const response = new Subject<string>();
+
+    // When
+    const value = firstValueFrom(await interceptor.intercept(mockContext, handler(response)));
+    await vi.advanceTimersByTimeAsync(12000);
+
+    // Then
+    expect(mockService.renewConcurrency).toHaveBeenCalledTimes(2);
+    expect(mockService.renewConcurrency).toHaveBeenCalledWith('127.0.0.1', 'slot-1', options);
+
+    // When — the response completes, renewal stops
+    response.next('done');
+    response.complete();
+    await value;
+    await vi.advanceTimersByTimeAsync(10000);
+
+    // Then
+    expect(mockService.renewConcurrency).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log and stop renewing once the slot is lost', async () => {
+    // Given
+    vi.useFakeTimers();
+    const errorSpy = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    options = { max: 2, lease: 10000 };
+    mockService.renewConcurrency.mockResolvedValue(false);
+    await interceptor.intercept(mockContext, handler(new Subject<string>()));
+
+    // When
+    await vi.advanceTimersByTimeAsync(20000);
+
+    // Then
+    expect(mockService.renewConcurrency).toHaveBeenCalledTimes(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('expired while its request still runs'));
+    errorSpy.mockRestore();
+  });
+});
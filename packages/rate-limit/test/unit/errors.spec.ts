@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { ErrorCode } from '@nestjs-redisx/core';
-import { RateLimitError, RateLimitExceededError, RateLimitScriptError } from '../../src/shared/errors';
+import { InvalidRateLimitConfigError, RateLimitError, RateLimitExceededError, RateLimitScriptError } from '../../src/shared/errors';
 import type { RateLimitResult } from '../../src/shared/types';
 
 describe('Rate Limit Errors', () => {
@@ -156,4 +156,19 @@ describe('Rate Limit Errors', () => {
       expect(error.result).toBeUndefined();
     });
   });
+
+  describe('InvalidRateLimitConfigError', () => {
+    it('should create config error', () => {
+      // Given
+      const message = 'Rate limit cost must not exceed the limit of 10 points, got: 11';
+
+      // When
+      const error = new InvalidRateLimitConfigError(message);
+
+      // Then
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toBe(message);
+      expect(error.code).toBe(ErrorCode.RATE_LIMIT_CONFIG_INVALID);
+    });
+  });
 });
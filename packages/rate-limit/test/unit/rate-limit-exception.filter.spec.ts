@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
 import type { ArgumentsHost } from '@nestjs/common';
 import { HttpStatus } from '@nestjs/common';
+import { lastValueFrom, type Observable } from 'rxjs';
 import { RateLimitExceptionFilter } from '../../src/rate-limit/api/filters/rate-limit-exception.filter';
 import { RateLimitExceededError, RateLimitScriptError } from '../../src/shared/errors';
 import type { IRateLimitResult } from '../../src/shared/types';
@@ -24,6 +25,7 @@ describe('RateLimitExceptionFilter', () => {
     mockResponse = {};
 
     mockHost = {
+      getType: vi.fn().mockReturnValue('http'),
       switchToHttp: vi.fn().mockReturnValue({
         getResponse: () => mockResponse,
         getRequest: vi.fn(),
@@ -221,4 +223,63 @@ describe('RateLimitExceptionFilter', () => {
       expect(JSON.stringify(body)).not.toContain('NOSCRIPT');
     });
   });
+
+  describe('other transports', () => {
+    const result: IRateLimitResult = {
+      allowed: false,
+      limit: 100,
+      remaining: 0,
+      reset: 1706400000,
+      current: 100,
+      retryAfter: 30,
+    };
+
+    it('should return a GraphQL error with the body in its extensions', () => {
+      // Given
+      mockHost.getType.mockReturnValue('graphql');
+
+      // When
+      const error = filter.catch(new RateLimitExceededError('Too many requests', result), mockHost) as Error & { extensions: Record<string, unknown> };
+
+      // Then
+      expect(error.message).toBe('Too many requests');
+      expect(error.extensions).toMatchObject({ code: 'TOO_MANY_REQUESTS', statusCode: 429, retryAfter: 30, limit: 100 });
+      expect(mockHttpAdapter.reply).not.toHaveBeenCalled();
+    });
+
+    it('should report a store failure as SERVICE_UNAVAILABLE to GraphQL', () => {
+      // Given
+      mockHost.getType.mockReturnValue('graphql');
+
+      // When
+      const error = filter.catch(new RateLimitScriptError('Rate limit check failed'), mockHost) as Error & { extensions: Record<string, unknown> };
+
+      // Then
+      expect(error.extensions.code).toBe('SERVICE_UNAVAILABLE');
+    });
+
+    it('should emit an exception event to the WebSocket client', () => {
+      // Given
+      const client = { emit: vi.fn() };
+      mockHost.getType.mockReturnValue('ws');
+      (mockHost as any).switchToWs = vi.fn().mockReturnValue({ getClient: () => client });
+
+      // When
+      filter.catch(new RateLimitExceededError('Too many requests', result), mockHost);
+
+      // Then
+      expect(client.emit).toHaveBeenCalledWith('exception', expect.objectContaining({ status: 'error', statusCode: 429, message: 'Too many requests', retryAfter: 30 }));
+    });
+
+    it('should return an error observable to the RPC caller', async () => {
+      // Given
+      mockHost.getType.mockReturnValue('rpc');
+
+      // When
+      const observable = filter.catch(new RateLimitExceededError('Too many requests', result), mockHost) as Observable<never>;
+
+      // Then
+      await expect(lastValueFrom(observable)).rejects.toMatchObject({ status: 'error', statusCode: 429, retryAfter: 30 });
+    });
+  });
 });
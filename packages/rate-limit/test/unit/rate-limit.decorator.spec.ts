@@ -29,6 +29,27 @@ describe('@RateLimit Decorator', () => {
       expect(metadata).toEqual(options);
     });
 
+    it('should accept stacked limit tiers as an array', () => {
+      // Given
+      const limits = [
+        { name: 'second', points: 10, duration: 1 },
+        { name: 'hour', points: 1000, duration: 3600 },
+      ];
+
+      class TestClass {
+        @RateLimit(limits)
+        testMethod() {
+          return 'test';
+        }
+      }
+
+      // When
+      const metadata = reflector.get<IRateLimitOptions>(RATE_LIMIT_OPTIONS, TestClass.prototype.testMethod);
+
+      // Then
+      expect(metadata).toEqual({ limits });
+    });
+
     it('should set options with algorithm', () => {
       // Given
       const options: IRateLimitOptions = {
@@ -50,6 +50,8 @@ describe('RateLimitGuard', () => {
     mockAdapterHost = { httpAdapter: mockHttpAdapter };
 
     mockContext = {
+      getType: vi.fn().mockReturnValue('http'),
+      getArgs: vi.fn().mockImplementation(() => [mockRequest, mockResponse]),
       getHandler: vi.fn(),
       getClass: vi.fn(),
       switchToHttp: vi.fn().mockReturnValue({
@@ -63,6 +65,7 @@ describe('RateLimitGuard', () => {
       peek: vi.fn(),
       reset: vi.fn(),
       getState: vi.fn(),
+      resolveQuota: vi.fn().mockResolvedValue(null),
     } as unknown as MockedObject<IRateLimitService>;
 
     mockReflector = {
@@ -359,6 +362,7 @@ describe('RateLimitGuard', () => {
       // Given
       mockService.check.mockResolvedValue(successResult);
       const otherContext = {
+        getType: vi.fn().mockReturnValue('http'),
         getHandler: vi.fn(),
         getClass: vi.fn(),
         switchToHttp: vi.fn().mockReturnValue({
@@ -461,6 +465,314 @@ describe('RateLimitGuard', () => {
     });
   });
 
+  describe('cost', () => {
+    it('should pass a static cost to the service', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ points: 1000, duration: 3600, cost: 50 });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ cost: 50 }));
+    });
+
+    it('should compute the cost from the execution context', async () => {
+      // Given
+      mockRequest.query = { limit: '500' };
+      const cost = vi.fn(async (ctx: ExecutionContext) => Number(ctx.switchToHttp().getRequest().query.limit) / 100);
+      mockReflector.get.mockReturnValue({ points: 1000, duration: 3600, cost });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(cost).toHaveBeenCalledWith(mockContext);
+      expect(mockService.check).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ cost: 5 }));
+    });
+  });
+
+  describe('quotas', () => {
+    it('should resolve the quota of the extracted key', async () => {
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockService.resolveQuota).toHaveBeenCalledWith('127.0.0.1', mockContext);
+    });
+
+    it('should replace the decorator limit with the resolved quota', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ key: 'tenant', limits: [{ name: 'minute', points: 10, duration: 60 }], cost: 2 });
+      mockService.resolveQuota.mockResolvedValue({ points: 1000, duration: 60 });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('tenant', expect.objectContaining({ points: 1000, duration: 60, limits: undefined, cost: 2 }));
+    });
+
+    it('should keep the decorator limit without a quota', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ points: 10, duration: 60 });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('127.0.0.1', expect.objectContaining({ points: 10, duration: 60 }));
+    });
+  });
+
+  describe('penalties', () => {
+    it('should pass the penalty policy to the check', async () => {
+      // Given
+      const penalty = { threshold: 10, window: 60, duration: 300 };
+      mockReflector.get.mockReturnValue({ points: 5, duration: 60, penalty });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('127.0.0.1', expect.objectContaining({ penalty }));
+    });
+
+    it('should reject banned keys with a distinct message and metric label', async () => {
+      // Given
+      const metrics = { incrementCounter: vi.fn() };
+      const withMetrics = new RateLimitGuard(mockService, config, mockReflector, mockAdapterHost as any, metrics);
+      mockService.check.mockResolvedValue({ ...failedResult, retryAfter: 300, banned: true });
+
+      // When
+      const error = await withMetrics.canActivate(mockContext).catch((e) => e);
+
+      // Then
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect(error.message).toBe('Temporarily banned for exceeding the rate limit repeatedly. Try again in 300 seconds.');
+      expect(metrics.incrementCounter).toHaveBeenCalledWith('redisx_ratelimit_requests_total', { status: 'banned' });
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'Retry-After', '300');
+    });
+
+    it('should keep the rejected label for plain rejections', async () => {
+      // Given
+      const metrics = { incrementCounter: vi.fn() };
+      const withMetrics = new RateLimitGuard(mockService, config, mockReflector, mockAdapterHost as any, metrics);
+      mockService.check.mockResolvedValue(failedResult);
+
+      // When
+      await withMetrics.canActivate(mockContext).catch(() => undefined);
+
+      // Then
+      expect(metrics.incrementCounter).toHaveBeenCalledWith('redisx_ratelimit_requests_total', { status: 'rejected' });
+    });
+  });
+
+  describe('execution contexts', () => {
+    function contextOf(type: string, args: unknown[]): MockedObject<ExecutionContext> {
+      return {
+        getType: vi.fn().mockReturnValue(type),
+        getArgs: vi.fn().mockReturnValue(args),
+        getArgByIndex: vi.fn((index: number) => args[index]),
+        getHandler: vi.fn(),
+        getClass: vi.fn(),
+        switchToWs: vi.fn().mockReturnValue({ getClient: () => args[0], getData: () => args[1] }),
+        switchToRpc: vi.fn().mockReturnValue({ getData: () => args[0], getContext: () => args[1] }),
+      } as unknown as MockedObject<ExecutionContext>;
+    }
+
+    it('should read the request of a GraphQL context and set headers on its response', async () => {
+      // Given
+      const res = {};
+      const context = contextOf('graphql', [{}, {}, { req: { ip: '10.0.0.7', headers: {} }, res }, {}]);
+
+      // When
+      await guard.canActivate(context);
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('10.0.0.7', expect.any(Object));
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(res, 'X-RateLimit-Limit', '100');
+    });
+
+    it('should consume once per resolver call, not once per GraphQL request', async () => {
+      // Given — two resolvers of one query share the GraphQL context
+      const gqlContext = { req: { ip: '10.0.0.7', headers: {} } };
+
+      // When
+      await guard.canActivate(contextOf('graphql', [{}, {}, gqlContext, {}]));
+      await guard.canActivate(contextOf('graphql', [{}, {}, gqlContext, {}]));
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read the handshake of a socket.io client without setting headers', async () => {
+      // Given
+      const client = { handshake: { address: '10.0.0.8', headers: { 'x-api-key': 'key-1' } }, data: { user: { id: 'u1' } } };
+      mockReflector.get.mockReturnValue({ key: 'apiKey' });
+
+      // When
+      await guard.canActivate(contextOf('ws', [client, { text: 'hi' }]));
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('apikey:key-1', expect.any(Object));
+      expect(mockHttpAdapter.setHeader).not.toHaveBeenCalled();
+    });
+
+    it('should consume once per WebSocket message', async () => {
+      // Given
+      const client = { _socket: { remoteAddress: '10.0.0.9' } };
+
+      // When
+      await guard.canActivate(contextOf('ws', [client, 'first']));
+      await guard.canActivate(contextOf('ws', [client, 'second']));
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledTimes(2);
+      expect(mockService.check).toHaveBeenCalledWith('10.0.0.9', expect.any(Object));
+    });
+
+    it('should never take the user from an RPC payload', async () => {
+      // Given — the payload is client-controlled
+      mockReflector.get.mockReturnValue({ key: 'user' });
+
+      // When/Then
+      await expect(guard.canActivate(contextOf('rpc', [{ user: { id: 'u2' }, orderId: 1 }, {}]))).rejects.toThrow('User ID not found in rpc context');
+      expect(mockService.check).not.toHaveBeenCalled();
+    });
+
+    it('should read the API key from gRPC metadata, not from the payload', async () => {
+      // Given — grpc Metadata.get() returns a list of values
+      mockReflector.get.mockReturnValue({ key: 'apiKey' });
+      const metadata = { get: vi.fn((name: string) => (name === 'x-api-key' ? ['grpc-key'] : [])) };
+
+      // When
+      await guard.canActivate(contextOf('rpc', [{ headers: { 'x-api-key': 'forged' } }, metadata]));
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('apikey:grpc-key', expect.any(Object));
+    });
+
+    it('should read the API key from NATS message headers', async () => {
+      // Given — NATS headers return '' for a missing header
+      mockReflector.get.mockReturnValue({ key: 'apiKey' });
+      const natsContext = { getHeaders: () => ({ get: (name: string) => (name === 'authorization' ? 'Bearer nats' : '') }) };
+
+      // When
+      await guard.canActivate(contextOf('rpc', [{}, natsContext]));
+
+      // Then
+      expect(mockService.check).toHaveBeenCalledWith('apikey:Bearer nats', expect.any(Object));
+    });
+
+    it('should ignore payload headers on transports without metadata', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ key: 'apiKey' });
+
+      // When/Then
+      await expect(guard.canActivate(contextOf('rpc', [{ headers: { 'x-api-key': 'forged' } }, {}]))).rejects.toThrow('API key not found');
+      expect(mockService.check).not.toHaveBeenCalled();
+    });
+
+    it('should throw when no client IP is found in an RPC payload', async () => {
+      // When/Then — the default 'ip' extractor must not share one bucket between all callers
+      await expect(guard.canActivate(contextOf('rpc', [{ orderId: 1 }, {}]))).rejects.toThrow("Client IP not found in rpc context. Use the 'user' or 'apiKey' extractor, or a custom key.");
+      expect(mockService.check).not.toHaveBeenCalled();
+    });
+
+    it('should throw when a WebSocket client has no address', async () => {
+      // When/Then
+      await expect(guard.canActivate(contextOf('ws', [{}, 'hi']))).rejects.toThrow('Client IP not found in ws context');
+      expect(mockService.check).not.toHaveBeenCalled();
+    });
+
+    it('should throw RateLimitExceededError in every context', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ key: 'apiKey' });
+      mockService.check.mockResolvedValue(failedResult);
+
+      // When/Then
+      await expect(guard.canActivate(contextOf('rpc', [{}, { get: () => ['k1'] }]))).rejects.toBeInstanceOf(RateLimitExceededError);
+    });
+  });
+
+  describe('header format', () => {
+    it('should set IETF RateLimit and RateLimit-Policy headers instead of the legacy ones', async () => {
+      // Given
+      const ietfGuard = new RateLimitGuard(mockService, { ...config, headerFormat: 'ietf' }, mockReflector, mockAdapterHost as any);
+      mockReflector.get.mockReturnValue({ points: 100, duration: 60 });
+
+      // When
+      await ietfGuard.canActivate(mockContext);
+
+      // Then
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit-Policy', '"default";q=100;w=60');
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit', expect.stringMatching(/^"default";r=99;t=(59|60)$/));
+      expect(mockHttpAdapter.setHeader).not.toHaveBeenCalledWith(mockResponse, 'X-RateLimit-Limit', expect.any(String));
+    });
+
+    it('should describe every stacked tier as a policy', async () => {
+      // Given
+      const now = Math.floor(Date.now() / 1000);
+      const limits = [
+        { name: 'second', points: 10, duration: 1 },
+        { name: 'hour', points: 1000, duration: 3600 },
+      ];
+      mockReflector.get.mockReturnValue({ limits, headerFormat: 'ietf' });
+      mockService.check.mockResolvedValue({
+        ...successResult,
+        tiers: [
+          { name: 'second', allowed: true, limit: 10, remaining: 9, reset: now + 1, current: 1 },
+          { name: 'hour', allowed: true, limit: 1000, remaining: 990, reset: now + 3000, current: 10 },
+        ],
+      });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit-Policy', '"second";q=10;w=1, "hour";q=1000;w=3600');
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit', expect.stringMatching(/^"second";r=9;t=[01], "hour";r=990;t=(2999|3000)$/));
+    });
+
+    it('should use the refill time of a token bucket as the window', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ algorithm: 'token-bucket', capacity: 100, refillRate: 5, headerFormat: 'ietf' });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit-Policy', '"default";q=100;w=20');
+    });
+
+    it('should set both formats and Retry-After when rejected', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ headerFormat: 'both' });
+      mockService.check.mockResolvedValue(failedResult);
+
+      // When
+      await expect(guard.canActivate(mockContext)).rejects.toBeInstanceOf(RateLimitExceededError);
+
+      // Then
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'X-RateLimit-Remaining', '0');
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit', expect.stringContaining('"default";r=0;'));
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'Retry-After', '30');
+    });
+
+    it('should escape quotes in policy names', async () => {
+      // Given
+      mockReflector.get.mockReturnValue({ limits: [{ name: 'a"b', points: 10, duration: 60 }], headerFormat: 'ietf' });
+      mockService.check.mockResolvedValue({ ...successResult, tiers: [{ ...successResult, name: 'a"b', limit: 10 }] });
+
+      // When
+      await guard.canActivate(mockContext);
+
+      // Then
+      expect(mockHttpAdapter.setHeader).toHaveBeenCalledWith(mockResponse, 'RateLimit-Policy', '"a\\"b";q=10;w=60');
+    });
+  });
+
   describe('custom headers', () => {
     it('should use custom header names from config', async () => {
       // Given
@@ -54,6 +54,7 @@ describe('RateLimitPlugin', () => {
         keyPrefix: 'rl:',
         defaultKeyExtractor: 'ip',
         includeHeaders: true,
+        headerFormat: 'legacy',
         errorPolicy: 'fail-closed',
       });
     });
@@ -182,8 +183,8 @@ describe('RateLimitPlugin', () => {
       const providers = plugin.getProviders();
 
       // Then
-      // Options, Driver, Store, Service, Reflector, RateLimitGuard, ExceptionFilter
-      expect(providers).toHaveLength(7);
+      // Options, Driver, Store, Service, Reflector, RateLimitGuard, ConcurrencyLimitInterceptor, ExceptionFilter
+      expect(providers).toHaveLength(8);
     });
 
     it('should register the global exception filter (APP_FILTER) by default', () => {
@@ -203,7 +204,7 @@ describe('RateLimitPlugin', () => {
       // Then — opt-out leaves rate-limit errors to the host app's own filters
       const filter = providers.find((p) => typeof p === 'object' && 'provide' in p && p.provide === APP_FILTER);
       expect(filter).toBeUndefined();
-      expect(providers).toHaveLength(6);
+      expect(providers).toHaveLength(7);
     });
   });
 
@@ -219,7 +220,7 @@ describe('RateLimitPlugin', () => {
       expect(exports).toContain(RATE_LIMIT_SERVICE);
     });
 
-    it('should export exactly 3 items', () => {
+    it('should export exactly 4 items', () => {
       // Given
       const plugin = new RateLimitPlugin();
 
@@ -227,8 +228,8 @@ describe('RateLimitPlugin', () => {
       const exports = plugin.getExports();
 
       // Then
-      // Options, Service, RateLimitGuard
-      expect(exports).toHaveLength(3);
+      // Options, Service, RateLimitGuard, ConcurrencyLimitInterceptor
+      expect(exports).toHaveLength(4);
       expect(exports).toContain(RATE_LIMIT_PLUGIN_OPTIONS);
       expect(exports).toContain(RATE_LIMIT_SERVICE);
     });
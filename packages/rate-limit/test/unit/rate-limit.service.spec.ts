@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
 import { RateLimitService } from '../../src/rate-limit/application/services/rate-limit.service';
 import type { IRateLimitStore } from '../../src/rate-limit/application/ports/rate-limit-store.port';
 import type { IRateLimitPluginOptions, RateLimitConfig, RateLimitResult } from '../../src/shared/types';
-import { RateLimitScriptError } from '../../src/shared/errors';
+import { InvalidRateLimitConfigError, RateLimitExceededError, RateLimitScriptError } from '../../src/shared/errors';
 
 describe('RateLimitService', () => {
   let service: RateLimitService;
@@ -22,8 +22,24 @@ describe('RateLimitService', () => {
       fixedWindow: vi.fn().mockResolvedValue(defaultResult),
       slidingWindow: vi.fn().mockResolvedValue(defaultResult),
       tokenBucket: vi.fn().mockResolvedValue(defaultResult),
+      leakyBucket: vi.fn().mockResolvedValue({ ...defaultResult, delay: 0 }),
+      gcra: vi.fn().mockResolvedValue(defaultResult),
+      stacked: vi.fn(),
+      refund: vi.fn().mockResolvedValue(undefined),
+      refundStacked: vi.fn().mockResolvedValue(undefined),
       peek: vi.fn().mockResolvedValue(defaultResult),
       reset: vi.fn().mockResolvedValue(undefined),
+      resetStacked: vi.fn().mockResolvedValue(undefined),
+      getQuota: vi.fn().mockResolvedValue(null),
+      setQuota: vi.fn().mockResolvedValue(undefined),
+      deleteQuota: vi.fn().mockResolvedValue(undefined),
+      concurrency: vi.fn(),
+      releaseConcurrency: vi.fn().mockResolvedValue(undefined),
+      renewConcurrency: vi.fn().mockResolvedValue(true),
+      penalize: vi.fn().mockResolvedValue(0),
+      getBan: vi.fn().mockResolvedValue(0),
+      ban: vi.fn().mockResolvedValue(undefined),
+      unban: vi.fn().mockResolvedValue(undefined),
     } as unknown as MockedObject<IRateLimitStore>;
 
     config = {
@@ -48,7 +64,7 @@ describe('RateLimitService', () => {
       // Then
       expect(result).toEqual(defaultResult);
       // Key includes algorithm prefix to avoid WRONGTYPE errors
-      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', 100, 60);
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', 100, 60, 1);
     });
 
     it('should check with fixed-window algorithm', async () => {
@@ -64,7 +80,7 @@ describe('RateLimitService', () => {
       await service.check(key, rateLimitConfig);
 
       // Then
-      expect(mockStore.fixedWindow).toHaveBeenCalledWith('rl:fixed-window:api:endpoint', 50, 30);
+      expect(mockStore.fixedWindow).toHaveBeenCalledWith('rl:fixed-window:api:endpoint', 50, 30, 1);
     });
 
     it('should check with sliding-window algorithm', async () => {
@@ -80,7 +96,7 @@ describe('RateLimitService', () => {
       await service.check(key, rateLimitConfig);
 
       // Then
-      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:456', 200, 120);
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:456', 200, 120, 1);
     });
 
     it('should check with token-bucket algorithm', async () => {
@@ -99,6 +115,45 @@ describe('RateLimitService', () => {
       expect(mockStore.tokenBucket).toHaveBeenCalledWith('rl:token-bucket:resource:abc', 150, 5, 1);
     });
 
+    it('should check with gcra algorithm', async () => {
+      // Given
+      const key = 'resource:abc';
+      const rateLimitConfig: IRateLimitConfig = {
+        algorithm: 'gcra',
+        points: 10,
+        duration: 1,
+        burst: 3,
+      };
+
+      // When
+      await service.check(key, rateLimitConfig);
+
+      // Then
+      expect(mockStore.gcra).toHaveBeenCalledWith('rl:gcra:resource:abc', 10, 1, 3, 1);
+    });
+
+    it('should check leaky-bucket without waiting for a slot', async () => {
+      // Given
+      const rateLimitConfig: IRateLimitConfig = { algorithm: 'leaky-bucket', points: 10, duration: 1 };
+
+      // When
+      await service.check('api:partner', rateLimitConfig);
+
+      // Then
+      expect(mockStore.leakyBucket).toHaveBeenCalledWith('rl:leaky-bucket:api:partner', 10, 1, 10, 0, 1);
+    });
+
+    it('should default gcra burst to points', async () => {
+      // Given
+      const rateLimitConfig: IRateLimitConfig = { algorithm: 'gcra' };
+
+      // When
+      await service.check('resource:default', rateLimitConfig);
+
+      // Then
+      expect(mockStore.gcra).toHaveBeenCalledWith('rl:gcra:resource:default', 100, 60, 100, 1);
+    });
+
     it('should use default capacity and refillRate for token-bucket', async () => {
       // Given
       const key = 'resource:default';
@@ -124,7 +179,7 @@ describe('RateLimitService', () => {
       await service.check(key, { algorithm: 'fixed-window' });
 
       // Then
-      expect(mockStore.fixedWindow).toHaveBeenCalledWith('rl:fixed-window:test', 100, 60);
+      expect(mockStore.fixedWindow).toHaveBeenCalledWith('rl:fixed-window:test', 100, 60, 1);
     });
 
     it('should throw error for unknown algorithm', async () => {
@@ -241,6 +296,36 @@ describe('RateLimitService', () => {
       });
     });
 
+    it('should peek with gcra config', async () => {
+      // Given
+      const rateLimitConfig: IRateLimitConfig = { algorithm: 'gcra', points: 10, duration: 1 };
+
+      // When
+      await service.peek('gcra:test', rateLimitConfig);
+
+      // Then
+      expect(mockStore.peek).toHaveBeenCalledWith('rl:gcra:gcra:test', 'gcra', {
+        points: 10,
+        duration: 1,
+        burst: 10,
+      });
+    });
+
+    it('should peek with leaky-bucket config', async () => {
+      // Given
+      const rateLimitConfig: IRateLimitConfig = { algorithm: 'leaky-bucket', points: 10, duration: 1, capacity: 4 };
+
+      // When
+      await service.peek('api:partner', rateLimitConfig);
+
+      // Then
+      expect(mockStore.peek).toHaveBeenCalledWith('rl:leaky-bucket:api:partner', 'leaky-bucket', {
+        points: 10,
+        duration: 1,
+        capacity: 4,
+      });
+    });
+
     it('should handle peek error with fail-closed', async () => {
       // Given
       const key = 'test';
@@ -269,6 +354,706 @@ describe('RateLimitService', () => {
     });
   });
 
+  describe('cost', () => {
+    it('should consume the configured cost', async () => {
+      // When
+      await service.check('export:user:1', { algorithm: 'token-bucket', points: 1000, duration: 3600, cost: 50 });
+
+      // Then
+      expect(mockStore.tokenBucket).toHaveBeenCalledWith('rl:token-bucket:export:user:1', 1000, expect.any(Number), 50);
+    });
+
+    it('should reject a cost that is not a non-negative integer', async () => {
+      // When/Then
+      await expect(service.check('export:user:1', { cost: 1.5 })).rejects.toThrow(/cost must be a non-negative integer/);
+      await expect(service.check('export:user:1', { cost: -1 })).rejects.toThrow(InvalidRateLimitConfigError);
+      expect(mockStore.slidingWindow).not.toHaveBeenCalled();
+    });
+
+    it('should reject a cost that exceeds what the limit grants a single request', async () => {
+      // Given
+      const limits = [
+        { name: 'second', points: 3, duration: 1 },
+        { name: 'hour', points: 100, duration: 3600 },
+      ];
+
+      // When/Then — such a request could never pass
+      await expect(service.check('export:user:1', { points: 10, cost: 11 })).rejects.toThrow(/cost must not exceed the limit of 10 points, got: 11/);
+      await expect(service.check('export:user:1', { algorithm: 'token-bucket', points: 100, capacity: 20, cost: 21 })).rejects.toThrow(/limit of 20 points/);
+      await expect(service.check('export:user:1', { algorithm: 'gcra', points: 100, burst: 5, cost: 6 })).rejects.toThrow(/limit of 5 points/);
+      await expect(service.check('export:user:1', { limits, cost: 4 })).rejects.toThrow(/limit of 3 points/);
+      expect(mockStore.slidingWindow).not.toHaveBeenCalled();
+      expect(mockStore.tokenBucket).not.toHaveBeenCalled();
+      expect(mockStore.gcra).not.toHaveBeenCalled();
+      expect(mockStore.stacked).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unsatisfiable cost under fail-open', async () => {
+      // Given
+      const failOpenService = new RateLimitService({ ...config, errorPolicy: 'fail-open' }, mockStore);
+
+      // When/Then — errorPolicy covers store failures, not configuration
+      await expect(failOpenService.check('export:user:1', { points: 10, cost: 11 })).rejects.toThrow(InvalidRateLimitConfigError);
+      await expect(failOpenService.checkConcurrency('user:123', { max: 0 })).rejects.toThrow(InvalidRateLimitConfigError);
+      expect(mockStore.slidingWindow).not.toHaveBeenCalled();
+      expect(mockStore.concurrency).not.toHaveBeenCalled();
+    });
+
+    it('should accept a cost equal to the limit', async () => {
+      // When
+      await service.check('export:user:1', { points: 10, cost: 10 });
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:export:user:1', 10, 60, 10);
+    });
+  });
+
+  describe('refund', () => {
+    it('should give points back to the key of the configured algorithm', async () => {
+      // When
+      await service.refund('export:user:1', 30, { algorithm: 'fixed-window', points: 1000, duration: 3600 });
+
+      // Then
+      expect(mockStore.refund).toHaveBeenCalledWith('rl:fixed-window:export:user:1', 'fixed-window', 30, { points: 1000, duration: 3600 });
+    });
+
+    it('should give points back to every stacked tier', async () => {
+      // When
+      await service.refund('ip:1', 2, { limits: [{ name: 'hour', points: 1000, duration: 3600 }] });
+
+      // Then
+      expect(mockStore.refundStacked).toHaveBeenCalledWith('rl:stacked:ip:1', [{ name: 'hour', points: 1000, duration: 3600, algorithm: 'sliding-window' }], 2);
+    });
+
+    it('should reject refunds that are not a positive integer', async () => {
+      // When/Then
+      await expect(service.refund('ip:1', 0)).rejects.toThrow(/positive integer/);
+      expect(mockStore.refund).not.toHaveBeenCalled();
+    });
+
+    it('should ignore store errors with fail-open', async () => {
+      // Given
+      const serviceWithFailOpen = new RateLimitService({ ...config, errorPolicy: 'fail-open' }, mockStore);
+      mockStore.refund.mockRejectedValue(new Error('Redis error'));
+
+      // When/Then
+      await expect(serviceWithFailOpen.refund('ip:1', 1)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('stacked limits', () => {
+    const limits = [
+      { name: 'second', points: 10, duration: 1 },
+      { name: 'hour', points: 1000, duration: 3600, algorithm: 'fixed-window' as const },
+    ];
+
+    const tier = (name: string, overrides: Partial<IRateLimitResult>) => ({ name, allowed: true, limit: 10, remaining: 9, reset: 1700000001, current: 1, ...overrides });
+
+    it('should check all tiers under one key with resolved algorithms', async () => {
+      // Given
+      mockStore.stacked.mockResolvedValue([tier('second', {}), tier('hour', { limit: 1000, remaining: 999 })]);
+
+      // When
+      await service.check('ip:1', { limits });
+
+      // Then
+      expect(mockStore.slidingWindow).not.toHaveBeenCalled();
+      expect(mockStore.stacked).toHaveBeenCalledWith(
+        'rl:stacked:ip:1',
+        [
+          { name: 'second', points: 10, duration: 1, algorithm: 'sliding-window' },
+          { name: 'hour', points: 1000, duration: 3600, algorithm: 'fixed-window' },
+        ],
+        1,
+      );
+    });
+
+    it('should report the tier with the fewest requests left when allowed', async () => {
+      // Given
+      const tiers = [tier('second', { remaining: 9 }), tier('hour', { limit: 1000, remaining: 2, current: 998, reset: 1700003600 })];
+      mockStore.stacked.mockResolvedValue(tiers);
+
+      // When
+      const result = await service.check('ip:1', { limits });
+
+      // Then
+      expect(result).toEqual({ allowed: true, limit: 1000, remaining: 2, reset: 1700003600, current: 998, retryAfter: undefined, tiers });
+    });
+
+    it('should report the rejecting tier with the longest wait', async () => {
+      // Given
+      mockStore.stacked.mockResolvedValue([tier('second', { allowed: false, remaining: 0, current: 10, retryAfter: 1 }), tier('hour', { allowed: false, limit: 1000, remaining: 0, current: 1000, retryAfter: 1800 })]);
+
+      // When
+      const result = await service.check('ip:1', { limits });
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, limit: 1000, retryAfter: 1800 });
+      expect(result.tiers).toHaveLength(2);
+    });
+
+    it('should reject tiers without a window algorithm', async () => {
+      // When/Then
+      await expect(service.check('ip:1', { algorithm: 'token-bucket', limits })).rejects.toThrow(/needs a window algorithm/);
+      expect(mockStore.stacked).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate tier names', async () => {
+      // When/Then
+      await expect(service.check('ip:1', { limits: [limits[0]!, limits[0]!] })).rejects.toThrow(/Duplicate stacked limit name/);
+    });
+  });
+
+  describe('acquire', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should resolve once the reserved slot is reached', async () => {
+      // Given
+      mockStore.leakyBucket.mockResolvedValue({ ...defaultResult, delay: 400 });
+      let resolved = false;
+
+      // When
+      const acquire = service.acquire('api:partner', { points: 5, duration: 1 }, { maxWait: 1000 }).then(() => (resolved = true));
+      await vi.advanceTimersByTimeAsync(399);
+
+      // Then
+      expect(resolved).toBe(false);
+      expect(mockStore.leakyBucket).toHaveBeenCalledWith('rl:leaky-bucket:api:partner', 5, 1, 5, 1000, 1);
+
+      // When
+      await vi.advanceTimersByTimeAsync(1);
+      await acquire;
+
+      // Then
+      expect(resolved).toBe(true);
+    });
+
+    it('should use the leaky bucket whatever the configured algorithm', async () => {
+      // When
+      await service.acquire('api:partner', { algorithm: 'fixed-window', points: 5, duration: 1 });
+
+      // Then
+      expect(mockStore.fixedWindow).not.toHaveBeenCalled();
+      expect(mockStore.leakyBucket).toHaveBeenCalledWith('rl:leaky-bucket:api:partner', 5, 1, 5, 1000, 1);
+    });
+
+    it('should default maxWait to the time a full bucket takes to drain', async () => {
+      // When
+      await service.acquire('api:partner', { points: 10, duration: 1, capacity: 3 });
+
+      // Then
+      expect(mockStore.leakyBucket).toHaveBeenCalledWith('rl:leaky-bucket:api:partner', 10, 1, 3, 300, 1);
+    });
+
+    it('should reject when no slot is free within maxWait', async () => {
+      // Given
+      mockStore.leakyBucket.mockResolvedValue({ ...defaultResult, allowed: false, remaining: 0, retryAfter: 2, delay: 3000 });
+
+      // When/Then
+      const error = await service.acquire('api:partner', { points: 1, duration: 1 }, { maxWait: 1000 }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitExceededError);
+      expect((error as RateLimitExceededError).retryAfter).toBe(2);
+    });
+
+    it('should not wait when the store fails with fail-open', async () => {
+      // Given
+      const serviceWithFailOpen = new RateLimitService({ ...config, errorPolicy: 'fail-open' }, mockStore);
+      mockStore.leakyBucket.mockRejectedValue(new Error('Redis error'));
+
+      // When
+      const result = await serviceWithFailOpen.acquire('api:partner');
+
+      // Then
+      expect(result.allowed).toBe(true);
+      expect(result.delay).toBe(0);
+    });
+  });
+
+  describe('quotas', () => {
+    const pro = { points: 1000, duration: 60 };
+
+    it('should resolve no quota when quotas are not configured', async () => {
+      // When
+      const quota = await service.resolveQuota('tenant:acme');
+
+      // Then
+      expect(quota).toBeNull();
+      expect(mockStore.getQuota).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the plan of a key with the resolver', async () => {
+      // Given
+      const resolver = vi.fn().mockResolvedValue(pro);
+      const quotaService = new RateLimitService({ ...config, quotas: { resolver } }, mockStore);
+      const context = {} as never;
+
+      // When
+      const quota = await quotaService.resolveQuota('tenant:acme', context);
+
+      // Then
+      expect(quota).toEqual(pro);
+      expect(resolver).toHaveBeenCalledWith('tenant:acme', context);
+      expect(mockStore.getQuota).toHaveBeenCalledWith('rl:quota:tenant:acme');
+    });
+
+    it('should prefer an override stored in Redis', async () => {
+      // Given
+      const resolver = vi.fn().mockResolvedValue(pro);
+      const quotaService = new RateLimitService({ ...config, quotas: { resolver } }, mockStore);
+      mockStore.getQuota.mockResolvedValue({ points: 5000, duration: 60 });
+
+      // When
+      const quota = await quotaService.resolveQuota('tenant:acme');
+
+      // Then
+      expect(quota).toEqual({ points: 5000, duration: 60 });
+      expect(resolver).not.toHaveBeenCalled();
+    });
+
+    it('should cache resolved quotas for cacheTtl seconds', async () => {
+      // Given
+      vi.useFakeTimers();
+      const resolver = vi.fn().mockResolvedValue(pro);
+      const quotaService = new RateLimitService({ ...config, quotas: { resolver, cacheTtl: 30 } }, mockStore);
+
+      // When
+      await quotaService.resolveQuota('tenant:acme');
+      await quotaService.resolveQuota('tenant:acme');
+      vi.advanceTimersByTime(30_000);
+      await quotaService.resolveQuota('tenant:acme');
+      vi.useRealTimers();
+
+      // Then
+      expect(resolver).toHaveBeenCalledTimes(2);
+      expect(mockStore.getQuota).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read Redis on every call with cacheTtl 0', async () => {
+      // Given — another instance replaces the override between two calls
+      const quotaService = new RateLimitService({ ...config, quotas: { cacheTtl: 0 } }, mockStore);
+      mockStore.getQuota.mockResolvedValueOnce(pro).mockResolvedValueOnce(null);
+
+      // When / Then
+      expect(await quotaService.resolveQuota('tenant:acme')).toEqual(pro);
+      expect(await quotaService.resolveQuota('tenant:acme')).toBeNull();
+    });
+
+    it('should evict the oldest key when the cache is full', async () => {
+      // Given
+      const resolver = vi.fn().mockResolvedValue(null);
+      const quotaService = new RateLimitService({ ...config, quotas: { resolver, cacheSize: 2 } }, mockStore);
+
+      // When
+      await quotaService.resolveQuota('a');
+      await quotaService.resolveQuota('b');
+      await quotaService.resolveQuota('c');
+      await quotaService.resolveQuota('b');
+      await quotaService.resolveQuota('a');
+
+      // Then
+      expect(resolver.mock.calls.map(([key]) => key)).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should fall back to the plan when Redis fails with fail-open', async () => {
+      // Given
+      const resolver = vi.fn().mockResolvedValue(pro);
+      const quotaService = new RateLimitService({ ...config, errorPolicy: 'fail-open', quotas: { resolver } }, mockStore);
+      mockStore.getQuota.mockRejectedValue(new RateLimitScriptError('Get quota failed: Connection lost'));
+
+      // When
+      const quota = await quotaService.resolveQuota('tenant:acme');
+
+      // Then
+      expect(quota).toEqual(pro);
+    });
+
+    it('should propagate Redis failures with fail-closed', async () => {
+      // Given
+      const quotaService = new RateLimitService({ ...config, quotas: {} }, mockStore);
+      mockStore.getQuota.mockRejectedValue(new RateLimitScriptError('Get quota failed: Connection lost'));
+
+      // When/Then
+      await expect(quotaService.resolveQuota('tenant:acme')).rejects.toBeInstanceOf(RateLimitScriptError);
+    });
+
+    it('should store an override and drop the cached quota', async () => {
+      // Given
+      const resolver = vi.fn().mockResolvedValue(pro);
+      const quotaService = new RateLimitService({ ...config, quotas: { resolver } }, mockStore);
+      await quotaService.resolveQuota('tenant:acme');
+
+      // When
+      await quotaService.setQuota('tenant:acme', { points: 5000, duration: 60 }, 3600);
+      mockStore.getQuota.mockResolvedValue({ points: 5000, duration: 60 });
+
+      // Then
+      expect(mockStore.setQuota).toHaveBeenCalledWith('rl:quota:tenant:acme', { points: 5000, duration: 60 }, 3600);
+      expect(await quotaService.resolveQuota('tenant:acme')).toEqual({ points: 5000, duration: 60 });
+    });
+
+    it('should reject an override TTL that is not a positive integer', async () => {
+      // When/Then
+      await expect(service.setQuota('tenant:acme', pro, 0)).rejects.toThrow(/positive integer/);
+      expect(mockStore.setQuota).not.toHaveBeenCalled();
+    });
+
+    it('should read and delete overrides', async () => {
+      // Given
+      mockStore.getQuota.mockResolvedValue(pro);
+
+      // When
+      const quota = await service.getQuota('tenant:acme');
+      await service.deleteQuota('tenant:acme');
+
+      // Then
+      expect(quota).toEqual(pro);
+      expect(mockStore.deleteQuota).toHaveBeenCalledWith('rl:quota:tenant:acme');
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should take a slot with the default lease', async () => {
+      // Given
+      mockStore.concurrency.mockResolvedValue({ ...defaultResult, limit: 3, remaining: 2, slot: 'slot-1' });
+
+      // When
+      const result = await service.checkConcurrency('user:123', { max: 3 });
+
+      // Then
+      expect(result).toMatchObject({ allowed: true, slot: 'slot-1' });
+      expect(mockStore.concurrency).toHaveBeenCalledWith('rl:concurrency:user:123', 3, 60000, expect.any(String));
+    });
+
+    it('should use a unique slot id per request', async () => {
+      // Given
+      mockStore.concurrency.mockResolvedValue(defaultResult);
+
+      // When
+      await service.checkConcurrency('user:123', { max: 3 });
+      await service.checkConcurrency('user:123', { max: 3 });
+
+      // Then
+      const [first, second] = mockStore.concurrency.mock.calls.map((call) => call[3]);
+      expect(first).not.toBe(second);
+    });
+
+    it('should tell rejected requests when to retry', async () => {
+      // Given
+      mockStore.concurrency.mockResolvedValue({ ...defaultResult, allowed: false, remaining: 0 });
+
+      // When
+      const result = await service.checkConcurrency('user:123', { max: 3, lease: 5000, retryAfter: 2 });
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, retryAfter: 2 });
+      expect(mockStore.concurrency).toHaveBeenCalledWith('rl:concurrency:user:123', 3, 5000, expect.any(String));
+    });
+
+    it('should reject an invalid max or lease', async () => {
+      // When/Then
+      await expect(service.checkConcurrency('user:123', { max: 0 })).rejects.toThrow(InvalidRateLimitConfigError);
+      await expect(service.checkConcurrency('user:123', { max: 1, lease: 1.5 })).rejects.toThrow(/lease must be a positive integer/);
+      expect(mockStore.concurrency).not.toHaveBeenCalled();
+    });
+
+    it('should allow without a slot on store errors with fail-open', async () => {
+      // Given
+      const failOpenService = new RateLimitService({ ...config, errorPolicy: 'fail-open' }, mockStore);
+      mockStore.concurrency.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      const result = await failOpenService.checkConcurrency('user:123', { max: 3 });
+
+      // Then
+      expect(result).toMatchObject({ allowed: true, limit: 3 });
+      expect(result).not.toHaveProperty('slot');
+    });
+
+    it('should release a slot', async () => {
+      // When
+      await service.releaseConcurrency('user:123', 'slot-1');
+
+      // Then
+      expect(mockStore.releaseConcurrency).toHaveBeenCalledWith('rl:concurrency:user:123', 'slot-1');
+    });
+
+    it('should renew a slot for another lease', async () => {
+      // When
+      const renewed = await service.renewConcurrency('user:123', 'slot-1', { max: 3, lease: 5000 });
+
+      // Then
+      expect(renewed).toBe(true);
+      expect(mockStore.renewConcurrency).toHaveBeenCalledWith('rl:concurrency:user:123', 'slot-1', 5000);
+    });
+  });
+
+  describe('pre-allocation', () => {
+    let allocating: RateLimitService;
+
+    beforeEach(() => {
+      allocating = new RateLimitService({ ...config, preAllocation: { batchSize: 10, maxAge: 1000 } }, mockStore);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should lease a batch and serve the next checks locally', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+
+      // When
+      const first = await allocating.check('user:123');
+      const second = await allocating.check('user:123');
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(1);
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', 100, 60, 10);
+      expect(first).toMatchObject({ allowed: true, remaining: 99, current: 1 });
+      expect(second).toMatchObject({ allowed: true, remaining: 98, current: 2 });
+      expect(allocating.getPreAllocationStats()).toEqual({ localChecks: 1, remoteChecks: 1 });
+    });
+
+    it('should lease again once the batch is used up', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+
+      // When
+      for (let i = 0; i < 11; i++) {
+        await allocating.check('user:123', { cost: 1 });
+      }
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(2);
+      expect(allocating.getPreAllocationStats()).toEqual({ localChecks: 9, remoteChecks: 2 });
+    });
+
+    it('should lease again once the batch expires', async () => {
+      // Given
+      vi.useFakeTimers();
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+      await allocating.check('user:123');
+
+      // When
+      vi.advanceTimersByTime(1001);
+      await allocating.check('user:123');
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should check the request alone when no batch fits', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValueOnce({ allowed: false, limit: 100, remaining: 3, reset: 60, current: 97, retryAfter: 5 }).mockResolvedValueOnce({ allowed: true, limit: 100, remaining: 2, reset: 60, current: 98 }).mockResolvedValueOnce({ allowed: true, limit: 100, remaining: 0, reset: 60, current: 100 });
+
+      // When
+      const first = await allocating.check('user:123');
+      const second = await allocating.check('user:123');
+
+      // Then — the second lease shrinks to what Redis had left
+      expect(first).toMatchObject({ allowed: true, remaining: 2 });
+      expect(second).toMatchObject({ allowed: true, remaining: 1 });
+      expect(mockStore.slidingWindow.mock.calls.map((call) => call[3])).toEqual([10, 1, 2]);
+    });
+
+    it('should reject when even the request alone does not fit', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: false, limit: 100, remaining: 0, reset: 60, current: 100, retryAfter: 5 });
+
+      // When
+      const result = await allocating.check('user:123');
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, retryAfter: 5 });
+      expect(mockStore.slidingWindow.mock.calls.map((call) => call[3])).toEqual([10, 1]);
+    });
+
+    it('should serve weighted requests from the batch', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+      await allocating.check('user:123', { cost: 4 });
+
+      // When
+      const local = await allocating.check('user:123', { cost: 6 });
+      await allocating.check('user:123', { cost: 1 });
+
+      // Then
+      expect(local).toMatchObject({ allowed: true, remaining: 90 });
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never lease more than the limit', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 5, remaining: 0, reset: 60, current: 5 });
+
+      // When
+      await allocating.check('user:123', { points: 5 });
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(1);
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', 5, 60, 5);
+    });
+
+    it('should not lease leaky bucket slots', async () => {
+      // When
+      await allocating.check('user:123', { algorithm: 'leaky-bucket' });
+
+      // Then
+      expect(mockStore.leakyBucket).toHaveBeenCalledWith('rl:leaky-bucket:user:123', 100, 60, 100, 0, 1);
+      expect(allocating.getPreAllocationStats()).toEqual({ localChecks: 0, remoteChecks: 0 });
+    });
+
+    it('should drop leased tokens on reset', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+      await allocating.check('user:123');
+
+      // When
+      await allocating.reset('user:123');
+      await allocating.check('user:123');
+
+      // Then
+      expect(mockStore.slidingWindow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep stats at zero when disabled', async () => {
+      // When
+      await service.check('user:123');
+
+      // Then
+      expect(service.getPreAllocationStats()).toEqual({ localChecks: 0, remoteChecks: 0 });
+    });
+  });
+
+  describe('penalties', () => {
+    const penalty = { threshold: 3, window: 60, duration: 300 };
+    const rejected: IRateLimitResult = { allowed: false, limit: 5, remaining: 0, reset: 100, current: 5, retryAfter: 20 };
+
+    it('should reject a banned key before checking the limit', async () => {
+      // Given
+      mockStore.getBan.mockResolvedValue(120500);
+
+      // When
+      const result = await service.check('user:123', { points: 5, duration: 60, penalty });
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, banned: true, retryAfter: 121, limit: 5, remaining: 0 });
+      expect(mockStore.getBan).toHaveBeenCalledWith('rl:penalty:user:123');
+      expect(mockStore.slidingWindow).not.toHaveBeenCalled();
+    });
+
+    it('should not count allowed requests', async () => {
+      // When
+      const result = await service.check('user:123', { penalty });
+
+      // Then
+      expect(result.allowed).toBe(true);
+      expect(mockStore.penalize).not.toHaveBeenCalled();
+    });
+
+    it('should count rejections with penalty defaults applied', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue(rejected);
+
+      // When
+      const result = await service.check('user:123', { penalty });
+
+      // Then
+      expect(result).toEqual(rejected);
+      expect(mockStore.penalize).toHaveBeenCalledWith('rl:penalty:user:123', { ...penalty, multiplier: 2, maxDuration: 86400, decay: 86400 });
+    });
+
+    it('should report the ban of the rejection that triggered it', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue(rejected);
+      mockStore.penalize.mockResolvedValue(600);
+
+      // When
+      const result = await service.check('user:123', { penalty });
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, banned: true, retryAfter: 600 });
+    });
+
+    it('should reject an invalid policy', async () => {
+      // When/Then
+      await expect(service.check('user:123', { penalty: { ...penalty, threshold: 0 } })).rejects.toThrow(/threshold must be a positive integer/);
+      await expect(service.check('user:123', { penalty: { ...penalty, multiplier: 0.5 } })).rejects.toThrow(/multiplier must be at least 1/);
+    });
+
+    it('should keep the plain rejection when counting fails with fail-open', async () => {
+      // Given
+      const failOpenService = new RateLimitService({ ...config, errorPolicy: 'fail-open' }, mockStore);
+      mockStore.slidingWindow.mockResolvedValue(rejected);
+      mockStore.penalize.mockRejectedValue(new Error('Connection lost'));
+
+      // When
+      const result = await failOpenService.check('user:123', { penalty });
+
+      // Then
+      expect(result).toEqual(rejected);
+    });
+
+    it('should throw when counting fails with fail-closed', async () => {
+      // Given
+      mockStore.slidingWindow.mockResolvedValue(rejected);
+      mockStore.penalize.mockRejectedValue(new Error('Connection lost'));
+
+      // When/Then
+      await expect(service.check('user:123', { penalty })).rejects.toThrow(RateLimitScriptError);
+    });
+
+    it('should read the ban only when leasing a pre-allocated batch', async () => {
+      // Given
+      const allocating = new RateLimitService({ ...config, preAllocation: { batchSize: 10, maxAge: 1000 } }, mockStore);
+      mockStore.slidingWindow.mockResolvedValue({ allowed: true, limit: 100, remaining: 90, reset: 60, current: 10 });
+
+      // When — one lease, then nine checks from leased tokens
+      for (let i = 0; i < 10; i++) {
+        await allocating.check('user:123', { penalty });
+      }
+
+      // Then
+      expect(mockStore.getBan).toHaveBeenCalledTimes(1);
+      expect(allocating.getPreAllocationStats()).toEqual({ localChecks: 9, remoteChecks: 1 });
+
+      // When — the batch is used up, so the next check leases again
+      mockStore.getBan.mockResolvedValue(60000);
+      const result = await allocating.check('user:123', { penalty });
+
+      // Then
+      expect(mockStore.getBan).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ allowed: false, banned: true });
+    });
+
+    it('should ban, unban and report bans', async () => {
+      // Given
+      mockStore.getBan.mockResolvedValueOnce(5000).mockResolvedValueOnce(0);
+
+      // When
+      await service.ban('user:123', 3600);
+      await service.unban('user:123');
+
+      // Then
+      expect(mockStore.ban).toHaveBeenCalledWith('rl:penalty:user:123', 3600);
+      expect(mockStore.unban).toHaveBeenCalledWith('rl:penalty:user:123');
+      expect(await service.isBanned('user:123')).toBe(true);
+      expect(await service.isBanned('user:123')).toBe(false);
+    });
+
+    it('should reject an invalid ban duration', async () => {
+      // When/Then
+      await expect(service.ban('user:123', 0)).rejects.toThrow(/Ban duration must be a positive integer/);
+      expect(mockStore.ban).not.toHaveBeenCalled();
+    });
+  });
+
   describe('reset', () => {
     it('should reset all algorithm variants', async () => {
       // Given
@@ -277,11 +1062,13 @@ describe('RateLimitService', () => {
       // When
       await service.reset(key);
 
-      // Then - should reset all 3 algorithm variants
-      expect(mockStore.reset).toHaveBeenCalledTimes(3);
+      // Then - should reset all 5 algorithm variants
+      expect(mockStore.reset).toHaveBeenCalledTimes(5);
       expect(mockStore.reset).toHaveBeenCalledWith('rl:fixed-window:user:123');
       expect(mockStore.reset).toHaveBeenCalledWith('rl:sliding-window:user:123');
       expect(mockStore.reset).toHaveBeenCalledWith('rl:token-bucket:user:123');
+      expect(mockStore.reset).toHaveBeenCalledWith('rl:leaky-bucket:user:123');
+      expect(mockStore.reset).toHaveBeenCalledWith('rl:gcra:user:123');
     });
 
     it('should build full key with prefix for all algorithms', async () => {
@@ -293,10 +1080,37 @@ describe('RateLimitService', () => {
       await service.reset(key);
 
       // Then
-      expect(mockStore.reset).toHaveBeenCalledTimes(3);
+      expect(mockStore.reset).toHaveBeenCalledTimes(5);
       expect(mockStore.reset).toHaveBeenCalledWith('rl:fixed-window:api:endpoint');
       expect(mockStore.reset).toHaveBeenCalledWith('rl:sliding-window:api:endpoint');
       expect(mockStore.reset).toHaveBeenCalledWith('rl:token-bucket:api:endpoint');
+      expect(mockStore.reset).toHaveBeenCalledWith('rl:leaky-bucket:api:endpoint');
+      expect(mockStore.reset).toHaveBeenCalledWith('rl:gcra:api:endpoint');
+    });
+
+    it('should reset the stacked tiers named in the config', async () => {
+      // Given
+      const limits = [
+        { name: 'second', points: 10, duration: 1 },
+        { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' as const },
+      ];
+
+      // When
+      await service.reset('ip:1', { limits });
+
+      // Then
+      expect(mockStore.resetStacked).toHaveBeenCalledWith('rl:stacked:ip:1', [
+        { name: 'second', points: 10, duration: 1, algorithm: 'sliding-window' },
+        { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' },
+      ]);
+    });
+
+    it('should not touch stacked tiers without limits', async () => {
+      // When
+      await service.reset('ip:1');
+
+      // Then
+      expect(mockStore.resetStacked).not.toHaveBeenCalled();
     });
   });
 
@@ -350,7 +1164,7 @@ describe('RateLimitService', () => {
 
       // Then
       // Key includes algorithm prefix to avoid WRONGTYPE errors
-      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', expect.any(Number), expect.any(Number));
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:user:123', expect.any(Number), expect.any(Number), 1);
     });
 
     it('should use default prefix when not configured', async () => {
@@ -363,7 +1177,7 @@ describe('RateLimitService', () => {
 
       // Then
       // Key includes algorithm prefix
-      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:test', expect.any(Number), expect.any(Number));
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:test', expect.any(Number), expect.any(Number), 1);
     });
   });
 
@@ -472,7 +1286,7 @@ describe('RateLimitService', () => {
 
       // Then
       // Key includes algorithm prefix
-      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:test', 100, 60);
+      expect(mockStore.slidingWindow).toHaveBeenCalledWith('rl:sliding-window:test', 100, 60, 1);
     });
   });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi, type MockedObject } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedObject } from 'vitest';
 import type { IRedisDriver } from '@nestjs-redisx/core';
 import { RedisRateLimitStoreAdapter } from '../../src/rate-limit/infrastructure/adapters/redis-rate-limit-store.adapter';
 import { RateLimitScriptError } from '../../src/shared/errors';
@@ -16,6 +16,10 @@ describe('RedisRateLimitStoreAdapter', () => {
       zcard: vi.fn(),
       hmget: vi.fn(),
       del: vi.fn(),
+      set: vi.fn(),
+      setex: vi.fn(),
+      zrem: vi.fn(),
+      pttl: vi.fn(),
     } as unknown as MockedObject<IRedisDriver>;
 
     adapter = new RedisRateLimitStoreAdapter(mockDriver);
@@ -24,16 +28,22 @@ describe('RedisRateLimitStoreAdapter', () => {
   describe('onModuleInit', () => {
     it('should load all Lua scripts on initialization', async () => {
       // Given
-      mockDriver.scriptLoad.mockResolvedValueOnce('fixed-sha').mockResolvedValueOnce('sliding-sha').mockResolvedValueOnce('bucket-sha');
+      mockDriver.scriptLoad.mockResolvedValueOnce('fixed-sha').mockResolvedValueOnce('sliding-sha').mockResolvedValueOnce('bucket-sha').mockResolvedValueOnce('leaky-sha').mockResolvedValueOnce('gcra-sha').mockResolvedValueOnce('stacked-sha').mockResolvedValueOnce('refund-sha').mockResolvedValueOnce('concurrency-sha').mockResolvedValueOnce('penalty-sha');
 
       // When
       await adapter.onModuleInit();
 
       // Then
-      expect(mockDriver.scriptLoad).toHaveBeenCalledTimes(3);
+      expect(mockDriver.scriptLoad).toHaveBeenCalledTimes(10);
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('INCR'));
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('ZREMRANGEBYSCORE'));
       expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('HMGET'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('next_slot'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('new_tat'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('window_keys'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining("kind == 'bucket'"));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('PTTL'));
+      expect(mockDriver.scriptLoad).toHaveBeenCalledWith(expect.stringContaining('strikes_key'));
     });
 
     it('should throw RateLimitScriptError when script loading fails', async () => {
@@ -86,6 +96,17 @@ describe('RedisRateLimitStoreAdapter', () => {
       expect(result.retryAfter).toBeGreaterThan(0);
     });
 
+    it('should pass the cost to the script', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([1, 50, 1706400000, 50]);
+
+      // When
+      await adapter.fixedWindow('test-key', 100, 60, 50);
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['test-key'], [100, 60, expect.any(Number), 50]);
+    });
+
     it('should fallback to eval on NOSCRIPT error', async () => {
       // Given
       mockDriver.evalsha.mockRejectedValue(new Error('NOSCRIPT No matching script'));
@@ -232,6 +253,182 @@ describe('RedisRateLimitStoreAdapter', () => {
     });
   });
 
+  describe('leakyBucket', () => {
+    beforeEach(async () => {
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    it('should pass the leak interval, capacity and max wait to the script', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([1, 2, 1700000001, 2, 0, 100]);
+
+      // When
+      const result = await adapter.leakyBucket('test-key', 10, 1, 4, 500);
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['test-key'], [100, 4, expect.any(Number), 500, 1]);
+      expect(result).toEqual({ allowed: true, limit: 4, remaining: 2, reset: 1700000001, current: 2, retryAfter: undefined, delay: 100 });
+    });
+
+    it('should round retryAfter up to whole seconds when denied', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([0, 0, 1700000060, 5, 1500, 4000]);
+
+      // When
+      const result = await adapter.leakyBucket('test-key', 1, 1, 5, 2500);
+
+      // Then
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(2);
+      expect(result.delay).toBe(4000);
+    });
+
+    it('should fallback to eval on NOSCRIPT error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('NOSCRIPT No matching script'));
+      mockDriver.eval.mockResolvedValue([1, 9, 0, 1, 0, 0]);
+
+      // When
+      const result = await adapter.leakyBucket('test-key', 10, 60, 10, 0);
+
+      // Then
+      expect(result.allowed).toBe(true);
+      expect(mockDriver.eval).toHaveBeenCalledWith(expect.stringContaining('next_slot'), ['test-key'], [6000, 10, expect.any(Number), 0, 1]);
+    });
+
+    it('should throw RateLimitScriptError on error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Error'));
+
+      // When/Then
+      await expect(adapter.leakyBucket('test-key', 10, 60, 10, 0)).rejects.toThrow(RateLimitScriptError);
+    });
+  });
+
+  describe('gcra', () => {
+    beforeEach(async () => {
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    it('should pass the emission interval and burst to the script', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([1, 2, 1700000001, 1, 0]);
+
+      // When
+      const result = await adapter.gcra('test-key', 10, 1, 3);
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['test-key'], [100, 3, expect.any(Number), 1]);
+      expect(result).toEqual({ allowed: true, limit: 3, remaining: 2, reset: 1700000001, current: 1, retryAfter: undefined });
+    });
+
+    it('should round retryAfter up to whole seconds when denied', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([0, 0, 1700000060, 5, 12001]);
+
+      // When
+      const result = await adapter.gcra('test-key', 5, 60, 5);
+
+      // Then
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(13);
+    });
+
+    it('should report at least one second to wait when denied', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([0, 0, 1700000001, 10, 40]);
+
+      // When
+      const result = await adapter.gcra('test-key', 10, 1, 10);
+
+      // Then
+      expect(result.retryAfter).toBe(1);
+    });
+
+    it('should fallback to eval on NOSCRIPT error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('NOSCRIPT No matching script'));
+      mockDriver.eval.mockResolvedValue([1, 9, 0, 1, 0]);
+
+      // When
+      const result = await adapter.gcra('test-key', 10, 60, 10);
+
+      // Then
+      expect(result.allowed).toBe(true);
+      expect(mockDriver.eval).toHaveBeenCalledWith(expect.stringContaining('new_tat'), ['test-key'], [6000, 10, expect.any(Number), 1]);
+    });
+
+    it('should throw RateLimitScriptError on error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Error'));
+
+      // When/Then
+      await expect(adapter.gcra('test-key', 10, 60, 10)).rejects.toThrow(RateLimitScriptError);
+    });
+  });
+
+  describe('stacked', () => {
+    const tiers = [
+      { name: 'second', points: 10, duration: 1, algorithm: 'sliding-window' as const },
+      { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' as const },
+    ];
+
+    beforeEach(async () => {
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    it('should pass one hash-tagged key and three args per tier', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([1, 9, 1700000001, 1, 0, 1, 9999, 1700006400, 1, 0]);
+
+      // When
+      const result = await adapter.stacked('rl:stacked:ip:1', tiers);
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['{rl:stacked:ip:1}:second', '{rl:stacked:ip:1}:day'], [expect.any(Number), expect.any(String), 1, 'sliding-window', 10, 1, 'fixed-window', 10000, 86400]);
+      expect(result).toEqual([
+        { name: 'second', allowed: true, limit: 10, remaining: 9, reset: 1700000001, current: 1, retryAfter: undefined },
+        { name: 'day', allowed: true, limit: 10000, remaining: 9999, reset: 1700006400, current: 1, retryAfter: undefined },
+      ]);
+    });
+
+    it('should report retryAfter only for rejecting tiers', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([0, 0, 1700000001, 10, 1, 1, 9990, 1700006400, 10, 0]);
+
+      // When
+      const [second, day] = await adapter.stacked('rl:stacked:ip:1', tiers);
+
+      // Then
+      expect(second).toMatchObject({ allowed: false, retryAfter: 1 });
+      expect(day).toMatchObject({ allowed: true, retryAfter: undefined });
+    });
+
+    it('should fallback to eval on NOSCRIPT error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('NOSCRIPT No matching script'));
+      mockDriver.eval.mockResolvedValue([1, 9, 0, 1, 0, 1, 9999, 0, 1, 0]);
+
+      // When
+      const result = await adapter.stacked('rl:stacked:ip:1', tiers);
+
+      // Then
+      expect(result).toHaveLength(2);
+      expect(mockDriver.eval).toHaveBeenCalledWith(expect.stringContaining('window_keys'), ['{rl:stacked:ip:1}:second', '{rl:stacked:ip:1}:day'], expect.any(Array));
+    });
+
+    it('should throw RateLimitScriptError on error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Error'));
+
+      // When/Then
+      await expect(adapter.stacked('rl:stacked:ip:1', tiers)).rejects.toThrow(RateLimitScriptError);
+    });
+  });
+
   describe('peek', () => {
     it('should peek fixed-window state', async () => {
       // Given
@@ -315,6 +512,58 @@ describe('RedisRateLimitStoreAdapter', () => {
       expect(result.allowed).toBe(true);
     });
 
+    it('should peek gcra state from the stored arrival time', async () => {
+      // Given - two requests' worth of spacing already scheduled (10/s => 100ms each)
+      vi.useFakeTimers({ now: 1700000000000 });
+      mockDriver.get.mockResolvedValue(String(1700000000000 + 200));
+
+      // When
+      const result = await adapter.peek('test-key', 'gcra', { points: 10, duration: 1, burst: 5 });
+
+      // Then
+      expect(mockDriver.get).toHaveBeenCalledWith('test-key');
+      expect(result).toEqual({ allowed: true, limit: 5, remaining: 3, reset: 1700000001, current: 2 });
+      vi.useRealTimers();
+    });
+
+    it('should peek a fresh gcra key as a full burst', async () => {
+      // Given
+      mockDriver.get.mockResolvedValue(null);
+
+      // When
+      const result = await adapter.peek('test-key', 'gcra', { points: 10, duration: 1 });
+
+      // Then
+      expect(result.remaining).toBe(10);
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should peek leaky-bucket state from the next free slot', async () => {
+      // Given - two requests queued (10/s => 100ms each)
+      vi.useFakeTimers({ now: 1700000000000 });
+      mockDriver.get.mockResolvedValue(String(1700000000000 + 200));
+
+      // When
+      const result = await adapter.peek('test-key', 'leaky-bucket', { points: 10, duration: 1, capacity: 5 });
+
+      // Then
+      expect(mockDriver.get).toHaveBeenCalledWith('test-key');
+      expect(result).toEqual({ allowed: false, limit: 5, remaining: 3, reset: 1700000001, current: 2 });
+      vi.useRealTimers();
+    });
+
+    it('should peek an idle leaky bucket as empty', async () => {
+      // Given
+      mockDriver.get.mockResolvedValue(null);
+
+      // When
+      const result = await adapter.peek('test-key', 'leaky-bucket', { points: 10, duration: 1 });
+
+      // Then
+      expect(result.remaining).toBe(10);
+      expect(result.allowed).toBe(true);
+    });
+
     it('should throw RateLimitScriptError on peek error', async () => {
       // Given
       mockDriver.get.mockRejectedValue(new Error('Connection lost'));
@@ -330,6 +579,61 @@ describe('RedisRateLimitStoreAdapter', () => {
     });
   });
 
+  describe('refund', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers({ now: 1700000030000 });
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should refund the current fixed window', async () => {
+      // When
+      await adapter.refund('rl:fixed-window:k', 'fixed-window', 5, { points: 100, duration: 60 });
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['{rl:fixed-window:k}:1699999980'], [5, 1700000030000, 'counter', 0]);
+    });
+
+    it('should refund each algorithm by its state kind', async () => {
+      // When
+      await adapter.refund('rl:sliding-window:k', 'sliding-window', 2, { points: 100, duration: 60 });
+      await adapter.refund('rl:token-bucket:k', 'token-bucket', 2, { capacity: 50, refillRate: 5 });
+      await adapter.refund('rl:gcra:k', 'gcra', 2, { points: 10, duration: 1, burst: 10 });
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenNthCalledWith(1, 'sha1', ['rl:sliding-window:k'], [2, expect.any(Number), 'log', 0]);
+      expect(mockDriver.evalsha).toHaveBeenNthCalledWith(2, 'sha1', ['rl:token-bucket:k'], [2, expect.any(Number), 'bucket', 50]);
+      expect(mockDriver.evalsha).toHaveBeenNthCalledWith(3, 'sha1', ['rl:gcra:k'], [2, expect.any(Number), 'schedule', 100]);
+    });
+
+    it('should refund every stacked tier', async () => {
+      // When
+      await adapter.refundStacked(
+        'rl:stacked:k',
+        [
+          { name: 'second', points: 10, duration: 1, algorithm: 'sliding-window' },
+          { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' },
+        ],
+        3,
+      );
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['{rl:stacked:k}:second', '{rl:stacked:k}:day:1699920000'], [3, expect.any(Number), 'log', 0, 'counter', 0]);
+    });
+
+    it('should throw RateLimitScriptError on error', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Error'));
+
+      // When/Then
+      await expect(adapter.refund('k', 'sliding-window', 1, {})).rejects.toThrow('Refund failed');
+    });
+  });
+
   describe('reset', () => {
     it('should reset rate limit key', async () => {
       // Given
@@ -355,5 +659,183 @@ describe('RedisRateLimitStoreAdapter', () => {
         expect((error as Error).message).toContain('Reset failed');
       }
     });
+
+    it('should delete every stacked tier key, fixed windows by their current window', async () => {
+      // Given
+      vi.useFakeTimers({ now: 1700000030000 });
+
+      // When
+      await adapter.resetStacked('rl:stacked:k', [
+        { name: 'second', points: 10, duration: 1, algorithm: 'sliding-window' },
+        { name: 'day', points: 10000, duration: 86400, algorithm: 'fixed-window' },
+      ]);
+
+      // Then
+      expect(mockDriver.del).toHaveBeenCalledWith('{rl:stacked:k}:second', '{rl:stacked:k}:day:1699920000');
+      vi.useRealTimers();
+    });
+  });
+
+  describe('quotas', () => {
+    it('should read a stored quota as JSON', async () => {
+      // Given
+      mockDriver.get.mockResolvedValue('{"points":5000,"duration":60}');
+
+      // When
+      const quota = await adapter.getQuota('rl:quota:tenant:acme');
+
+      // Then
+      expect(quota).toEqual({ points: 5000, duration: 60 });
+      expect(mockDriver.get).toHaveBeenCalledWith('rl:quota:tenant:acme');
+    });
+
+    it('should return null when no quota is stored', async () => {
+      // Given
+      mockDriver.get.mockResolvedValue(null);
+
+      // When/Then
+      expect(await adapter.getQuota('rl:quota:tenant:acme')).toBeNull();
+    });
+
+    it('should store a quota with or without TTL', async () => {
+      // When
+      await adapter.setQuota('rl:quota:a', { points: 10, duration: 1 });
+      await adapter.setQuota('rl:quota:b', { points: 10, duration: 1 }, 3600);
+
+      // Then
+      expect(mockDriver.set).toHaveBeenCalledWith('rl:quota:a', '{"points":10,"duration":1}');
+      expect(mockDriver.setex).toHaveBeenCalledWith('rl:quota:b', 3600, '{"points":10,"duration":1}');
+    });
+
+    it('should delete a stored quota', async () => {
+      // When
+      await adapter.deleteQuota('rl:quota:a');
+
+      // Then
+      expect(mockDriver.del).toHaveBeenCalledWith('rl:quota:a');
+    });
+
+    it('should wrap driver errors in RateLimitScriptError', async () => {
+      // Given
+      mockDriver.get.mockRejectedValue(new Error('Connection lost'));
+
+      // When/Then
+      await expect(adapter.getQuota('rl:quota:a')).rejects.toThrow(/Get quota failed: Connection lost/);
+    });
+  });
+
+  describe('concurrency', () => {
+    beforeEach(async () => {
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should take a leased slot', async () => {
+      // Given
+      vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockDriver.evalsha.mockResolvedValue([1, 2, 1_060_000]);
+
+      // When
+      const result = await adapter.concurrency('rl:concurrency:user:1', 3, 60000, 'slot-1');
+
+      // Then
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['rl:concurrency:user:1'], [3, 60000, 1_000_000, 'slot-1']);
+      expect(result).toEqual({ allowed: true, limit: 3, remaining: 1, reset: 1060, current: 2, slot: 'slot-1' });
+    });
+
+    it('should reject without a slot when all are held', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue([0, 3, 1_030_500]);
+
+      // When
+      const result = await adapter.concurrency('rl:concurrency:user:1', 3, 60000, 'slot-1');
+
+      // Then
+      expect(result).toMatchObject({ allowed: false, remaining: 0, reset: 1031, current: 3 });
+      expect(result.slot).toBeUndefined();
+    });
+
+    it('should release a slot', async () => {
+      // When
+      await adapter.releaseConcurrency('rl:concurrency:user:1', 'slot-1');
+
+      // Then
+      expect(mockDriver.zrem).toHaveBeenCalledWith('rl:concurrency:user:1', 'slot-1');
+    });
+
+    it('should renew the lease of a held slot', async () => {
+      // Given
+      vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      mockDriver.evalsha.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      // When / Then
+      await expect(adapter.renewConcurrency('rl:concurrency:user:1', 'slot-1', 60000)).resolves.toBe(true);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['rl:concurrency:user:1'], [60000, 1_000_000, 'slot-1']);
+      await expect(adapter.renewConcurrency('rl:concurrency:user:1', 'slot-1', 60000)).resolves.toBe(false);
+    });
+
+    it('should wrap driver errors in RateLimitScriptError', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Connection lost'));
+      mockDriver.zrem.mockRejectedValue(new Error('Connection lost'));
+
+      // When/Then
+      await expect(adapter.concurrency('rl:concurrency:a', 1, 1000, 's')).rejects.toThrow(RateLimitScriptError);
+      await expect(adapter.releaseConcurrency('rl:concurrency:a', 's')).rejects.toThrow(/Release concurrency failed: Connection lost/);
+      await expect(adapter.renewConcurrency('rl:concurrency:a', 's', 1000)).rejects.toThrow(/Renew concurrency failed: Connection lost/);
+    });
+  });
+
+  describe('penalties', () => {
+    beforeEach(async () => {
+      mockDriver.scriptLoad.mockResolvedValue('sha1');
+      await adapter.onModuleInit();
+    });
+
+    it('should count a rejection on hash-tagged penalty keys', async () => {
+      // Given
+      mockDriver.evalsha.mockResolvedValue(600);
+
+      // When
+      const ban = await adapter.penalize('rl:penalty:user:1', { threshold: 3, window: 60, duration: 300, multiplier: 2, maxDuration: 86400, decay: 86400 });
+
+      // Then
+      expect(ban).toBe(600);
+      expect(mockDriver.evalsha).toHaveBeenCalledWith('sha1', ['{rl:penalty:user:1}:strikes', '{rl:penalty:user:1}:ban', '{rl:penalty:user:1}:level'], [3, 60, 300, 2, 86400, 86400]);
+    });
+
+    it('should read the time left of a ban', async () => {
+      // Given
+      mockDriver.pttl.mockResolvedValueOnce(1500).mockResolvedValueOnce(-2);
+
+      // When/Then
+      expect(await adapter.getBan('rl:penalty:user:1')).toBe(1500);
+      expect(await adapter.getBan('rl:penalty:user:1')).toBe(0);
+      expect(mockDriver.pttl).toHaveBeenCalledWith('{rl:penalty:user:1}:ban');
+    });
+
+    it('should ban and unban a key', async () => {
+      // When
+      await adapter.ban('rl:penalty:user:1', 3600);
+      await adapter.unban('rl:penalty:user:1');
+
+      // Then
+      expect(mockDriver.setex).toHaveBeenCalledWith('{rl:penalty:user:1}:ban', 3600, '0');
+      expect(mockDriver.del).toHaveBeenCalledWith('{rl:penalty:user:1}:strikes', '{rl:penalty:user:1}:ban', '{rl:penalty:user:1}:level');
+    });
+
+    it('should wrap driver errors in RateLimitScriptError', async () => {
+      // Given
+      mockDriver.evalsha.mockRejectedValue(new Error('Connection lost'));
+      mockDriver.pttl.mockRejectedValue(new Error('Connection lost'));
+
+      // When/Then
+      await expect(adapter.penalize('rl:penalty:a', { threshold: 1, window: 1, duration: 1, multiplier: 2, maxDuration: 1, decay: 1 })).rejects.toThrow(/Penalty failed/);
+      await expect(adapter.getBan('rl:penalty:a')).rejects.toThrow(RateLimitScriptError);
+    });
   });
 });
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FixedWindowStrategy } from '../../src/rate-limit/domain/strategies/fixed-window.strategy';
 import { SlidingWindowStrategy } from '../../src/rate-limit/domain/strategies/sliding-window.strategy';
 import { TokenBucketStrategy } from '../../src/rate-limit/domain/strategies/token-bucket.strategy';
+import { LeakyBucketStrategy } from '../../src/rate-limit/domain/strategies/leaky-bucket.strategy';
+import { GcraStrategy } from '../../src/rate-limit/domain/strategies/gcra.strategy';
 import type { IRateLimitStore } from '../../src/rate-limit/application/ports/rate-limit-store.port';
 import type { IRateLimitResult } from '../../src/shared/types';
 
@@ -10,8 +12,14 @@ function createMockStore(): IRateLimitStore {
     fixedWindow: vi.fn(),
     slidingWindow: vi.fn(),
     tokenBucket: vi.fn(),
+    leakyBucket: vi.fn(),
+    gcra: vi.fn(),
+    stacked: vi.fn(),
+    refund: vi.fn(),
+    refundStacked: vi.fn(),
     peek: vi.fn(),
     reset: vi.fn(),
+    resetStacked: vi.fn(),
   };
 }
 
@@ -89,7 +97,7 @@ describe('Rate Limit Strategies', () => {
 
       // Then
       expect(result).toEqual(mockResult);
-      expect(store.fixedWindow).toHaveBeenCalledWith('key', 50, 30);
+      expect(store.fixedWindow).toHaveBeenCalledWith('key', 50, 30, 1);
     });
 
     it('should return non-empty script', () => {
@@ -169,7 +177,7 @@ describe('Rate Limit Strategies', () => {
 
       // Then
       expect(result).toEqual(mockResult);
-      expect(store.slidingWindow).toHaveBeenCalledWith('key', 50, 30);
+      expect(store.slidingWindow).toHaveBeenCalledWith('key', 50, 30, 1);
     });
 
     it('should return non-empty script', () => {
@@ -269,6 +277,19 @@ describe('Rate Limit Strategies', () => {
       expect(store.tokenBucket).toHaveBeenCalledWith('key', 100, 10, 1);
     });
 
+    it('should consume the configured cost', async () => {
+      // Given
+      const store = createMockStore();
+      vi.mocked(store.tokenBucket).mockResolvedValue(mockResult);
+      const strategyWithStore = new TokenBucketStrategy(store);
+
+      // When
+      await strategyWithStore.check('key', { capacity: 100, refillRate: 10, cost: 25 });
+
+      // Then
+      expect(store.tokenBucket).toHaveBeenCalledWith('key', 100, 10, 25);
+    });
+
     it('should return non-empty script', () => {
       // Given/When
       const script = strategy.getScript();
@@ -278,23 +299,112 @@ describe('Rate Limit Strategies', () => {
     });
   });
 
+  describe('LeakyBucketStrategy', () => {
+    let strategy: LeakyBucketStrategy;
+
+    beforeEach(() => {
+      strategy = new LeakyBucketStrategy();
+    });
+
+    it('should have correct name', () => {
+      // Given/When/Then
+      expect(strategy.name).toBe('leaky-bucket');
+    });
+
+    it('should reserve the next slot in a single key', () => {
+      // Given/When
+      const script = strategy.getScript();
+
+      // Then
+      expect(script).toContain('KEYS[1]');
+      expect(script).not.toContain('KEYS[2]');
+      expect(script).toContain("redis.call('SET', key, next_slot, 'PX'");
+    });
+
+    it('should throw error when check is called without store', async () => {
+      // Given/When/Then
+      await expect(strategy.check('key', { points: 10, duration: 60 })).rejects.toThrow('requires an IRateLimitStore');
+    });
+
+    it('should delegate check to store without waiting for a slot', async () => {
+      // Given
+      const store = createMockStore();
+      vi.mocked(store.leakyBucket).mockResolvedValue({ ...mockResult, delay: 0 });
+      const strategyWithStore = new LeakyBucketStrategy(store);
+
+      // When
+      await strategyWithStore.check('key', { points: 10, duration: 60 });
+      await strategyWithStore.check('key', { points: 10, duration: 60, capacity: 3 });
+
+      // Then
+      expect(store.leakyBucket).toHaveBeenNthCalledWith(1, 'key', 10, 60, 10, 0, 1);
+      expect(store.leakyBucket).toHaveBeenNthCalledWith(2, 'key', 10, 60, 3, 0, 1);
+    });
+  });
+
+  describe('GcraStrategy', () => {
+    let strategy: GcraStrategy;
+
+    beforeEach(() => {
+      strategy = new GcraStrategy();
+    });
+
+    it('should have correct name', () => {
+      // Given/When/Then
+      expect(strategy.name).toBe('gcra');
+    });
+
+    it('should keep a single theoretical arrival time per key', () => {
+      // Given/When
+      const script = strategy.getScript();
+
+      // Then
+      expect(script).toContain('KEYS[1]');
+      expect(script).not.toContain('KEYS[2]');
+      expect(script).toContain("redis.call('SET', key, new_tat, 'PX'");
+    });
+
+    it('should throw error when check is called without store', async () => {
+      // Given/When/Then
+      await expect(strategy.check('key', { points: 10, duration: 60 })).rejects.toThrow('requires an IRateLimitStore');
+    });
+
+    it('should delegate check to store with burst defaulting to points', async () => {
+      // Given
+      const store = createMockStore();
+      vi.mocked(store.gcra).mockResolvedValue(mockResult);
+      const strategyWithStore = new GcraStrategy(store);
+
+      // When
+      const result = await strategyWithStore.check('key', { points: 10, duration: 60 });
+      await strategyWithStore.check('key', { points: 10, duration: 60, burst: 3 });
+
+      // Then
+      expect(result).toEqual(mockResult);
+      expect(store.gcra).toHaveBeenNthCalledWith(1, 'key', 10, 60, 10, 1);
+      expect(store.gcra).toHaveBeenNthCalledWith(2, 'key', 10, 60, 3, 1);
+    });
+  });
+
   describe('Strategy Comparison', () => {
     it('should have unique names for each strategy', () => {
       // Given
       const fixedWindow = new FixedWindowStrategy();
       const slidingWindow = new SlidingWindowStrategy();
       const tokenBucket = new TokenBucketStrategy();
+      const leakyBucket = new LeakyBucketStrategy();
+      const gcra = new GcraStrategy();
 
       // When
-      const names = [fixedWindow.name, slidingWindow.name, tokenBucket.name];
+      const names = [fixedWindow.name, slidingWindow.name, tokenBucket.name, leakyBucket.name, gcra.name];
 
       // Then
-      expect(new Set(names).size).toBe(3);
+      expect(new Set(names).size).toBe(5);
     });
 
     it('should all return non-empty scripts', () => {
       // Given
-      const strategies = [new FixedWindowStrategy(), new SlidingWindowStrategy(), new TokenBucketStrategy()];
+      const strategies = [new FixedWindowStrategy(), new SlidingWindowStrategy(), new TokenBucketStrategy(), new LeakyBucketStrategy(), new GcraStrategy()];
 
       // When/Then
       strategies.forEach((strategy) => {
@@ -304,7 +414,7 @@ describe('Rate Limit Strategies', () => {
 
     it('should all throw error on direct check call without store', async () => {
       // Given
-      const strategies = [new FixedWindowStrategy(), new SlidingWindowStrategy(), new TokenBucketStrategy()];
+      const strategies = [new FixedWindowStrategy(), new SlidingWindowStrategy(), new TokenBucketStrategy(), new LeakyBucketStrategy(), new GcraStrategy()];
       const config = { points: 10, duration: 60 };
 
       // When/Then
@@ -278,7 +278,7 @@ export class LuaInterpreter {
 
   private evalCall(expr: Extract<Expr, { kind: 'call' }>, env: Map<string, LuaValue>, redisCall: RedisCallPort): LuaValue {
     const callee = expr.callee;
-    const args = expr.args.map((a) => this.evalExpr(a, env, redisCall));
+    const args = this.evalArgs(expr.args, env, redisCall);
 
     // redis.call(...) / redis.pcall(...)
     if (callee.kind === 'index' && callee.obj.kind === 'name' && callee.obj.name === 'redis' && callee.key.kind === 'str') {
@@ -312,6 +312,26 @@ export class LuaInterpreter {
     throw new LuaExecutionError('unsupported function call');
   }
 
+  /**
+   * Evaluates call arguments. A trailing `unpack(t)` expands to the array part
+   * of `t`, as Lua expands the last expression of an argument list.
+   */
+  private evalArgs(exprs: Expr[], env: Map<string, LuaValue>, redisCall: RedisCallPort): LuaValue[] {
+    const last = exprs[exprs.length - 1];
+    if (last?.kind !== 'call' || last.callee.kind !== 'name' || last.callee.name !== 'unpack') {
+      return exprs.map((a) => this.evalExpr(a, env, redisCall));
+    }
+
+    const args = exprs.slice(0, -1).map((a) => this.evalExpr(a, env, redisCall));
+    const table = last.args[0] ? this.evalExpr(last.args[0], env, redisCall) : null;
+    if (!(table instanceof LuaTable)) throw new LuaExecutionError('bad argument to unpack (table expected)');
+    const len = table.length();
+    for (let i = 1; i <= len; i++) {
+      args.push(table.get(i));
+    }
+    return args;
+  }
+
   private doMath(fn: string, args: LuaValue[]): LuaValue {
     const nums = args.map(toNumber);
     switch (fn) {
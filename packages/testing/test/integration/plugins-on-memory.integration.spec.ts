@@ -1,9 +1,9 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { Test, type TestingModule } from '@nestjs/testing';
 import { RedisModule, CLIENT_MANAGER, type RedisClientManager } from '@nestjs-redisx/core';
-import { LocksPlugin, LOCK_SERVICE, type ILockService, LockAcquisitionError } from '@nestjs-redisx/locks';
+import { LocksPlugin, LOCK_SERVICE, SEMAPHORE_SERVICE, LEADER_ELECTION_SERVICE, LeaderElectionService, OnLeader, OnFollower, type ILockService, type ISemaphoreService, type ILeaderElectionService, type ILeadershipChange, LockAcquisitionError } from '@nestjs-redisx/locks';
 import { CachePlugin, CACHE_SERVICE, Cached, InvalidateTags, type ICacheService } from '@nestjs-redisx/cache';
-import { RateLimitPlugin, RATE_LIMIT_SERVICE, type IRateLimitService } from '@nestjs-redisx/rate-limit';
+import { RateLimitPlugin, RateLimitExceededError, RATE_LIMIT_SERVICE, type IRateLimitService } from '@nestjs-redisx/rate-limit';
 import { IdempotencyPlugin, IDEMPOTENCY_SERVICE, type IIdempotencyService } from '@nestjs-redisx/idempotency';
 import { CircuitBreakerPlugin, CIRCUIT_BREAKER_SERVICE, CircuitBreakerOpenError, type ICircuitBreakerService } from '@nestjs-redisx/circuit-breaker';
 import { PubSubPlugin, PUBSUB_SERVICE, type IPubSubService, type IPubSubMessage } from '@nestjs-redisx/pubsub';
@@ -86,6 +86,275 @@ describe('Plugins on the in-memory driver (no Redis)', () => {
       const result = await locks.withLock('job:nightly', async () => 'done', { ttl: 5000 });
       expect(result).toBe('done');
     });
+
+    it('shares read locks, excludes writers, and holds back readers behind a waiting writer', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin()] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const once = { ttl: 5000, retry: { maxRetries: 0 } };
+
+      // When — two readers hold the key together
+      const reader1 = await locks.acquireRead('pricing', once);
+      const reader2 = await locks.acquireRead('pricing', once);
+      expect(await reader2.isHeld()).toBe(true);
+
+      // Then — a writer has to wait, and while it retries new readers are refused
+      const writer = locks.acquireWrite('pricing', { ttl: 5000, retry: { maxRetries: 10, initialDelay: 10 } });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await expect(locks.acquireRead('pricing', once)).rejects.toBeInstanceOf(LockAcquisitionError);
+
+      // When readers drain, the writer gets the key with a newer fencing token
+      await reader1.release();
+      await reader2.release();
+      const writeLock = await writer;
+      expect(writeLock.mode).toBe('write');
+      expect(writeLock.fencingToken).toBeGreaterThan(reader2.fencingToken);
+      await expect(locks.acquireRead('pricing', once)).rejects.toBeInstanceOf(LockAcquisitionError);
+
+      await writeLock.release();
+      const reader3 = await locks.acquireRead('pricing', once);
+      await reader3.release();
+    });
+
+    it('hands out at most N semaphore permits and reports holders', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin()] })],
+      }).compile();
+      await app.init();
+      const semaphore = app.get<ISemaphoreService>(SEMAPHORE_SERVICE);
+
+      // When — two permits of two are taken
+      const first = await semaphore.tryAcquire('partner-api', 2, { ttl: 5000 });
+      const second = await semaphore.tryAcquire('partner-api', 2, { ttl: 5000 });
+
+      // Then — the third caller is refused, and both holders are visible
+      await expect(semaphore.tryAcquire('partner-api', 2, { ttl: 5000 })).resolves.toBeNull();
+      const holders = await semaphore.getHolders('partner-api');
+      expect(holders.map((h) => h.token).sort()).toEqual([first!.token, second!.token].sort());
+
+      // When one is returned, a permit is free again
+      await first!.release();
+      const third = await semaphore.tryAcquire('partner-api', 2, { ttl: 5000 });
+      expect(third).not.toBeNull();
+      await second!.release();
+      await third!.release();
+      expect(await semaphore.getHolders('partner-api')).toEqual([]);
+    });
+
+    it('acquires several keys all or nothing and releases them together', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin()] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const single = await locks.acquire('account:2', { ttl: 5000 });
+
+      // When — one of the keys is taken, so nothing is acquired
+      await expect(locks.acquireMany(['account:1', 'account:2'], { ttl: 5000, retry: { maxRetries: 0 } })).rejects.toBeInstanceOf(LockAcquisitionError);
+      await expect(locks.isLocked('account:1')).resolves.toBe(false);
+      await single.release();
+
+      // Then — opposite orders contend without deadlock, and release frees every key
+      const transfer = await locks.acquireMany(['account:1', 'account:2'], { ttl: 5000 });
+      expect(transfer.fencingTokens).toHaveLength(2);
+      await expect(locks.acquireMany(['account:2', 'account:1'], { ttl: 5000, retry: { maxRetries: 0 } })).rejects.toBeInstanceOf(LockAcquisitionError);
+      await transfer.extend(8000);
+      await expect(transfer.isHeld()).resolves.toBe(true);
+      await transfer.release();
+      await expect(locks.isLocked('account:1')).resolves.toBe(false);
+      await expect(locks.isLocked('account:2')).resolves.toBe(false);
+      const reverse = await locks.acquireMany(['account:2', 'account:1'], { ttl: 5000 });
+      expect(reverse.fencingTokens[0]).toBeGreaterThan(transfer.fencingTokens[1]!);
+      await reverse.release();
+    });
+
+    it('hands a contended lock to fair waiters in arrival order, woken by release notifications', async () => {
+      // Given — polling is slow enough that only notifications can explain a quick hand-off
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin({ fair: { enabled: true, pollInterval: 5000 } })] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const holder = await locks.acquire('queue:fifo', { ttl: 5000 });
+
+      const order: string[] = [];
+      const waiters: Promise<void>[] = [];
+      for (const name of ['a', 'b', 'c']) {
+        waiters.push(
+          locks.withLock(
+            'queue:fifo',
+            async () => {
+              order.push(name);
+            },
+            { ttl: 5000, waitTimeout: 3000 },
+          ),
+        );
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      // When
+      const start = Date.now();
+      await holder.release();
+      await Promise.all(waiters);
+
+      // Then
+      expect(order).toEqual(['a', 'b', 'c']);
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+
+    it('times out a fair waiter and lets the next one through', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin({ fair: { pollInterval: 5000 } })] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const holder = await locks.acquire('queue:abandon', { ttl: 5000 });
+
+      // When — the first waiter gives up while the second still waits
+      const impatient = locks.acquire('queue:abandon', { fair: true, waitTimeout: 50 });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const patient = locks.acquire('queue:abandon', { fair: true, waitTimeout: 3000 });
+      await expect(impatient).rejects.toBeInstanceOf(LockAcquisitionError);
+      const start = Date.now();
+      await holder.release();
+
+      // Then — the abandoned place does not block the queue
+      const lock = await patient;
+      expect(Date.now() - start).toBeLessThan(2000);
+      await expect(lock.isHeld()).resolves.toBe(true);
+      await lock.release();
+    });
+
+    it('lets the owner re-enter a reentrant lock and releases it on the last hold', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin({ reentrant: { enabled: true } })] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+
+      // When — a nested critical section takes the same key
+      const result = await locks.withLock(
+        'ledger',
+        async () => {
+          const reentry = (await locks.tryAcquire('ledger'))!;
+          await reentry.release();
+
+          return locks.withLock(
+            'ledger',
+            async () => {
+              // Then — the key stays held by the owner, and nobody else gets it
+              await expect(locks.isLocked('ledger')).resolves.toBe(true);
+              await expect(locks.tryAcquire('ledger', { reentrant: false })).resolves.toBeNull();
+              return 'nested';
+            },
+            { waitTimeout: 100 },
+          );
+        },
+        { ttl: 5000 },
+      );
+
+      // Then — the inner releases only dropped holds; the outer one released the key
+      expect(result).toBe('nested');
+      await expect(locks.isLocked('ledger')).resolves.toBe(false);
+    });
+
+    it('never shortens the TTL of a reentrant lock when a nested holder renews', async () => {
+      // Given — an outer hold with a long TTL
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin({ reentrant: { enabled: true } })] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const driver = await app.get<RedisClientManager>(CLIENT_MANAGER).getClient();
+
+      await locks.withLock(
+        'ledger',
+        async () => {
+          // When — a nested hold with a short TTL renews and leaves
+          const inner = await locks.acquire('ledger', { ttl: 1000, autoRenew: false });
+          await inner.extend(1000);
+          await inner.release();
+
+          // Then — the outer holder keeps its long TTL, and the hold count expires with it
+          expect(await driver.pttl('_lock:ledger')).toBeGreaterThan(25000);
+          expect(await driver.pttl('{_lock:ledger}:holds')).toBeGreaterThan(25000);
+        },
+        { ttl: 30000, autoRenew: false },
+      );
+    });
+
+    it('locks on a majority of independent clients in Redlock mode', async () => {
+      // Given — three named clients, each with its own in-memory keyspace
+      const node = { type: 'single' as const, host: 'x', port: 1 };
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { default: node, a: node, b: node, c: node }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin({ clients: ['a', 'b', 'c'] })] })],
+      }).compile();
+      await app.init();
+      const locks = app.get<ILockService>(LOCK_SERVICE);
+      const manager = app.get<RedisClientManager>(CLIENT_MANAGER);
+      const [a, b, c] = await Promise.all(['a', 'b', 'c'].map((name) => manager.getClient(name)));
+
+      // When/Then — a lock is written to every node and removed from every node
+      const lock = await locks.acquire('redlock:order', { ttl: 5000 });
+      for (const driver of [a!, b!, c!]) {
+        await expect(driver.get('_lock:redlock:order')).resolves.toBe(lock.token);
+      }
+      await expect(locks.tryAcquire('redlock:order')).resolves.toBeNull();
+      await lock.release();
+      await expect(a!.exists('_lock:redlock:order')).resolves.toBe(0);
+
+      // When/Then — a key held on two nodes cannot reach a quorum, and the free node is left clean
+      await b!.set('_lock:redlock:held', 'other', { px: 5000 });
+      await c!.set('_lock:redlock:held', 'other', { px: 5000 });
+      await expect(locks.tryAcquire('redlock:held')).resolves.toBeNull();
+      await expect(a!.exists('_lock:redlock:held')).resolves.toBe(0);
+    });
+
+    it('runs @OnLeader on one instance and hands leadership over on resign', async () => {
+      // Given — a scheduler with leadership hooks, and a standby instance on the same keyspace
+      const hooks: string[] = [];
+      class Scheduler {
+        @OnLeader('billing-cron')
+        start(change: ILeadershipChange): void {
+          hooks.push(`start:${change.reason}`);
+        }
+
+        @OnFollower('billing-cron')
+        stop(change: ILeadershipChange): void {
+          hooks.push(`stop:${change.reason}`);
+        }
+      }
+      app = await Test.createTestingModule({
+        imports: [RedisModule.forRoot({ clients: { type: 'single', host: 'x', port: 1 }, global: { driver: MEMORY_DRIVER_TYPE }, plugins: [new LocksPlugin()] })],
+        providers: [Scheduler],
+      }).compile();
+      await app.init();
+      const election = app.get<ILeaderElectionService>(LEADER_ELECTION_SERVICE);
+      const standby = new LeaderElectionService({ leaderElection: { instanceId: 'standby', retryInterval: 20 } }, app.get(Symbol.for('LOCK_STORE')));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      // Then — the app instance won at bootstrap and is visible as the leader
+      expect(hooks).toEqual(['start:elected']);
+      await expect(election.getLeader('billing-cron')).resolves.toBe(election.instanceId);
+      await expect(standby.campaign('billing-cron')).resolves.toBe(false);
+
+      // When — the leader steps down
+      await election.resign('billing-cron');
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      // Then — the standby took over without waiting for the lease to expire
+      expect(hooks).toEqual(['start:elected', 'stop:resigned']);
+      expect(standby.isLeader('billing-cron')).toBe(true);
+      await expect(election.getLeader('billing-cron')).resolves.toBe('standby');
+      await standby.onModuleDestroy();
+    });
   });
 
   describe('CachePlugin', () => {
@@ -168,6 +437,342 @@ describe('Plugins on the in-memory driver (no Redis)', () => {
       const after = await rl.peek('ip:2');
       expect(before.remaining).toBe(after.remaining);
     });
+
+    it('spaces requests with GCRA after the burst and reports the exact wait', async () => {
+      // Given — 2 requests per minute (one every 30s), burst of 2
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin({ defaultAlgorithm: 'gcra', defaultPoints: 2, defaultDuration: 60 })],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+
+      // When / Then — the burst passes, the next request waits for one interval
+      expect(await rl.check('ip:3')).toMatchObject({ allowed: true, limit: 2, remaining: 1, current: 1 });
+      expect(await rl.check('ip:3')).toMatchObject({ allowed: true, remaining: 0 });
+      const third = await rl.check('ip:3');
+      expect(third).toMatchObject({ allowed: false, remaining: 0 });
+      expect(third.retryAfter).toBe(30);
+      expect((await rl.peek('ip:3')).remaining).toBe(0);
+    });
+
+    it('counts stacked limits atomically and reports the most restrictive tier', async () => {
+      // Given — 3 per minute AND 2 per hour
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const limits = [
+        { name: 'minute', points: 3, duration: 60 },
+        { name: 'hour', points: 2, duration: 3600, algorithm: 'fixed-window' as const },
+      ];
+
+      // When / Then — the hourly tier runs out first
+      expect(await rl.check('ip:4', { limits })).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+      expect(await rl.check('ip:4', { limits })).toMatchObject({ allowed: true, limit: 2, remaining: 0 });
+      const third = await rl.check('ip:4', { limits });
+      expect(third).toMatchObject({ allowed: false, limit: 2 });
+      expect(third.retryAfter).toBeGreaterThan(0);
+
+      // Then — the rejected request was not counted by the tier that allowed it
+      expect(third.tiers).toEqual([expect.objectContaining({ name: 'minute', allowed: true, current: 2, remaining: 1 }), expect.objectContaining({ name: 'hour', allowed: false, current: 2, remaining: 0 })]);
+    });
+
+    it('resets stacked tiers named in the config', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const limits = [
+        { name: 'minute', points: 1, duration: 60 },
+        { name: 'hour', points: 1, duration: 3600, algorithm: 'fixed-window' as const },
+      ];
+      await rl.check('ip:5', { limits });
+
+      // When
+      await rl.reset('ip:5', { limits });
+
+      // Then — both tiers start over
+      expect(await rl.check('ip:5', { limits })).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('queues outbound calls in a leaky bucket and rejects slots beyond maxWait', async () => {
+      // Given — 10 calls per second (one every 100ms), up to 3 in the bucket
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin({ defaultPoints: 10, defaultDuration: 1 })],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const config = { points: 10, duration: 1, capacity: 3 };
+
+      // When — three callers reserve consecutive slots
+      const started = Date.now();
+      const reservations = await Promise.all([rl.acquire('partner', config), rl.acquire('partner', config), rl.acquire('partner', config)]);
+
+      // Then — each waited one interval more than the previous one
+      expect(reservations.map((r) => r.current)).toEqual([1, 2, 3]);
+      expect(reservations[2]!.delay).toBeGreaterThanOrEqual(150);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+
+      // When / Then — the next slot is ~100ms away: too far for a check, near enough to wait for
+      expect(await rl.check('partner', { ...config, algorithm: 'leaky-bucket' })).toMatchObject({ allowed: false });
+      await expect(rl.acquire('partner', config, { maxWait: 10 })).rejects.toBeInstanceOf(RateLimitExceededError);
+      expect((await rl.acquire('partner', config, { maxWait: 200 })).allowed).toBe(true);
+    });
+
+    it('consumes weighted costs atomically and gives refunded points back', async () => {
+      // Given — 10 points per minute in every algorithm
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+
+      for (const algorithm of ['fixed-window', 'sliding-window', 'token-bucket'] as const) {
+        const config = { algorithm, points: 10, duration: 60 };
+
+        // When / Then — a cost of 6 fits once; the second is rejected without consuming
+        expect(await rl.check(`export:${algorithm}`, { ...config, cost: 6 })).toMatchObject({ allowed: true, remaining: 4 });
+        expect(await rl.check(`export:${algorithm}`, { ...config, cost: 6 })).toMatchObject({ allowed: false });
+        expect(await rl.check(`export:${algorithm}`, { ...config, cost: 4 })).toMatchObject({ allowed: true, remaining: 0 });
+
+        // When / Then — refunding 5 points makes room again
+        await rl.refund(`export:${algorithm}`, 5, config);
+        expect(await rl.check(`export:${algorithm}`, { ...config, cost: 5 })).toMatchObject({ allowed: true, remaining: 0 });
+      }
+
+      // When / Then — a large cost is logged in batches and counted in full
+      const bulk = { algorithm: 'sliding-window' as const, points: 1500, duration: 60 };
+      expect(await rl.check('export:bulk', { ...bulk, cost: 1200 })).toMatchObject({ allowed: true, remaining: 300, current: 1200 });
+      expect(await rl.check('export:bulk', { ...bulk, cost: 301 })).toMatchObject({ allowed: false, remaining: 300 });
+      expect(await rl.check('export:bulk', { ...bulk, limits: [{ name: 'minute', points: 1500, duration: 60 }], cost: 700 })).toMatchObject({ allowed: true, remaining: 800 });
+    });
+
+    it('resolves quota plans per key and lets an override in Redis replace them', async () => {
+      // Given — pro tenants get 1000 per minute, everyone else the decorator limit
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin({ quotas: { resolver: (key) => (key.startsWith('pro:') ? { points: 1000, duration: 60 } : null) } })],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+
+      // When / Then
+      expect(await rl.resolveQuota('pro:acme')).toEqual({ points: 1000, duration: 60 });
+      expect(await rl.resolveQuota('free:bob')).toBeNull();
+
+      // When — an admin raises one tenant's quota without a deploy
+      await rl.setQuota('free:bob', { points: 3, duration: 60 }, 3600);
+
+      // Then — the override applies at once and survives a JSON round-trip
+      const quota = await rl.resolveQuota('free:bob');
+      expect(quota).toEqual({ points: 3, duration: 60 });
+      expect(await rl.check('free:bob', { points: 1, duration: 60, ...quota })).toMatchObject({ allowed: true, limit: 3 });
+
+      // When / Then — deleting the override restores the plan
+      await rl.deleteQuota('free:bob');
+      expect(await rl.getQuota('free:bob')).toBeNull();
+      expect(await rl.resolveQuota('free:bob')).toBeNull();
+    });
+
+    it('caps in-flight requests with leased slots (Lua concurrency)', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+
+      // When — two slots taken, the third request is over the cap
+      const first = await rl.checkConcurrency('export:u1', { max: 2 });
+      const second = await rl.checkConcurrency('export:u1', { max: 2 });
+      const third = await rl.checkConcurrency('export:u1', { max: 2 });
+
+      // Then
+      expect(first).toMatchObject({ allowed: true, current: 1, remaining: 1 });
+      expect(second).toMatchObject({ allowed: true, current: 2, remaining: 0 });
+      expect(third).toMatchObject({ allowed: false, current: 2, retryAfter: 1 });
+
+      // When / Then — releasing a slot admits the next request
+      await rl.releaseConcurrency('export:u1', first.slot!);
+      expect(await rl.checkConcurrency('export:u1', { max: 2 })).toMatchObject({ allowed: true, current: 2 });
+
+      // When / Then — slots of a crashed holder free themselves after the lease
+      await rl.checkConcurrency('export:u2', { max: 1, lease: 50 });
+      expect(await rl.checkConcurrency('export:u2', { max: 1, lease: 50 })).toMatchObject({ allowed: false });
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(await rl.checkConcurrency('export:u2', { max: 1, lease: 50 })).toMatchObject({ allowed: true });
+    });
+
+    it('keeps a renewed concurrency slot past its first lease (Lua renewal)', async () => {
+      // Given
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const config = { max: 1, lease: 100 };
+      const held = await rl.checkConcurrency('export:u3', config);
+
+      // When
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const renewed = await rl.renewConcurrency('export:u3', held.slot!, config);
+      await new Promise((resolve) => setTimeout(resolve, 60));
+
+      // Then — still held 120ms after a 100ms lease was taken
+      expect(renewed).toBe(true);
+      expect(await rl.checkConcurrency('export:u3', config)).toMatchObject({ allowed: false });
+
+      // When / Then — a lapsed slot is not taken again
+      await new Promise((resolve) => setTimeout(resolve, 120));
+      expect(await rl.renewConcurrency('export:u3', held.slot!, config)).toBe(false);
+    });
+
+    it('serves checks from locally leased tokens without exceeding the limit', async () => {
+      // Given — 25 requests per minute, leased 10 at a time
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin({ preAllocation: { batchSize: 10, maxAge: 60000 } })],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+
+      // When
+      const results = [];
+      for (let i = 0; i < 30; i++) {
+        results.push(await rl.check('search:u1', { algorithm: 'fixed-window', points: 25, duration: 60 }));
+      }
+
+      // Then — exactly the limit is admitted from leases of 10, 10 and 5 tokens
+      expect(results.filter((result) => result.allowed)).toHaveLength(25);
+      expect(results[24]).toMatchObject({ allowed: true, remaining: 0 });
+      expect(rl.getPreAllocationStats()).toEqual({ localChecks: 22, remoteChecks: 8 });
+    });
+
+    it('bans repeat offenders for escalating durations (Lua penalty)', async () => {
+      // Given — 2 requests per minute; 3 rejections ban for 10s, then 20s
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const config = { algorithm: 'fixed-window' as const, points: 2, duration: 60, penalty: { threshold: 3, window: 60, duration: 10 } };
+
+      // When — the client keeps hammering after hitting the limit
+      const results = [];
+      for (let i = 0; i < 6; i++) {
+        results.push(await rl.check('login:mallory', config));
+      }
+
+      // Then — the third rejection bans the key; banned checks skip the limit
+      expect(results.map((result) => result.allowed)).toEqual([true, true, false, false, false, false]);
+      expect(results[3]!.banned).toBeUndefined();
+      expect(results[4]).toMatchObject({ banned: true, retryAfter: 10 });
+      expect(results[5]).toMatchObject({ banned: true, retryAfter: 10 });
+      expect(await rl.isBanned('login:mallory')).toBe(true);
+
+      // When — the first ban runs out and the client is banned again
+      const driver = await app.get<RedisClientManager>(CLIENT_MANAGER).getClient();
+      await driver.del('{rl:penalty:login:mallory}:ban');
+      for (let i = 0; i < 3; i++) {
+        await rl.check('login:mallory', config);
+      }
+
+      // Then — the second ban lasts twice as long
+      expect(await rl.check('login:mallory', config)).toMatchObject({ banned: true, retryAfter: 20 });
+
+      // When / Then — unban lifts the ban and forgets past bans
+      await rl.unban('login:mallory');
+      expect(await rl.isBanned('login:mallory')).toBe(false);
+
+      // When / Then — manual bans apply to checks with a penalty policy
+      await rl.ban('login:eve', 30);
+      expect(await rl.check('login:eve', config)).toMatchObject({ allowed: false, banned: true, retryAfter: 30 });
+    });
+
+    it('keeps escalating bans that last as long as the decay', async () => {
+      // Given — every rejection bans: 1s, then 2s at most; bans start over 1s after one ends
+      app = await Test.createTestingModule({
+        imports: [
+          RedisModule.forRoot({
+            clients: { type: 'single', host: 'x', port: 1 },
+            global: { driver: MEMORY_DRIVER_TYPE },
+            plugins: [new RateLimitPlugin()],
+          }),
+        ],
+      }).compile();
+      await app.init();
+      const rl = app.get<IRateLimitService>(RATE_LIMIT_SERVICE);
+      const config = { algorithm: 'fixed-window' as const, points: 1, duration: 60, penalty: { threshold: 1, window: 60, duration: 1, maxDuration: 2, decay: 1 } };
+      await rl.check('login:trudy', config);
+      expect(await rl.check('login:trudy', config)).toMatchObject({ banned: true, retryAfter: 1 });
+
+      // When — the client offends again right after the first ban ended
+      await new Promise((resolve) => setTimeout(resolve, 1100)); // ⚠ real timer
+
+      // Then — the ban level survived the ban, so the next ban escalates
+      expect(await rl.check('login:trudy', config)).toMatchObject({ banned: true, retryAfter: 2 });
+    });
   });
 
   describe('IdempotencyPlugin', () => {
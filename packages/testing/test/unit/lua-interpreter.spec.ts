@@ -102,6 +102,13 @@ describe('LuaInterpreter', () => {
     expect(call).toHaveBeenCalledWith('LRANGE', ['k', 0, -1]);
   });
 
+  it('expands a trailing unpack(t) into redis.call arguments', () => {
+    const call = vi.fn().mockReturnValue(2);
+    expect(run("local m = {}\nm[1] = 5\nm[2] = 'a'\nm[3] = 5\nm[4] = 'b'\nreturn redis.call('ZADD', KEYS[1], unpack(m))", ['k'], [], call)).toBe(2);
+    expect(call).toHaveBeenCalledWith('ZADD', ['k', 5, 'a', 5, 'b']);
+    expect(() => run("return redis.call('ZADD', 'k', unpack(1))")).toThrow(LuaExecutionError);
+  });
+
   it('flattens an object reply (HGETALL) into a [field, value, ...] array', () => {
     const call: RedisCallPort = () => ({ tokens: '5', last: '100' });
     expect(run("local h = redis.call('HGETALL', KEYS[1])\nreturn {h[1], h[2], h[3], h[4]}", ['k'], [], call)).toEqual(['tokens', '5', 'last', '100']);
@@ -329,6 +329,8 @@ export default withMermaid(
               { text: 'Configuration', link: '/en/reference/locks/configuration' },
               { text: '@WithLock Decorator', link: '/en/reference/locks/decorator' },
               { text: 'Service API', link: '/en/reference/locks/service-api' },
+              { text: 'Semaphore', link: '/en/reference/locks/semaphore' },
+              { text: 'Leader Election', link: '/en/reference/locks/leader-election' },
               { text: 'Auto-Renewal', link: '/en/reference/locks/auto-renewal' },
               { text: 'Retry Strategies', link: '/en/reference/locks/retry-strategies' },
               { text: 'Patterns', link: '/en/reference/locks/patterns' },